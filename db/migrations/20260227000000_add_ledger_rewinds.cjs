@@ -0,0 +1,42 @@
+/**
+ * Migration for ledger cursor rewinds.
+ * Records each admin-initiated rewind, lets processed_events rows be marked as
+ * superseded so their events can be reapplied, and adds a pending rewind marker
+ * to listener_state that a running listener picks up.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('ledger_rewinds', (table) => {
+    table.increments('id').primary()
+    table.string('service_name', 64).notNullable()
+    table.bigInteger('from_ledger').notNullable()
+    table.bigInteger('to_ledger').notNullable()
+    table.integer('superseded_events').notNullable().defaultTo(0)
+    table.text('reason').nullable()
+    table.string('requested_by', 255).notNullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('processed_events', (table) => {
+    table.timestamp('superseded_at', { useTz: true }).nullable()
+    table.integer('rewind_id').nullable().references('id').inTable('ledger_rewinds').onDelete('SET NULL')
+    table.index(['superseded_at'], 'idx_processed_events_superseded_at')
+  })
+
+  await knex.schema.alterTable('listener_state', (table) => {
+    table.bigInteger('rewind_to_ledger').nullable()
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('listener_state', (table) => {
+    table.dropColumn('rewind_to_ledger')
+  })
+
+  await knex.schema.alterTable('processed_events', (table) => {
+    table.dropIndex(['superseded_at'], 'idx_processed_events_superseded_at')
+    table.dropColumn('rewind_id')
+    table.dropColumn('superseded_at')
+  })
+
+  await knex.schema.dropTableIfExists('ledger_rewinds')
+}
@@ -0,0 +1,31 @@
+/**
+ * Migration for dead letter queue management.
+ * Denormalizes event_type and ledger_number out of failed_events.event_payload
+ * so the admin API can filter on them, and backfills existing rows.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('failed_events', (table) => {
+    table.string('event_type', 64).nullable()
+    table.bigInteger('ledger_number').nullable()
+  })
+
+  await knex.raw(`
+    UPDATE failed_events
+    SET event_type = event_payload->>'eventType',
+        ledger_number = (event_payload->>'ledgerNumber')::bigint
+  `)
+
+  await knex.schema.alterTable('failed_events', (table) => {
+    table.index(['event_type'], 'idx_failed_events_event_type')
+    table.index(['ledger_number'], 'idx_failed_events_ledger_number')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('failed_events', (table) => {
+    table.dropIndex(['ledger_number'], 'idx_failed_events_ledger_number')
+    table.dropIndex(['event_type'], 'idx_failed_events_event_type')
+    table.dropColumn('ledger_number')
+    table.dropColumn('event_type')
+  })
+}
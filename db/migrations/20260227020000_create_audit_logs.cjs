@@ -0,0 +1,32 @@
+/**
+ * Migration for audit_logs table.
+ * Persists the admin/system audit trail. Each row stores a SHA-256 hash that
+ * covers its own contents and the previous row's hash, forming a tamper-evident
+ * chain ordered by sequence.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('audit_logs', (table) => {
+    table.string('id', 64).primary()
+    table.bigIncrements('sequence', { primaryKey: false }).notNullable()
+    table.string('actor_user_id', 255).notNullable()
+    table.string('action', 128).notNullable()
+    table.string('target_type', 64).notNullable()
+    table.string('target_id', 255).notNullable()
+    table.jsonb('metadata').notNullable().defaultTo('{}')
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.string('prev_hash', 64).notNullable()
+    table.string('hash', 64).notNullable()
+  })
+
+  await knex.schema.alterTable('audit_logs', (table) => {
+    table.unique(['sequence'], 'idx_audit_logs_sequence')
+    table.index(['actor_user_id'], 'idx_audit_logs_actor_user_id')
+    table.index(['action'], 'idx_audit_logs_action')
+    table.index(['target_type', 'target_id'], 'idx_audit_logs_target')
+    table.index(['created_at'], 'idx_audit_logs_created_at')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('audit_logs')
+}
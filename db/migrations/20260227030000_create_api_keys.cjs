@@ -0,0 +1,32 @@
+/**
+ * Migration for api_keys table.
+ * Stores hashed API key secrets with optional expiry, rotation state
+ * (the previous secret stays valid until previous_key_expires_at) and usage tracking.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('api_keys', (table) => {
+    table.uuid('id').primary()
+    table.string('user_id', 255).nullable()
+    table.string('org_id', 255).nullable()
+    table.string('key_hash', 64).notNullable()
+    table.string('label', 255).notNullable()
+    table.jsonb('scopes').notNullable().defaultTo('[]')
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.timestamp('expires_at', { useTz: true }).nullable()
+    table.timestamp('revoked_at', { useTz: true }).nullable()
+    table.string('previous_key_hash', 64).nullable()
+    table.timestamp('previous_key_expires_at', { useTz: true }).nullable()
+    table.timestamp('rotated_at', { useTz: true }).nullable()
+    table.timestamp('last_used_at', { useTz: true }).nullable()
+    table.string('last_used_ip', 64).nullable()
+  })
+
+  await knex.schema.alterTable('api_keys', (table) => {
+    table.index(['user_id'], 'idx_api_keys_user_id')
+    table.index(['org_id'], 'idx_api_keys_org_id')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('api_keys')
+}
@@ -0,0 +1,17 @@
+/**
+ * Add org_id to vaults so organization vault listings and analytics
+ * can be served from the vaults table by the vault repository.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('vaults', (table) => {
+    table.string('org_id', 255).nullable()
+    table.index(['org_id'], 'idx_vaults_org_id')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('vaults', (table) => {
+    table.dropIndex(['org_id'], 'idx_vaults_org_id')
+    table.dropColumn('org_id')
+  })
+}
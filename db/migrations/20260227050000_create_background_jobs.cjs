@@ -0,0 +1,32 @@
+/**
+ * Migration for background_jobs table.
+ * Durable storage for the job queue: workers claim due rows with
+ * FOR UPDATE SKIP LOCKED and record attempts, retries and failures here.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('background_jobs', (table) => {
+    table.uuid('id').primary()
+    table.string('type', 64).notNullable()
+    table.jsonb('payload').notNullable()
+    table.string('status', 16).notNullable().defaultTo('queued')
+    table.integer('attempt').notNullable().defaultTo(0)
+    table.integer('max_attempts').notNullable().defaultTo(3)
+    table.timestamp('run_at', { useTz: true }).notNullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.string('locked_by', 255).nullable()
+    table.timestamp('locked_at', { useTz: true }).nullable()
+    table.timestamp('completed_at', { useTz: true }).nullable()
+    table.timestamp('failed_at', { useTz: true }).nullable()
+    table.integer('duration_ms').nullable()
+    table.text('last_error').nullable()
+  })
+
+  await knex.schema.alterTable('background_jobs', (table) => {
+    table.index(['status', 'run_at'], 'idx_background_jobs_status_run_at')
+    table.index(['type'], 'idx_background_jobs_type')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('background_jobs')
+}
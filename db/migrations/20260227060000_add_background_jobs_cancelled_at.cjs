@@ -0,0 +1,15 @@
+/**
+ * Migration adding cancellation time to background_jobs, set when an admin
+ * cancels a queued or delayed job.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('background_jobs', (table) => {
+    table.timestamp('cancelled_at', { useTz: true }).nullable()
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('background_jobs', (table) => {
+    table.dropColumn('cancelled_at')
+  })
+}
@@ -0,0 +1,23 @@
+/**
+ * Migration adding dedupe keys to background_jobs. The partial unique index
+ * guarantees at most one queued job per (type, dedupe_key) across workers.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('background_jobs', (table) => {
+    table.string('dedupe_key', 255).nullable()
+  })
+
+  await knex.raw(`
+    CREATE UNIQUE INDEX idx_background_jobs_dedupe
+    ON background_jobs (type, dedupe_key)
+    WHERE status = 'queued' AND dedupe_key IS NOT NULL
+  `)
+}
+
+exports.down = async function down(knex) {
+  await knex.raw('DROP INDEX IF EXISTS idx_background_jobs_dedupe')
+
+  await knex.schema.alterTable('background_jobs', (table) => {
+    table.dropColumn('dedupe_key')
+  })
+}
@@ -0,0 +1,35 @@
+/**
+ * Migration for notification delivery channels: per-user channel preferences
+ * and a log of every delivery attempt made by notification.send jobs.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('notification_preferences', (table) => {
+    table.string('user_id', 255).primary()
+    table.jsonb('channels').notNullable()
+    table.string('email', 255).nullable()
+    table.text('webhook_url').nullable()
+    table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.createTable('notification_deliveries', (table) => {
+    table.uuid('id').primary()
+    table.string('job_id', 64).notNullable()
+    table.integer('attempt').notNullable()
+    table.string('user_id', 255).nullable()
+    table.string('channel', 16).notNullable()
+    table.text('address').notNullable()
+    table.string('status', 16).notNullable()
+    table.text('error').nullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('notification_deliveries', (table) => {
+    table.index(['job_id'], 'idx_notification_deliveries_job_id')
+    table.index(['user_id', 'created_at'], 'idx_notification_deliveries_user_created')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('notification_deliveries')
+  await knex.schema.dropTableIfExists('notification_preferences')
+}
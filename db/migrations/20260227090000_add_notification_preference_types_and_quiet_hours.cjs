@@ -0,0 +1,21 @@
+/**
+ * Migration adding per-type channel choices, quiet hours and a timezone to
+ * notification_preferences.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('notification_preferences', (table) => {
+    table.jsonb('types').notNullable().defaultTo('{}')
+    table.string('quiet_hours_start', 5).nullable()
+    table.string('quiet_hours_end', 5).nullable()
+    table.string('timezone', 64).notNullable().defaultTo('UTC')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('notification_preferences', (table) => {
+    table.dropColumn('types')
+    table.dropColumn('quiet_hours_start')
+    table.dropColumn('quiet_hours_end')
+    table.dropColumn('timezone')
+  })
+}
@@ -0,0 +1,17 @@
+/**
+ * Migration adding archiving to notifications and an index for the
+ * newest-first, cursor-paginated inbox.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('notifications', (table) => {
+    table.timestamp('archived_at', { useTz: true }).nullable()
+    table.index(['user_id', 'created_at', 'id'], 'idx_notifications_user_created')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('notifications', (table) => {
+    table.dropIndex(['user_id', 'created_at', 'id'], 'idx_notifications_user_created')
+    table.dropColumn('archived_at')
+  })
+}
@@ -0,0 +1,19 @@
+/**
+ * Migration for deadline reminders. One row per reminder offset claimed for
+ * a vault or milestone deadline, so each reminder is sent at most once.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('deadline_reminders', (table) => {
+    table.string('reminder_key', 255).primary()
+    table.string('vault_id', 64).notNullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('deadline_reminders', (table) => {
+    table.index(['vault_id'], 'idx_deadline_reminders_vault_id')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('deadline_reminders')
+}
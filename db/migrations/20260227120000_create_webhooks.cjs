@@ -0,0 +1,59 @@
+/**
+ * Migration for outbound webhooks: subscriptions owned by a user or an
+ * organization, and a log of every delivery attempt made to them.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('webhook_subscriptions', (table) => {
+    table.uuid('id').primary()
+    table.string('user_id', 255).nullable()
+    table.string('org_id', 255).nullable()
+    table.text('url').notNullable()
+    table.string('secret', 128).notNullable()
+    table.jsonb('event_types').notNullable()
+    table.text('description').nullable()
+    table.boolean('active').notNullable().defaultTo(true)
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.timestamp('updated_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('webhook_subscriptions', (table) => {
+    table.index(['user_id'], 'idx_webhook_subscriptions_user_id')
+    table.index(['org_id'], 'idx_webhook_subscriptions_org_id')
+  })
+
+  await knex.raw(`
+    ALTER TABLE webhook_subscriptions
+    ADD CONSTRAINT webhook_subscriptions_single_owner
+    CHECK ((user_id IS NULL) <> (org_id IS NULL))
+  `)
+
+  await knex.schema.createTable('webhook_deliveries', (table) => {
+    table.uuid('id').primary()
+    table
+      .uuid('subscription_id')
+      .notNullable()
+      .references('id')
+      .inTable('webhook_subscriptions')
+      .onDelete('CASCADE')
+    table.string('event_id', 64).notNullable()
+    table.string('event_type', 64).notNullable()
+    table.jsonb('payload').notNullable()
+    table.string('status', 16).notNullable().defaultTo('pending')
+    table.integer('attempts').notNullable().defaultTo(0)
+    table.integer('response_status').nullable()
+    table.text('error').nullable()
+    table.uuid('replay_of').nullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.timestamp('last_attempt_at', { useTz: true }).nullable()
+    table.timestamp('delivered_at', { useTz: true }).nullable()
+  })
+
+  await knex.schema.alterTable('webhook_deliveries', (table) => {
+    table.index(['subscription_id', 'created_at'], 'idx_webhook_deliveries_subscription_created')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('webhook_deliveries')
+  await knex.schema.dropTableIfExists('webhook_subscriptions')
+}
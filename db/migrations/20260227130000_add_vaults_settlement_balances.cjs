@@ -0,0 +1,17 @@
+/**
+ * Track how much of each vault has been released to its success destination
+ * and redirected to its failure destination, milestone by milestone.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('vaults', (table) => {
+    table.decimal('released_amount', 36, 7).notNullable().defaultTo(0)
+    table.decimal('redirected_amount', 36, 7).notNullable().defaultTo(0)
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.alterTable('vaults', (table) => {
+    table.dropColumn('redirected_amount')
+    table.dropColumn('released_amount')
+  })
+}
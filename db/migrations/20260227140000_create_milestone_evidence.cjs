@@ -0,0 +1,30 @@
+/**
+ * Migration for milestone evidence. Text and links are stored inline; file
+ * bytes live in the evidence storage under `storage_key`.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('milestone_evidence', (table) => {
+    table.uuid('id').primary()
+    table.string('vault_id', 64).notNullable()
+    table.string('milestone_id', 64).notNullable()
+    table.string('submitted_by', 255).notNullable()
+    table.string('kind', 16).notNullable()
+    table.text('description').nullable()
+    table.text('text').nullable()
+    table.text('url').nullable()
+    table.string('file_name', 255).nullable()
+    table.string('content_type', 255).notNullable()
+    table.bigInteger('size').notNullable()
+    table.string('storage_key', 255).nullable()
+    table.string('content_hash', 64).notNullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('milestone_evidence', (table) => {
+    table.index(['milestone_id', 'created_at'], 'idx_milestone_evidence_milestone_created')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('milestone_evidence')
+}
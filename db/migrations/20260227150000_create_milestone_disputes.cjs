@@ -0,0 +1,37 @@
+/**
+ * Migration for milestone disputes: a vault creator's appeal against a
+ * verifier's rejection, and how an admin or second verifier resolved it.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('milestone_disputes', (table) => {
+    table.uuid('id').primary()
+    table.string('vault_id', 64).notNullable()
+    table.string('milestone_id', 64).notNullable()
+    table.string('decision_id', 64).notNullable()
+    table.string('verifier_id', 255).nullable()
+    table.string('opened_by', 255).notNullable()
+    table.text('statement').notNullable()
+    table.string('status', 16).notNullable().defaultTo('open')
+    table.string('adjudicator_id', 255).nullable()
+    table.text('resolution').nullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.timestamp('resolved_at', { useTz: true }).nullable()
+  })
+
+  await knex.schema.alterTable('milestone_disputes', (table) => {
+    table.index(['milestone_id'], 'idx_milestone_disputes_milestone_id')
+    table.index(['verifier_id', 'status'], 'idx_milestone_disputes_verifier_status')
+    table.unique(['decision_id'], { indexName: 'uq_milestone_disputes_decision_id' })
+  })
+
+  // At most one open dispute per milestone
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_milestone_disputes_open_milestone
+    ON milestone_disputes (milestone_id)
+    WHERE status = 'open'
+  `)
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('milestone_disputes')
+}
@@ -0,0 +1,35 @@
+/**
+ * Migration for verifier assignments: which approved verifier reviews a
+ * milestone, by when (the SLA deadline) and whether it was escalated.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('milestone_assignments', (table) => {
+    table.uuid('id').primary()
+    table.string('vault_id', 64).notNullable()
+    table.string('milestone_id', 64).notNullable()
+    table.string('verifier_id', 255).notNullable()
+    table.string('strategy', 16).notNullable()
+    table.string('assigned_by', 255).nullable()
+    table.string('status', 16).notNullable().defaultTo('active')
+    table.timestamp('due_at', { useTz: true }).notNullable()
+    table.timestamp('created_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+    table.timestamp('escalated_at', { useTz: true }).nullable()
+    table.timestamp('closed_at', { useTz: true }).nullable()
+  })
+
+  await knex.schema.alterTable('milestone_assignments', (table) => {
+    table.index(['verifier_id', 'status'], 'idx_milestone_assignments_verifier_status')
+    table.index(['status', 'due_at'], 'idx_milestone_assignments_status_due')
+  })
+
+  // At most one active or escalated assignment per milestone
+  await knex.raw(`
+    CREATE UNIQUE INDEX uq_milestone_assignments_open_milestone
+    ON milestone_assignments (milestone_id)
+    WHERE status IN ('active', 'escalated')
+  `)
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('milestone_assignments')
+}
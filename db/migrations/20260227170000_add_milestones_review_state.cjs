@@ -0,0 +1,52 @@
+/**
+ * Keep the review and settlement state of milestones in the milestones table
+ * next to the on-chain fields, and each review decision in
+ * milestone_decisions. Milestones added through the API may have no amount
+ * or due date.
+ */
+exports.up = async function up(knex) {
+  await knex.schema.alterTable('milestones', (table) => {
+    table.decimal('target_amount', 36, 7).nullable().alter()
+    table.timestamp('deadline', { useTz: true }).nullable().alter()
+    table.string('review_status', 16).notNullable().defaultTo('pending')
+    table.integer('resubmissions').notNullable().defaultTo(0)
+    table.timestamp('verified_at', { useTz: true }).nullable()
+    table.string('evidence_hash', 64).nullable()
+    table.string('release_status', 16).notNullable().defaultTo('pending')
+    table.timestamp('settled_at', { useTz: true }).nullable()
+  })
+
+  await knex.schema.alterTable('milestones', (table) => {
+    table.index(['release_status', 'deadline'], 'idx_milestones_release_status_deadline')
+  })
+
+  await knex.schema.createTable('milestone_decisions', (table) => {
+    table.uuid('id').primary()
+    table.string('milestone_id', 64).notNullable().references('id').inTable('milestones').onDelete('CASCADE')
+    table.string('status', 16).notNullable()
+    table.string('actor_id', 255).nullable()
+    table.text('reason').nullable()
+    table.string('evidence_hash', 64).nullable()
+    table.uuid('dispute_id').nullable()
+    table.timestamp('decided_at', { useTz: true }).notNullable().defaultTo(knex.fn.now())
+  })
+
+  await knex.schema.alterTable('milestone_decisions', (table) => {
+    table.index(['milestone_id', 'decided_at'], 'idx_milestone_decisions_milestone_decided')
+    table.index(['actor_id'], 'idx_milestone_decisions_actor_id')
+  })
+}
+
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('milestone_decisions')
+
+  await knex.schema.alterTable('milestones', (table) => {
+    table.dropIndex(['release_status', 'deadline'], 'idx_milestones_release_status_deadline')
+    table.dropColumn('settled_at')
+    table.dropColumn('release_status')
+    table.dropColumn('evidence_hash')
+    table.dropColumn('verified_at')
+    table.dropColumn('resubmissions')
+    table.dropColumn('review_status')
+  })
+}
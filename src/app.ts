@@ -17,7 +17,7 @@ const corsOptions: cors.CorsOptions = {
     }
   },
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'idempotency-key'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true,
 };
 
@@ -0,0 +1,61 @@
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { UserRole, UserStatus } from '../types/user.js'
+
+/**
+ * The verifiers milestones can be assigned to: those an admin approved with
+ * `POST /api/admin/verifiers/:userId/approve`.
+ */
+export interface VerifierPool {
+  /** User ids, sorted so round robin has a stable order */
+  listApproved(): Promise<string[]>
+  /** Active admins, who take over escalated reviews */
+  listAdmins(): Promise<string[]>
+}
+
+export class InMemoryVerifierPool implements VerifierPool {
+  constructor(
+    private readonly verifierIds: string[] = [],
+    private readonly adminIds: string[] = [],
+  ) {}
+
+  async listApproved(): Promise<string[]> {
+    return [...this.verifierIds].sort()
+  }
+
+  async listAdmins(): Promise<string[]> {
+    return [...this.adminIds].sort()
+  }
+}
+
+export class PostgresVerifierPool implements VerifierPool {
+  constructor(private readonly db: Knex) {}
+
+  async listApproved(): Promise<string[]> {
+    return this.db('verifiers').where({ status: 'approved' }).orderBy('user_id', 'asc').pluck('user_id')
+  }
+
+  async listAdmins(): Promise<string[]> {
+    return this.db('users')
+      .where({ role: UserRole.ADMIN, status: UserStatus.ACTIVE })
+      .orderBy('id', 'asc')
+      .pluck('id')
+  }
+}
+
+let pool: VerifierPool | null = null
+
+/**
+ * Verifier profiles only exist in the database, so without DATABASE_URL the
+ * pool is empty and milestones are not assigned.
+ */
+export const getVerifierPool = (): VerifierPool => {
+  if (!pool) {
+    pool = process.env.DATABASE_URL ? new PostgresVerifierPool(db) : new InMemoryVerifierPool()
+  }
+  return pool
+}
+
+export const setVerifierPool = (next: VerifierPool | null): void => {
+  pool = next
+}
@@ -0,0 +1,265 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { isUuid } from '../utils/ids.js'
+
+export type AssignmentStrategy = 'manual' | 'round_robin' | 'least_loaded'
+
+/**
+ * `active` until the assigned verifier decides (`completed`), an admin hands
+ * the milestone to someone else (`reassigned`) or the SLA lapses
+ * (`escalated`, after which only an admin can decide).
+ */
+export type AssignmentStatus = 'active' | 'completed' | 'escalated' | 'reassigned'
+
+export interface MilestoneAssignment {
+  id: string
+  vaultId: string
+  milestoneId: string
+  verifierId: string
+  strategy: AssignmentStrategy
+  /** The admin who assigned it; null for automatic assignments */
+  assignedBy: string | null
+  status: AssignmentStatus
+  /** SLA deadline for the verifier's decision */
+  dueAt: string
+  createdAt: string
+  escalatedAt: string | null
+  closedAt: string | null
+}
+
+export type NewMilestoneAssignment = Pick<
+  MilestoneAssignment,
+  'vaultId' | 'milestoneId' | 'verifierId' | 'strategy' | 'assignedBy' | 'dueAt'
+>
+
+export interface AssignmentFilter {
+  verifierId?: string
+  status?: AssignmentStatus
+}
+
+/** Assignments still waiting for a decision */
+export const OPEN_ASSIGNMENT_STATUSES: readonly AssignmentStatus[] = ['active', 'escalated']
+
+export interface MilestoneAssignmentStore {
+  create(input: NewMilestoneAssignment): Promise<MilestoneAssignment>
+  get(id: string): Promise<MilestoneAssignment | null>
+  /** The active or escalated assignment of a milestone */
+  getOpenForMilestone(milestoneId: string): Promise<MilestoneAssignment | null>
+  /** Soonest due first */
+  list(filter?: AssignmentFilter): Promise<MilestoneAssignment[]>
+  /** The most recently created assignment, which round robin continues from */
+  getLatest(): Promise<MilestoneAssignment | null>
+  /** Active assignments whose SLA deadline is at or before `now` */
+  listOverdue(now: Date): Promise<MilestoneAssignment[]>
+  /** Active assignments per verifier */
+  countActiveByVerifier(): Promise<Record<string, number>>
+  /**
+   * Move an assignment to `status` if it is currently in one of `from`.
+   * Returns null otherwise, so concurrent sweeps and decisions apply once.
+   */
+  updateStatus(id: string, status: AssignmentStatus, from: readonly AssignmentStatus[]): Promise<MilestoneAssignment | null>
+}
+
+const buildAssignment = (input: NewMilestoneAssignment): MilestoneAssignment => ({
+  id: randomUUID(),
+  ...input,
+  status: 'active',
+  createdAt: new Date().toISOString(),
+  escalatedAt: null,
+  closedAt: null,
+})
+
+export class InMemoryMilestoneAssignmentStore implements MilestoneAssignmentStore {
+  private readonly assignments = new Map<string, MilestoneAssignment>()
+
+  async create(input: NewMilestoneAssignment): Promise<MilestoneAssignment> {
+    const assignment = buildAssignment(input)
+    this.assignments.set(assignment.id, assignment)
+    return { ...assignment }
+  }
+
+  async get(id: string): Promise<MilestoneAssignment | null> {
+    const assignment = this.assignments.get(id)
+    return assignment ? { ...assignment } : null
+  }
+
+  async getOpenForMilestone(milestoneId: string): Promise<MilestoneAssignment | null> {
+    const assignment = [...this.assignments.values()].find(
+      (item) => item.milestoneId === milestoneId && OPEN_ASSIGNMENT_STATUSES.includes(item.status),
+    )
+    return assignment ? { ...assignment } : null
+  }
+
+  async list(filter: AssignmentFilter = {}): Promise<MilestoneAssignment[]> {
+    return [...this.assignments.values()]
+      .filter(
+        (item) =>
+          (!filter.verifierId || item.verifierId === filter.verifierId) &&
+          (!filter.status || item.status === filter.status),
+      )
+      .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt))
+      .map((item) => ({ ...item }))
+  }
+
+  async getLatest(): Promise<MilestoneAssignment | null> {
+    const latest = [...this.assignments.values()].pop()
+    return latest ? { ...latest } : null
+  }
+
+  async listOverdue(now: Date): Promise<MilestoneAssignment[]> {
+    return (await this.list({ status: 'active' })).filter((item) => Date.parse(item.dueAt) <= now.getTime())
+  }
+
+  async countActiveByVerifier(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {}
+    for (const item of this.assignments.values()) {
+      if (item.status === 'active') counts[item.verifierId] = (counts[item.verifierId] ?? 0) + 1
+    }
+    return counts
+  }
+
+  async updateStatus(
+    id: string,
+    status: AssignmentStatus,
+    from: readonly AssignmentStatus[],
+  ): Promise<MilestoneAssignment | null> {
+    const assignment = this.assignments.get(id)
+    if (!assignment || !from.includes(assignment.status)) return null
+
+    const now = new Date().toISOString()
+    assignment.status = status
+    if (status === 'escalated') assignment.escalatedAt = now
+    else if (status !== 'active') assignment.closedAt = now
+    return { ...assignment }
+  }
+}
+
+interface MilestoneAssignmentRow {
+  id: string
+  vault_id: string
+  milestone_id: string
+  verifier_id: string
+  strategy: AssignmentStrategy
+  assigned_by: string | null
+  status: AssignmentStatus
+  due_at: Date | string
+  created_at: Date | string
+  escalated_at: Date | string | null
+  closed_at: Date | string | null
+}
+
+const toIso = (value: Date | string | null): string | null => (value ? new Date(value).toISOString() : null)
+
+const mapAssignmentRow = (row: MilestoneAssignmentRow): MilestoneAssignment => ({
+  id: row.id,
+  vaultId: row.vault_id,
+  milestoneId: row.milestone_id,
+  verifierId: row.verifier_id,
+  strategy: row.strategy,
+  assignedBy: row.assigned_by,
+  status: row.status,
+  dueAt: new Date(row.due_at).toISOString(),
+  createdAt: new Date(row.created_at).toISOString(),
+  escalatedAt: toIso(row.escalated_at),
+  closedAt: toIso(row.closed_at),
+})
+
+export class PostgresMilestoneAssignmentStore implements MilestoneAssignmentStore {
+  constructor(private readonly db: Knex) {}
+
+  async create(input: NewMilestoneAssignment): Promise<MilestoneAssignment> {
+    const assignment = buildAssignment(input)
+    const [row] = await this.db('milestone_assignments')
+      .insert({
+        id: assignment.id,
+        vault_id: assignment.vaultId,
+        milestone_id: assignment.milestoneId,
+        verifier_id: assignment.verifierId,
+        strategy: assignment.strategy,
+        assigned_by: assignment.assignedBy,
+        status: assignment.status,
+        due_at: assignment.dueAt,
+      })
+      .returning('*')
+    return mapAssignmentRow(row)
+  }
+
+  async get(id: string): Promise<MilestoneAssignment | null> {
+    if (!isUuid(id)) return null
+    const row = await this.db('milestone_assignments').where({ id }).first()
+    return row ? mapAssignmentRow(row) : null
+  }
+
+  async getOpenForMilestone(milestoneId: string): Promise<MilestoneAssignment | null> {
+    const row = await this.db('milestone_assignments')
+      .where({ milestone_id: milestoneId })
+      .whereIn('status', OPEN_ASSIGNMENT_STATUSES)
+      .first()
+    return row ? mapAssignmentRow(row) : null
+  }
+
+  async list(filter: AssignmentFilter = {}): Promise<MilestoneAssignment[]> {
+    const query = this.db('milestone_assignments').orderBy('due_at', 'asc')
+    if (filter.verifierId) query.where({ verifier_id: filter.verifierId })
+    if (filter.status) query.where({ status: filter.status })
+
+    const rows: MilestoneAssignmentRow[] = await query
+    return rows.map(mapAssignmentRow)
+  }
+
+  async getLatest(): Promise<MilestoneAssignment | null> {
+    const row = await this.db('milestone_assignments').orderBy('created_at', 'desc').first()
+    return row ? mapAssignmentRow(row) : null
+  }
+
+  async listOverdue(now: Date): Promise<MilestoneAssignment[]> {
+    const rows: MilestoneAssignmentRow[] = await this.db('milestone_assignments')
+      .where({ status: 'active' })
+      .where('due_at', '<=', now)
+      .orderBy('due_at', 'asc')
+    return rows.map(mapAssignmentRow)
+  }
+
+  async countActiveByVerifier(): Promise<Record<string, number>> {
+    const rows: Array<{ verifier_id: string; count: string | number }> = await this.db('milestone_assignments')
+      .where({ status: 'active' })
+      .groupBy('verifier_id')
+      .select('verifier_id')
+      .count('id as count')
+    return Object.fromEntries(rows.map((row) => [row.verifier_id, Number(row.count)]))
+  }
+
+  async updateStatus(
+    id: string,
+    status: AssignmentStatus,
+    from: readonly AssignmentStatus[],
+  ): Promise<MilestoneAssignment | null> {
+    const now = new Date()
+    const [row] = await this.db('milestone_assignments')
+      .where({ id })
+      .whereIn('status', from)
+      .update({
+        status,
+        ...(status === 'escalated' ? { escalated_at: now } : {}),
+        ...(status !== 'active' && status !== 'escalated' ? { closed_at: now } : {}),
+      })
+      .returning('*')
+    return row ? mapAssignmentRow(row) : null
+  }
+}
+
+let store: MilestoneAssignmentStore | null = null
+
+export const getMilestoneAssignmentStore = (): MilestoneAssignmentStore => {
+  if (!store) {
+    store = process.env.DATABASE_URL
+      ? new PostgresMilestoneAssignmentStore(db)
+      : new InMemoryMilestoneAssignmentStore()
+  }
+  return store
+}
+
+export const setMilestoneAssignmentStore = (next: MilestoneAssignmentStore | null): void => {
+  store = next
+}
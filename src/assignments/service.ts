@@ -0,0 +1,191 @@
+import { notifyUser } from '../notifications/notify.js'
+import type { Milestone } from '../services/milestones.js'
+import type { Vault } from '../types/vaults.js'
+import { UserRole } from '../types/user.js'
+import { getVerifierPool } from './pool.js'
+import {
+  getMilestoneAssignmentStore,
+  OPEN_ASSIGNMENT_STATUSES,
+  type AssignmentStrategy,
+  type MilestoneAssignment,
+} from './records.js'
+
+export const AUTOMATIC_ASSIGNMENT_STRATEGIES: readonly AssignmentStrategy[] = ['round_robin', 'least_loaded']
+
+const DEFAULT_SLA_HOURS = 72
+
+export const getVerifierSlaMs = (): number => {
+  const hours = Number(process.env.VERIFIER_SLA_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SLA_HOURS) * 3_600_000
+}
+
+export const getDefaultAssignmentStrategy = (): AssignmentStrategy => {
+  const configured = process.env.VERIFIER_ASSIGNMENT_STRATEGY as AssignmentStrategy | undefined
+  return configured && AUTOMATIC_ASSIGNMENT_STRATEGIES.includes(configured) ? configured : 'least_loaded'
+}
+
+export const isApprovedVerifier = async (userId: string): Promise<boolean> =>
+  (await getVerifierPool().listApproved()).includes(userId)
+
+/**
+ * Choose an approved verifier other than those in `exclude`.
+ * Round robin continues after whoever was assigned last; least loaded picks
+ * the verifier with the fewest active assignments, in round robin order on ties.
+ *
+ * @returns Null when no approved verifier is available
+ */
+export const pickVerifier = async (strategy: AssignmentStrategy, exclude: string[] = []): Promise<string | null> => {
+  const candidates = (await getVerifierPool().listApproved()).filter((id) => !exclude.includes(id))
+  if (candidates.length === 0) return null
+
+  const store = getMilestoneAssignmentStore()
+  const last = (await store.getLatest())?.verifierId
+  const next = last ? candidates.findIndex((id) => id > last) : 0
+  const ordered = next > 0 ? [...candidates.slice(next), ...candidates.slice(0, next)] : candidates
+  if (strategy !== 'least_loaded') return ordered[0]
+
+  const load = await store.countActiveByVerifier()
+  return ordered.reduce((best, id) => ((load[id] ?? 0) < (load[best] ?? 0) ? id : best))
+}
+
+/**
+ * Assign a milestone to `verifierId`, replacing any assignment it still has.
+ * The verifier has VERIFIER_SLA_HOURS from now to decide.
+ */
+export const assignMilestone = async (
+  vault: Vault,
+  milestone: Milestone,
+  verifierId: string,
+  strategy: AssignmentStrategy,
+  assignedBy: string | null = null,
+): Promise<MilestoneAssignment> => {
+  const store = getMilestoneAssignmentStore()
+  const current = await store.getOpenForMilestone(milestone.id)
+  if (current) await store.updateStatus(current.id, 'reassigned', OPEN_ASSIGNMENT_STATUSES)
+
+  return store.create({
+    vaultId: vault.id,
+    milestoneId: milestone.id,
+    verifierId,
+    strategy,
+    assignedBy,
+    dueAt: new Date(Date.now() + getVerifierSlaMs()).toISOString(),
+  })
+}
+
+/**
+ * Assign a submitted milestone with the default strategy unless it already
+ * has an assignment. Never assigns the vault creator.
+ *
+ * @returns Null when no approved verifier is available
+ */
+export const autoAssignMilestone = async (vault: Vault, milestone: Milestone): Promise<MilestoneAssignment | null> => {
+  const current = await getMilestoneAssignmentStore().getOpenForMilestone(milestone.id)
+  if (current) return current
+
+  const strategy = getDefaultAssignmentStrategy()
+  const verifierId = await pickVerifier(strategy, [vault.creator])
+  return verifierId ? assignMilestone(vault, milestone, verifierId, strategy) : null
+}
+
+/**
+ * Why the user may not decide on the milestone, or null when they may.
+ * Nobody decides on milestones of their own vault. Unassigned milestones are
+ * open to any approved verifier; assigned ones only to the assignee, and
+ * escalated ones only to admins. Admins may decide on any other milestone.
+ */
+export const getDecisionAccessError = async (
+  vault: Vault,
+  milestoneId: string,
+  userId: string,
+  role: string,
+): Promise<string | null> => {
+  if (userId === vault.creator) return 'Vault creators cannot review their own milestones'
+  if (role === UserRole.ADMIN) return null
+
+  const assignment = await getMilestoneAssignmentStore().getOpenForMilestone(milestoneId)
+  if (!assignment) return (await isApprovedVerifier(userId)) ? null : 'Only approved verifiers can review milestones'
+  if (assignment.status === 'escalated') return 'Milestone review was escalated to an admin'
+  if (assignment.verifierId !== userId) return 'Milestone is assigned to another verifier'
+  return null
+}
+
+/**
+ * Close the milestone's assignment once a decision has been made on it
+ */
+export const completeMilestoneAssignment = async (milestoneId: string): Promise<MilestoneAssignment | null> => {
+  const store = getMilestoneAssignmentStore()
+  const assignment = await store.getOpenForMilestone(milestoneId)
+  return assignment ? store.updateStatus(assignment.id, 'completed', OPEN_ASSIGNMENT_STATUSES) : null
+}
+
+const notifyAdmins = async (assignment: MilestoneAssignment, adminIds: string[]): Promise<void> => {
+  for (const adminId of adminIds) {
+    try {
+      await notifyUser(
+        {
+          userId: adminId,
+          type: 'milestone_review_escalated',
+          subject: 'Milestone review escalated',
+          body: `Verifier ${assignment.verifierId} missed the ${assignment.dueAt} deadline to review milestone ${assignment.milestoneId}. It now needs an admin decision.`,
+          data: {
+            vaultId: assignment.vaultId,
+            milestoneId: assignment.milestoneId,
+            assignmentId: assignment.id,
+            verifierId: assignment.verifierId,
+          },
+        },
+        { dedupeKey: `milestone-escalated:${assignment.id}:${adminId}` },
+      )
+    } catch (error) {
+      console.error(`[Assignments] Failed to notify admin ${adminId} of escalated assignment ${assignment.id}:`, error)
+    }
+  }
+}
+
+/**
+ * Hand assignments whose SLA lapsed without a decision to the admins and
+ * notify each of them
+ */
+export const escalateOverdueAssignments = async (now = new Date()): Promise<MilestoneAssignment[]> => {
+  const store = getMilestoneAssignmentStore()
+  const escalated: MilestoneAssignment[] = []
+
+  for (const assignment of await store.listOverdue(now)) {
+    const updated = await store.updateStatus(assignment.id, 'escalated', ['active'])
+    if (updated) {
+      console.warn(
+        `[Assignments] Escalated milestone ${updated.milestoneId} to admins: verifier ${updated.verifierId} missed the ${updated.dueAt} deadline`,
+      )
+      escalated.push(updated)
+    }
+  }
+
+  if (escalated.length > 0) {
+    const adminIds = await getVerifierPool().listAdmins()
+    for (const assignment of escalated) await notifyAdmins(assignment, adminIds)
+  }
+
+  return escalated
+}
+
+export interface VerifierWorkload {
+  verifierId: string
+  active: number
+  overdue: number
+}
+
+export const getVerifierWorkloads = async (now = new Date()): Promise<VerifierWorkload[]> => {
+  const store = getMilestoneAssignmentStore()
+  const [verifierIds, active, overdue] = await Promise.all([
+    getVerifierPool().listApproved(),
+    store.countActiveByVerifier(),
+    store.listOverdue(now),
+  ])
+
+  return verifierIds.map((verifierId) => ({
+    verifierId,
+    active: active[verifierId] ?? 0,
+    overdue: overdue.filter((assignment) => assignment.verifierId === verifierId).length,
+  }))
+}
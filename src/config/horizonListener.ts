@@ -7,8 +7,15 @@
  * - START_LEDGER: Initial ledger to start from if no cursor exists (optional)
  * - RETRY_MAX_ATTEMPTS: Maximum retry attempts for transient errors (optional, default: 3)
  * - RETRY_BACKOFF_MS: Initial backoff delay in milliseconds (optional, default: 100)
+ * - EVENT_SOURCE: Event source implementation, 'rpc' or 'replay' (optional, default: rpc)
+ * - SOROBAN_RPC_URL: Soroban RPC endpoint for the rpc source (optional, default: HORIZON_URL)
+ * - REPLAY_FILE: Path to a JSONL file of events for the replay source (required when EVENT_SOURCE=replay)
+ * - EVENT_POLL_INTERVAL_MS: Delay between polls once caught up (optional, default: 5000)
+ * - RECONNECT_BACKOFF_MS: Initial reconnect backoff in milliseconds (optional, default: 1000)
  */
 
+export type EventSourceKind = 'rpc' | 'replay'
+
 export interface HorizonListenerConfig {
   horizonUrl: string
   contractAddresses: string[]
@@ -16,6 +23,11 @@ export interface HorizonListenerConfig {
   retryMaxAttempts: number
   retryBackoffMs: number
   shutdownTimeoutMs: number
+  eventSource?: EventSourceKind
+  rpcUrl?: string
+  replayFile?: string
+  pollIntervalMs?: number
+  reconnectBackoffMs?: number
 }
 
 /**
@@ -28,6 +40,9 @@ export function loadHorizonListenerConfig(): HorizonListenerConfig {
   const startLedgerRaw = process.env.START_LEDGER
   const retryMaxAttemptsRaw = process.env.RETRY_MAX_ATTEMPTS
   const retryBackoffMsRaw = process.env.RETRY_BACKOFF_MS
+  const eventSourceRaw = process.env.EVENT_SOURCE
+  const pollIntervalMsRaw = process.env.EVENT_POLL_INTERVAL_MS
+  const reconnectBackoffMsRaw = process.env.RECONNECT_BACKOFF_MS
 
   // Parse CONTRACT_ADDRESS as comma-separated list
   const contractAddresses = contractAddressRaw
@@ -39,6 +54,8 @@ export function loadHorizonListenerConfig(): HorizonListenerConfig {
   const retryMaxAttempts = retryMaxAttemptsRaw ? parseInt(retryMaxAttemptsRaw, 10) : 3
   const retryBackoffMs = retryBackoffMsRaw ? parseInt(retryBackoffMsRaw, 10) : 100
   const shutdownTimeoutMs = 30000 // 30 seconds default
+  const pollIntervalMs = pollIntervalMsRaw ? parseInt(pollIntervalMsRaw, 10) : 5000
+  const reconnectBackoffMs = reconnectBackoffMsRaw ? parseInt(reconnectBackoffMsRaw, 10) : 1000
 
   return {
     horizonUrl: horizonUrl ?? '',
@@ -47,6 +64,11 @@ export function loadHorizonListenerConfig(): HorizonListenerConfig {
     retryMaxAttempts,
     retryBackoffMs,
     shutdownTimeoutMs,
+    eventSource: (eventSourceRaw?.trim() || 'rpc') as EventSourceKind,
+    rpcUrl: process.env.SOROBAN_RPC_URL?.trim() || undefined,
+    replayFile: process.env.REPLAY_FILE?.trim() || undefined,
+    pollIntervalMs,
+    reconnectBackoffMs,
   }
 }
 
@@ -57,11 +79,21 @@ export function loadHorizonListenerConfig(): HorizonListenerConfig {
 export function validateHorizonListenerConfig(config: HorizonListenerConfig): void {
   const errors: string[] = []
 
+  const eventSource = config.eventSource ?? 'rpc'
+
   // Check required fields
-  if (!config.horizonUrl || config.horizonUrl.trim().length === 0) {
+  if (eventSource !== 'rpc' && eventSource !== 'replay') {
+    errors.push(`EVENT_SOURCE must be 'rpc' or 'replay', got '${eventSource}'`)
+  }
+
+  if (eventSource === 'rpc' && !config.rpcUrl && (!config.horizonUrl || config.horizonUrl.trim().length === 0)) {
     errors.push('HORIZON_URL is required but not set')
   }
 
+  if (eventSource === 'replay' && !config.replayFile) {
+    errors.push('REPLAY_FILE is required when EVENT_SOURCE=replay')
+  }
+
   if (!config.contractAddresses || config.contractAddresses.length === 0) {
     errors.push('CONTRACT_ADDRESS is required but not set or empty')
   }
@@ -79,6 +111,14 @@ export function validateHorizonListenerConfig(config: HorizonListenerConfig): vo
     errors.push('RETRY_BACKOFF_MS must be a non-negative number')
   }
 
+  if (config.pollIntervalMs !== undefined && (isNaN(config.pollIntervalMs) || config.pollIntervalMs < 0)) {
+    errors.push('EVENT_POLL_INTERVAL_MS must be a non-negative number')
+  }
+
+  if (config.reconnectBackoffMs !== undefined && (isNaN(config.reconnectBackoffMs) || config.reconnectBackoffMs < 0)) {
+    errors.push('RECONNECT_BACKOFF_MS must be a non-negative number')
+  }
+
   // If validation fails, log errors and exit
   if (errors.length > 0) {
     console.error('Configuration validation failed:')
@@ -0,0 +1,225 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { isUuid } from '../utils/ids.js'
+
+export type DisputeStatus = 'open' | 'upheld' | 'overturned'
+export type DisputeOutcome = Exclude<DisputeStatus, 'open'>
+
+/**
+ * A vault creator's appeal against a verifier's rejection of a milestone.
+ * `upheld` keeps the rejection, `overturned` approves the milestone.
+ */
+export interface MilestoneDispute {
+  id: string
+  vaultId: string
+  milestoneId: string
+  /** The milestone history entry being disputed */
+  decisionId: string
+  /** The verifier who made the disputed decision */
+  verifierId: string | null
+  openedBy: string
+  statement: string
+  status: DisputeStatus
+  adjudicatorId: string | null
+  resolution: string | null
+  createdAt: string
+  resolvedAt: string | null
+}
+
+export type NewMilestoneDispute = Pick<
+  MilestoneDispute,
+  'vaultId' | 'milestoneId' | 'decisionId' | 'verifierId' | 'openedBy' | 'statement'
+>
+
+export interface DisputeResolution {
+  outcome: DisputeOutcome
+  adjudicatorId: string
+  resolution: string | null
+}
+
+export interface DisputeFilter {
+  milestoneId?: string
+  status?: DisputeStatus
+  verifierId?: string
+}
+
+export type DisputeOutcomeCounts = Record<DisputeStatus, number>
+
+export interface MilestoneDisputeStore {
+  create(input: NewMilestoneDispute): Promise<MilestoneDispute>
+  get(id: string): Promise<MilestoneDispute | null>
+  /** Newest first */
+  list(filter?: DisputeFilter): Promise<MilestoneDispute[]>
+  /** Returns null unless the dispute exists and is still open, so each dispute is resolved once */
+  resolve(id: string, resolution: DisputeResolution): Promise<MilestoneDispute | null>
+  /** Disputes against a verifier's decisions, by status */
+  countByVerifier(verifierId: string): Promise<DisputeOutcomeCounts>
+}
+
+const emptyCounts = (): DisputeOutcomeCounts => ({ open: 0, upheld: 0, overturned: 0 })
+
+const buildDispute = (input: NewMilestoneDispute): MilestoneDispute => ({
+  id: randomUUID(),
+  ...input,
+  status: 'open',
+  adjudicatorId: null,
+  resolution: null,
+  createdAt: new Date().toISOString(),
+  resolvedAt: null,
+})
+
+export class InMemoryMilestoneDisputeStore implements MilestoneDisputeStore {
+  private readonly disputes = new Map<string, MilestoneDispute>()
+
+  async create(input: NewMilestoneDispute): Promise<MilestoneDispute> {
+    const dispute = buildDispute(input)
+    this.disputes.set(dispute.id, dispute)
+    return { ...dispute }
+  }
+
+  async get(id: string): Promise<MilestoneDispute | null> {
+    const dispute = this.disputes.get(id)
+    return dispute ? { ...dispute } : null
+  }
+
+  async list(filter: DisputeFilter = {}): Promise<MilestoneDispute[]> {
+    return [...this.disputes.values()]
+      .filter(
+        (dispute) =>
+          (!filter.milestoneId || dispute.milestoneId === filter.milestoneId) &&
+          (!filter.status || dispute.status === filter.status) &&
+          (!filter.verifierId || dispute.verifierId === filter.verifierId),
+      )
+      .reverse()
+      .map((dispute) => ({ ...dispute }))
+  }
+
+  async resolve(id: string, resolution: DisputeResolution): Promise<MilestoneDispute | null> {
+    const dispute = this.disputes.get(id)
+    if (!dispute || dispute.status !== 'open') return null
+
+    Object.assign(dispute, {
+      status: resolution.outcome,
+      adjudicatorId: resolution.adjudicatorId,
+      resolution: resolution.resolution,
+      resolvedAt: new Date().toISOString(),
+    })
+    return { ...dispute }
+  }
+
+  async countByVerifier(verifierId: string): Promise<DisputeOutcomeCounts> {
+    const counts = emptyCounts()
+    for (const dispute of this.disputes.values()) {
+      if (dispute.verifierId === verifierId) counts[dispute.status] += 1
+    }
+    return counts
+  }
+}
+
+interface MilestoneDisputeRow {
+  id: string
+  vault_id: string
+  milestone_id: string
+  decision_id: string
+  verifier_id: string | null
+  opened_by: string
+  statement: string
+  status: DisputeStatus
+  adjudicator_id: string | null
+  resolution: string | null
+  created_at: Date | string
+  resolved_at: Date | string | null
+}
+
+const mapDisputeRow = (row: MilestoneDisputeRow): MilestoneDispute => ({
+  id: row.id,
+  vaultId: row.vault_id,
+  milestoneId: row.milestone_id,
+  decisionId: row.decision_id,
+  verifierId: row.verifier_id,
+  openedBy: row.opened_by,
+  statement: row.statement,
+  status: row.status,
+  adjudicatorId: row.adjudicator_id,
+  resolution: row.resolution,
+  createdAt: new Date(row.created_at).toISOString(),
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at).toISOString() : null,
+})
+
+export class PostgresMilestoneDisputeStore implements MilestoneDisputeStore {
+  constructor(private readonly db: Knex) {}
+
+  async create(input: NewMilestoneDispute): Promise<MilestoneDispute> {
+    const dispute = buildDispute(input)
+
+    const [row] = await this.db('milestone_disputes')
+      .insert({
+        id: dispute.id,
+        vault_id: dispute.vaultId,
+        milestone_id: dispute.milestoneId,
+        decision_id: dispute.decisionId,
+        verifier_id: dispute.verifierId,
+        opened_by: dispute.openedBy,
+        statement: dispute.statement,
+        status: dispute.status,
+        created_at: dispute.createdAt,
+      })
+      .returning('*')
+    return mapDisputeRow(row)
+  }
+
+  async get(id: string): Promise<MilestoneDispute | null> {
+    if (!isUuid(id)) return null
+    const row = await this.db('milestone_disputes').where({ id }).first()
+    return row ? mapDisputeRow(row) : null
+  }
+
+  async list(filter: DisputeFilter = {}): Promise<MilestoneDispute[]> {
+    const query = this.db('milestone_disputes').orderBy('created_at', 'desc')
+    if (filter.milestoneId) query.where({ milestone_id: filter.milestoneId })
+    if (filter.status) query.where({ status: filter.status })
+    if (filter.verifierId) query.where({ verifier_id: filter.verifierId })
+
+    const rows: MilestoneDisputeRow[] = await query
+    return rows.map(mapDisputeRow)
+  }
+
+  async resolve(id: string, resolution: DisputeResolution): Promise<MilestoneDispute | null> {
+    const [row] = await this.db('milestone_disputes')
+      .where({ id, status: 'open' })
+      .update({
+        status: resolution.outcome,
+        adjudicator_id: resolution.adjudicatorId,
+        resolution: resolution.resolution,
+        resolved_at: new Date(),
+      })
+      .returning('*')
+    return row ? mapDisputeRow(row) : null
+  }
+
+  async countByVerifier(verifierId: string): Promise<DisputeOutcomeCounts> {
+    const rows: Array<{ status: DisputeStatus; count: string | number }> = await this.db('milestone_disputes')
+      .where({ verifier_id: verifierId })
+      .groupBy('status')
+      .select('status')
+      .count('id as count')
+
+    const counts = emptyCounts()
+    for (const row of rows) counts[row.status] = Number(row.count)
+    return counts
+  }
+}
+
+let store: MilestoneDisputeStore | null = null
+
+export const getMilestoneDisputeStore = (): MilestoneDisputeStore => {
+  if (!store) {
+    store = process.env.DATABASE_URL ? new PostgresMilestoneDisputeStore(db) : new InMemoryMilestoneDisputeStore()
+  }
+  return store
+}
+
+export const setMilestoneDisputeStore = (next: MilestoneDisputeStore | null): void => {
+  store = next
+}
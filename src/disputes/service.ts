@@ -0,0 +1,118 @@
+import { applyMilestoneApproval, type MilestoneApprovalOutcome } from '../services/milestoneApprovals.js'
+import {
+  getLatestMilestoneDecision,
+  getMilestoneById,
+  overturnMilestoneRejection,
+  type Milestone,
+} from '../services/milestones.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { settleVault } from '../services/vaultReleases.js'
+import type { Vault } from '../types/vaults.js'
+import {
+  getMilestoneDisputeStore,
+  type DisputeOutcome,
+  type MilestoneDispute,
+} from './records.js'
+
+/**
+ * Why the milestone's latest decision cannot be disputed, or null when it can.
+ * Only rejections are disputed, each at most once, one dispute at a time.
+ */
+export const getDisputeOpenError = async (vault: Vault, milestone: Milestone): Promise<string | null> => {
+  if (vault.status !== 'active') return 'Cannot dispute milestones of a non-active vault'
+
+  const decision = getLatestMilestoneDecision(milestone)
+  if (milestone.status !== 'rejected' || decision?.status !== 'rejected') {
+    return 'Only a rejected milestone can be disputed'
+  }
+
+  if (milestone.releaseStatus !== 'pending') {
+    return 'Milestone amount has already moved'
+  }
+
+  const disputes = await getMilestoneDisputeStore().list({ milestoneId: milestone.id })
+  if (disputes.some((dispute) => dispute.status === 'open')) return 'Milestone already has an open dispute'
+  if (disputes.some((dispute) => dispute.decisionId === decision.id)) return 'This rejection has already been disputed'
+
+  return null
+}
+
+export const openDispute = async (
+  vault: Vault,
+  milestone: Milestone,
+  openedBy: string,
+  statement: string,
+): Promise<MilestoneDispute> => {
+  const decision = getLatestMilestoneDecision(milestone)!
+  return getMilestoneDisputeStore().create({
+    vaultId: vault.id,
+    milestoneId: milestone.id,
+    decisionId: decision.id,
+    verifierId: decision.actorId,
+    openedBy,
+    statement,
+  })
+}
+
+export const hasOpenDispute = async (milestoneId: string): Promise<boolean> =>
+  (await getMilestoneDisputeStore().list({ milestoneId, status: 'open' })).length > 0
+
+export interface DisputeResolutionResult {
+  dispute: MilestoneDispute
+  milestone: Milestone | null
+  /** Set when the rejection was overturned */
+  approval: MilestoneApprovalOutcome | null
+}
+
+/**
+ * Close a dispute. Overturning approves the milestone as if a verifier had,
+ * releasing its amount and completing the vault when it was the last one.
+ * Upholding it settles the amount a vault that has since ended held back.
+ *
+ * @returns Null when the dispute was already resolved
+ */
+export const resolveDispute = async (
+  dispute: MilestoneDispute,
+  outcome: DisputeOutcome,
+  adjudicatorId: string,
+  resolution: string | null,
+): Promise<DisputeResolutionResult | null> => {
+  const resolved = await getMilestoneDisputeStore().resolve(dispute.id, { outcome, adjudicatorId, resolution })
+  if (!resolved) return null
+
+  const current = await getMilestoneById(dispute.milestoneId)
+  if (outcome === 'upheld') {
+    // The vault ended while the dispute was open and held on to the milestone's amount
+    const vault = await getVaultRepository().getById(dispute.vaultId)
+    if (vault?.status === 'failed' || vault?.status === 'completed') await settleVault(vault, vault.status)
+    return { dispute: resolved, milestone: current, approval: null }
+  }
+
+  // Approve against the evidence the rejected decision was made on
+  const disputed = current?.history.find((entry) => entry.id === dispute.decisionId)
+  const milestone = await overturnMilestoneRejection(dispute.milestoneId, {
+    actorId: adjudicatorId,
+    reason: resolution,
+    evidenceHash: disputed?.evidenceHash ?? null,
+    disputeId: dispute.id,
+  })
+  const vault = await getVaultRepository().getById(dispute.vaultId)
+  const approval = milestone && vault ? await applyMilestoneApproval(vault, milestone, { disputeId: dispute.id }) : null
+
+  return { dispute: resolved, milestone, approval }
+}
+
+export interface VerifierDisputeStats {
+  disputesOpen: number
+  disputesUpheld: number
+  disputesOverturned: number
+}
+
+export const getVerifierDisputeStats = async (verifierId: string): Promise<VerifierDisputeStats> => {
+  const counts = await getMilestoneDisputeStore().countByVerifier(verifierId)
+  return {
+    disputesOpen: counts.open,
+    disputesUpheld: counts.upheld,
+    disputesOverturned: counts.overturned,
+  }
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'node:crypto'
+
+/**
+ * Hex SHA-256 of one piece of evidence: the UTF-8 text, the UTF-8 URL of a
+ * link, or the raw bytes of a file.
+ */
+export const hashEvidenceContent = (content: Buffer | string): string =>
+  createHash('sha256').update(content).digest('hex')
+
+/**
+ * The milestone's `evidence_hash` as submitted on-chain (32 bytes, hex): the
+ * SHA-256 of the item hashes' raw bytes concatenated in submission order.
+ * Null when nothing was submitted.
+ */
+export const hashMilestoneEvidence = (contentHashes: string[]): string | null => {
+  if (contentHashes.length === 0) return null
+
+  const hash = createHash('sha256')
+  for (const contentHash of contentHashes) {
+    hash.update(Buffer.from(contentHash, 'hex'))
+  }
+  return hash.digest('hex')
+}
@@ -0,0 +1,169 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { isUuid } from '../utils/ids.js'
+
+export type EvidenceKind = 'text' | 'link' | 'file'
+
+export interface MilestoneEvidence {
+  id: string
+  vaultId: string
+  milestoneId: string
+  submittedBy: string
+  kind: EvidenceKind
+  description: string | null
+  /** Set for text evidence */
+  text: string | null
+  /** Set for link evidence */
+  url: string | null
+  /** File evidence only */
+  fileName: string | null
+  contentType: string
+  /** Content length in bytes */
+  size: number
+  /** Where a file's bytes live in the evidence storage */
+  storageKey: string | null
+  contentHash: string
+  createdAt: string
+}
+
+export type PublicMilestoneEvidence = Omit<MilestoneEvidence, 'storageKey'>
+
+export const toPublicMilestoneEvidence = (evidence: MilestoneEvidence): PublicMilestoneEvidence => ({
+  id: evidence.id,
+  vaultId: evidence.vaultId,
+  milestoneId: evidence.milestoneId,
+  submittedBy: evidence.submittedBy,
+  kind: evidence.kind,
+  description: evidence.description,
+  text: evidence.text,
+  url: evidence.url,
+  fileName: evidence.fileName,
+  contentType: evidence.contentType,
+  size: evidence.size,
+  contentHash: evidence.contentHash,
+  createdAt: evidence.createdAt,
+})
+
+export type NewMilestoneEvidence = Omit<MilestoneEvidence, 'id' | 'createdAt'> & { id?: string }
+
+export interface MilestoneEvidenceStore {
+  create(input: NewMilestoneEvidence): Promise<MilestoneEvidence>
+  get(id: string): Promise<MilestoneEvidence | null>
+  /** Oldest first, which is the order the milestone evidence hash uses */
+  listByMilestone(milestoneId: string): Promise<MilestoneEvidence[]>
+}
+
+const buildEvidence = (input: NewMilestoneEvidence): MilestoneEvidence => ({
+  ...input,
+  id: input.id ?? randomUUID(),
+  createdAt: new Date().toISOString(),
+})
+
+export class InMemoryMilestoneEvidenceStore implements MilestoneEvidenceStore {
+  private readonly evidence = new Map<string, MilestoneEvidence>()
+
+  async create(input: NewMilestoneEvidence): Promise<MilestoneEvidence> {
+    const evidence = buildEvidence(input)
+    this.evidence.set(evidence.id, evidence)
+    return { ...evidence }
+  }
+
+  async get(id: string): Promise<MilestoneEvidence | null> {
+    const evidence = this.evidence.get(id)
+    return evidence ? { ...evidence } : null
+  }
+
+  async listByMilestone(milestoneId: string): Promise<MilestoneEvidence[]> {
+    return [...this.evidence.values()]
+      .filter((evidence) => evidence.milestoneId === milestoneId)
+      .map((evidence) => ({ ...evidence }))
+  }
+}
+
+interface MilestoneEvidenceRow {
+  id: string
+  vault_id: string
+  milestone_id: string
+  submitted_by: string
+  kind: EvidenceKind
+  description: string | null
+  text: string | null
+  url: string | null
+  file_name: string | null
+  content_type: string
+  size: number | string
+  storage_key: string | null
+  content_hash: string
+  created_at: Date | string
+}
+
+const mapEvidenceRow = (row: MilestoneEvidenceRow): MilestoneEvidence => ({
+  id: row.id,
+  vaultId: row.vault_id,
+  milestoneId: row.milestone_id,
+  submittedBy: row.submitted_by,
+  kind: row.kind,
+  description: row.description,
+  text: row.text,
+  url: row.url,
+  fileName: row.file_name,
+  contentType: row.content_type,
+  size: Number(row.size),
+  storageKey: row.storage_key,
+  contentHash: row.content_hash,
+  createdAt: new Date(row.created_at).toISOString(),
+})
+
+export class PostgresMilestoneEvidenceStore implements MilestoneEvidenceStore {
+  constructor(private readonly db: Knex) {}
+
+  async create(input: NewMilestoneEvidence): Promise<MilestoneEvidence> {
+    // created_at comes from the database so its microseconds keep submissions ordered
+    const evidence = buildEvidence(input)
+    const [row] = await this.db('milestone_evidence')
+      .insert({
+        id: evidence.id,
+        vault_id: evidence.vaultId,
+        milestone_id: evidence.milestoneId,
+        submitted_by: evidence.submittedBy,
+        kind: evidence.kind,
+        description: evidence.description,
+        text: evidence.text,
+        url: evidence.url,
+        file_name: evidence.fileName,
+        content_type: evidence.contentType,
+        size: evidence.size,
+        storage_key: evidence.storageKey,
+        content_hash: evidence.contentHash,
+      })
+      .returning('*')
+    return mapEvidenceRow(row)
+  }
+
+  async get(id: string): Promise<MilestoneEvidence | null> {
+    if (!isUuid(id)) return null
+    const row = await this.db('milestone_evidence').where({ id }).first()
+    return row ? mapEvidenceRow(row) : null
+  }
+
+  async listByMilestone(milestoneId: string): Promise<MilestoneEvidence[]> {
+    const rows: MilestoneEvidenceRow[] = await this.db('milestone_evidence')
+      .where({ milestone_id: milestoneId })
+      .orderBy([{ column: 'created_at' }, { column: 'id' }])
+    return rows.map(mapEvidenceRow)
+  }
+}
+
+let store: MilestoneEvidenceStore | null = null
+
+export const getMilestoneEvidenceStore = (): MilestoneEvidenceStore => {
+  if (!store) {
+    store = process.env.DATABASE_URL ? new PostgresMilestoneEvidenceStore(db) : new InMemoryMilestoneEvidenceStore()
+  }
+  return store
+}
+
+export const setMilestoneEvidenceStore = (next: MilestoneEvidenceStore | null): void => {
+  store = next
+}
@@ -0,0 +1,118 @@
+import { randomUUID } from 'node:crypto'
+import { hashEvidenceContent, hashMilestoneEvidence } from './hashing.js'
+import { getMilestoneEvidenceStore, type MilestoneEvidence } from './records.js'
+import { getEvidenceStorage } from './storage.js'
+
+export const MAX_EVIDENCE_PER_MILESTONE = 20
+export const MAX_EVIDENCE_TEXT_LENGTH = 10_000
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024
+
+export const getMaxEvidenceFileBytes = (): number => {
+  const configured = Number(process.env.EVIDENCE_MAX_FILE_BYTES)
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_FILE_BYTES
+}
+
+interface EvidenceSubmissionBase {
+  vaultId: string
+  milestoneId: string
+  submittedBy: string
+  description?: string | null
+}
+
+export type EvidenceSubmission = EvidenceSubmissionBase &
+  (
+    | { kind: 'text'; text: string }
+    | { kind: 'link'; url: string }
+    | { kind: 'file'; fileName: string; contentType: string; content: Buffer }
+  )
+
+/**
+ * Stored evidence whose bytes no longer match the hash taken at submission.
+ */
+export class EvidenceIntegrityError extends Error {
+  constructor(evidenceId: string) {
+    super(`Stored content of evidence ${evidenceId} does not match its content hash`)
+    this.name = 'EvidenceIntegrityError'
+  }
+}
+
+const storageKeyFor = (milestoneId: string, evidenceId: string): string =>
+  `${milestoneId.replace(/[^A-Za-z0-9_-]/g, '_')}/${evidenceId}`
+
+/**
+ * Hash and store one piece of evidence. Files go to the evidence storage;
+ * text and links are kept on the record itself.
+ */
+export const submitEvidence = async (submission: EvidenceSubmission): Promise<MilestoneEvidence> => {
+  const store = getMilestoneEvidenceStore()
+  const base = {
+    vaultId: submission.vaultId,
+    milestoneId: submission.milestoneId,
+    submittedBy: submission.submittedBy,
+    description: submission.description ?? null,
+  }
+
+  if (submission.kind !== 'file') {
+    const value = submission.kind === 'text' ? submission.text : submission.url
+    return store.create({
+      ...base,
+      kind: submission.kind,
+      text: submission.kind === 'text' ? submission.text : null,
+      url: submission.kind === 'link' ? submission.url : null,
+      fileName: null,
+      contentType: submission.kind === 'text' ? 'text/plain; charset=utf-8' : 'text/uri-list',
+      size: Buffer.byteLength(value),
+      storageKey: null,
+      contentHash: hashEvidenceContent(value),
+    })
+  }
+
+  const id = randomUUID()
+  const storageKey = storageKeyFor(submission.milestoneId, id)
+  const storage = getEvidenceStorage()
+  await storage.put(storageKey, submission.content, submission.contentType)
+
+  try {
+    return await store.create({
+      ...base,
+      id,
+      kind: 'file',
+      text: null,
+      url: null,
+      fileName: submission.fileName,
+      contentType: submission.contentType,
+      size: submission.content.length,
+      storageKey,
+      contentHash: hashEvidenceContent(submission.content),
+    })
+  } catch (error) {
+    await storage.delete(storageKey).catch(() => undefined)
+    throw error
+  }
+}
+
+export const listMilestoneEvidence = (milestoneId: string): Promise<MilestoneEvidence[]> =>
+  getMilestoneEvidenceStore().listByMilestone(milestoneId)
+
+/**
+ * The hash a verifier attests to on-chain for everything submitted so far
+ */
+export const getMilestoneEvidenceHash = async (milestoneId: string): Promise<string | null> =>
+  hashMilestoneEvidence((await listMilestoneEvidence(milestoneId)).map((evidence) => evidence.contentHash))
+
+/**
+ * The bytes the evidence's content hash was taken over, re-checked against it.
+ *
+ * @returns Null when a file is missing from the evidence storage
+ */
+export const readEvidenceContent = async (evidence: MilestoneEvidence): Promise<Buffer | null> => {
+  let content: Buffer | null
+  if (evidence.kind === 'text') content = Buffer.from(evidence.text ?? '')
+  else if (evidence.kind === 'link') content = Buffer.from(evidence.url ?? '')
+  else content = evidence.storageKey ? await getEvidenceStorage().get(evidence.storageKey) : null
+
+  if (content && hashEvidenceContent(content) !== evidence.contentHash) {
+    throw new EvidenceIntegrityError(evidence.id)
+  }
+  return content
+}
@@ -0,0 +1,143 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, join, resolve, sep } from 'node:path'
+
+/**
+ * Where uploaded evidence files live. Keys are generated by the evidence
+ * service and only contain `[A-Za-z0-9/_.-]`.
+ */
+export interface EvidenceStorage {
+  put(key: string, content: Buffer, contentType: string): Promise<void>
+  /** Null when nothing is stored under `key` */
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
+
+export class InMemoryEvidenceStorage implements EvidenceStorage {
+  private readonly objects = new Map<string, Buffer>()
+
+  async put(key: string, content: Buffer): Promise<void> {
+    this.objects.set(key, Buffer.from(content))
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const content = this.objects.get(key)
+    return content ? Buffer.from(content) : null
+  }
+
+  async delete(key: string): Promise<void> {
+    this.objects.delete(key)
+  }
+}
+
+export class LocalDiskEvidenceStorage implements EvidenceStorage {
+  private readonly root: string
+
+  constructor(root: string) {
+    this.root = resolve(root)
+  }
+
+  private pathFor(key: string): string {
+    const path = resolve(join(this.root, key))
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Evidence key escapes the storage directory: ${key}`)
+    }
+    return path
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const path = this.pathFor(key)
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, content)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathFor(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true })
+  }
+}
+
+/**
+ * Object store reached with plain HTTP: `PUT`, `GET` and `DELETE` on
+ * `<baseUrl>/<key>`, with an optional bearer token. Works with buckets that
+ * accept token-authenticated requests or sit behind a signing proxy.
+ */
+export class HttpObjectEvidenceStorage implements EvidenceStorage {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly token?: string,
+  ) {}
+
+  private async request(method: string, key: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.baseUrl.replace(/\/+$/, '')}/${key}`, {
+      ...init,
+      method,
+      headers: {
+        ...(init.headers as Record<string, string> | undefined),
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+    })
+  }
+
+  async put(key: string, content: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, {
+      body: new Uint8Array(content),
+      headers: { 'Content-Type': contentType },
+    })
+    if (!response.ok) {
+      throw new Error(`Object store rejected PUT ${key} with HTTP ${response.status}`)
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key)
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`Object store rejected GET ${key} with HTTP ${response.status}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key)
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Object store rejected DELETE ${key} with HTTP ${response.status}`)
+    }
+  }
+}
+
+const DEFAULT_STORAGE_DIR = 'data/evidence'
+
+let storage: EvidenceStorage | null = null
+
+/**
+ * `EVIDENCE_STORAGE=http` uses EVIDENCE_OBJECT_STORE_URL (and optionally
+ * EVIDENCE_OBJECT_STORE_TOKEN); otherwise files go to EVIDENCE_STORAGE_DIR.
+ */
+export const getEvidenceStorage = (): EvidenceStorage => {
+  if (!storage) {
+    if (process.env.EVIDENCE_STORAGE === 'http') {
+      if (!process.env.EVIDENCE_OBJECT_STORE_URL) {
+        throw new Error('EVIDENCE_OBJECT_STORE_URL is required when EVIDENCE_STORAGE=http')
+      }
+      storage = new HttpObjectEvidenceStorage(
+        process.env.EVIDENCE_OBJECT_STORE_URL,
+        process.env.EVIDENCE_OBJECT_STORE_TOKEN,
+      )
+    } else {
+      storage = new LocalDiskEvidenceStorage(process.env.EVIDENCE_STORAGE_DIR ?? DEFAULT_STORAGE_DIR)
+    }
+  }
+  return storage
+}
+
+export const setEvidenceStorage = (next: EvidenceStorage | null): void => {
+  storage = next
+}
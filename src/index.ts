@@ -2,7 +2,7 @@ import { app } from './app.js'
 import { vaultsRouter } from './routes/vaults.js'
 import { createHealthRouter } from './routes/health.js'
 import { createJobsRouter } from './routes/jobs.js'
-import { BackgroundJobSystem } from './jobs/system.js'
+import { BackgroundJobSystem, parsePositiveInteger } from './jobs/system.js'
 import { authRouter } from './routes/auth.js'
 import { analyticsRouter } from './routes/analytics.js'
 import { healthRateLimiter, vaultsRateLimiter } from './middleware/rateLimiter.js'
@@ -10,27 +10,62 @@ import { createExportRouter } from './routes/exports.js'
 import { transactionsRouter } from './routes/transactions.js'
 import { privacyRouter } from './routes/privacy.js'
 import { milestonesRouter } from './routes/milestones.js'
-import { startExpirationChecker } from './services/expirationScheduler.js'
+import { evidenceRouter } from './routes/evidence.js'
+import { disputesRouter, milestoneDisputesRouter } from './routes/disputes.js'
+import { assignmentsRouter, milestoneAssignmentRouter } from './routes/assignments.js'
 import { orgVaultsRouter } from './routes/orgVaults.js'
 import { orgAnalyticsRouter } from './routes/orgAnalytics.js'
+import { orgApiKeysRouter } from './routes/orgApiKeys.js'
 import { adminRouter } from './routes/admin.js'
 import { adminVerifiersRouter } from './routes/adminVerifiers.js'
+import { createDeadLetterRouter } from './routes/adminDeadLetters.js'
+import { DeadLetterQueue } from './services/deadLetterQueue.js'
+import { EventProcessor } from './services/eventProcessor.js'
+import { db } from './db/index.js'
 import { verificationsRouter } from './routes/verifications.js'
 import { apiKeysRouter } from './routes/apiKeys.js'
 import { notificationsRouter } from './routes/notifications.js'
+import { createEventsRouter } from './routes/events.js'
+import { webhooksRouter } from './routes/webhooks.js'
+import { orgWebhooksRouter } from './routes/orgWebhooks.js'
+import { getUserEventStream } from './services/eventStream.js'
+import { setNotificationEnqueuer } from './notifications/notify.js'
+import { WEBHOOK_RETRY_CONFIG, setWebhookEnqueuer } from './webhooks/dispatcher.js'
 import {
   securityMetricsMiddleware,
   securityRateLimitMiddleware,
 } from './security/abuse-monitor.js'
-import { initializeDatabase } from './db/database.js'
 
 const PORT = process.env.PORT ?? 3000
 const jobSystem = new BackgroundJobSystem()
+const deadLetterQueue = new DeadLetterQueue(
+  db,
+  new EventProcessor(db, {
+    maxRetries: Number(process.env.RETRY_MAX_ATTEMPTS ?? 3),
+    retryBackoffMs: Number(process.env.RETRY_BACKOFF_MS ?? 100),
+  }),
+)
 
-jobSystem.start()
+if (process.env.ENABLE_TRANSACTION_ETL === 'true') {
+  jobSystem.registerRecurringJob({
+    name: 'transactions.etl',
+    cron: process.env.TRANSACTION_ETL_CRON,
+    intervalMs: parsePositiveInteger(process.env.TRANSACTION_ETL_INTERVAL_MS, 300_000),
+    runOnStart: true,
+    run: async () => {
+      // Loaded lazily so the Stellar SDK is only pulled in when ETL is enabled
+      const { etlWorker } = await import('./services/etlWorker.js')
+      await etlWorker.runETL()
+    },
+  })
+}
 
-// Initialize SQLite database for analytics
-initializeDatabase()
+setNotificationEnqueuer((payload, options) => jobSystem.enqueue('notification.send', payload, options))
+setWebhookEnqueuer((deliveryId) =>
+  jobSystem.enqueue('webhook.deliver', { deliveryId }, { maxAttempts: WEBHOOK_RETRY_CONFIG.maxAttempts }),
+)
+
+jobSystem.start()
 
 app.use(securityMetricsMiddleware)
 app.use(securityRateLimitMiddleware)
@@ -39,6 +74,11 @@ app.use('/api/health', healthRateLimiter, createHealthRouter(jobSystem))
 app.use('/api/jobs', createJobsRouter(jobSystem))
 app.use('/api/vaults', vaultsRateLimiter, vaultsRouter)
 app.use('/api/vaults/:vaultId/milestones', milestonesRouter)
+app.use('/api/vaults/:vaultId/milestones/:milestoneId/evidence', evidenceRouter)
+app.use('/api/vaults/:vaultId/milestones/:milestoneId/disputes', milestoneDisputesRouter)
+app.use('/api/disputes', disputesRouter)
+app.use('/api/vaults/:vaultId/milestones/:milestoneId/assignment', milestoneAssignmentRouter)
+app.use('/api/assignments', assignmentsRouter)
 app.use('/api/auth', authRouter)
 app.use('/api/exports', createExportRouter([]))
 app.use('/api/transactions', transactionsRouter)
@@ -46,15 +86,24 @@ app.use('/api/analytics', analyticsRouter)
 app.use('/api/privacy', privacyRouter)
 app.use('/api/organizations', orgVaultsRouter)
 app.use('/api/organizations', orgAnalyticsRouter)
+app.use('/api/organizations', orgApiKeysRouter)
+app.use('/api/organizations', orgWebhooksRouter)
 app.use('/api/admin', adminRouter)
 app.use('/api/admin/verifiers', adminVerifiersRouter)
+app.use('/api/admin/dead-letters', createDeadLetterRouter(deadLetterQueue))
 app.use('/api/verifications', verificationsRouter)
 app.use('/api/api-keys', apiKeysRouter)
 app.use('/api/notifications', notificationsRouter)
+app.use('/api/webhooks', webhooksRouter)
+app.use(
+  '/api/events',
+  createEventsRouter(getUserEventStream(), {
+    heartbeatMs: Number(process.env.SSE_HEARTBEAT_MS ?? 25_000),
+  }),
+)
 
 const server = app.listen(PORT, () => {
   console.log(`Disciplr API listening on http://localhost:${PORT}`)
-  startExpirationChecker()
 })
 
 let shuttingDown = false
@@ -0,0 +1,140 @@
+/**
+ * Minimal five-field cron support (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`)
+ * and steps (`*\/10`, `0-30/5`). Day-of-week 0 and 7 are both Sunday.
+ */
+
+interface FieldSpec {
+  min: number
+  max: number
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+]
+
+// Far enough to cover leap-day schedules such as `0 0 29 2 *`
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  /** Both day fields restricted: cron matches when either one does */
+  dayFieldsRestricted: boolean
+}
+
+const parseNumber = (value: string, spec: FieldSpec, expression: string): number => {
+  const parsed = Number(value)
+  if (!/^\d+$/.test(value) || parsed < spec.min || parsed > spec.max) {
+    throw new Error(`Invalid cron expression "${expression}": ${value} is out of range ${spec.min}-${spec.max}`)
+  }
+  return parsed
+}
+
+const parseField = (field: string, spec: FieldSpec, expression: string): Set<number> => {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": bad step in "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = spec.min
+      end = spec.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseNumber(from, spec, expression)
+      end = parseNumber(to, spec, expression)
+      if (start > end) {
+        throw new Error(`Invalid cron expression "${expression}": range "${range}" is reversed`)
+      }
+    } else {
+      start = parseNumber(range, spec, expression)
+      end = stepText === undefined ? start : spec.max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_SPECS[index], expression),
+  )
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0)
+    daysOfWeek.delete(7)
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayFieldsRestricted: fields[2] !== '*' && fields[4] !== '*',
+  }
+}
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay())
+  return schedule.dayFieldsRestricted ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek
+}
+
+/**
+ * First minute strictly after `from` that matches the schedule.
+ */
+export const nextCronRun = (schedule: CronSchedule, from: Date): Date => {
+  const candidate = new Date(from.getTime())
+  candidate.setUTCSeconds(0, 0)
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1)
+
+  for (let checked = 0; checked < MAX_SEARCH_MINUTES; checked += 1) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1)
+      candidate.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1)
+      candidate.setUTCHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0)
+      continue
+    }
+    return candidate
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`)
+}
@@ -1,3 +1,9 @@
+import { escalateOverdueAssignments } from '../assignments/service.js'
+import { getNotificationDispatcher } from '../notifications/dispatcher.js'
+import { sendDeadlineReminders } from '../notifications/reminders.js'
+import { redirectMissedMilestones } from '../services/vaultReleases.js'
+import { checkExpiredVaults, failVault } from '../services/vaultTransitions.js'
+import { deliverWebhook } from '../webhooks/dispatcher.js'
 import type { JobHandler, JobType } from './types.js'
 
 type JobHandlerRegistry = {
@@ -16,19 +22,29 @@ const logJob = (type: JobType, message: string): void => {
 
 export const defaultJobHandlers: JobHandlerRegistry = {
   'notification.send': async (payload, context) => {
-    await sleep(40)
+    const deliveries = await getNotificationDispatcher().dispatch(payload, context)
     logJob(
       'notification.send',
-      `sent recipient=${payload.recipient} subject="${payload.subject}" attempt=${context.attempt}`,
+      `sent recipient=${payload.recipient} channels=${deliveries.map((delivery) => delivery.channel).join(',') || 'none'} attempt=${context.attempt}`,
     )
   },
   'deadline.check': async (payload, context) => {
-    await sleep(30)
-    const target = payload.vaultId ?? 'all-active-vaults'
-    const deadline = payload.deadlineIso ?? 'not-provided'
+    if (payload.vaultId) {
+      const result = await failVault(payload.vaultId)
+      logJob(
+        'deadline.check',
+        `checked target=${payload.vaultId} failed=${result.success} source=${payload.triggerSource} attempt=${context.attempt}`,
+      )
+      return
+    }
+
+    const expired = await checkExpiredVaults()
+    const missed = await redirectMissedMilestones()
+    const reminders = await sendDeadlineReminders()
+    const escalated = await escalateOverdueAssignments()
     logJob(
       'deadline.check',
-      `checked target=${target} deadline=${deadline} source=${payload.triggerSource} attempt=${context.attempt}`,
+      `checked target=all-active-vaults expired=${expired.length} missedMilestones=${missed.length} reminders=${reminders} escalatedReviews=${escalated.length} source=${payload.triggerSource} attempt=${context.attempt}`,
     )
   },
   'oracle.call': async (payload, context) => {
@@ -48,4 +64,8 @@ export const defaultJobHandlers: JobHandlerRegistry = {
       `scope=${payload.scope} entity=${entity} reason=${reason} attempt=${context.attempt}`,
     )
   },
+  'webhook.deliver': async (payload, context) => {
+    await deliverWebhook(payload.deliveryId, context)
+    logJob('webhook.deliver', `delivery=${payload.deliveryId} attempt=${context.attempt}`)
+  },
 }
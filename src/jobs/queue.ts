@@ -1,51 +1,32 @@
 import { randomUUID } from 'node:crypto'
+import { hostname } from 'node:os'
+import {
+  InMemoryJobStore,
+  type FailedJobRecord,
+  type JobDetails,
+  type JobStore,
+  type QueueTypeMetrics,
+  type StoredJob,
+} from './store.js'
 import {
   JOB_TYPES,
+  JobDeferredError,
   type EnqueueOptions,
   type JobHandler,
   type JobPayloadByType,
   type JobType,
 } from './types.js'
+import { getBackoffDelayMs, type BackoffConfig } from '../utils/retry.js'
 
-interface InternalQueuedJob<T extends JobType = JobType> {
-  id: string
-  type: T
-  payload: JobPayloadByType[T]
-  attempt: number
-  maxAttempts: number
-  createdAt: number
-  runAt: number
-}
-
-interface CompletedJobRecord {
-  jobId: string
-  type: JobType
-  completedAt: string
-  attempts: number
-  durationMs: number
-}
-
-interface FailedJobRecord {
-  jobId: string
-  type: JobType
-  failedAt: string
-  attempts: number
-  error: string
-}
+export type { QueueTypeMetrics } from './store.js'
 
 export interface QueuedJobReceipt<T extends JobType = JobType> {
   id: string
   type: T
   runAt: string
   maxAttempts: number
-}
-
-export interface QueueTypeMetrics {
-  queued: number
-  delayed: number
-  active: number
-  completed: number
-  failed: number
+  /** True when the enqueue was folded into an existing job with the same dedupeKey */
+  collapsed?: boolean
 }
 
 export interface QueueTotals {
@@ -54,6 +35,10 @@ export interface QueueTotals {
   completed: number
   failed: number
   retried: number
+  /** Runs a handler put off with JobDeferredError */
+  deferred: number
+  /** Enqueues folded into an existing job by dedupeKey */
+  collapsed: number
 }
 
 export interface QueueMetrics {
@@ -69,15 +54,30 @@ export interface QueueMetrics {
   recentFailures: FailedJobRecord[]
 }
 
+// Retry delays for job types registered without their own backoff
+const DEFAULT_JOB_BACKOFF: BackoffConfig = {
+  initialBackoffMs: 1_000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 60_000,
+}
+
 export interface JobQueueOptions {
   concurrency?: number
   pollIntervalMs?: number
   historyLimit?: number
+  /** Defaults to an in-memory store */
+  store?: JobStore
+  /**
+   * Active jobs whose claim was not renewed for this long are assumed orphaned
+   * and requeued. Running jobs renew their claim every third of it.
+   */
+  lockTimeoutMs?: number
 }
 
 const DEFAULT_CONCURRENCY = 2
 const DEFAULT_POLL_INTERVAL_MS = 250
 const DEFAULT_HISTORY_LIMIT = 50
+const DEFAULT_LOCK_TIMEOUT_MS = 300_000
 const SHUTDOWN_WAIT_MS = 2_000
 
 const sleep = async (ms: number): Promise<void> => {
@@ -86,15 +86,6 @@ const sleep = async (ms: number): Promise<void> => {
   })
 }
 
-const createEmptyTypeMetrics = (): Record<JobType, QueueTypeMetrics> => {
-  return {
-    'notification.send': { queued: 0, delayed: 0, active: 0, completed: 0, failed: 0 },
-    'deadline.check': { queued: 0, delayed: 0, active: 0, completed: 0, failed: 0 },
-    'oracle.call': { queued: 0, delayed: 0, active: 0, completed: 0, failed: 0 },
-    'analytics.recompute': { queued: 0, delayed: 0, active: 0, completed: 0, failed: 0 },
-  }
-}
-
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) {
     return error.message
@@ -112,44 +103,63 @@ const asPositiveInteger = (value: number | undefined, fallback: number): number
   return Math.floor(value)
 }
 
-export class InMemoryJobQueue {
+/**
+ * Polling worker over a {@link JobStore}. With a shared durable store several
+ * processes can run a JobQueue each; the store guarantees a job is claimed once.
+ */
+export class JobQueue {
   private readonly handlers = new Map<JobType, JobHandler>()
-  private readonly pendingJobs: Array<InternalQueuedJob<JobType>> = []
-  private readonly activeJobs = new Map<string, InternalQueuedJob<JobType>>()
-  private readonly completedJobs: CompletedJobRecord[] = []
-  private readonly failedJobs: FailedJobRecord[] = []
+  private readonly backoffs = new Map<JobType, BackoffConfig>()
+  private readonly activeJobs = new Map<string, StoredJob>()
   private readonly totals: QueueTotals = {
     enqueued: 0,
     executions: 0,
     completed: 0,
     failed: 0,
     retried: 0,
+    deferred: 0,
+    collapsed: 0,
   }
 
+  private readonly store: JobStore
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
   private readonly concurrency: number
   private readonly pollIntervalMs: number
-  private readonly historyLimit: number
+  private readonly lockTimeoutMs: number
 
   private startedAt: number | null = null
   private running = false
   private draining = false
+  private lastStaleCheckAt = 0
   private pollTimer: NodeJS.Timeout | null = null
 
   constructor(options: JobQueueOptions = {}) {
     this.concurrency = asPositiveInteger(options.concurrency, DEFAULT_CONCURRENCY)
     this.pollIntervalMs = asPositiveInteger(options.pollIntervalMs, DEFAULT_POLL_INTERVAL_MS)
-    this.historyLimit = asPositiveInteger(options.historyLimit, DEFAULT_HISTORY_LIMIT)
+    this.lockTimeoutMs = asPositiveInteger(options.lockTimeoutMs, DEFAULT_LOCK_TIMEOUT_MS)
+    this.store =
+      options.store ??
+      new InMemoryJobStore(asPositiveInteger(options.historyLimit, DEFAULT_HISTORY_LIMIT))
   }
 
-  registerHandler<T extends JobType>(type: T, handler: JobHandler<T>): void {
+  /**
+   * @param backoff - Delays between retries of this job type; defaults to
+   * 1s doubling up to a minute
+   */
+  registerHandler<T extends JobType>(type: T, handler: JobHandler<T>, backoff?: BackoffConfig): void {
     this.handlers.set(type, handler as JobHandler)
+    if (backoff) {
+      this.backoffs.set(type, backoff)
+    } else {
+      this.backoffs.delete(type)
+    }
   }
 
-  enqueue<T extends JobType>(
+  async enqueue<T extends JobType>(
     type: T,
     payload: JobPayloadByType[T],
     options: EnqueueOptions = {},
-  ): QueuedJobReceipt<T> {
+  ): Promise<QueuedJobReceipt<T>> {
     if (!this.handlers.has(type)) {
       throw new Error(`No job handler registered for type: ${type}`)
     }
@@ -157,7 +167,7 @@ export class InMemoryJobQueue {
     const now = Date.now()
     const delayMs = Math.max(0, Math.floor(options.delayMs ?? 0))
     const maxAttempts = Math.max(1, Math.floor(options.maxAttempts ?? 3))
-    const job: InternalQueuedJob<T> = {
+    const job: StoredJob<T> = {
       id: randomUUID(),
       type,
       payload,
@@ -165,11 +175,50 @@ export class InMemoryJobQueue {
       maxAttempts,
       createdAt: now,
       runAt: now + delayMs,
+      dedupeKey: options.dedupeKey ?? null,
     }
 
-    this.pendingJobs.push(job as InternalQueuedJob<JobType>)
-    this.sortPendingJobs()
-    this.totals.enqueued += 1
+    const result = await this.store.insert(job as StoredJob, options.dedupePolicy ?? 'keep')
+    if (result.collapsed) {
+      this.totals.collapsed += 1
+    } else {
+      this.totals.enqueued += 1
+    }
+
+    if (this.running) {
+      void this.drain()
+    }
+
+    return {
+      id: result.job.id,
+      type,
+      runAt: new Date(result.job.runAt).toISOString(),
+      maxAttempts: result.job.maxAttempts,
+      collapsed: result.collapsed,
+    }
+  }
+
+  getJob(id: string): Promise<JobDetails | null> {
+    return this.store.getJob(id, Date.now())
+  }
+
+  /**
+   * Cancel a queued or delayed job. Returns null when the job does not exist
+   * or has already been claimed, finished or cancelled.
+   */
+  cancel(id: string): Promise<JobDetails | null> {
+    return this.store.cancel(id, Date.now())
+  }
+
+  /**
+   * Requeue a failed job to run now with its attempt count reset.
+   * Returns null when the job does not exist or is not failed.
+   */
+  async retry(id: string): Promise<QueuedJobReceipt | null> {
+    const job = await this.store.retry(id, Date.now())
+    if (!job) {
+      return null
+    }
 
     if (this.running) {
       void this.drain()
@@ -214,40 +263,25 @@ export class InMemoryJobQueue {
     }
 
     const stopDeadline = Date.now() + SHUTDOWN_WAIT_MS
-    while (this.activeJobs.size > 0 && Date.now() < stopDeadline) {
+    while ((this.activeJobs.size > 0 || this.draining) && Date.now() < stopDeadline) {
       await sleep(25)
     }
   }
 
-  getMetrics(): QueueMetrics {
+  async getMetrics(): Promise<QueueMetrics> {
     const now = Date.now()
-    const byType = createEmptyTypeMetrics()
-
-    for (const job of this.pendingJobs) {
-      if (job.runAt <= now) {
-        byType[job.type].queued += 1
-      } else {
-        byType[job.type].delayed += 1
-      }
-    }
-
-    for (const job of this.activeJobs.values()) {
-      byType[job.type].active += 1
-    }
-
-    for (const job of this.completedJobs) {
-      byType[job.type].completed += 1
-    }
-
-    for (const job of this.failedJobs) {
-      byType[job.type].failed += 1
-    }
+    const [byType, recentFailures] = await Promise.all([
+      this.store.countByType(now),
+      this.store.recentFailures(10),
+    ])
 
     let queueDepth = 0
     let delayedJobs = 0
+    let activeJobs = 0
     for (const type of JOB_TYPES) {
       queueDepth += byType[type].queued
       delayedJobs += byType[type].delayed
+      activeJobs += byType[type].active
     }
 
     return {
@@ -257,10 +291,10 @@ export class InMemoryJobQueue {
       uptimeMs: this.startedAt ? now - this.startedAt : 0,
       queueDepth,
       delayedJobs,
-      activeJobs: this.activeJobs.size,
+      activeJobs,
       totals: { ...this.totals },
       byType,
-      recentFailures: this.failedJobs.slice(0, 10),
+      recentFailures,
     }
   }
 
@@ -272,50 +306,95 @@ export class InMemoryJobQueue {
     this.draining = true
 
     try {
+      await this.releaseStaleJobs()
+
       while (this.running && this.activeJobs.size < this.concurrency) {
-        const now = Date.now()
-        const nextIndex = this.pendingJobs.findIndex((job) => job.runAt <= now)
-        if (nextIndex === -1) {
+        const jobs = await this.store.claimDue(
+          Date.now(),
+          this.concurrency - this.activeJobs.size,
+          this.workerId,
+        )
+        if (jobs.length === 0) {
           return
         }
 
-        const nextJob = this.pendingJobs.splice(nextIndex, 1)[0]
-        void this.runJob(nextJob)
+        for (const job of jobs) {
+          void this.runJob(job)
+        }
       }
+    } catch (error) {
+      console.error('[jobs] Failed to claim jobs:', getErrorMessage(error))
     } finally {
       this.draining = false
     }
   }
 
-  private async runJob(job: InternalQueuedJob<JobType>): Promise<void> {
-    const handler = this.handlers.get(job.type)
-    if (!handler) {
-      this.recordFailedJob(job, 'No handler registered')
+  private async releaseStaleJobs(): Promise<void> {
+    const now = Date.now()
+    if (now - this.lastStaleCheckAt < this.lockTimeoutMs) {
       return
     }
 
-    job.attempt += 1
+    this.lastStaleCheckAt = now
+    const released = await this.store.releaseStale(now - this.lockTimeoutMs)
+    if (released > 0) {
+      console.warn(`[jobs] Requeued ${released} job(s) orphaned by a stopped worker`)
+    }
+  }
+
+  private async runJob(job: StoredJob): Promise<void> {
     this.activeJobs.set(job.id, job)
-    this.totals.executions += 1
-    const startedAt = Date.now()
+    let heartbeat: NodeJS.Timeout | null = null
 
     try {
-      await handler(job.payload, {
-        jobId: job.id,
-        attempt: job.attempt,
-      })
-      this.recordCompletedJob(job, Date.now() - startedAt)
-    } catch (error) {
-      const message = getErrorMessage(error)
-      if (job.attempt < job.maxAttempts) {
-        this.totals.retried += 1
-        job.runAt = Date.now() + this.getRetryDelayMs(job.attempt)
-        this.pendingJobs.push(job)
-        this.sortPendingJobs()
-      } else {
-        this.recordFailedJob(job, message)
+      const handler = this.handlers.get(job.type)
+      if (!handler) {
+        this.totals.failed += 1
+        await this.store.markFailed(job, 'No handler registered')
+        return
+      }
+
+      this.totals.executions += 1
+      const startedAt = Date.now()
+      heartbeat = setInterval(() => {
+        this.store.heartbeat(job, Date.now()).catch((error: unknown) => {
+          console.error(`[jobs] Failed to renew the claim on job ${job.id}:`, getErrorMessage(error))
+        })
+      }, Math.max(1, Math.floor(this.lockTimeoutMs / 3)))
+      if (typeof heartbeat.unref === 'function') {
+        heartbeat.unref()
+      }
+
+      try {
+        await handler(job.payload, {
+          jobId: job.id,
+          attempt: job.attempt,
+          maxAttempts: job.maxAttempts,
+        })
+        this.totals.completed += 1
+        await this.store.markCompleted(job, Date.now() - startedAt)
+      } catch (error) {
+        if (error instanceof JobDeferredError) {
+          this.totals.deferred += 1
+          await this.store.defer(job, error.runAt)
+          return
+        }
+
+        const message = getErrorMessage(error)
+        if (job.attempt < job.maxAttempts) {
+          this.totals.retried += 1
+          await this.store.reschedule(job, Date.now() + this.getRetryDelayMs(job), message)
+        } else {
+          this.totals.failed += 1
+          await this.store.markFailed(job, message)
+        }
       }
+    } catch (error) {
+      console.error(`[jobs] Failed to record result for job ${job.id}:`, getErrorMessage(error))
     } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat)
+      }
       this.activeJobs.delete(job.id)
       if (this.running) {
         void this.drain()
@@ -323,41 +402,7 @@ export class InMemoryJobQueue {
     }
   }
 
-  private recordCompletedJob(job: InternalQueuedJob<JobType>, durationMs: number): void {
-    this.totals.completed += 1
-    this.completedJobs.unshift({
-      jobId: job.id,
-      type: job.type,
-      completedAt: new Date().toISOString(),
-      attempts: job.attempt,
-      durationMs,
-    })
-    this.trimHistory(this.completedJobs)
-  }
-
-  private recordFailedJob(job: InternalQueuedJob<JobType>, error: string): void {
-    this.totals.failed += 1
-    this.failedJobs.unshift({
-      jobId: job.id,
-      type: job.type,
-      failedAt: new Date().toISOString(),
-      attempts: job.attempt,
-      error,
-    })
-    this.trimHistory(this.failedJobs)
-  }
-
-  private trimHistory(records: unknown[]): void {
-    if (records.length > this.historyLimit) {
-      records.length = this.historyLimit
-    }
-  }
-
-  private getRetryDelayMs(attempt: number): number {
-    return Math.min(60_000, 1_000 * 2 ** (attempt - 1))
-  }
-
-  private sortPendingJobs(): void {
-    this.pendingJobs.sort((left, right) => left.runAt - right.runAt)
+  private getRetryDelayMs(job: StoredJob): number {
+    return getBackoffDelayMs(job.attempt, this.backoffs.get(job.type) ?? DEFAULT_JOB_BACKOFF)
   }
 }
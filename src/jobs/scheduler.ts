@@ -0,0 +1,184 @@
+import { nextCronRun, parseCron, type CronSchedule } from './cron.js'
+
+export interface RecurringJobDefinition {
+  name: string
+  /** Five-field cron expression evaluated in UTC; takes precedence over intervalMs */
+  cron?: string
+  intervalMs?: number
+  /** Also run once as soon as the scheduler starts */
+  runOnStart?: boolean
+  run: () => Promise<void>
+}
+
+export interface RecurringJobStatus {
+  name: string
+  schedule: string
+  running: boolean
+  runs: number
+  failures: number
+  skippedOverlaps: number
+  lastRunAt: string | null
+  lastDurationMs: number | null
+  lastError: string | null
+  nextRunAt: string | null
+}
+
+interface RecurringJobState {
+  definition: RecurringJobDefinition
+  cron: CronSchedule | null
+  timer: NodeJS.Timeout | null
+  running: boolean
+  runs: number
+  failures: number
+  skippedOverlaps: number
+  lastRunAt: number | null
+  lastDurationMs: number | null
+  lastError: string | null
+  nextRunAt: number | null
+}
+
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message
+  }
+  return String(error)
+}
+
+/**
+ * Runs registered recurring jobs on cron or fixed-interval schedules. A run
+ * that is still in progress when the next one is due causes that tick to be
+ * skipped rather than overlap.
+ */
+export class RecurringJobScheduler {
+  private readonly jobs = new Map<string, RecurringJobState>()
+  private started = false
+
+  register(definition: RecurringJobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Recurring job already registered: ${definition.name}`)
+    }
+
+    const cron = definition.cron ? parseCron(definition.cron) : null
+    if (!cron && !(typeof definition.intervalMs === 'number' && definition.intervalMs > 0)) {
+      throw new Error(`Recurring job ${definition.name} needs a cron expression or a positive intervalMs`)
+    }
+
+    const state: RecurringJobState = {
+      definition,
+      cron,
+      timer: null,
+      running: false,
+      runs: 0,
+      failures: 0,
+      skippedOverlaps: 0,
+      lastRunAt: null,
+      lastDurationMs: null,
+      lastError: null,
+      nextRunAt: null,
+    }
+    this.jobs.set(definition.name, state)
+
+    if (this.started) {
+      this.startJob(state)
+    }
+  }
+
+  start(): void {
+    if (this.started) {
+      return
+    }
+
+    this.started = true
+    for (const state of this.jobs.values()) {
+      this.startJob(state)
+    }
+  }
+
+  stop(): void {
+    this.started = false
+    for (const state of this.jobs.values()) {
+      if (state.timer) {
+        clearTimeout(state.timer)
+        state.timer = null
+      }
+      state.nextRunAt = null
+    }
+  }
+
+  getStatus(): RecurringJobStatus[] {
+    return Array.from(this.jobs.values()).map((state) => ({
+      name: state.definition.name,
+      schedule: state.cron ? `cron ${state.cron.expression}` : `every ${state.definition.intervalMs}ms`,
+      running: state.running,
+      runs: state.runs,
+      failures: state.failures,
+      skippedOverlaps: state.skippedOverlaps,
+      lastRunAt: state.lastRunAt ? new Date(state.lastRunAt).toISOString() : null,
+      lastDurationMs: state.lastDurationMs,
+      lastError: state.lastError,
+      nextRunAt: state.nextRunAt ? new Date(state.nextRunAt).toISOString() : null,
+    }))
+  }
+
+  private startJob(state: RecurringJobState): void {
+    if (state.definition.runOnStart) {
+      void this.runJob(state)
+    }
+    this.scheduleNext(state)
+  }
+
+  private scheduleNext(state: RecurringJobState): void {
+    if (!this.started) {
+      return
+    }
+
+    const now = Date.now()
+    state.nextRunAt = state.cron
+      ? nextCronRun(state.cron, new Date(now)).getTime()
+      : now + (state.definition.intervalMs as number)
+    this.arm(state)
+  }
+
+  private arm(state: RecurringJobState): void {
+    const runAt = state.nextRunAt as number
+    // setTimeout overflows past ~24.8 days, so long waits are split into hops
+    state.timer = setTimeout(() => {
+      state.timer = null
+      if (Date.now() < runAt) {
+        this.arm(state)
+        return
+      }
+      void this.runJob(state)
+      this.scheduleNext(state)
+    }, Math.min(Math.max(0, runAt - Date.now()), MAX_TIMER_DELAY_MS))
+
+    if (typeof state.timer.unref === 'function') {
+      state.timer.unref()
+    }
+  }
+
+  private async runJob(state: RecurringJobState): Promise<void> {
+    if (state.running) {
+      state.skippedOverlaps += 1
+      return
+    }
+
+    state.running = true
+    state.lastRunAt = Date.now()
+
+    try {
+      await state.definition.run()
+      state.lastError = null
+    } catch (error) {
+      state.failures += 1
+      state.lastError = getErrorMessage(error)
+      console.error(`[jobs:recurring] ${state.definition.name} failed:`, state.lastError)
+    } finally {
+      state.runs += 1
+      state.lastDurationMs = Date.now() - state.lastRunAt
+      state.running = false
+    }
+  }
+}
@@ -0,0 +1,597 @@
+import type { Knex } from 'knex'
+import { JOB_TYPES, type DedupePolicy, type JobPayloadByType, type JobType } from './types.js'
+import { isUuid } from '../utils/ids.js'
+
+export interface StoredJob<T extends JobType = JobType> {
+  id: string
+  type: T
+  payload: JobPayloadByType[T]
+  attempt: number
+  maxAttempts: number
+  createdAt: number
+  runAt: number
+  dedupeKey?: string | null
+  /** Worker holding the claim while the job is active */
+  lockedBy?: string | null
+}
+
+export interface InsertResult {
+  /** The job that will run: the new one, or the existing job it collapsed into */
+  job: StoredJob
+  collapsed: boolean
+}
+
+export interface FailedJobRecord {
+  jobId: string
+  type: JobType
+  failedAt: string
+  attempts: number
+  error: string
+}
+
+export type JobState = 'queued' | 'active' | 'completed' | 'failed' | 'cancelled'
+
+/** A single job as reported by GET /api/jobs/:id */
+export interface JobDetails {
+  id: string
+  type: JobType
+  /** `delayed` is a queued job whose runAt is still in the future */
+  state: JobState | 'delayed'
+  payload: JobPayloadByType[JobType]
+  attempt: number
+  maxAttempts: number
+  createdAt: string
+  runAt: string
+  lastError: string | null
+  finishedAt: string | null
+  dedupeKey: string | null
+}
+
+export interface QueueTypeMetrics {
+  queued: number
+  delayed: number
+  active: number
+  completed: number
+  failed: number
+}
+
+/**
+ * Where queued jobs live. Claiming moves a job to `active` and increments
+ * its attempt, so `runAt`, `attempt` and `maxAttempts` survive a restart and
+ * several workers can share one store without running a job twice.
+ */
+export interface JobStore {
+  /**
+   * Add a job. When it has a dedupeKey matching a queued or delayed job of the
+   * same type, `policy` is applied to that job instead and nothing is added.
+   */
+  insert(job: StoredJob, policy?: DedupePolicy): Promise<InsertResult>
+  /**
+   * Claim up to `limit` jobs whose runAt is at or before `now` for `workerId`.
+   * Claiming clears the dedupeKey: a job that has started no longer absorbs new
+   * enqueues, and a retry of it never collides with a newer queued duplicate.
+   */
+  claimDue(now: number, limit: number, workerId: string): Promise<StoredJob[]>
+  /** Renew the claim on a job whose handler is still running so it is not released as stale */
+  heartbeat(job: StoredJob, now: number): Promise<void>
+  // The methods below only touch a job still claimed by `job.lockedBy`. Once a
+  // claim was released as stale and the job picked up again, the slow worker's
+  // result is dropped instead of overwriting the new run.
+  markCompleted(job: StoredJob, durationMs: number): Promise<void>
+  /** Put a claimed job back in the queue to run again at `runAt` */
+  reschedule(job: StoredJob, runAt: number, error: string): Promise<void>
+  /** Put a claimed job back to run at `runAt` without using up the attempt it was claimed with */
+  defer(job: StoredJob, runAt: number): Promise<void>
+  markFailed(job: StoredJob, error: string): Promise<void>
+  /** Requeue active jobs whose claim was last renewed before `claimedBefore` (their worker died) */
+  releaseStale(claimedBefore: number): Promise<number>
+  countByType(now: number): Promise<Record<JobType, QueueTypeMetrics>>
+  recentFailures(limit: number): Promise<FailedJobRecord[]>
+  getJob(id: string, now: number): Promise<JobDetails | null>
+  /** Cancel a job that has not been claimed yet; null when it is missing or not queued */
+  cancel(id: string, now: number): Promise<JobDetails | null>
+  /** Requeue a failed job with a fresh attempt budget; null when it is missing or not failed */
+  retry(id: string, now: number): Promise<StoredJob | null>
+}
+
+/** Apply a dedupe policy to the existing job an enqueue collapsed into */
+export const collapseInto = (existing: StoredJob, incoming: StoredJob, policy: DedupePolicy): StoredJob => {
+  switch (policy) {
+    case 'replace':
+      return {
+        ...existing,
+        payload: incoming.payload,
+        runAt: incoming.runAt,
+        maxAttempts: incoming.maxAttempts,
+      }
+    case 'extend':
+      return { ...existing, runAt: Math.max(existing.runAt, incoming.runAt) }
+    default:
+      return existing
+  }
+}
+
+export const createEmptyTypeMetrics = (): Record<JobType, QueueTypeMetrics> => {
+  const metrics = {} as Record<JobType, QueueTypeMetrics>
+  for (const type of JOB_TYPES) {
+    metrics[type] = { queued: 0, delayed: 0, active: 0, completed: 0, failed: 0 }
+  }
+  return metrics
+}
+
+interface MemoryJobRecord {
+  job: StoredJob
+  state: JobState
+  lastError: string | null
+  claimedAt: number | null
+  finishedAt: number | null
+}
+
+type FinishedState = 'completed' | 'failed' | 'cancelled'
+
+const toJobDetails = (
+  record: { job: StoredJob; state: JobState; lastError: string | null; finishedAt: number | null },
+  now: number,
+): JobDetails => ({
+  id: record.job.id,
+  type: record.job.type,
+  state: record.state === 'queued' && record.job.runAt > now ? 'delayed' : record.state,
+  payload: record.job.payload,
+  attempt: record.job.attempt,
+  maxAttempts: record.job.maxAttempts,
+  createdAt: new Date(record.job.createdAt).toISOString(),
+  runAt: new Date(record.job.runAt).toISOString(),
+  lastError: record.lastError,
+  finishedAt: record.finishedAt === null ? null : new Date(record.finishedAt).toISOString(),
+  dedupeKey: record.job.dedupeKey ?? null,
+})
+
+export class InMemoryJobStore implements JobStore {
+  private readonly records = new Map<string, MemoryJobRecord>()
+  // Newest first; each list is trimmed to historyLimit and trimmed jobs are forgotten
+  private readonly history: Record<FinishedState, string[]> = {
+    completed: [],
+    failed: [],
+    cancelled: [],
+  }
+
+  constructor(private readonly historyLimit = 50) {}
+
+  async insert(job: StoredJob, policy: DedupePolicy = 'keep'): Promise<InsertResult> {
+    const existing = job.dedupeKey ? this.findQueuedDuplicate(job) : undefined
+    if (existing) {
+      existing.job = collapseInto(existing.job, job, policy)
+      return { job: { ...existing.job }, collapsed: true }
+    }
+
+    this.records.set(job.id, {
+      job: { ...job },
+      state: 'queued',
+      lastError: null,
+      claimedAt: null,
+      finishedAt: null,
+    })
+    return { job: { ...job }, collapsed: false }
+  }
+
+  async claimDue(now: number, limit: number, workerId: string): Promise<StoredJob[]> {
+    const due = Array.from(this.records.values())
+      .filter((record) => record.state === 'queued' && record.job.runAt <= now)
+      .sort((left, right) => left.job.runAt - right.job.runAt)
+      .slice(0, limit)
+
+    return due.map((record) => {
+      record.state = 'active'
+      record.claimedAt = now
+      record.job.attempt += 1
+      record.job.dedupeKey = null
+      record.job.lockedBy = workerId
+      return { ...record.job }
+    })
+  }
+
+  async heartbeat(job: StoredJob, now: number): Promise<void> {
+    const record = this.findClaimed(job)
+    if (record) {
+      record.claimedAt = now
+    }
+  }
+
+  async markCompleted(job: StoredJob): Promise<void> {
+    if (this.findClaimed(job)) {
+      this.finish(job.id, 'completed', null)
+    }
+  }
+
+  async reschedule(job: StoredJob, runAt: number, error: string): Promise<void> {
+    const record = this.findClaimed(job)
+    if (!record) {
+      return
+    }
+
+    record.state = 'queued'
+    record.job.runAt = runAt
+    record.job.lockedBy = null
+    record.claimedAt = null
+    record.lastError = error
+  }
+
+  async defer(job: StoredJob, runAt: number): Promise<void> {
+    const record = this.findClaimed(job)
+    if (!record) {
+      return
+    }
+
+    record.state = 'queued'
+    record.job.runAt = runAt
+    record.job.attempt = Math.max(0, record.job.attempt - 1)
+    record.job.lockedBy = null
+    record.claimedAt = null
+  }
+
+  async markFailed(job: StoredJob, error: string): Promise<void> {
+    if (this.findClaimed(job)) {
+      this.finish(job.id, 'failed', error)
+    }
+  }
+
+  async releaseStale(claimedBefore: number): Promise<number> {
+    let released = 0
+    for (const record of this.records.values()) {
+      if (record.state === 'active' && record.claimedAt !== null && record.claimedAt < claimedBefore) {
+        record.state = 'queued'
+        record.job.lockedBy = null
+        record.claimedAt = null
+        released += 1
+      }
+    }
+    return released
+  }
+
+  async countByType(now: number): Promise<Record<JobType, QueueTypeMetrics>> {
+    const byType = createEmptyTypeMetrics()
+
+    for (const { job, state } of this.records.values()) {
+      if (state === 'queued') {
+        byType[job.type][job.runAt <= now ? 'queued' : 'delayed'] += 1
+      } else if (state !== 'cancelled') {
+        byType[job.type][state] += 1
+      }
+    }
+
+    return byType
+  }
+
+  async recentFailures(limit: number): Promise<FailedJobRecord[]> {
+    return this.history.failed.slice(0, limit).map((id) => {
+      const record = this.records.get(id) as MemoryJobRecord
+      return {
+        jobId: id,
+        type: record.job.type,
+        failedAt: new Date(record.finishedAt as number).toISOString(),
+        attempts: record.job.attempt,
+        error: record.lastError ?? 'Unknown error',
+      }
+    })
+  }
+
+  async getJob(id: string, now: number): Promise<JobDetails | null> {
+    const record = this.records.get(id)
+    return record ? toJobDetails(record, now) : null
+  }
+
+  async cancel(id: string, now: number): Promise<JobDetails | null> {
+    const record = this.records.get(id)
+    if (!record || record.state !== 'queued') {
+      return null
+    }
+
+    this.finish(id, 'cancelled', record.lastError, now)
+    return toJobDetails(record, now)
+  }
+
+  async retry(id: string, now: number): Promise<StoredJob | null> {
+    const record = this.records.get(id)
+    if (!record || record.state !== 'failed') {
+      return null
+    }
+
+    this.removeFromHistory('failed', id)
+    record.state = 'queued'
+    record.job.attempt = 0
+    record.job.runAt = now
+    record.finishedAt = null
+    return { ...record.job }
+  }
+
+  private finish(
+    id: string,
+    state: FinishedState,
+    error: string | null,
+    finishedAt = Date.now(),
+  ): void {
+    const record = this.records.get(id)
+    if (!record) {
+      return
+    }
+
+    record.state = state
+    record.lastError = error
+    record.job.lockedBy = null
+    record.claimedAt = null
+    record.finishedAt = finishedAt
+
+    const ids = this.history[state]
+    ids.unshift(id)
+    while (ids.length > this.historyLimit) {
+      this.records.delete(ids.pop() as string)
+    }
+  }
+
+  private findClaimed(job: StoredJob): MemoryJobRecord | undefined {
+    const record = this.records.get(job.id)
+    return record?.state === 'active' && record.job.lockedBy === (job.lockedBy ?? null) ? record : undefined
+  }
+
+  private findQueuedDuplicate(job: StoredJob): MemoryJobRecord | undefined {
+    for (const record of this.records.values()) {
+      if (
+        record.state === 'queued' &&
+        record.job.type === job.type &&
+        record.job.dedupeKey === job.dedupeKey
+      ) {
+        return record
+      }
+    }
+    return undefined
+  }
+
+  private removeFromHistory(state: FinishedState, id: string): void {
+    const ids = this.history[state]
+    const index = ids.indexOf(id)
+    if (index !== -1) {
+      ids.splice(index, 1)
+    }
+  }
+}
+
+interface BackgroundJobRow {
+  id: string
+  type: JobType
+  payload: JobPayloadByType[JobType]
+  status: JobState
+  attempt: number
+  max_attempts: number
+  run_at: Date | string
+  created_at: Date | string
+  completed_at: Date | string | null
+  failed_at: Date | string | null
+  cancelled_at: Date | string | null
+  last_error: string | null
+  dedupe_key: string | null
+  locked_by: string | null
+}
+
+const UNIQUE_VIOLATION = '23505'
+
+const toMillis = (value: Date | string): number => new Date(value).getTime()
+
+const mapJobRow = (row: BackgroundJobRow): StoredJob => ({
+  id: row.id,
+  type: row.type,
+  payload: row.payload,
+  attempt: row.attempt,
+  maxAttempts: row.max_attempts,
+  createdAt: toMillis(row.created_at),
+  runAt: toMillis(row.run_at),
+  dedupeKey: row.dedupe_key,
+  lockedBy: row.locked_by ?? null,
+})
+
+const mapJobDetails = (row: BackgroundJobRow, now: number): JobDetails => {
+  const finishedAt = row.completed_at ?? row.failed_at ?? row.cancelled_at
+  return toJobDetails(
+    {
+      job: mapJobRow(row),
+      state: row.status,
+      lastError: row.last_error,
+      finishedAt: finishedAt ? toMillis(finishedAt) : null,
+    },
+    now,
+  )
+}
+
+/**
+ * Jobs in the `background_jobs` table. Claims use FOR UPDATE SKIP LOCKED so
+ * concurrent workers never pick up the same row.
+ */
+export class PostgresJobStore implements JobStore {
+  constructor(private readonly db: Knex) {}
+
+  async insert(job: StoredJob, policy: DedupePolicy = 'keep'): Promise<InsertResult> {
+    try {
+      return await this.db.transaction((trx) => this.insertWithin(trx, job, policy))
+    } catch (error) {
+      // Another worker inserted the same dedupeKey first; collapse into its row
+      if (job.dedupeKey && (error as { code?: string }).code === UNIQUE_VIOLATION) {
+        return this.db.transaction((trx) => this.insertWithin(trx, job, policy))
+      }
+      throw error
+    }
+  }
+
+  private async insertWithin(trx: Knex.Transaction, job: StoredJob, policy: DedupePolicy): Promise<InsertResult> {
+    if (job.dedupeKey) {
+      const row: BackgroundJobRow | undefined = await trx('background_jobs')
+        .where({ type: job.type, dedupe_key: job.dedupeKey, status: 'queued' })
+        .forUpdate()
+        .first()
+
+      if (row) {
+        const collapsed = collapseInto(mapJobRow(row), job, policy)
+        await trx('background_jobs').where({ id: row.id }).update({
+          payload: JSON.stringify(collapsed.payload),
+          run_at: new Date(collapsed.runAt),
+          max_attempts: collapsed.maxAttempts,
+        })
+        return { job: collapsed, collapsed: true }
+      }
+    }
+
+    await trx('background_jobs').insert({
+      id: job.id,
+      type: job.type,
+      payload: JSON.stringify(job.payload),
+      status: 'queued',
+      attempt: job.attempt,
+      max_attempts: job.maxAttempts,
+      run_at: new Date(job.runAt),
+      created_at: new Date(job.createdAt),
+      dedupe_key: job.dedupeKey ?? null,
+    })
+    return { job, collapsed: false }
+  }
+
+  async claimDue(now: number, limit: number, workerId: string): Promise<StoredJob[]> {
+    const due = this.db('background_jobs')
+      .select('id')
+      .where({ status: 'queued' })
+      .andWhere('run_at', '<=', new Date(now))
+      .orderBy('run_at', 'asc')
+      .limit(limit)
+      .forUpdate()
+      .skipLocked()
+
+    const rows: BackgroundJobRow[] = await this.db('background_jobs')
+      .whereIn('id', due)
+      .update({
+        status: 'active',
+        attempt: this.db.raw('attempt + 1'),
+        dedupe_key: null,
+        locked_by: workerId,
+        locked_at: new Date(now),
+      })
+      .returning('*')
+
+    return rows.map(mapJobRow).sort((left, right) => left.runAt - right.runAt)
+  }
+
+  async heartbeat(job: StoredJob, now: number): Promise<void> {
+    await this.claimed(job).update({ locked_at: new Date(now) })
+  }
+
+  async markCompleted(job: StoredJob, durationMs: number): Promise<void> {
+    await this.claimed(job).update({
+      status: 'completed',
+      completed_at: new Date(),
+      duration_ms: durationMs,
+      locked_by: null,
+      locked_at: null,
+    })
+  }
+
+  async reschedule(job: StoredJob, runAt: number, error: string): Promise<void> {
+    await this.claimed(job).update({
+      status: 'queued',
+      run_at: new Date(runAt),
+      last_error: error,
+      locked_by: null,
+      locked_at: null,
+    })
+  }
+
+  async defer(job: StoredJob, runAt: number): Promise<void> {
+    await this.claimed(job).update({
+      status: 'queued',
+      run_at: new Date(runAt),
+      attempt: this.db.raw('GREATEST(attempt - 1, 0)'),
+      locked_by: null,
+      locked_at: null,
+    })
+  }
+
+  async markFailed(job: StoredJob, error: string): Promise<void> {
+    await this.claimed(job).update({
+      status: 'failed',
+      failed_at: new Date(),
+      last_error: error,
+      locked_by: null,
+      locked_at: null,
+    })
+  }
+
+  async releaseStale(claimedBefore: number): Promise<number> {
+    return this.db('background_jobs')
+      .where({ status: 'active' })
+      .andWhere('locked_at', '<', new Date(claimedBefore))
+      .update({ status: 'queued', locked_by: null, locked_at: null })
+  }
+
+  async countByType(now: number): Promise<Record<JobType, QueueTypeMetrics>> {
+    const byType = createEmptyTypeMetrics()
+    const result = await this.db.raw(
+      `SELECT type, status, run_at > ? AS delayed, COUNT(*)::int AS count
+         FROM background_jobs
+        GROUP BY type, status, run_at > ?`,
+      [new Date(now), new Date(now)],
+    )
+
+    for (const row of result.rows as Array<{ type: JobType; status: BackgroundJobRow['status']; delayed: boolean; count: number }>) {
+      const metrics = byType[row.type]
+      if (!metrics) {
+        continue
+      }
+      if (row.status === 'queued') {
+        metrics[row.delayed ? 'delayed' : 'queued'] += row.count
+      } else if (row.status !== 'cancelled') {
+        metrics[row.status] += row.count
+      }
+    }
+
+    return byType
+  }
+
+  async recentFailures(limit: number): Promise<FailedJobRecord[]> {
+    const rows: BackgroundJobRow[] = await this.db('background_jobs')
+      .where({ status: 'failed' })
+      .orderBy('failed_at', 'desc')
+      .limit(limit)
+
+    return rows.map((row) => ({
+      jobId: row.id,
+      type: row.type,
+      failedAt: new Date(row.failed_at ?? row.created_at).toISOString(),
+      attempts: row.attempt,
+      error: row.last_error ?? 'Unknown error',
+    }))
+  }
+
+  async getJob(id: string, now: number): Promise<JobDetails | null> {
+    if (!isUuid(id)) return null
+    const row: BackgroundJobRow | undefined = await this.db('background_jobs').where({ id }).first()
+    return row ? mapJobDetails(row, now) : null
+  }
+
+  async cancel(id: string, now: number): Promise<JobDetails | null> {
+    if (!isUuid(id)) return null
+    const [row]: BackgroundJobRow[] = await this.db('background_jobs')
+      .where({ id, status: 'queued' })
+      .update({ status: 'cancelled', cancelled_at: new Date(now) })
+      .returning('*')
+    return row ? mapJobDetails(row, now) : null
+  }
+
+  async retry(id: string, now: number): Promise<StoredJob | null> {
+    if (!isUuid(id)) return null
+    const [row]: BackgroundJobRow[] = await this.db('background_jobs')
+      .where({ id, status: 'failed' })
+      .update({ status: 'queued', attempt: 0, run_at: new Date(now), failed_at: null })
+      .returning('*')
+    return row ? mapJobRow(row) : null
+  }
+
+  /** The job's row, as long as the worker that claimed it still holds the claim */
+  private claimed(job: StoredJob): Knex.QueryBuilder {
+    return this.db('background_jobs').where({ id: job.id, status: 'active', locked_by: job.lockedBy ?? null })
+  }
+}
@@ -1,8 +1,12 @@
+import { db } from '../db/index.js'
 import { defaultJobHandlers } from './handlers.js'
-import { InMemoryJobQueue, type QueueMetrics, type QueuedJobReceipt } from './queue.js'
+import { JobQueue, type QueueMetrics, type QueuedJobReceipt } from './queue.js'
+import { RecurringJobScheduler, type RecurringJobDefinition, type RecurringJobStatus } from './scheduler.js'
+import { InMemoryJobStore, PostgresJobStore, type JobDetails, type JobStore } from './store.js'
 import { type EnqueueOptions, type JobPayloadByType, type JobType } from './types.js'
+import { WEBHOOK_RETRY_CONFIG } from '../webhooks/dispatcher.js'
 
-const parsePositiveInteger = (value: string | undefined, fallback: number): number => {
+export const parsePositiveInteger = (value: string | undefined, fallback: number): number => {
   if (!value) {
     return fallback
   }
@@ -15,22 +19,42 @@ const parsePositiveInteger = (value: string | undefined, fallback: number): numb
   return Math.floor(parsed)
 }
 
+export interface JobSystemMetrics extends QueueMetrics {
+  recurring: RecurringJobStatus[]
+}
+
+export interface BackgroundJobSystemOptions {
+  /** Defaults to Postgres when DATABASE_URL is set, in-memory otherwise */
+  store?: JobStore
+}
+
+const createDefaultStore = (): JobStore => {
+  if (process.env.DATABASE_URL) {
+    return new PostgresJobStore(db)
+  }
+  return new InMemoryJobStore(parsePositiveInteger(process.env.JOB_HISTORY_LIMIT, 50))
+}
+
 export class BackgroundJobSystem {
-  private readonly queue: InMemoryJobQueue
-  private readonly scheduleTimers: NodeJS.Timeout[] = []
+  private readonly queue: JobQueue
+  private readonly scheduler = new RecurringJobScheduler()
   private started = false
 
-  constructor() {
-    this.queue = new InMemoryJobQueue({
+  constructor(options: BackgroundJobSystemOptions = {}) {
+    this.queue = new JobQueue({
       concurrency: parsePositiveInteger(process.env.JOB_WORKER_CONCURRENCY, 2),
       pollIntervalMs: parsePositiveInteger(process.env.JOB_QUEUE_POLL_INTERVAL_MS, 250),
-      historyLimit: parsePositiveInteger(process.env.JOB_HISTORY_LIMIT, 50),
+      lockTimeoutMs: parsePositiveInteger(process.env.JOB_LOCK_TIMEOUT_MS, 300_000),
+      store: options.store ?? createDefaultStore(),
     })
 
     this.queue.registerHandler('notification.send', defaultJobHandlers['notification.send'])
     this.queue.registerHandler('deadline.check', defaultJobHandlers['deadline.check'])
     this.queue.registerHandler('oracle.call', defaultJobHandlers['oracle.call'])
     this.queue.registerHandler('analytics.recompute', defaultJobHandlers['analytics.recompute'])
+    this.queue.registerHandler('webhook.deliver', defaultJobHandlers['webhook.deliver'], WEBHOOK_RETRY_CONFIG)
+
+    this.registerBuiltInRecurringJobs()
   }
 
   start(): void {
@@ -40,14 +64,11 @@ export class BackgroundJobSystem {
 
     this.started = true
     this.queue.start()
-    this.scheduleRecurringJobs()
+    this.scheduler.start()
   }
 
   async stop(): Promise<void> {
-    for (const timer of this.scheduleTimers) {
-      clearInterval(timer)
-    }
-    this.scheduleTimers.length = 0
+    this.scheduler.stop()
     this.started = false
     await this.queue.stop()
   }
@@ -56,58 +77,65 @@ export class BackgroundJobSystem {
     type: JobType,
     payload: JobPayloadByType[JobType],
     options: EnqueueOptions = {},
-  ): QueuedJobReceipt<JobType> {
+  ): Promise<QueuedJobReceipt<JobType>> {
     return this.queue.enqueue(type, payload, options)
   }
 
-  getMetrics(): QueueMetrics {
-    return this.queue.getMetrics()
+  getJob(id: string): Promise<JobDetails | null> {
+    return this.queue.getJob(id)
+  }
+
+  cancelJob(id: string): Promise<JobDetails | null> {
+    return this.queue.cancel(id)
+  }
+
+  retryJob(id: string): Promise<QueuedJobReceipt | null> {
+    return this.queue.retry(id)
+  }
+
+  /**
+   * Run `definition.run` on a cron expression or fixed interval. Ticks that
+   * arrive while the previous run is still going are skipped.
+   */
+  registerRecurringJob(definition: RecurringJobDefinition): void {
+    this.scheduler.register(definition)
+  }
+
+  async getMetrics(): Promise<JobSystemMetrics> {
+    return {
+      ...(await this.queue.getMetrics()),
+      recurring: this.scheduler.getStatus(),
+    }
   }
 
-  private scheduleRecurringJobs(): void {
+  private registerBuiltInRecurringJobs(): void {
     if (process.env.ENABLE_JOB_SCHEDULER === 'false') {
       return
     }
 
-    const deadlineCheckIntervalMs = parsePositiveInteger(
-      process.env.DEADLINE_CHECK_INTERVAL_MS,
-      60_000,
-    )
-    const analyticsIntervalMs = parsePositiveInteger(
-      process.env.ANALYTICS_RECOMPUTE_INTERVAL_MS,
-      300_000,
-    )
-
-    this.enqueue('deadline.check', {
-      triggerSource: 'scheduler',
-    })
-    this.enqueue(
-      'analytics.recompute',
-      {
-        scope: 'global',
-        reason: 'startup-bootstrap',
+    this.registerRecurringJob({
+      name: 'deadline.check',
+      cron: process.env.DEADLINE_CHECK_CRON,
+      intervalMs: parsePositiveInteger(process.env.DEADLINE_CHECK_INTERVAL_MS, 60_000),
+      runOnStart: true,
+      run: async () => {
+        // Collapse into a still-pending sweep instead of stacking them up behind a slow worker
+        await this.enqueue('deadline.check', { triggerSource: 'scheduler' }, { dedupeKey: 'scheduler' })
       },
-      { delayMs: 5_000 },
-    )
-
-    const deadlineTimer = setInterval(() => {
-      this.enqueue('deadline.check', { triggerSource: 'scheduler' })
-    }, deadlineCheckIntervalMs)
-
-    const analyticsTimer = setInterval(() => {
-      this.enqueue('analytics.recompute', {
-        scope: 'global',
-        reason: 'scheduled-refresh',
-      })
-    }, analyticsIntervalMs)
-
-    if (typeof deadlineTimer.unref === 'function') {
-      deadlineTimer.unref()
-    }
-    if (typeof analyticsTimer.unref === 'function') {
-      analyticsTimer.unref()
-    }
+    })
 
-    this.scheduleTimers.push(deadlineTimer, analyticsTimer)
+    this.registerRecurringJob({
+      name: 'analytics.recompute',
+      cron: process.env.ANALYTICS_RECOMPUTE_CRON,
+      intervalMs: parsePositiveInteger(process.env.ANALYTICS_RECOMPUTE_INTERVAL_MS, 300_000),
+      runOnStart: true,
+      run: async () => {
+        await this.enqueue(
+          'analytics.recompute',
+          { scope: 'global', reason: 'scheduled-refresh' },
+          { dedupeKey: 'scheduler' },
+        )
+      },
+    })
   }
 }
@@ -3,14 +3,21 @@ export const JOB_TYPES = [
   'deadline.check',
   'oracle.call',
   'analytics.recompute',
+  'webhook.deliver',
 ] as const
 
 export type JobType = (typeof JOB_TYPES)[number]
 
 export interface NotificationJobPayload {
+  /** Email address, or a display name when `userId` is set */
   recipient: string
   subject: string
   body: string
+  /** Routes the notification through this user's channel preferences */
+  userId?: string
+  /** Notification type recorded on in-app notifications, e.g. `vault_failed` */
+  type?: string
+  data?: Record<string, unknown>
 }
 
 export interface DeadlineCheckJobPayload {
@@ -31,16 +38,24 @@ export interface AnalyticsRecomputeJobPayload {
   reason?: string
 }
 
+export interface WebhookDeliverJobPayload {
+  /** Row in the webhook delivery log to send */
+  deliveryId: string
+}
+
 export interface JobPayloadByType {
   'notification.send': NotificationJobPayload
   'deadline.check': DeadlineCheckJobPayload
   'oracle.call': OracleCallJobPayload
   'analytics.recompute': AnalyticsRecomputeJobPayload
+  'webhook.deliver': WebhookDeliverJobPayload
 }
 
 export interface JobContext {
   jobId: string
   attempt: number
+  /** Set by the queue; the attempt equal to it is the last one */
+  maxAttempts?: number
 }
 
 export type JobHandler<T extends JobType = JobType> = (
@@ -48,9 +63,41 @@ export type JobHandler<T extends JobType = JobType> = (
   context: JobContext,
 ) => Promise<void>
 
+/**
+ * Thrown by a handler that cannot do its work yet. The job goes back in the
+ * queue to run at `runAt` and the attempt does not count towards maxAttempts.
+ */
+export class JobDeferredError extends Error {
+  constructor(
+    public readonly runAt: number,
+    message = 'Job deferred',
+  ) {
+    super(message)
+    this.name = 'JobDeferredError'
+  }
+}
+
+/**
+ * What happens when a job is enqueued with the dedupeKey of a job of the same
+ * type that is still queued or delayed:
+ * - `keep`: the existing job is left as is and the new one is dropped
+ * - `replace`: the existing job takes the new payload, runAt and maxAttempts
+ * - `extend`: the existing job keeps its payload but runs no earlier than the new runAt
+ */
+export const DEDUPE_POLICIES = ['keep', 'replace', 'extend'] as const
+
+export type DedupePolicy = (typeof DEDUPE_POLICIES)[number]
+
 export interface EnqueueOptions {
   delayMs?: number
   maxAttempts?: number
+  dedupeKey?: string
+  /** Defaults to `keep` */
+  dedupePolicy?: DedupePolicy
+}
+
+export const isDedupePolicy = (value: unknown): value is DedupePolicy => {
+  return typeof value === 'string' && DEDUPE_POLICIES.includes(value as DedupePolicy)
 }
 
 const isRecord = (value: unknown): value is Record<string, unknown> => {
@@ -86,7 +133,10 @@ export const isPayloadForJobType = (
       return (
         isNonEmptyString(payload.recipient) &&
         isNonEmptyString(payload.subject) &&
-        isNonEmptyString(payload.body)
+        isNonEmptyString(payload.body) &&
+        isOptionalString(payload.userId) &&
+        isOptionalString(payload.type) &&
+        (payload.data === undefined || isRecord(payload.data))
       )
     case 'deadline.check':
       return (
@@ -106,6 +156,8 @@ export const isPayloadForJobType = (
         isOptionalString(payload.entityId) &&
         isOptionalString(payload.reason)
       )
+    case 'webhook.deliver':
+      return isNonEmptyString(payload.deliveryId)
     default:
       return false
   }
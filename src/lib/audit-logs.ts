@@ -1,49 +1,387 @@
+import { createHash, randomUUID } from 'node:crypto'
+import type { PoolClient } from 'pg'
+import { getPgPool } from '../db/pool.js'
+
 export type AuditLog = {
   id: string
+  sequence: number
   actor_user_id: string
   action: string
   target_type: string
   target_id: string
   metadata: Record<string, unknown>
   created_at: string
+  prev_hash: string
+  hash: string
 }
 
-type AuditLogFilters = {
+export type AuditLogInput = Omit<AuditLog, 'id' | 'sequence' | 'created_at' | 'prev_hash' | 'hash'>
+
+export type AuditLogFilters = {
   actor_user_id?: string
+  // Exact action, or a prefix ending in '*' (e.g. 'vault.*')
   action?: string
   target_type?: string
   target_id?: string
+  // Inclusive created_at bounds as UTC ISO 8601 strings
+  from?: string
+  to?: string
+  // Top-level metadata keys that must equal the given string values
+  metadata?: Record<string, string>
+  // Opaque cursor from a previous page's next_cursor
+  cursor?: string
   limit?: number
 }
 
+export type AuditLogPage = {
+  logs: AuditLog[]
+  next_cursor: string | null
+}
+
+export class InvalidAuditLogCursorError extends Error {
+  constructor() {
+    super('Invalid audit log cursor')
+    this.name = 'InvalidAuditLogCursorError'
+  }
+}
+
+export type AuditChainBreak = {
+  id: string
+  sequence: number
+  reason: 'hash_mismatch' | 'prev_hash_mismatch'
+  expected: string
+  actual: string
+}
+
+export type AuditChainVerification = {
+  valid: boolean
+  checked: number
+  first_broken: AuditChainBreak | null
+}
+
+type AuditLogRow = {
+  id: string
+  sequence: string | number
+  actor_user_id: string
+  action: string
+  target_type: string
+  target_id: string
+  metadata: Record<string, unknown>
+  created_at: string | Date
+  prev_hash: string
+  hash: string
+}
+
+// prev_hash of the first entry in the chain
+export const GENESIS_HASH = '0'.repeat(64)
+
+// pg advisory lock key serializing appends so concurrent writers cannot fork the chain
+const AUDIT_CHAIN_LOCK_KEY = 7240512
+
+const VERIFY_BATCH_SIZE = 500
+
+const DEFAULT_LIST_LIMIT = 100
+const MAX_LIST_LIMIT = 500
+
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_]+$/
+
 const auditLogsTable: AuditLog[] = []
 
-const makeId = (): string => `audit-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+const makeId = (): string => `audit-${randomUUID()}`
+
+/**
+ * Recursively sort object keys so the hash does not depend on key order
+ * (Postgres jsonb does not preserve it)
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize)
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key])
+        return acc
+      }, {})
+  }
+  return value
+}
+
+/**
+ * SHA-256 over the canonical JSON of an entry's contents and the previous entry's hash
+ */
+export const computeAuditLogHash = (log: Omit<AuditLog, 'sequence' | 'hash'>): string =>
+  createHash('sha256')
+    .update(
+      JSON.stringify(
+        canonicalize({
+          id: log.id,
+          actor_user_id: log.actor_user_id,
+          action: log.action,
+          target_type: log.target_type,
+          target_id: log.target_id,
+          metadata: log.metadata,
+          created_at: log.created_at,
+          prev_hash: log.prev_hash,
+        }),
+      ),
+    )
+    .digest('hex')
+
+const mapAuditLogRow = (row: AuditLogRow): AuditLog => ({
+  id: row.id,
+  sequence: Number(row.sequence),
+  actor_user_id: row.actor_user_id,
+  action: row.action,
+  target_type: row.target_type,
+  target_id: row.target_id,
+  metadata: row.metadata ?? {},
+  created_at: row.created_at instanceof Date ? row.created_at.toISOString() : new Date(row.created_at).toISOString(),
+  prev_hash: row.prev_hash,
+  hash: row.hash,
+})
 
-export const createAuditLog = (entry: Omit<AuditLog, 'id' | 'created_at'>): AuditLog => {
-  const created_at = new Date().toISOString()
-  const auditLog: AuditLog = {
+const buildEntry = (entry: AuditLogInput, prevHash: string): Omit<AuditLog, 'sequence'> => {
+  const unhashed = {
     id: makeId(),
-    created_at,
-    ...entry,
+    actor_user_id: entry.actor_user_id,
+    action: entry.action,
+    target_type: entry.target_type,
+    target_id: entry.target_id,
+    // Round-trip through JSON so undefined values and Dates hash the same way they are stored
+    metadata: JSON.parse(JSON.stringify(entry.metadata ?? {})) as Record<string, unknown>,
+    created_at: new Date().toISOString(),
+    prev_hash: prevHash,
+  }
+
+  return { ...unhashed, hash: computeAuditLogHash(unhashed) }
+}
+
+const appendAuditLog = async (client: PoolClient, entry: AuditLogInput): Promise<AuditLog> => {
+  await client.query('BEGIN')
+  try {
+    await client.query('SELECT pg_advisory_xact_lock($1)', [AUDIT_CHAIN_LOCK_KEY])
+
+    const previous = await client.query<{ hash: string }>(
+      'SELECT hash FROM audit_logs ORDER BY sequence DESC LIMIT 1',
+    )
+    const auditLog = buildEntry(entry, previous.rows[0]?.hash ?? GENESIS_HASH)
+
+    const inserted = await client.query<{ sequence: string }>(
+      `INSERT INTO audit_logs (id, actor_user_id, action, target_type, target_id, metadata, created_at, prev_hash, hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING sequence`,
+      [
+        auditLog.id,
+        auditLog.actor_user_id,
+        auditLog.action,
+        auditLog.target_type,
+        auditLog.target_id,
+        JSON.stringify(auditLog.metadata),
+        auditLog.created_at,
+        auditLog.prev_hash,
+        auditLog.hash,
+      ],
+    )
+
+    await client.query('COMMIT')
+    return { ...auditLog, sequence: Number(inserted.rows[0].sequence) }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  }
+}
+
+export const createAuditLog = async (entry: AuditLogInput): Promise<AuditLog> => {
+  const pool = getPgPool()
+
+  if (!pool) {
+    const previous = auditLogsTable[auditLogsTable.length - 1]
+    const auditLog: AuditLog = {
+      ...buildEntry(entry, previous?.hash ?? GENESIS_HASH),
+      sequence: auditLogsTable.length + 1,
+    }
+    auditLogsTable.push(auditLog)
+    return auditLog
   }
 
-  auditLogsTable.push(auditLog)
-  return auditLog
+  const client = await pool.connect()
+  try {
+    return await appendAuditLog(client, entry)
+  } finally {
+    client.release()
+  }
+}
+
+const encodeCursor = (sequence: number): string =>
+  Buffer.from(JSON.stringify({ s: sequence })).toString('base64url')
+
+const decodeCursor = (cursor: string): number => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { s?: unknown }
+    if (typeof decoded.s === 'number' && Number.isInteger(decoded.s) && decoded.s > 0) {
+      return decoded.s
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidAuditLogCursorError()
 }
 
-export const listAuditLogs = (filters: AuditLogFilters = {}): AuditLog[] => {
+const actionPrefix = (action: string): string | null =>
+  action.endsWith('*') ? action.slice(0, -1) : null
+
+const matchesFilters = (log: AuditLog, filters: AuditLogFilters, beforeSequence: number | null): boolean => {
+  if (beforeSequence !== null && log.sequence >= beforeSequence) return false
+  if (filters.actor_user_id && log.actor_user_id !== filters.actor_user_id) return false
+  if (filters.action) {
+    const prefix = actionPrefix(filters.action)
+    if (prefix !== null ? !log.action.startsWith(prefix) : log.action !== filters.action) return false
+  }
+  if (filters.target_type && log.target_type !== filters.target_type) return false
+  if (filters.target_id && log.target_id !== filters.target_id) return false
+  if (filters.from && log.created_at < filters.from) return false
+  if (filters.to && log.created_at > filters.to) return false
+  for (const [key, value] of Object.entries(filters.metadata ?? {})) {
+    if (log.metadata[key] === undefined || String(log.metadata[key]) !== value) return false
+  }
+  return true
+}
+
+/**
+ * List audit logs newest first, one page at a time
+ *
+ * @throws InvalidAuditLogCursorError if filters.cursor cannot be decoded
+ */
+export const listAuditLogs = async (filters: AuditLogFilters = {}): Promise<AuditLogPage> => {
   const parsedLimit = Number(filters.limit)
-  const limit = Number.isFinite(parsedLimit) && parsedLimit > 0 ? Math.floor(parsedLimit) : 100
+  const limit = Number.isFinite(parsedLimit) && parsedLimit > 0
+    ? Math.min(Math.floor(parsedLimit), MAX_LIST_LIMIT)
+    : DEFAULT_LIST_LIMIT
+  const beforeSequence = filters.cursor ? decodeCursor(filters.cursor) : null
+  const pool = getPgPool()
+
+  let rows: AuditLog[]
+  if (!pool) {
+    rows = auditLogsTable
+      .filter((log) => matchesFilters(log, filters, beforeSequence))
+      .sort((a, b) => b.sequence - a.sequence)
+      .slice(0, limit + 1)
+  } else {
+    const conditions: string[] = []
+    const params: unknown[] = []
+    const addParam = (value: unknown): string => {
+      params.push(value)
+      return `$${params.length}`
+    }
+
+    if (beforeSequence !== null) conditions.push(`sequence < ${addParam(beforeSequence)}`)
+    for (const column of ['actor_user_id', 'target_type', 'target_id'] as const) {
+      if (filters[column]) conditions.push(`${column} = ${addParam(filters[column])}`)
+    }
+    if (filters.action) {
+      const prefix = actionPrefix(filters.action)
+      conditions.push(
+        prefix !== null
+          ? `action LIKE ${addParam(`${prefix.replace(/[\\%_]/g, '\\$&')}%`)}`
+          : `action = ${addParam(filters.action)}`,
+      )
+    }
+    if (filters.from) conditions.push(`created_at >= ${addParam(filters.from)}`)
+    if (filters.to) conditions.push(`created_at <= ${addParam(filters.to)}`)
+    for (const [key, value] of Object.entries(filters.metadata ?? {})) {
+      conditions.push(`metadata ->> ${addParam(key)} = ${addParam(value)}`)
+    }
+
+    const result = await pool.query<AuditLogRow>(
+      `SELECT * FROM audit_logs
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY sequence DESC
+       LIMIT ${addParam(limit + 1)}`,
+      params,
+    )
+    rows = result.rows.map(mapAuditLogRow)
+  }
 
-  return auditLogsTable
-    .filter((log) => (filters.actor_user_id ? log.actor_user_id === filters.actor_user_id : true))
-    .filter((log) => (filters.action ? log.action === filters.action : true))
-    .filter((log) => (filters.target_type ? log.target_type === filters.target_type : true))
-    .filter((log) => (filters.target_id ? log.target_id === filters.target_id : true))
-    .sort((a, b) => b.created_at.localeCompare(a.created_at))
-    .slice(0, limit)
+  const logs = rows.slice(0, limit)
+  return {
+    logs,
+    next_cursor: rows.length > limit ? encodeCursor(logs[logs.length - 1].sequence) : null,
+  }
+}
+
+export const getAuditLogById = async (id: string): Promise<AuditLog | undefined> => {
+  const pool = getPgPool()
+
+  if (!pool) {
+    return auditLogsTable.find((log) => log.id === id)
+  }
+
+  const result = await pool.query<AuditLogRow>('SELECT * FROM audit_logs WHERE id = $1', [id])
+  return result.rows[0] ? mapAuditLogRow(result.rows[0]) : undefined
+}
+
+/**
+ * Walk the chain in sequence order, recomputing each hash and checking it links
+ * to its predecessor. Stops at and reports the first broken link.
+ */
+export const verifyAuditLogChain = async (): Promise<AuditChainVerification> => {
+  const pool = getPgPool()
+  let checked = 0
+  let expectedPrevHash = GENESIS_HASH
+
+  const verifyEntry = (log: AuditLog): AuditChainBreak | null => {
+    if (log.prev_hash !== expectedPrevHash) {
+      return {
+        id: log.id,
+        sequence: log.sequence,
+        reason: 'prev_hash_mismatch',
+        expected: expectedPrevHash,
+        actual: log.prev_hash,
+      }
+    }
+
+    const recomputed = computeAuditLogHash(log)
+    if (recomputed !== log.hash) {
+      return { id: log.id, sequence: log.sequence, reason: 'hash_mismatch', expected: recomputed, actual: log.hash }
+    }
+
+    expectedPrevHash = log.hash
+    checked += 1
+    return null
+  }
+
+  if (!pool) {
+    for (const log of auditLogsTable) {
+      const broken = verifyEntry(log)
+      if (broken) {
+        return { valid: false, checked, first_broken: broken }
+      }
+    }
+    return { valid: true, checked, first_broken: null }
+  }
+
+  let lastSequence = 0
+  for (;;) {
+    const result = await pool.query<AuditLogRow>(
+      'SELECT * FROM audit_logs WHERE sequence > $1 ORDER BY sequence ASC LIMIT $2',
+      [lastSequence, VERIFY_BATCH_SIZE],
+    )
+    if (result.rows.length === 0) {
+      return { valid: true, checked, first_broken: null }
+    }
+
+    for (const row of result.rows) {
+      const broken = verifyEntry(mapAuditLogRow(row))
+      if (broken) {
+        return { valid: false, checked, first_broken: broken }
+      }
+      lastSequence = Number(row.sequence)
+    }
+  }
 }
 
-export const getAuditLogById = (id: string): AuditLog | undefined =>
-  auditLogsTable.find((log) => log.id === id)
+export const resetAuditLogs = (): void => {
+  auditLogsTable.length = 0
+}
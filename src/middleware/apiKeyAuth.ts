@@ -1,8 +1,10 @@
 import type { RequestHandler } from 'express'
-import { validateApiKey } from '../services/apiKeys.js'
+import { recordApiKeyUsage, validateApiKey } from '../services/apiKeys.js'
+import type { ApiKeyScope } from '../types/auth.js'
+import { UserRole } from '../types/user.js'
 
-export const authenticateApiKey = (requiredScopes: string[] = []): RequestHandler => {
-  return (req, res, next) => {
+export const authenticateApiKey = (requiredScopes: ApiKeyScope[] = []): RequestHandler => {
+  return async (req, res, next) => {
     const apiKey = req.header('x-api-key')
 
     if (!apiKey) {
@@ -10,19 +12,62 @@ export const authenticateApiKey = (requiredScopes: string[] = []): RequestHandle
       return
     }
 
-    const validation = validateApiKey(apiKey, requiredScopes)
-    if (!validation.valid) {
-      if (validation.reason === 'forbidden') {
-        res.status(403).json({ error: 'API key does not have the required scopes.' })
+    try {
+      const validation = await validateApiKey(apiKey, requiredScopes)
+      if (!validation.valid) {
+        if (validation.reason === 'forbidden') {
+          res.status(403).json({ error: 'API key does not have the required scopes.' })
+          return
+        }
+
+        const reasonLabel =
+          validation.reason === 'revoked' || validation.reason === 'expired' ? validation.reason : 'invalid'
+        res.status(401).json({ error: `API key is ${reasonLabel}.` })
         return
       }
 
-      const reasonLabel = validation.reason === 'revoked' ? 'revoked' : 'invalid'
-      res.status(401).json({ error: `API key is ${reasonLabel}.` })
-      return
+      await recordApiKeyUsage(validation.context.apiKeyId, req.ip ?? null)
+
+      req.apiKeyAuth = validation.context
+      next()
+    } catch (error) {
+      next(error)
+    }
+  }
+}
+
+/**
+ * Authenticate with an API key when x-api-key is sent, otherwise fall back to
+ * userAuth. Only keys owned by a user are accepted; the key's owner is exposed
+ * as req.user (with the USER role) and req.authUser so handlers written for
+ * either auth style keep working.
+ */
+export const authenticateUserOrApiKey = (
+  requiredScopes: ApiKeyScope[],
+  userAuth: RequestHandler,
+): RequestHandler => {
+  const apiKeyAuth = authenticateApiKey(requiredScopes)
+
+  return (req, res, next) => {
+    if (!req.header('x-api-key')) {
+      return userAuth(req, res, next)
     }
 
-    req.apiKeyAuth = validation.context
-    next()
+    return apiKeyAuth(req, res, (error?: unknown) => {
+      if (error) {
+        next(error)
+        return
+      }
+
+      const userId = req.apiKeyAuth?.userId
+      if (!userId) {
+        res.status(403).json({ error: 'Organization API keys cannot access user resources.' })
+        return
+      }
+
+      req.user = { userId, role: UserRole.USER }
+      req.authUser = { userId }
+      next()
+    })
   }
 }
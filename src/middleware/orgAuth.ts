@@ -1,28 +1,18 @@
 import { Request, Response, NextFunction } from 'express'
-import { AuthenticatedRequest } from './auth.js'
+import { AuthenticatedRequest, authenticate } from './auth.js'
+import { authenticateApiKey } from './apiKeyAuth.js'
+import { getMemberRole, getOrganization } from '../models/organizations.js'
+import type { OrgRole } from '../models/organizations.js'
+import type { ApiKeyScope } from '../types/auth.js'
 
-export type OrgRole = 'owner' | 'admin' | 'member'
+export type { OrgMember, OrgRole } from '../models/organizations.js'
+export { getMemberRole, setOrgMembers } from '../models/organizations.js'
 
-export interface OrgMember {
-  orgId: string
-  userId: string
-  role: OrgRole
-}
-
-let orgMembers: OrgMember[] = []
-
-export const setOrgMembers = (members: OrgMember[]) => {
-  orgMembers = members
-}
-
-export const getMemberRole = (orgId: string, userId: string): OrgRole | null => {
-  const membership = orgMembers.find(m => m.orgId === orgId && m.userId === userId)
-  return membership ? membership.role : null
-}
+const getOrgId = (req: Request): string | undefined => req.params.orgId || (req.query.orgId as string | undefined)
 
-export const requireOrgAccess = (allowedRoles: OrgRole[]) => {
+export const requireOrgAccess = (...allowedRoles: OrgRole[]) => {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    const orgId = req.params.orgId || req.query.orgId as string
+    const orgId = getOrgId(req)
     const userId = req.user?.userId || (req.user as any)?.sub
 
     if (!orgId || !userId) {
@@ -30,6 +20,11 @@ export const requireOrgAccess = (allowedRoles: OrgRole[]) => {
       return
     }
 
+    if (!getOrganization(orgId)) {
+      res.status(404).json({ error: 'Organization not found' })
+      return
+    }
+
     const role = getMemberRole(orgId, userId)
     if (!role || !allowedRoles.includes(role)) {
       res.status(403).json({ error: 'Insufficient organization permissions' })
@@ -39,3 +34,47 @@ export const requireOrgAccess = (allowedRoles: OrgRole[]) => {
     next()
   }
 }
+
+/**
+ * Accept either a member JWT (checked against allowedRoles) or an org-owned
+ * API key sent in x-api-key (checked against requiredScopes). API keys only
+ * unlock the organization they were issued for; personal keys never do, since
+ * they would outlive their owner's membership.
+ */
+export const requireOrgMemberOrApiKey = (allowedRoles: OrgRole[], requiredScopes: ApiKeyScope[]) => {
+  const apiKeyAuth = authenticateApiKey(requiredScopes)
+  const memberAuth = requireOrgAccess(...allowedRoles)
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.header('x-api-key')) {
+      void authenticate(req, res, (error?: unknown) => {
+        if (error) {
+          next(error)
+          return
+        }
+        memberAuth(req, res, next)
+      })
+      return
+    }
+
+    void apiKeyAuth(req, res, (error?: unknown) => {
+      if (error) {
+        next(error)
+        return
+      }
+
+      const orgId = getOrgId(req)
+      if (!orgId || req.apiKeyAuth?.userId !== null || req.apiKeyAuth.orgId !== orgId) {
+        res.status(403).json({ error: 'API key is not scoped to this organization' })
+        return
+      }
+
+      if (!getOrganization(orgId)) {
+        res.status(404).json({ error: 'Organization not found' })
+        return
+      }
+
+      next()
+    })
+  }
+}
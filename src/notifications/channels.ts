@@ -0,0 +1,81 @@
+import { createNotification } from '../services/notification.js'
+import { assertPublicWebhookTarget } from '../utils/webhookTargets.js'
+import type { MailTransport } from './smtp.js'
+
+export const NOTIFICATION_CHANNELS = ['email', 'webhook', 'in_app'] as const
+
+export type NotificationChannelName = (typeof NOTIFICATION_CHANNELS)[number]
+
+export const isNotificationChannelName = (value: unknown): value is NotificationChannelName => {
+  return typeof value === 'string' && NOTIFICATION_CHANNELS.includes(value as NotificationChannelName)
+}
+
+export interface NotificationMessage {
+  userId?: string
+  type: string
+  subject: string
+  body: string
+  data?: Record<string, unknown>
+}
+
+/**
+ * Delivers a message to one address on one medium. `address` is an email
+ * address, a webhook URL or a user id depending on the channel. Throwing
+ * marks the delivery as failed so the job can be retried.
+ */
+export interface NotificationChannel {
+  readonly name: NotificationChannelName
+  send(address: string, message: NotificationMessage): Promise<void>
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const
+
+  constructor(private readonly transport: MailTransport) {}
+
+  async send(address: string, message: NotificationMessage): Promise<void> {
+    await this.transport.send({ to: address, subject: message.subject, text: message.body })
+  }
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook' as const
+
+  constructor(private readonly timeoutMs = 10_000) {}
+
+  async send(address: string, message: NotificationMessage): Promise<void> {
+    await assertPublicWebhookTarget(address)
+    const response = await fetch(address, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: message.type,
+        subject: message.subject,
+        body: message.body,
+        data: message.data ?? null,
+        sentAt: new Date().toISOString(),
+      }),
+      // Redirects are not followed and count as a failure
+      redirect: 'manual',
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`)
+    }
+  }
+}
+
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app' as const
+
+  async send(address: string, message: NotificationMessage): Promise<void> {
+    await createNotification({
+      user_id: address,
+      type: message.type,
+      title: message.subject,
+      message: message.body,
+      data: message.data,
+    })
+  }
+}
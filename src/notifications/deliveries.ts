@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import type { NotificationChannelName } from './channels.js'
+
+export type DeliveryStatus = 'delivered' | 'failed'
+
+export interface NotificationDelivery {
+  id: string
+  jobId: string
+  attempt: number
+  userId: string | null
+  channel: NotificationChannelName
+  address: string
+  status: DeliveryStatus
+  error: string | null
+  createdAt: string
+}
+
+export type NewNotificationDelivery = Omit<NotificationDelivery, 'id' | 'createdAt'>
+
+/**
+ * Every attempt to deliver a notification on a channel, successful or not.
+ * A retried job reads its earlier deliveries to skip channels that already
+ * went through.
+ */
+export interface NotificationDeliveryLog {
+  record(delivery: NewNotificationDelivery): Promise<NotificationDelivery>
+  /** Oldest first */
+  listByJob(jobId: string): Promise<NotificationDelivery[]>
+}
+
+export class InMemoryNotificationDeliveryLog implements NotificationDeliveryLog {
+  private readonly deliveries: NotificationDelivery[] = []
+
+  async record(delivery: NewNotificationDelivery): Promise<NotificationDelivery> {
+    const stored = { ...delivery, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.deliveries.push(stored)
+    return { ...stored }
+  }
+
+  async listByJob(jobId: string): Promise<NotificationDelivery[]> {
+    return this.deliveries.filter((delivery) => delivery.jobId === jobId).map((delivery) => ({ ...delivery }))
+  }
+}
+
+interface NotificationDeliveryRow {
+  id: string
+  job_id: string
+  attempt: number
+  user_id: string | null
+  channel: NotificationChannelName
+  address: string
+  status: DeliveryStatus
+  error: string | null
+  created_at: Date | string
+}
+
+const mapDeliveryRow = (row: NotificationDeliveryRow): NotificationDelivery => ({
+  id: row.id,
+  jobId: row.job_id,
+  attempt: row.attempt,
+  userId: row.user_id,
+  channel: row.channel,
+  address: row.address,
+  status: row.status,
+  error: row.error,
+  createdAt: new Date(row.created_at).toISOString(),
+})
+
+export class PostgresNotificationDeliveryLog implements NotificationDeliveryLog {
+  constructor(private readonly db: Knex) {}
+
+  async record(delivery: NewNotificationDelivery): Promise<NotificationDelivery> {
+    const [row] = await this.db('notification_deliveries')
+      .insert({
+        id: randomUUID(),
+        job_id: delivery.jobId,
+        attempt: delivery.attempt,
+        user_id: delivery.userId,
+        channel: delivery.channel,
+        address: delivery.address,
+        status: delivery.status,
+        error: delivery.error,
+      })
+      .returning('*')
+    return mapDeliveryRow(row)
+  }
+
+  async listByJob(jobId: string): Promise<NotificationDelivery[]> {
+    const rows: NotificationDeliveryRow[] = await this.db('notification_deliveries')
+      .where({ job_id: jobId })
+      .orderBy('created_at', 'asc')
+    return rows.map(mapDeliveryRow)
+  }
+}
@@ -0,0 +1,186 @@
+import { db } from '../db/index.js'
+import { JobDeferredError, type JobContext, type NotificationJobPayload } from '../jobs/types.js'
+import {
+  EmailChannel,
+  InAppChannel,
+  WebhookChannel,
+  type NotificationChannel,
+  type NotificationChannelName,
+  type NotificationMessage,
+} from './channels.js'
+import {
+  InMemoryNotificationDeliveryLog,
+  PostgresNotificationDeliveryLog,
+  type NotificationDelivery,
+  type NotificationDeliveryLog,
+} from './deliveries.js'
+import {
+  channelsForType,
+  getNotificationPreferenceStore,
+  quietHoursEndAt,
+  type NotificationPreferences,
+  type NotificationPreferenceStore,
+} from './preferences.js'
+import { createMailTransportFromEnv } from './smtp.js'
+
+export interface NotificationTarget {
+  channel: NotificationChannelName
+  address: string
+}
+
+export interface NotificationDispatcherOptions {
+  channels: NotificationChannel[]
+  preferences: NotificationPreferenceStore
+  deliveries: NotificationDeliveryLog
+}
+
+export class NotificationDeliveryError extends Error {
+  constructor(public readonly failed: NotificationDelivery[]) {
+    super(
+      `Notification delivery failed on ${failed.map((delivery) => `${delivery.channel} (${delivery.error})`).join(', ')}`,
+    )
+    this.name = 'NotificationDeliveryError'
+  }
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message
+  }
+  return String(error)
+}
+
+const targetKey = (target: { channel: string; address: string }): string => `${target.channel}:${target.address}`
+
+/**
+ * Turns a `notification.send` job into deliveries on the channels the user
+ * has chosen for its type. Each attempt is written to the delivery log; if
+ * any channel fails the dispatch throws so the job queue retries it, and the
+ * retry only resends on channels that have not gone through yet. During the
+ * user's quiet hours in-app delivery goes ahead and the rest is deferred.
+ */
+export class NotificationDispatcher {
+  private readonly channels: Map<NotificationChannelName, NotificationChannel>
+  private readonly preferences: NotificationPreferenceStore
+  private readonly deliveries: NotificationDeliveryLog
+
+  constructor(options: NotificationDispatcherOptions) {
+    this.channels = new Map(options.channels.map((channel) => [channel.name, channel]))
+    this.preferences = options.preferences
+    this.deliveries = options.deliveries
+  }
+
+  async dispatch(payload: NotificationJobPayload, context: JobContext): Promise<NotificationDelivery[]> {
+    const message: NotificationMessage = {
+      userId: payload.userId,
+      type: payload.type ?? 'general',
+      subject: payload.subject,
+      body: payload.body,
+      data: payload.data,
+    }
+
+    const preferences = payload.userId ? await this.preferences.get(payload.userId) : null
+    const quietUntil = preferences ? quietHoursEndAt(preferences, new Date()) : null
+
+    const delivered = new Set(
+      (await this.deliveries.listByJob(context.jobId))
+        .filter((delivery) => delivery.status === 'delivered')
+        .map(targetKey),
+    )
+
+    const results: NotificationDelivery[] = []
+    let held = 0
+    for (const target of this.resolveTargets(payload, preferences)) {
+      if (delivered.has(targetKey(target))) {
+        continue
+      }
+      if (quietUntil && target.channel !== 'in_app') {
+        held += 1
+        continue
+      }
+
+      const channel = this.channels.get(target.channel)
+      let error: string | null = null
+      try {
+        if (!channel) {
+          throw new Error(`Channel not configured: ${target.channel}`)
+        }
+        await channel.send(target.address, message)
+      } catch (sendError) {
+        error = getErrorMessage(sendError)
+      }
+
+      results.push(
+        await this.deliveries.record({
+          jobId: context.jobId,
+          attempt: context.attempt,
+          userId: payload.userId ?? null,
+          channel: target.channel,
+          address: target.address,
+          status: error === null ? 'delivered' : 'failed',
+          error,
+        }),
+      )
+    }
+
+    const failed = results.filter((delivery) => delivery.status === 'failed')
+    if (failed.length > 0) {
+      throw new NotificationDeliveryError(failed)
+    }
+
+    if (quietUntil && held > 0) {
+      throw new JobDeferredError(
+        quietUntil.getTime(),
+        `Held ${held} delivery(s) for quiet hours until ${quietUntil.toISOString()}`,
+      )
+    }
+
+    return results
+  }
+
+  private resolveTargets(
+    payload: NotificationJobPayload,
+    preferences: NotificationPreferences | null,
+  ): NotificationTarget[] {
+    if (!payload.userId || !preferences) {
+      return [{ channel: 'email', address: payload.recipient }]
+    }
+
+    const targets: NotificationTarget[] = []
+    for (const channel of channelsForType(preferences, payload.type ?? 'general')) {
+      let address: string | null
+      if (channel === 'email') {
+        address = preferences.email ?? (payload.recipient.includes('@') ? payload.recipient : null)
+      } else if (channel === 'webhook') {
+        address = preferences.webhookUrl
+      } else {
+        address = payload.userId
+      }
+
+      if (address) {
+        targets.push({ channel, address })
+      }
+    }
+
+    return targets
+  }
+}
+
+let dispatcher: NotificationDispatcher | null = null
+
+export const getNotificationDispatcher = (): NotificationDispatcher => {
+  if (!dispatcher) {
+    dispatcher = new NotificationDispatcher({
+      channels: [new EmailChannel(createMailTransportFromEnv()), new WebhookChannel(), new InAppChannel()],
+      preferences: getNotificationPreferenceStore(),
+      deliveries: process.env.DATABASE_URL
+        ? new PostgresNotificationDeliveryLog(db)
+        : new InMemoryNotificationDeliveryLog(),
+    })
+  }
+  return dispatcher
+}
+
+export const setNotificationDispatcher = (next: NotificationDispatcher | null): void => {
+  dispatcher = next
+}
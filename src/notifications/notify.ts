@@ -0,0 +1,58 @@
+import { randomUUID } from 'node:crypto'
+import { JobDeferredError, type NotificationJobPayload } from '../jobs/types.js'
+import { getNotificationDispatcher } from './dispatcher.js'
+import type { NotificationType } from './preferences.js'
+
+export interface UserNotification {
+  userId: string
+  type: NotificationType
+  subject: string
+  body: string
+  data?: Record<string, unknown>
+}
+
+export interface NotifyOptions {
+  /** Collapses into a still-queued notification job with the same key */
+  dedupeKey?: string
+}
+
+export type NotificationEnqueuer = (payload: NotificationJobPayload, options: NotifyOptions) => Promise<unknown>
+
+let enqueuer: NotificationEnqueuer | null = null
+
+/**
+ * Route notifyUser through the job queue. Set once at startup so delivery
+ * failures and quiet hours are retried and deferred by the queue.
+ */
+export const setNotificationEnqueuer = (next: NotificationEnqueuer | null): void => {
+  enqueuer = next
+}
+
+/**
+ * Notify a user on the channels they chose for this notification type.
+ * Without an enqueuer the notification is dispatched inline, once; anything
+ * held back by quiet hours is then dropped rather than deferred.
+ */
+export const notifyUser = async (notification: UserNotification, options: NotifyOptions = {}): Promise<void> => {
+  const payload: NotificationJobPayload = {
+    recipient: notification.userId,
+    userId: notification.userId,
+    type: notification.type,
+    subject: notification.subject,
+    body: notification.body,
+    data: notification.data,
+  }
+
+  if (enqueuer) {
+    await enqueuer(payload, options)
+    return
+  }
+
+  try {
+    await getNotificationDispatcher().dispatch(payload, { jobId: randomUUID(), attempt: 1 })
+  } catch (error) {
+    if (!(error instanceof JobDeferredError)) {
+      throw error
+    }
+  }
+}
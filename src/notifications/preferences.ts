@@ -0,0 +1,187 @@
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { getLocalMinutesOfDay } from '../utils/timestamps.js'
+import type { NotificationChannelName } from './channels.js'
+
+export const NOTIFICATION_TYPES = [
+  'vault_deadline_approaching',
+  'milestone_verified',
+  'milestone_review_escalated',
+  'vault_completed',
+  'vault_failed',
+  'session_revoked',
+] as const
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]
+
+export const isNotificationType = (value: unknown): value is NotificationType => {
+  return typeof value === 'string' && NOTIFICATION_TYPES.includes(value as NotificationType)
+}
+
+/** Local wall-clock window, `HH:MM` in the user's timezone; may wrap past midnight */
+export interface QuietHours {
+  start: string
+  end: string
+}
+
+export interface NotificationPreferences {
+  /** Channels for notification types without their own entry in `types` */
+  channels: NotificationChannelName[]
+  types: Partial<Record<NotificationType, NotificationChannelName[]>>
+  /** Email and webhook deliveries are held until the window ends; in-app is not */
+  quietHours: QuietHours | null
+  /** IANA timezone used for quiet hours */
+  timezone: string
+  email: string | null
+  webhookUrl: string | null
+}
+
+export const defaultNotificationPreferences = (): NotificationPreferences => ({
+  channels: ['in_app'],
+  types: {},
+  quietHours: null,
+  timezone: 'UTC',
+  email: null,
+  webhookUrl: null,
+})
+
+export const channelsForType = (
+  preferences: NotificationPreferences,
+  type: string,
+): NotificationChannelName[] => {
+  return (isNotificationType(type) ? preferences.types[type] : undefined) ?? preferences.channels
+}
+
+const QUIET_HOURS_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+export const isQuietHoursTime = (value: unknown): value is string => {
+  return typeof value === 'string' && QUIET_HOURS_TIME.test(value)
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * When `now` falls inside the user's quiet hours, the instant they end;
+ * otherwise null. Computed from local wall-clock minutes, so a DST change
+ * inside the window can shift the end by an hour.
+ */
+export const quietHoursEndAt = (preferences: NotificationPreferences, now: Date): Date | null => {
+  if (!preferences.quietHours) {
+    return null
+  }
+
+  const start = toMinutes(preferences.quietHours.start)
+  const end = toMinutes(preferences.quietHours.end)
+  const local = getLocalMinutesOfDay(now, preferences.timezone)
+  const inside = start < end ? local >= start && local < end : local >= start || local < end
+  if (!inside) {
+    return null
+  }
+
+  const minutesLeft = (end - local + 24 * 60) % (24 * 60)
+  const endAt = new Date(now.getTime() + minutesLeft * 60_000)
+  endAt.setUTCSeconds(0, 0)
+  return endAt
+}
+
+const clonePreferences = (preferences: NotificationPreferences): NotificationPreferences => ({
+  ...preferences,
+  channels: [...preferences.channels],
+  types: Object.fromEntries(
+    Object.entries(preferences.types).map(([type, channels]) => [type, [...channels]]),
+  ),
+  quietHours: preferences.quietHours ? { ...preferences.quietHours } : null,
+})
+
+export interface NotificationPreferenceStore {
+  /** Stored preferences, or the defaults when the user has none */
+  get(userId: string): Promise<NotificationPreferences>
+  save(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences>
+}
+
+export class InMemoryNotificationPreferenceStore implements NotificationPreferenceStore {
+  private readonly preferences = new Map<string, NotificationPreferences>()
+
+  async get(userId: string): Promise<NotificationPreferences> {
+    const stored = this.preferences.get(userId)
+    return stored ? clonePreferences(stored) : defaultNotificationPreferences()
+  }
+
+  async save(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    this.preferences.set(userId, clonePreferences(preferences))
+    return this.get(userId)
+  }
+}
+
+interface NotificationPreferenceRow {
+  user_id: string
+  channels: NotificationChannelName[] | string
+  types: NotificationPreferences['types'] | string | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  timezone: string | null
+  email: string | null
+  webhook_url: string | null
+}
+
+const parseJson = <T>(value: T | string): T => (typeof value === 'string' ? JSON.parse(value) : value)
+
+const mapPreferenceRow = (row: NotificationPreferenceRow): NotificationPreferences => ({
+  channels: parseJson(row.channels),
+  types: row.types ? parseJson(row.types) : {},
+  quietHours:
+    row.quiet_hours_start && row.quiet_hours_end
+      ? { start: row.quiet_hours_start, end: row.quiet_hours_end }
+      : null,
+  timezone: row.timezone ?? 'UTC',
+  email: row.email,
+  webhookUrl: row.webhook_url,
+})
+
+export class PostgresNotificationPreferenceStore implements NotificationPreferenceStore {
+  constructor(private readonly db: Knex) {}
+
+  async get(userId: string): Promise<NotificationPreferences> {
+    const row: NotificationPreferenceRow | undefined = await this.db('notification_preferences')
+      .where({ user_id: userId })
+      .first()
+    return row ? mapPreferenceRow(row) : defaultNotificationPreferences()
+  }
+
+  async save(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const [row] = await this.db('notification_preferences')
+      .insert({
+        user_id: userId,
+        channels: JSON.stringify(preferences.channels),
+        types: JSON.stringify(preferences.types),
+        quiet_hours_start: preferences.quietHours?.start ?? null,
+        quiet_hours_end: preferences.quietHours?.end ?? null,
+        timezone: preferences.timezone,
+        email: preferences.email,
+        webhook_url: preferences.webhookUrl,
+        updated_at: new Date(),
+      })
+      .onConflict('user_id')
+      .merge()
+      .returning('*')
+    return mapPreferenceRow(row)
+  }
+}
+
+let store: NotificationPreferenceStore | null = null
+
+export const getNotificationPreferenceStore = (): NotificationPreferenceStore => {
+  if (!store) {
+    store = process.env.DATABASE_URL
+      ? new PostgresNotificationPreferenceStore(db)
+      : new InMemoryNotificationPreferenceStore()
+  }
+  return store
+}
+
+export const setNotificationPreferenceStore = (next: NotificationPreferenceStore | null): void => {
+  store = next
+}
@@ -0,0 +1,213 @@
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { listPendingMilestonesDueBetween } from '../services/milestones.js'
+import type { Vault } from '../types/vaults.js'
+import { notifyUser } from './notify.js'
+
+export interface ReminderOffset {
+  /** As configured, e.g. `24h` */
+  label: string
+  ms: number
+}
+
+const OFFSET_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+}
+
+export const DEFAULT_REMINDER_OFFSETS = '7d,24h,1h'
+
+/**
+ * Parse a comma-separated list of offsets such as `7d,24h,30m`. Entries
+ * that do not parse are skipped with a warning. Largest offset first.
+ */
+export const parseReminderOffsets = (value: string): ReminderOffset[] => {
+  const offsets = new Map<number, ReminderOffset>()
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = /^(\d+)([mhd])$/.exec(entry)
+    const ms = match ? Number(match[1]) * OFFSET_UNITS[match[2]] : 0
+    if (ms <= 0) {
+      console.warn(`[reminders] Ignoring invalid reminder offset "${entry}"`)
+      continue
+    }
+    if (!offsets.has(ms)) offsets.set(ms, { label: entry, ms })
+  }
+
+  return [...offsets.values()].sort((a, b) => b.ms - a.ms)
+}
+
+export const reminderOffsetsFromEnv = (): ReminderOffset[] =>
+  parseReminderOffsets(process.env.DEADLINE_REMINDER_OFFSETS ?? DEFAULT_REMINDER_OFFSETS)
+
+/**
+ * Keys of the reminders already handled. Claiming is atomic, so concurrent
+ * sweeps never send the same reminder twice.
+ */
+export interface ReminderLog {
+  /** Returns the keys that were not claimed before */
+  claim(vaultId: string, keys: string[]): Promise<string[]>
+  release(keys: string[]): Promise<void>
+}
+
+export class InMemoryReminderLog implements ReminderLog {
+  private readonly claimed = new Set<string>()
+
+  async claim(_vaultId: string, keys: string[]): Promise<string[]> {
+    const fresh = keys.filter((key) => !this.claimed.has(key))
+    fresh.forEach((key) => this.claimed.add(key))
+    return fresh
+  }
+
+  async release(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.claimed.delete(key))
+  }
+}
+
+export class PostgresReminderLog implements ReminderLog {
+  constructor(private readonly db: Knex) {}
+
+  async claim(vaultId: string, keys: string[]): Promise<string[]> {
+    if (keys.length === 0) return []
+
+    const rows: { reminder_key: string }[] = await this.db('deadline_reminders')
+      .insert(keys.map((key) => ({ reminder_key: key, vault_id: vaultId })))
+      .onConflict('reminder_key')
+      .ignore()
+      .returning('reminder_key')
+    return rows.map((row) => row.reminder_key)
+  }
+
+  async release(keys: string[]): Promise<void> {
+    await this.db('deadline_reminders').whereIn('reminder_key', keys).delete()
+  }
+}
+
+let reminderLog: ReminderLog | null = null
+
+export const getReminderLog = (): ReminderLog => {
+  if (!reminderLog) {
+    reminderLog = process.env.DATABASE_URL ? new PostgresReminderLog(db) : new InMemoryReminderLog()
+  }
+  return reminderLog
+}
+
+export const setReminderLog = (next: ReminderLog | null): void => {
+  reminderLog = next
+}
+
+interface UpcomingDeadline {
+  /** Prefix of the reminder keys */
+  key: string
+  vault: Vault
+  milestoneId?: string
+  dueAt: number
+  subject: (timeLeft: string) => string
+  body: string
+}
+
+const formatTimeLeft = (ms: number): string => {
+  let unit = 'minute'
+  let size = OFFSET_UNITS.m
+  if (ms >= OFFSET_UNITS.d) {
+    unit = 'day'
+    size = OFFSET_UNITS.d
+  } else if (ms >= OFFSET_UNITS.h) {
+    unit = 'hour'
+    size = OFFSET_UNITS.h
+  }
+
+  const count = Math.max(1, Math.round(ms / size))
+  return `${count} ${unit}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Send the reminder for one deadline. Once several offsets have passed
+ * (a vault created a day before it ends is already past its 7-day offset)
+ * only the closest one is sent and the others are claimed with it.
+ */
+const remind = async (deadline: UpcomingDeadline, offsets: ReminderOffset[], now: number): Promise<boolean> => {
+  const passed = offsets.filter((offset) => deadline.dueAt - offset.ms <= now)
+  if (passed.length === 0) return false
+
+  const closest = passed[passed.length - 1]
+  // Keyed by the offset in minutes so `24h` and `1d` count as the same reminder
+  const keys = passed.map((offset) => `${deadline.key}:${offset.ms / OFFSET_UNITS.m}m`)
+  const log = getReminderLog()
+  const claimed = await log.claim(deadline.vault.id, keys)
+  const closestKey = keys[keys.length - 1]
+  if (!claimed.includes(closestKey)) return false
+
+  try {
+    await notifyUser(
+      {
+        userId: deadline.vault.creator,
+        type: 'vault_deadline_approaching',
+        subject: deadline.subject(formatTimeLeft(deadline.dueAt - now)),
+        body: deadline.body,
+        data: {
+          vaultId: deadline.vault.id,
+          ...(deadline.milestoneId ? { milestoneId: deadline.milestoneId } : {}),
+          dueAt: new Date(deadline.dueAt).toISOString(),
+          offset: closest.label,
+        },
+      },
+      { dedupeKey: closestKey },
+    )
+  } catch (error) {
+    // Let the next sweep try again
+    await log.release(claimed)
+    throw error
+  }
+
+  return true
+}
+
+/**
+ * Enqueue reminders for active vaults ending, and unverified milestones
+ * falling due, within the largest reminder offset.
+ *
+ * @returns How many reminders were sent
+ */
+export const sendDeadlineReminders = async (
+  now = new Date(),
+  offsets: ReminderOffset[] = reminderOffsetsFromEnv(),
+): Promise<number> => {
+  if (offsets.length === 0) return 0
+
+  const horizon = new Date(now.getTime() + offsets[0].ms)
+  const repository = getVaultRepository()
+  const deadlines: UpcomingDeadline[] = (await repository.listActiveEndingBetween(now, horizon)).map((vault) => ({
+    key: `vault:${vault.id}`,
+    vault,
+    dueAt: Date.parse(vault.endTimestamp),
+    subject: (timeLeft) => `Vault ends in ${timeLeft}`,
+    body: `Vault ${vault.id} ends at ${vault.endTimestamp}.`,
+  }))
+
+  for (const milestone of await listPendingMilestonesDueBetween(now, horizon)) {
+    const vault = await repository.getById(milestone.vaultId)
+    if (vault?.status !== 'active') continue
+
+    deadlines.push({
+      key: `milestone:${milestone.id}`,
+      vault,
+      milestoneId: milestone.id,
+      dueAt: Date.parse(milestone.dueDate!),
+      subject: (timeLeft) => `Milestone due in ${timeLeft}`,
+      body: `Milestone "${milestone.description}" of vault ${vault.id} is due at ${milestone.dueDate}.`,
+    })
+  }
+
+  let sent = 0
+  for (const deadline of deadlines) {
+    try {
+      if (await remind(deadline, offsets, now.getTime())) sent += 1
+    } catch (error) {
+      console.error(`[reminders] Failed to send reminder ${deadline.key}:`, error)
+    }
+  }
+  return sent
+}
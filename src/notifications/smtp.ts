@@ -0,0 +1,246 @@
+import { randomUUID } from 'node:crypto'
+import { Socket, connect as connectPlain } from 'node:net'
+import { hostname } from 'node:os'
+import { connect as connectTls } from 'node:tls'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** Implicit TLS (usually port 465) */
+  secure?: boolean
+  user?: string
+  password?: string
+  from: string
+  timeoutMs?: number
+}
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+const encodeHeader = (value: string): string => {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+const wrapBase64 = (value: string): string => {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n')
+}
+
+const addressOf = (mailbox: string): string => {
+  const match = /<([^>]+)>/.exec(mailbox)
+  return (match ? match[1] : mailbox).trim()
+}
+
+export const formatMessage = (from: string, message: MailMessage, date = new Date()): string => {
+  const domain = addressOf(from).split('@')[1] ?? 'localhost'
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(message.text),
+  ].join('\r\n')
+}
+
+/**
+ * One SMTP session over a socket. Replies are read line by line and handed to
+ * whichever command is waiting for them.
+ */
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: ((reply: SmtpReply) => void) | null = null
+  private failure: Error | null = null
+  private fail: ((error: Error) => void) | null = null
+
+  constructor(private readonly socket: Socket) {
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', (error) => this.onError(error))
+    socket.on('close', () => this.onError(new SmtpError('SMTP connection closed')))
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve
+      this.fail = reject
+      this.flush()
+    })
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, line.split(' ')[0])
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${step} rejected: ${reply.code} ${reply.text}`, reply.code)
+    }
+    return reply
+  }
+
+  write(data: string): void {
+    this.socket.write(data)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let index = this.buffer.indexOf('\r\n')
+    while (index !== -1) {
+      this.lines.push(this.buffer.slice(0, index))
+      this.buffer = this.buffer.slice(index + 2)
+      index = this.buffer.indexOf('\r\n')
+    }
+    this.flush()
+  }
+
+  private flush(): void {
+    if (!this.waiting) {
+      return
+    }
+
+    // Multi-line replies continue with "250-" and end with "250 "
+    const last = this.lines.findIndex((line) => line.charAt(3) !== '-')
+    if (last === -1) {
+      return
+    }
+
+    const replyLines = this.lines.splice(0, last + 1)
+    const resolve = this.waiting
+    this.waiting = null
+    this.fail = null
+    resolve({
+      code: Number.parseInt(replyLines[last].slice(0, 3), 10),
+      text: replyLines.map((line) => line.slice(4)).join('\n'),
+    })
+  }
+
+  private onError(error: Error): void {
+    if (this.failure) {
+      return
+    }
+    this.failure = error
+    if (this.fail) {
+      const reject = this.fail
+      this.waiting = null
+      this.fail = null
+      reject(error)
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, optional AUTH PLAIN, one message per connection.
+ * Enough for a relay or a local sink such as MailHog; STARTTLS is not
+ * supported, use `secure` for implicit TLS instead.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const session = await this.open()
+
+    try {
+      await session.expect([220], 'greeting')
+      await session.command(`EHLO ${hostname()}`, [250])
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\u0000${this.config.user}\u0000${this.config.password ?? ''}`).toString(
+          'base64',
+        )
+        await session.command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await session.command(`MAIL FROM:<${addressOf(this.config.from)}>`, [250])
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+      await session.command('DATA', [354])
+
+      // Lines starting with a dot are escaped so they cannot end the DATA section early
+      const body = formatMessage(this.config.from, message).replace(/^\./gm, '..')
+      session.write(`${body}\r\n.\r\n`)
+      await session.expect([250], 'message')
+
+      await session.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      session.close()
+    }
+  }
+
+  private open(): Promise<SmtpSession> {
+    const { host, port, secure, timeoutMs = 10_000 } = this.config
+
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.off('error', reject)
+        resolve(new SmtpSession(socket))
+      }
+      const socket = secure
+        ? connectTls({ host, port, servername: host }, onConnect)
+        : connectPlain({ host, port }, onConnect)
+      socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError('SMTP connection timed out')))
+      socket.once('error', reject)
+    })
+  }
+}
+
+/**
+ * Used when no SMTP host is configured: logs the message instead of sending it.
+ */
+export class LogMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[notifications:email] to=${message.to} subject="${message.subject}" (SMTP_HOST not set, not sent)`)
+  }
+}
+
+export const createMailTransportFromEnv = (): MailTransport => {
+  const host = process.env.SMTP_HOST
+  if (!host) {
+    return new LogMailTransport()
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  const port = Number.parseInt(process.env.SMTP_PORT ?? '', 10)
+  return new SmtpTransport({
+    host,
+    port: Number.isNaN(port) ? (secure ? 465 : 25) : port,
+    secure,
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM ?? 'Disciplr <no-reply@disciplr.app>',
+  })
+}
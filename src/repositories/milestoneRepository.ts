@@ -1,57 +1,339 @@
-import { Knex } from 'knex';
-import { Milestone, MilestoneStatus } from '../types/milestone.js';
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import type {
+  Milestone,
+  MilestoneDecision,
+  MilestoneReleaseStatus,
+  MilestoneReviewStatus,
+} from '../types/milestone.js'
+import { formatAmount, sumAmounts } from '../utils/amounts.js'
 
-export class MilestoneRepository {
-  constructor(private db: Knex) {}
+export type NewMilestone = Pick<Milestone, 'vaultId' | 'description' | 'dueDate' | 'amount'>
+
+export type NewMilestoneDecision = Omit<MilestoneDecision, 'id' | 'decidedAt'>
 
+/**
+ * Single source of truth for milestones, their review history and where
+ * their amounts went. Milestones created on-chain land in the same table.
+ */
+export interface MilestoneRepository {
+  create(input: NewMilestone): Promise<Milestone>
+  getById(id: string): Promise<Milestone | null>
+  /** Oldest first */
+  listByVault(vaultId: string): Promise<Milestone[]>
+  /**
+   * Append a review decision and move the milestone to its status, only when
+   * the milestone is currently in one of `from`. Returns null when the
+   * milestone does not exist or the guard did not match.
+   */
+  recordDecision(id: string, decision: NewMilestoneDecision, from: MilestoneReviewStatus[]): Promise<Milestone | null>
   /**
-   * Create a new milestone
+   * Record where a pending milestone's amount went. Returns null when the
+   * milestone does not exist or was already settled, so each amount moves once.
    */
-  async create(milestone: Milestone): Promise<Milestone> {
-    const [created] = await this.db('milestones')
+  settle(id: string, status: Exclude<MilestoneReleaseStatus, 'pending'>): Promise<Milestone | null>
+  /** Unverified milestones with an unsettled amount whose due date is at or before `now` */
+  listMissed(now: Date): Promise<Milestone[]>
+  /** Unverified milestones whose due date is after `from` and at or before `to`, soonest first */
+  listPendingDueBetween(from: Date, to: Date): Promise<Milestone[]>
+  /** Approvals and rejections made by `actorId`, not counting those that resolved a dispute */
+  countDecisionsBy(actorId: string): Promise<number>
+}
+
+const buildMilestone = (input: NewMilestone): Milestone => ({
+  ...input,
+  id: randomUUID(),
+  verified: false,
+  verifiedAt: null,
+  status: 'pending',
+  resubmissions: 0,
+  history: [],
+  evidenceHash: null,
+  releaseStatus: 'pending',
+  settledAt: null,
+  createdAt: new Date().toISOString(),
+})
+
+const buildDecision = (input: NewMilestoneDecision): MilestoneDecision => ({
+  ...input,
+  id: randomUUID(),
+  decidedAt: new Date().toISOString(),
+})
+
+const copyMilestone = (milestone: Milestone): Milestone => ({
+  ...milestone,
+  history: milestone.history.map((decision) => ({ ...decision })),
+})
+
+const isDueBy = (milestone: Milestone, time: number): boolean =>
+  milestone.dueDate !== null && Date.parse(milestone.dueDate) <= time
+
+export class InMemoryMilestoneRepository implements MilestoneRepository {
+  private milestones: Milestone[]
+
+  constructor(seed: Milestone[] = []) {
+    this.milestones = seed.map(copyMilestone)
+  }
+
+  async create(input: NewMilestone): Promise<Milestone> {
+    const milestone = buildMilestone(input)
+    this.milestones.push(milestone)
+    return copyMilestone(milestone)
+  }
+
+  async getById(id: string): Promise<Milestone | null> {
+    const milestone = this.milestones.find((m) => m.id === id)
+    return milestone ? copyMilestone(milestone) : null
+  }
+
+  async listByVault(vaultId: string): Promise<Milestone[]> {
+    return this.milestones.filter((m) => m.vaultId === vaultId).map(copyMilestone)
+  }
+
+  async recordDecision(
+    id: string,
+    input: NewMilestoneDecision,
+    from: MilestoneReviewStatus[],
+  ): Promise<Milestone | null> {
+    const milestone = this.milestones.find((m) => m.id === id)
+    if (!milestone || !from.includes(milestone.status)) return null
+
+    const decision = buildDecision(input)
+    milestone.status = decision.status
+    milestone.history.push(decision)
+    if (decision.status === 'resubmitted') milestone.resubmissions += 1
+    if (decision.status === 'approved') {
+      milestone.verified = true
+      milestone.verifiedAt = decision.decidedAt
+      milestone.evidenceHash = decision.evidenceHash
+    }
+    return copyMilestone(milestone)
+  }
+
+  async settle(id: string, status: Exclude<MilestoneReleaseStatus, 'pending'>): Promise<Milestone | null> {
+    const milestone = this.milestones.find((m) => m.id === id)
+    if (!milestone || milestone.releaseStatus !== 'pending') return null
+
+    milestone.releaseStatus = status
+    milestone.settledAt = new Date().toISOString()
+    return copyMilestone(milestone)
+  }
+
+  async listMissed(now: Date): Promise<Milestone[]> {
+    return this.milestones
+      .filter((m) => !m.verified && m.amount !== null && m.releaseStatus === 'pending' && isDueBy(m, now.getTime()))
+      .map(copyMilestone)
+  }
+
+  async listPendingDueBetween(from: Date, to: Date): Promise<Milestone[]> {
+    return this.milestones
+      .filter((m) => !m.verified && isDueBy(m, to.getTime()) && !isDueBy(m, from.getTime()))
+      .sort((a, b) => Date.parse(a.dueDate!) - Date.parse(b.dueDate!))
+      .map(copyMilestone)
+  }
+
+  async countDecisionsBy(actorId: string): Promise<number> {
+    return this.milestones.reduce(
+      (count, milestone) =>
+        count +
+        milestone.history.filter(
+          (decision) =>
+            decision.actorId === actorId &&
+            !decision.disputeId &&
+            (decision.status === 'approved' || decision.status === 'rejected'),
+        ).length,
+      0,
+    )
+  }
+}
+
+interface MilestoneRow {
+  id: string
+  vault_id: string
+  title: string
+  description: string | null
+  target_amount: string | number | null
+  deadline: Date | string | null
+  review_status: MilestoneReviewStatus
+  resubmissions: number
+  verified_at: Date | string | null
+  evidence_hash: string | null
+  release_status: MilestoneReleaseStatus
+  settled_at: Date | string | null
+  created_at: Date | string
+}
+
+interface MilestoneDecisionRow {
+  id: string
+  milestone_id: string
+  status: MilestoneDecision['status']
+  actor_id: string | null
+  reason: string | null
+  evidence_hash: string | null
+  dispute_id: string | null
+  decided_at: Date | string
+}
+
+const toIso = (value: Date | string): string => new Date(value).toISOString()
+
+const mapDecisionRow = (row: MilestoneDecisionRow): MilestoneDecision => ({
+  id: row.id,
+  status: row.status,
+  actorId: row.actor_id,
+  reason: row.reason,
+  evidenceHash: row.evidence_hash,
+  disputeId: row.dispute_id,
+  decidedAt: toIso(row.decided_at),
+})
+
+const mapMilestoneRow = (row: MilestoneRow, history: MilestoneDecision[]): Milestone => ({
+  id: row.id,
+  vaultId: row.vault_id,
+  // Milestones created on-chain carry a title and an optional description
+  description: row.description ?? row.title,
+  verified: row.review_status === 'approved',
+  verifiedAt: row.verified_at ? toIso(row.verified_at) : null,
+  status: row.review_status,
+  resubmissions: Number(row.resubmissions),
+  history,
+  evidenceHash: row.evidence_hash,
+  dueDate: row.deadline ? toIso(row.deadline) : null,
+  amount: row.target_amount === null ? null : formatAmount(sumAmounts([String(row.target_amount)])),
+  releaseStatus: row.release_status,
+  settledAt: row.settled_at ? toIso(row.settled_at) : null,
+  createdAt: toIso(row.created_at),
+})
+
+export class PostgresMilestoneRepository implements MilestoneRepository {
+  constructor(private db: Knex) {}
+
+  async create(input: NewMilestone): Promise<Milestone> {
+    const milestone = buildMilestone(input)
+    const [row] = await this.db('milestones')
       .insert({
-        ...milestone,
-        // Ensure criteria is properly stringified for JSONB insertion if needed by the driver
-        criteria: JSON.stringify(milestone.criteria) 
+        id: milestone.id,
+        vault_id: milestone.vaultId,
+        title: milestone.description.slice(0, 255),
+        description: milestone.description,
+        target_amount: milestone.amount,
+        deadline: milestone.dueDate,
+        review_status: milestone.status,
+        release_status: milestone.releaseStatus,
+        created_at: milestone.createdAt,
+        updated_at: milestone.createdAt,
       })
-      .returning('*');
-    return created;
+      .returning('*')
+    return mapMilestoneRow(row, [])
+  }
+
+  async getById(id: string): Promise<Milestone | null> {
+    const row: MilestoneRow | undefined = await this.db('milestones').where({ id }).first()
+    return row ? (await this.withHistory(this.db, [row]))[0] : null
   }
 
-  /**
-   * List all milestones for a specific vault
-   */
   async listByVault(vaultId: string): Promise<Milestone[]> {
-    return this.db('milestones')
-      .where({ vault_id: vaultId })
-      .orderBy('created_at', 'asc');
+    const rows: MilestoneRow[] = await this.db('milestones').where({ vault_id: vaultId }).orderBy('created_at', 'asc')
+    return this.withHistory(this.db, rows)
   }
 
-  /**
-   * Update the status of a specific milestone
-   */
-  async updateStatus(id: string, status: MilestoneStatus): Promise<Milestone | undefined> {
-    const [updated] = await this.db('milestones')
-      .where({ id })
-      .update({ 
-        status, 
-        updated_at: this.db.fn.now() 
+  async recordDecision(
+    id: string,
+    input: NewMilestoneDecision,
+    from: MilestoneReviewStatus[],
+  ): Promise<Milestone | null> {
+    const decision = buildDecision(input)
+
+    return this.db.transaction(async (trx) => {
+      const [row]: MilestoneRow[] = await trx('milestones')
+        .where({ id })
+        .whereIn('review_status', from)
+        .update({
+          review_status: decision.status,
+          ...(decision.status === 'resubmitted' ? { resubmissions: trx.raw('resubmissions + 1') } : {}),
+          ...(decision.status === 'approved'
+            ? { verified_at: decision.decidedAt, evidence_hash: decision.evidenceHash }
+            : {}),
+          updated_at: decision.decidedAt,
+        })
+        .returning('*')
+      if (!row) return null
+
+      await trx('milestone_decisions').insert({
+        id: decision.id,
+        milestone_id: id,
+        status: decision.status,
+        actor_id: decision.actorId,
+        reason: decision.reason,
+        evidence_hash: decision.evidenceHash,
+        dispute_id: decision.disputeId,
+        decided_at: decision.decidedAt,
       })
-      .returning('*');
-    return updated;
+      return (await this.withHistory(trx, [row]))[0]
+    })
   }
 
-  /**
-   * Update the criteria of a specific milestone
-   */
-  async updateCriteria(id: string, criteria: Record<string, any>): Promise<Milestone | undefined> {
-    const [updated] = await this.db('milestones')
-      .where({ id })
-      .update({ 
-        criteria: JSON.stringify(criteria), 
-        updated_at: this.db.fn.now() 
-      })
-      .returning('*');
-    return updated;
+  async settle(id: string, status: Exclude<MilestoneReleaseStatus, 'pending'>): Promise<Milestone | null> {
+    const now = new Date()
+    const [row]: MilestoneRow[] = await this.db('milestones')
+      .where({ id, release_status: 'pending' })
+      .update({ release_status: status, settled_at: now, updated_at: now })
+      .returning('*')
+    return row ? (await this.withHistory(this.db, [row]))[0] : null
+  }
+
+  async listMissed(now: Date): Promise<Milestone[]> {
+    const rows: MilestoneRow[] = await this.db('milestones')
+      .whereNot({ review_status: 'approved' })
+      .where({ release_status: 'pending' })
+      .whereNotNull('target_amount')
+      .andWhere('deadline', '<=', now.toISOString())
+    return this.withHistory(this.db, rows)
+  }
+
+  async listPendingDueBetween(from: Date, to: Date): Promise<Milestone[]> {
+    const rows: MilestoneRow[] = await this.db('milestones')
+      .whereNot({ review_status: 'approved' })
+      .andWhere('deadline', '>', from.toISOString())
+      .andWhere('deadline', '<=', to.toISOString())
+      .orderBy('deadline', 'asc')
+    return this.withHistory(this.db, rows)
+  }
+
+  async countDecisionsBy(actorId: string): Promise<number> {
+    const result = await this.db('milestone_decisions')
+      .where({ actor_id: actorId })
+      .whereNull('dispute_id')
+      .whereIn('status', ['approved', 'rejected'])
+      .count<{ count: string }>('id as count')
+      .first()
+    return Number(result?.count ?? 0)
   }
-}
\ No newline at end of file
+
+  private async withHistory(db: Knex, rows: MilestoneRow[]): Promise<Milestone[]> {
+    if (rows.length === 0) return []
+
+    const decisions: MilestoneDecisionRow[] = await db('milestone_decisions')
+      .whereIn('milestone_id', rows.map((row) => row.id))
+      .orderBy('decided_at', 'asc')
+    return rows.map((row) =>
+      mapMilestoneRow(row, decisions.filter((decision) => decision.milestone_id === row.id).map(mapDecisionRow)),
+    )
+  }
+}
+
+let repository: MilestoneRepository | null = null
+
+/**
+ * Postgres when DATABASE_URL is set, otherwise a process-wide in-memory store.
+ */
+export const getMilestoneRepository = (): MilestoneRepository => {
+  if (!repository) {
+    repository = process.env.DATABASE_URL ? new PostgresMilestoneRepository(db) : new InMemoryMilestoneRepository()
+  }
+  return repository
+}
+
+export const setMilestoneRepository = (next: MilestoneRepository | null): void => {
+  repository = next
+}
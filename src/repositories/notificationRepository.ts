@@ -0,0 +1,275 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import type { CreateNotificationInput, Notification } from '../types/notification.js'
+import { utcNow } from '../utils/timestamps.js'
+import { isUuid } from '../utils/ids.js'
+
+export interface NotificationListFilter {
+  /** Any of these types */
+  types?: string[]
+  status?: 'read' | 'unread'
+  /** Only archived notifications when true; the inbox (unarchived) otherwise */
+  archived?: boolean
+  /** Opaque cursor from a previous page's nextCursor */
+  cursor?: string
+  limit: number
+}
+
+export interface NotificationPage {
+  notifications: Notification[]
+  nextCursor: string | null
+}
+
+export class InvalidNotificationCursorError extends Error {
+  constructor() {
+    super('Invalid notification cursor')
+    this.name = 'InvalidNotificationCursorError'
+  }
+}
+
+/**
+ * Persistence for in-app notifications. Listing is newest first with
+ * (created_at, id) keyset cursors so pages stay stable while new
+ * notifications arrive.
+ */
+export interface NotificationRepository {
+  create(input: CreateNotificationInput): Promise<Notification>
+  list(userId: string, filter: NotificationListFilter): Promise<NotificationPage>
+  /** Unread, unarchived notifications */
+  countUnread(userId: string): Promise<number>
+  markAsRead(id: string, userId: string): Promise<Notification | null>
+  markAllAsRead(userId: string): Promise<number>
+  /** Returns how many of `ids` belonged to the user and were newly archived */
+  archive(userId: string, ids: string[]): Promise<number>
+  delete(userId: string, ids: string[]): Promise<number>
+}
+
+interface CursorPosition {
+  createdAt: string
+  id: string
+}
+
+const encodeCursor = (notification: Notification): string =>
+  Buffer.from(JSON.stringify({ c: notification.created_at, i: notification.id })).toString('base64url')
+
+const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { c?: unknown; i?: unknown }
+    if (typeof decoded.c === 'string' && !Number.isNaN(Date.parse(decoded.c)) && typeof decoded.i === 'string') {
+      return { createdAt: new Date(decoded.c).toISOString(), id: decoded.i }
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidNotificationCursorError()
+}
+
+const toPage = (rows: Notification[], limit: number): NotificationPage => {
+  const notifications = rows.slice(0, limit)
+  return {
+    notifications,
+    nextCursor: rows.length > limit ? encodeCursor(notifications[notifications.length - 1]) : null,
+  }
+}
+
+const newestFirst = (a: Notification, b: Notification): number => {
+  if (a.created_at !== b.created_at) return a.created_at < b.created_at ? 1 : -1
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0
+}
+
+export class InMemoryNotificationRepository implements NotificationRepository {
+  private notifications: Notification[] = []
+
+  async create(input: CreateNotificationInput): Promise<Notification> {
+    const notification: Notification = {
+      id: randomUUID(),
+      user_id: input.user_id,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      data: input.data ?? null,
+      read_at: null,
+      archived_at: null,
+      created_at: utcNow(),
+    }
+    this.notifications.push(notification)
+    return { ...notification }
+  }
+
+  async list(userId: string, filter: NotificationListFilter): Promise<NotificationPage> {
+    const after = filter.cursor ? decodeCursor(filter.cursor) : null
+    const rows = this.notifications
+      .filter(
+        (n) =>
+          n.user_id === userId &&
+          (filter.archived ? n.archived_at !== null : n.archived_at === null) &&
+          (!filter.types || filter.types.includes(n.type)) &&
+          (filter.status !== 'read' || n.read_at !== null) &&
+          (filter.status !== 'unread' || n.read_at === null) &&
+          (!after || n.created_at < after.createdAt || (n.created_at === after.createdAt && n.id < after.id)),
+      )
+      .sort(newestFirst)
+      .slice(0, filter.limit + 1)
+      .map((n) => ({ ...n }))
+    return toPage(rows, filter.limit)
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.notifications.filter((n) => n.user_id === userId && n.read_at === null && n.archived_at === null)
+      .length
+  }
+
+  async markAsRead(id: string, userId: string): Promise<Notification | null> {
+    const notification = this.notifications.find((n) => n.id === id && n.user_id === userId)
+    if (!notification) return null
+    notification.read_at = utcNow()
+    return { ...notification }
+  }
+
+  async markAllAsRead(userId: string): Promise<number> {
+    const now = utcNow()
+    let count = 0
+    for (const notification of this.notifications) {
+      if (notification.user_id === userId && notification.read_at === null) {
+        notification.read_at = now
+        count += 1
+      }
+    }
+    return count
+  }
+
+  async archive(userId: string, ids: string[]): Promise<number> {
+    const now = utcNow()
+    let count = 0
+    for (const notification of this.notifications) {
+      if (notification.user_id === userId && notification.archived_at === null && ids.includes(notification.id)) {
+        notification.archived_at = now
+        count += 1
+      }
+    }
+    return count
+  }
+
+  async delete(userId: string, ids: string[]): Promise<number> {
+    const before = this.notifications.length
+    this.notifications = this.notifications.filter((n) => n.user_id !== userId || !ids.includes(n.id))
+    return before - this.notifications.length
+  }
+}
+
+interface NotificationRow {
+  id: string
+  user_id: string
+  type: string
+  title: string
+  message: string
+  data: unknown
+  read_at: Date | string | null
+  archived_at: Date | string | null
+  created_at: Date | string
+}
+
+const CREATED_AT_MS = "date_trunc('milliseconds', created_at)"
+
+const toIsoOrNull = (value: Date | string | null): string | null => (value ? new Date(value).toISOString() : null)
+
+const mapNotificationRow = (row: NotificationRow): Notification => ({
+  id: row.id,
+  user_id: row.user_id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  data: row.data ?? null,
+  read_at: toIsoOrNull(row.read_at),
+  archived_at: toIsoOrNull(row.archived_at),
+  created_at: new Date(row.created_at).toISOString(),
+})
+
+export class PostgresNotificationRepository implements NotificationRepository {
+  constructor(private db: Knex) {}
+
+  async create(input: CreateNotificationInput): Promise<Notification> {
+    const [row] = await this.db('notifications')
+      .insert({
+        user_id: input.user_id,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        data: input.data ? JSON.stringify(input.data) : null,
+      })
+      .returning('*')
+    return mapNotificationRow(row)
+  }
+
+  async list(userId: string, filter: NotificationListFilter): Promise<NotificationPage> {
+    // Cursors carry millisecond timestamps, so order and compare at that precision
+    const query = this.db('notifications')
+      .where({ user_id: userId })
+      .orderByRaw(`${CREATED_AT_MS} desc, id desc`)
+      .limit(filter.limit + 1)
+
+    if (filter.archived) query.whereNotNull('archived_at')
+    else query.whereNull('archived_at')
+    if (filter.types) query.whereIn('type', filter.types)
+    if (filter.status === 'read') query.whereNotNull('read_at')
+    if (filter.status === 'unread') query.whereNull('read_at')
+    if (filter.cursor) {
+      const after = decodeCursor(filter.cursor)
+      query.whereRaw(`(${CREATED_AT_MS}, id) < (?, ?)`, [after.createdAt, after.id])
+    }
+
+    const rows: NotificationRow[] = await query.select('*')
+    return toPage(rows.map(mapNotificationRow), filter.limit)
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    const row = await this.db('notifications')
+      .where({ user_id: userId })
+      .whereNull('read_at')
+      .whereNull('archived_at')
+      .count<{ count: string | number }[]>('* as count')
+      .first()
+    return Number(row?.count ?? 0)
+  }
+
+  async markAsRead(id: string, userId: string): Promise<Notification | null> {
+    if (!isUuid(id)) return null
+    const [row] = await this.db('notifications')
+      .where({ id, user_id: userId })
+      .update({ read_at: new Date() })
+      .returning('*')
+    return row ? mapNotificationRow(row) : null
+  }
+
+  async markAllAsRead(userId: string): Promise<number> {
+    return this.db('notifications').where({ user_id: userId }).whereNull('read_at').update({ read_at: new Date() })
+  }
+
+  async archive(userId: string, ids: string[]): Promise<number> {
+    return this.db('notifications')
+      .where({ user_id: userId })
+      .whereIn('id', ids)
+      .whereNull('archived_at')
+      .update({ archived_at: new Date() })
+  }
+
+  async delete(userId: string, ids: string[]): Promise<number> {
+    return this.db('notifications').where({ user_id: userId }).whereIn('id', ids).delete()
+  }
+}
+
+let repository: NotificationRepository | null = null
+
+export const getNotificationRepository = (): NotificationRepository => {
+  if (!repository) {
+    repository = process.env.DATABASE_URL
+      ? new PostgresNotificationRepository(db)
+      : new InMemoryNotificationRepository()
+  }
+  return repository
+}
+
+export const setNotificationRepository = (next: NotificationRepository | null): void => {
+  repository = next
+}
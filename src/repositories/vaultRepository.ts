@@ -0,0 +1,263 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import type { Vault, VaultStatus } from '../types/vaults.js'
+import { formatAmount, sumAmounts } from '../utils/amounts.js'
+import { utcNow } from '../utils/timestamps.js'
+
+export interface VaultListFilter {
+  status?: VaultStatus
+  creator?: string
+  orgId?: string
+}
+
+export type NewVault = Omit<Vault, 'id' | 'status' | 'createdAt' | 'startTimestamp'> &
+  Partial<Pick<Vault, 'id' | 'status' | 'createdAt' | 'startTimestamp'>>
+
+/** Amounts to add to a vault's released and redirected balances */
+export interface VaultSettlementAmounts {
+  released?: string
+  redirected?: string
+}
+
+/**
+ * Single source of truth for vault records. Routes, transitions, the
+ * expiration checker and analytics all go through this interface.
+ */
+export interface VaultRepository {
+  create(input: NewVault): Promise<Vault>
+  getById(id: string): Promise<Vault | null>
+  /** Newest first */
+  list(filter?: VaultListFilter): Promise<Vault[]>
+  /**
+   * Set the status, optionally only when the vault is currently in one of `from`.
+   * Returns null when the vault does not exist or the guard did not match.
+   */
+  updateStatus(id: string, status: VaultStatus, from?: VaultStatus[]): Promise<Vault | null>
+  /** Add to the released and redirected balances. Returns null when the vault does not exist */
+  recordSettlement(id: string, amounts: VaultSettlementAmounts): Promise<Vault | null>
+  /** Active vaults whose end timestamp is after `from` and at or before `to`, soonest first */
+  listActiveEndingBetween(from: Date, to: Date): Promise<Vault[]>
+  /** Mark every active vault whose end timestamp is at or before `now` as failed */
+  failExpired(now: Date): Promise<Vault[]>
+  deleteByCreator(creator: string): Promise<number>
+}
+
+const buildVault = (input: NewVault): Vault => {
+  const now = utcNow()
+  return {
+    ...input,
+    id: input.id ?? randomUUID(),
+    status: input.status ?? 'active',
+    startTimestamp: input.startTimestamp ?? now,
+    createdAt: input.createdAt ?? now,
+    orgId: input.orgId ?? null,
+    releasedAmount: input.releasedAmount ?? '0',
+    redirectedAmount: input.redirectedAmount ?? '0',
+  }
+}
+
+const matchesFilter = (vault: Vault, filter: VaultListFilter): boolean =>
+  (!filter.status || vault.status === filter.status) &&
+  (!filter.creator || vault.creator === filter.creator) &&
+  (!filter.orgId || vault.orgId === filter.orgId)
+
+export class InMemoryVaultRepository implements VaultRepository {
+  private vaults: Vault[]
+
+  constructor(seed: Vault[] = []) {
+    this.vaults = seed.map((vault) => ({ ...vault }))
+  }
+
+  async create(input: NewVault): Promise<Vault> {
+    const vault = buildVault(input)
+    this.vaults.push(vault)
+    return { ...vault }
+  }
+
+  async getById(id: string): Promise<Vault | null> {
+    const vault = this.vaults.find((v) => v.id === id)
+    return vault ? { ...vault } : null
+  }
+
+  async list(filter: VaultListFilter = {}): Promise<Vault[]> {
+    return this.vaults
+      .filter((vault) => matchesFilter(vault, filter))
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+      .map((vault) => ({ ...vault }))
+  }
+
+  async updateStatus(id: string, status: VaultStatus, from?: VaultStatus[]): Promise<Vault | null> {
+    const vault = this.vaults.find((v) => v.id === id)
+    if (!vault || (from && !from.includes(vault.status))) {
+      return null
+    }
+
+    vault.status = status
+    return { ...vault }
+  }
+
+  async recordSettlement(id: string, amounts: VaultSettlementAmounts): Promise<Vault | null> {
+    const vault = this.vaults.find((v) => v.id === id)
+    if (!vault) return null
+
+    vault.releasedAmount = formatAmount(sumAmounts([vault.releasedAmount ?? '0', amounts.released ?? '0']))
+    vault.redirectedAmount = formatAmount(sumAmounts([vault.redirectedAmount ?? '0', amounts.redirected ?? '0']))
+    return { ...vault }
+  }
+
+  async listActiveEndingBetween(from: Date, to: Date): Promise<Vault[]> {
+    return this.vaults
+      .filter((vault) => {
+        const end = Date.parse(vault.endTimestamp)
+        return vault.status === 'active' && end > from.getTime() && end <= to.getTime()
+      })
+      .sort((a, b) => Date.parse(a.endTimestamp) - Date.parse(b.endTimestamp))
+      .map((vault) => ({ ...vault }))
+  }
+
+  async failExpired(now: Date): Promise<Vault[]> {
+    const expired = this.vaults.filter(
+      (vault) => vault.status === 'active' && Date.parse(vault.endTimestamp) <= now.getTime(),
+    )
+    for (const vault of expired) {
+      vault.status = 'failed'
+    }
+    return expired.map((vault) => ({ ...vault }))
+  }
+
+  async deleteByCreator(creator: string): Promise<number> {
+    const before = this.vaults.length
+    this.vaults = this.vaults.filter((vault) => vault.creator !== creator)
+    return before - this.vaults.length
+  }
+}
+
+interface VaultRow {
+  id: string
+  creator: string
+  amount: string
+  start_timestamp: Date | string
+  end_timestamp: Date | string
+  success_destination: string
+  failure_destination: string
+  status: VaultStatus
+  created_at: Date | string
+  org_id: string | null
+  released_amount: string | number | null
+  redirected_amount: string | number | null
+}
+
+const toIso = (value: Date | string): string => new Date(value).toISOString()
+
+const mapVaultRow = (row: VaultRow): Vault => ({
+  id: row.id,
+  creator: row.creator,
+  amount: String(row.amount),
+  startTimestamp: toIso(row.start_timestamp),
+  endTimestamp: toIso(row.end_timestamp),
+  successDestination: row.success_destination,
+  failureDestination: row.failure_destination,
+  status: row.status,
+  createdAt: toIso(row.created_at),
+  orgId: row.org_id,
+  releasedAmount: formatAmount(sumAmounts([String(row.released_amount ?? 0)])),
+  redirectedAmount: formatAmount(sumAmounts([String(row.redirected_amount ?? 0)])),
+})
+
+export class PostgresVaultRepository implements VaultRepository {
+  constructor(private db: Knex) {}
+
+  async create(input: NewVault): Promise<Vault> {
+    const vault = buildVault(input)
+    const [row] = await this.db('vaults')
+      .insert({
+        id: vault.id,
+        creator: vault.creator,
+        amount: vault.amount,
+        start_timestamp: vault.startTimestamp,
+        end_timestamp: vault.endTimestamp,
+        success_destination: vault.successDestination,
+        failure_destination: vault.failureDestination,
+        status: vault.status,
+        created_at: vault.createdAt,
+        org_id: vault.orgId,
+        released_amount: vault.releasedAmount,
+        redirected_amount: vault.redirectedAmount,
+      })
+      .returning('*')
+    return mapVaultRow(row)
+  }
+
+  async getById(id: string): Promise<Vault | null> {
+    const row = await this.db('vaults').where({ id }).first()
+    return row ? mapVaultRow(row) : null
+  }
+
+  async list(filter: VaultListFilter = {}): Promise<Vault[]> {
+    const query = this.db('vaults').select('*').orderBy('created_at', 'desc')
+    if (filter.status) query.where({ status: filter.status })
+    if (filter.creator) query.where({ creator: filter.creator })
+    if (filter.orgId) query.where({ org_id: filter.orgId })
+
+    const rows: VaultRow[] = await query
+    return rows.map(mapVaultRow)
+  }
+
+  async updateStatus(id: string, status: VaultStatus, from?: VaultStatus[]): Promise<Vault | null> {
+    const query = this.db('vaults').where({ id })
+    if (from) query.whereIn('status', from)
+
+    const [row] = await query.update({ status }).returning('*')
+    return row ? mapVaultRow(row) : null
+  }
+
+  async recordSettlement(id: string, amounts: VaultSettlementAmounts): Promise<Vault | null> {
+    const [row] = await this.db('vaults')
+      .where({ id })
+      .update({
+        released_amount: this.db.raw('released_amount + ?', [amounts.released ?? '0']),
+        redirected_amount: this.db.raw('redirected_amount + ?', [amounts.redirected ?? '0']),
+      })
+      .returning('*')
+    return row ? mapVaultRow(row) : null
+  }
+
+  async listActiveEndingBetween(from: Date, to: Date): Promise<Vault[]> {
+    const rows: VaultRow[] = await this.db('vaults')
+      .where({ status: 'active' })
+      .andWhere('end_timestamp', '>', from.toISOString())
+      .andWhere('end_timestamp', '<=', to.toISOString())
+      .orderBy('end_timestamp', 'asc')
+    return rows.map(mapVaultRow)
+  }
+
+  async failExpired(now: Date): Promise<Vault[]> {
+    const rows: VaultRow[] = await this.db('vaults')
+      .where({ status: 'active' })
+      .andWhere('end_timestamp', '<=', now.toISOString())
+      .update({ status: 'failed' })
+      .returning('*')
+    return rows.map(mapVaultRow)
+  }
+
+  async deleteByCreator(creator: string): Promise<number> {
+    return this.db('vaults').where({ creator }).del()
+  }
+}
+
+let repository: VaultRepository | null = null
+
+/**
+ * Postgres when DATABASE_URL is set, otherwise a process-wide in-memory store.
+ */
+export const getVaultRepository = (): VaultRepository => {
+  if (!repository) {
+    repository = process.env.DATABASE_URL ? new PostgresVaultRepository(db) : new InMemoryVaultRepository()
+  }
+  return repository
+}
+
+export const setVaultRepository = (next: VaultRepository | null): void => {
+  repository = next
+}
@@ -3,8 +3,18 @@ import { authenticate, authorize } from '../middleware/auth.js'
 import { UserRole, UserStatus } from '../types/user.js'
 import { userService } from '../services/user.service.js'
 import { forceRevokeUserSessions } from '../services/session.js'
-import { createAuditLog, getAuditLogById, listAuditLogs } from '../lib/audit-logs.js'
-import { cancelVaultById } from './vaults.js'
+import {
+  InvalidAuditLogCursorError,
+  METADATA_KEY_PATTERN,
+  createAuditLog,
+  getAuditLogById,
+  listAuditLogs,
+  verifyAuditLogChain,
+} from '../lib/audit-logs.js'
+import { isValidISO8601, parseAndNormalizeToUTC } from '../utils/timestamps.js'
+import { cancelVaultById } from '../services/vaultTransitions.js'
+import { db } from '../db/index.js'
+import { LedgerRewindError, rewindLedgerCursor } from '../services/ledgerRewind.js'
 
 export const adminRouter = Router()
 
@@ -31,29 +41,94 @@ adminRouter.post('/users/:userId/revoke-sessions', async (req: Request, res: Res
 const getStringQuery = (value: unknown): string | undefined =>
   typeof value === 'string' && value.trim() !== '' ? value : undefined
 
-adminRouter.get('/audit-logs', (req, res) => {
-  const logs = listAuditLogs({
-    actor_user_id: getStringQuery(req.query.actor_user_id),
-    action: getStringQuery(req.query.action),
-    target_type: getStringQuery(req.query.target_type),
-    target_id: getStringQuery(req.query.target_id),
-    limit: getStringQuery(req.query.limit) ? Number(getStringQuery(req.query.limit)) : undefined,
-  })
+const METADATA_QUERY_PREFIX = 'metadata.'
 
-  res.status(200).json({
-    audit_logs: logs,
-    count: logs.length,
-  })
+/**
+ * List audit logs newest first.
+ * Supports `from`/`to` (ISO 8601 with timezone), `action` exact or prefix (`vault.*`),
+ * `metadata.<key>=<value>` filters and opaque `cursor` pagination.
+ */
+adminRouter.get('/audit-logs', async (req, res) => {
+  const from = getStringQuery(req.query.from)
+  const to = getStringQuery(req.query.to)
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value !== undefined && !isValidISO8601(value)) {
+      res.status(400).json({ error: `Invalid ${name}: expected ISO 8601 timestamp with timezone` })
+      return
+    }
+  }
+  const normalizedFrom = from ? parseAndNormalizeToUTC(from) : undefined
+  const normalizedTo = to ? parseAndNormalizeToUTC(to) : undefined
+  if (normalizedFrom && normalizedTo && normalizedFrom > normalizedTo) {
+    res.status(400).json({ error: 'from must not be after to' })
+    return
+  }
+
+  const metadata: Record<string, string> = {}
+  for (const [param, value] of Object.entries(req.query)) {
+    if (!param.startsWith(METADATA_QUERY_PREFIX)) continue
+    const key = param.slice(METADATA_QUERY_PREFIX.length)
+    if (!METADATA_KEY_PATTERN.test(key) || typeof value !== 'string') {
+      res.status(400).json({ error: `Invalid metadata filter: ${param}` })
+      return
+    }
+    metadata[key] = value
+  }
+
+  try {
+    const page = await listAuditLogs({
+      actor_user_id: getStringQuery(req.query.actor_user_id),
+      action: getStringQuery(req.query.action),
+      target_type: getStringQuery(req.query.target_type),
+      target_id: getStringQuery(req.query.target_id),
+      from: normalizedFrom,
+      to: normalizedTo,
+      metadata,
+      cursor: getStringQuery(req.query.cursor),
+      limit: getStringQuery(req.query.limit) ? Number(getStringQuery(req.query.limit)) : undefined,
+    })
+
+    res.status(200).json({
+      audit_logs: page.logs,
+      count: page.logs.length,
+      next_cursor: page.next_cursor,
+    })
+  } catch (error) {
+    if (error instanceof InvalidAuditLogCursorError) {
+      res.status(400).json({ error: error.message })
+      return
+    }
+    console.error('Error listing audit logs:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
-adminRouter.get('/audit-logs/:id', (req, res) => {
-  const auditLog = getAuditLogById(req.params.id)
-  if (!auditLog) {
-    res.status(404).json({ error: 'Audit log not found' })
-    return
+/**
+ * Recompute the audit log hash chain and report the first broken link, if any
+ */
+adminRouter.get('/audit-logs/verify', async (_req, res) => {
+  try {
+    const verification = await verifyAuditLogChain()
+    res.status(200).json(verification)
+  } catch (error) {
+    console.error('Error verifying audit log chain:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
+})
 
-  res.status(200).json(auditLog)
+adminRouter.get('/audit-logs/:id', async (req, res) => {
+  try {
+    const auditLog = await getAuditLogById(req.params.id)
+    if (!auditLog) {
+      res.status(404).json({ error: 'Audit log not found' })
+      return
+    }
+
+    res.status(200).json(auditLog)
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
 adminRouter.post('/overrides/vaults/:id/cancel', async (req, res) => {
@@ -75,7 +150,7 @@ adminRouter.post('/overrides/vaults/:id/cancel', async (req, res) => {
     return
   }
 
-  const auditLog = createAuditLog({
+  const auditLog = await createAuditLog({
     actor_user_id: req.user!.userId,
     action: 'admin.override',
     target_type: 'vault',
@@ -94,6 +169,49 @@ adminRouter.post('/overrides/vaults/:id/cancel', async (req, res) => {
   })
 })
 
+/**
+ * Rewind the Horizon listener cursor to reprocess events from a ledger onwards
+ */
+adminRouter.post('/horizon/rewind', async (req, res) => {
+  const toLedger = Number(req.body?.toLedger)
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined
+
+  try {
+    const result = await rewindLedgerCursor(db, {
+      toLedger,
+      requestedBy: req.user!.userId,
+      reason,
+    })
+
+    const auditLog = await createAuditLog({
+      actor_user_id: req.user!.userId,
+      action: 'admin.horizon.rewind',
+      target_type: 'listener_state',
+      target_id: 'horizon_listener',
+      metadata: {
+        rewindId: result.rewindId,
+        fromLedger: result.fromLedger,
+        toLedger: result.toLedger,
+        supersededEvents: result.supersededEvents,
+        reason: reason ?? 'No reason provided',
+      },
+    })
+
+    res.status(202).json({
+      rewind: result,
+      auditLogId: auditLog.id,
+    })
+  } catch (error) {
+    if (error instanceof LedgerRewindError) {
+      const status = error.code === 'invalid_ledger' ? 400 : error.code === 'no_cursor' ? 404 : 409
+      res.status(status).json({ error: error.message, code: error.code })
+      return
+    }
+    console.error('Error rewinding ledger cursor:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
 // User Management Endpoints
 adminRouter.get('/users', async (req, res) => {
   try {
@@ -130,7 +248,7 @@ adminRouter.patch('/users/:id/role', async (req, res) => {
     if (!targetUser) return res.status(404).json({ error: 'User not found' })
 
     const updatedUser = await userService.updateUserRole(req.params.id, role)
-    createAuditLog({
+    await createAuditLog({
       actor_user_id: req.user!.userId,
       action: 'user.role.update',
       target_type: 'user',
@@ -153,7 +271,7 @@ adminRouter.patch('/users/:id/status', async (req, res) => {
     if (!targetUser) return res.status(404).json({ error: 'User not found' })
 
     const updatedUser = await userService.updateUserStatus(req.params.id, status)
-    createAuditLog({
+    await createAuditLog({
       actor_user_id: req.user!.userId,
       action: 'user.status.update',
       target_type: 'user',
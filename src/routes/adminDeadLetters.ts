@@ -0,0 +1,224 @@
+import { Router, Request, Response } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { requireAdmin } from '../middleware/rbac.js'
+import { createAuditLog } from '../lib/audit-logs.js'
+import { parsePaginationParams } from '../utils/pagination.js'
+import { DeadLetterFilters, DeadLetterQueue, MAX_BULK_RETRY } from '../services/deadLetterQueue.js'
+import type { EventType } from '../types/horizonSync.js'
+
+const EVENT_TYPES: EventType[] = [
+  'vault_created',
+  'vault_completed',
+  'vault_failed',
+  'vault_cancelled',
+  'milestone_created',
+  'milestone_validated',
+]
+
+const parseId = (value: string): number | null => {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : null
+}
+
+const parseLedger = (value: unknown): number | undefined | null => {
+  if (value === undefined || value === '') return undefined
+  const ledger = Number(value)
+  return Number.isInteger(ledger) && ledger >= 0 ? ledger : null
+}
+
+type FilterParseResult = { filters: DeadLetterFilters } | { invalid: string }
+
+/**
+ * Parse dead letter filters from a query string or request body
+ */
+const parseFilters = (source: Record<string, unknown>): FilterParseResult => {
+  const filters: DeadLetterFilters = {}
+
+  if (source.eventType !== undefined && source.eventType !== '') {
+    if (!EVENT_TYPES.includes(source.eventType as EventType)) {
+      return { invalid: `Invalid eventType. Allowed values: ${EVENT_TYPES.join(', ')}` }
+    }
+    filters.eventType = source.eventType as EventType
+  }
+
+  const ledgerFrom = parseLedger(source.ledgerFrom)
+  const ledgerTo = parseLedger(source.ledgerTo)
+  if (ledgerFrom === null || ledgerTo === null) {
+    return { invalid: 'ledgerFrom and ledgerTo must be non-negative integers' }
+  }
+  filters.ledgerFrom = ledgerFrom
+  filters.ledgerTo = ledgerTo
+
+  if (typeof source.error === 'string' && source.error.trim() !== '') {
+    filters.error = source.error.trim()
+  }
+
+  return { filters }
+}
+
+/**
+ * Admin routes for inspecting, retrying and discarding events in the
+ * failed_events dead letter queue. Every mutating action is audit logged.
+ */
+export function createDeadLetterRouter(deadLetterQueue: DeadLetterQueue): Router {
+  const router = Router()
+
+  router.use(authenticate, requireAdmin)
+
+  router.get('/', async (req: Request, res: Response) => {
+    const parsed = parseFilters(req.query as Record<string, unknown>)
+    if ('invalid' in parsed) {
+      res.status(400).json({ error: parsed.invalid })
+      return
+    }
+
+    try {
+      const result = await deadLetterQueue.list(parsed.filters, parsePaginationParams(req))
+      res.json(result)
+    } catch (error) {
+      console.error('Error listing dead-lettered events:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.post('/retry', async (req: Request, res: Response) => {
+    const body = (req.body ?? {}) as Record<string, unknown>
+    let filters: DeadLetterFilters | null = null
+
+    if (body.ids !== undefined) {
+      if (
+        !Array.isArray(body.ids) ||
+        body.ids.length === 0 ||
+        body.ids.length > MAX_BULK_RETRY ||
+        body.ids.some((id) => !Number.isInteger(id) || id < 1)
+      ) {
+        res.status(400).json({ error: `ids must be an array of 1-${MAX_BULK_RETRY} positive integers` })
+        return
+      }
+    } else {
+      const parsed = parseFilters((body.filters ?? {}) as Record<string, unknown>)
+      if ('invalid' in parsed) {
+        res.status(400).json({ error: parsed.invalid })
+        return
+      }
+      filters = parsed.filters
+    }
+
+    try {
+      const ids = filters ? await deadLetterQueue.findIds(filters) : (body.ids as number[])
+      const results = await deadLetterQueue.retryMany(ids)
+      const succeeded = results.filter((result) => result.success).length
+
+      const auditLog = await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: 'dead_letter.bulk_retry',
+        target_type: 'failed_event',
+        target_id: results.map((result) => result.id).join(','),
+        metadata: {
+          requested: ids.length,
+          attempted: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+        },
+      })
+
+      res.json({ results, succeeded, failed: results.length - succeeded, auditLogId: auditLog.id })
+    } catch (error) {
+      console.error('Error retrying dead-lettered events:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    const id = parseId(req.params.id)
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid id' })
+      return
+    }
+
+    try {
+      const entry = await deadLetterQueue.get(id)
+      if (!entry) {
+        res.status(404).json({ error: 'Dead-lettered event not found' })
+        return
+      }
+
+      res.json(entry)
+    } catch (error) {
+      console.error('Error fetching dead-lettered event:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.post('/:id/retry', async (req: Request, res: Response) => {
+    const id = parseId(req.params.id)
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid id' })
+      return
+    }
+
+    try {
+      const result = await deadLetterQueue.retry(id)
+      if (!result) {
+        res.status(404).json({ error: 'Dead-lettered event not found' })
+        return
+      }
+
+      const auditLog = await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: 'dead_letter.retry',
+        target_type: 'failed_event',
+        target_id: String(id),
+        metadata: {
+          event_id: result.eventId,
+          success: result.success,
+          error_message: result.error,
+        },
+      })
+
+      res.status(result.success ? 200 : 422).json({ result, auditLogId: auditLog.id })
+    } catch (error) {
+      console.error('Error retrying dead-lettered event:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.delete('/:id', async (req: Request, res: Response) => {
+    const id = parseId(req.params.id)
+    if (id === null) {
+      res.status(400).json({ error: 'Invalid id' })
+      return
+    }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : 'No reason provided'
+
+    try {
+      const entry = await deadLetterQueue.discard(id)
+      if (!entry) {
+        res.status(404).json({ error: 'Dead-lettered event not found' })
+        return
+      }
+
+      const auditLog = await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: 'dead_letter.discard',
+        target_type: 'failed_event',
+        target_id: String(id),
+        metadata: {
+          event_id: entry.eventId,
+          event_type: entry.eventType,
+          ledger_number: entry.ledgerNumber,
+          error_message: entry.errorMessage,
+          reason,
+        },
+      })
+
+      res.json({ discarded: entry, auditLogId: auditLog.id })
+    } catch (error) {
+      console.error('Error discarding dead-lettered event:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  return router
+}
@@ -33,18 +33,18 @@ afterEach(async () => {
   server = null
 })
 
-const createAnalyticsKey = () => {
-  const { apiKey } = createApiKey({
+const createAnalyticsKey = async () => {
+  const { apiKey } = await createApiKey({
     userId: 'user-1',
     orgId: 'org-1',
     label: 'analytics',
-    scopes: ['read:analytics'],
+    scopes: ['analytics:read'],
   })
   return apiKey
 }
 
 test('returns milestone completion trends over time', async () => {
-  const apiKey = createAnalyticsKey()
+  const apiKey = await createAnalyticsKey()
   const base = new Date('2025-01-01T00:00:00.000Z')
 
   addMilestoneEvent({
@@ -76,7 +76,7 @@ test('returns milestone completion trends over time', async () => {
 })
 
 test('returns behavior score for a user', async () => {
-  const apiKey = createAnalyticsKey()
+  const apiKey = await createAnalyticsKey()
 
   addMilestoneEvent({
     userId: 'user-42',
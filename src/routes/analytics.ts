@@ -1,26 +1,47 @@
 import { Router } from 'express'
 import { authenticate } from '../middleware/auth.js'
-import { utcNow } from '../utils/timestamps.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { getOverallAnalytics } from '../services/analytics.service.js'
 
 export const analyticsRouter = Router()
 
-analyticsRouter.get('/summary', authenticate, (req, res) => {
-    res.status(200).json({
-        total_vaults: 10,
-        active_vaults: 5,
-        completed_vaults: 3,
-        failed_vaults: 2,
-        total_locked_capital: '5000.0000000',
-        active_capital: '2500.0000000',
-        success_rate: 60.0,
-        last_updated: utcNow(),
-    })
+analyticsRouter.get('/summary', authenticate, async (req, res) => {
+    try {
+        const summary = await getOverallAnalytics()
+
+        res.status(200).json({
+            total_vaults: summary.totalVaults,
+            active_vaults: summary.activeVaults,
+            completed_vaults: summary.completedVaults,
+            failed_vaults: summary.failedVaults,
+            total_locked_capital: summary.totalLockedCapital,
+            active_capital: summary.activeCapital,
+            success_rate: summary.successRate,
+            last_updated: summary.lastUpdated,
+        })
+    } catch (error) {
+        console.error('Error computing analytics summary:', error)
+        res.status(500).json({ error: 'Internal server error' })
+    }
 })
 
-analyticsRouter.get('/vaults/:id', authenticate, (req, res) => {
-    res.status(200).json({
-        vault_id: req.params.id,
-        status: 'active',
-        performance: 'on_track',
-    })
+analyticsRouter.get('/vaults/:id', authenticate, async (req, res) => {
+    try {
+        const vault = await getVaultRepository().getById(req.params.id)
+        if (!vault) {
+            res.status(404).json({ error: 'Vault not found' })
+            return
+        }
+
+        const overdue = vault.status === 'active' && Date.parse(vault.endTimestamp) <= Date.now()
+
+        res.status(200).json({
+            vault_id: vault.id,
+            status: vault.status,
+            performance: vault.status === 'active' ? (overdue ? 'overdue' : 'on_track') : vault.status,
+        })
+    } catch (error) {
+        console.error('Error fetching vault analytics:', error)
+        res.status(500).json({ error: 'Internal server error' })
+    }
 })
@@ -43,7 +43,7 @@ test('creates, lists, and revokes API keys for an authenticated user', async ()
     },
     body: JSON.stringify({
       label: 'analytics integration',
-      scopes: ['read:analytics', 'read:vaults'],
+      scopes: ['analytics:read', 'vaults:read'],
     }),
   })
 
@@ -95,7 +95,7 @@ test('validates scopes and rejects revoked API keys on protected analytics route
     },
     body: JSON.stringify({
       label: 'vault-reader',
-      scopes: ['read:vaults'],
+      scopes: ['vaults:read'],
     }),
   })
 
@@ -1,63 +1,172 @@
 import { Router } from 'express'
 import { requireUserAuth } from '../middleware/userAuth.js'
-import { createApiKey, listApiKeysForUser, revokeApiKey } from '../services/apiKeys.js'
+import {
+  MAX_ROTATION_GRACE_SECONDS,
+  createApiKey,
+  getApiKeyForUser,
+  listApiKeysForUser,
+  resolveApiKeyScope,
+  revokeApiKey,
+  rotateApiKey,
+  toPublicApiKeyRecord,
+} from '../services/apiKeys.js'
+import { API_KEY_SCOPES } from '../types/apiKeyScopes.js'
+import type { ApiKeyScope } from '../types/auth.js'
+import { isValidISO8601, parseAndNormalizeToUTC } from '../utils/timestamps.js'
 
 export const apiKeysRouter = Router()
 
 apiKeysRouter.use(requireUserAuth)
 
-apiKeysRouter.get('/', (req, res) => {
+apiKeysRouter.get('/', async (req, res) => {
   const userId = req.authUser!.userId
-  const apiKeys = listApiKeysForUser(userId).map(({ keyHash: _keyHash, ...publicRecord }) => publicRecord)
+  const apiKeys = (await listApiKeysForUser(userId)).map(toPublicApiKeyRecord)
 
   res.json({ apiKeys })
 })
 
-apiKeysRouter.post('/', (req, res) => {
-  const userId = req.authUser!.userId
-  const { label, scopes, orgId } = req.body as {
+apiKeysRouter.get('/scopes', (_req, res) => {
+  const scopes = Object.entries(API_KEY_SCOPES).map(([scope, description]) => ({ scope, description }))
+
+  res.json({ scopes })
+})
+
+type CreateApiKeyBody = { label: string; scopes: ApiKeyScope[]; expiresAt?: string }
+
+/**
+ * Validate the label, scopes and optional expiry shared by user and organization key creation
+ */
+export const parseCreateApiKeyBody = (body: unknown): CreateApiKeyBody | { error: string } => {
+  const { label, scopes, expiresAt } = (body ?? {}) as {
     label?: string
     scopes?: unknown
-    orgId?: string
+    expiresAt?: unknown
   }
 
   if (!label?.trim()) {
-    res.status(400).json({ error: 'label is required.' })
-    return
+    return { error: 'label is required.' }
   }
 
   if (!Array.isArray(scopes)) {
-    res.status(400).json({ error: 'scopes must be an array of scope strings.' })
-    return
+    return { error: 'scopes must be an array of scope strings.' }
   }
 
   const normalizedScopes = scopes
     .map((scope) => (typeof scope === 'string' ? scope.trim() : ''))
     .filter(Boolean)
+  const unknownScopes = normalizedScopes.filter((scope) => resolveApiKeyScope(scope) === null)
+  if (unknownScopes.length > 0) {
+    return { error: `Unknown scopes: ${unknownScopes.join(', ')}. See GET /api/api-keys/scopes.` }
+  }
+
+  let normalizedExpiresAt: string | undefined
+  if (expiresAt !== undefined && expiresAt !== null) {
+    if (!isValidISO8601(expiresAt)) {
+      return { error: 'expiresAt must be an ISO 8601 timestamp with timezone.' }
+    }
+    normalizedExpiresAt = parseAndNormalizeToUTC(expiresAt)
+    if (Date.parse(normalizedExpiresAt) <= Date.now()) {
+      return { error: 'expiresAt must be in the future.' }
+    }
+  }
 
-  const { apiKey, record } = createApiKey({
-    userId,
-    orgId: orgId?.trim() || undefined,
+  return {
     label: label.trim(),
-    scopes: normalizedScopes,
-  })
+    scopes: normalizedScopes.map(resolveApiKeyScope).filter((scope): scope is ApiKeyScope => scope !== null),
+    expiresAt: normalizedExpiresAt,
+  }
+}
+
+apiKeysRouter.post('/', async (req, res) => {
+  const userId = req.authUser!.userId
+  const parsed = parseCreateApiKeyBody(req.body)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  // Organization keys belong to the organization, so its admins can list and revoke them
+  if (req.body?.orgId !== undefined && req.body.orgId !== null) {
+    res.status(400).json({
+      error: 'Personal API keys cannot be bound to an organization. Use POST /api/organizations/:orgId/api-keys.',
+    })
+    return
+  }
+
+  const { apiKey, record } = await createApiKey({ userId, ...parsed })
 
-  const { keyHash: _keyHash, ...publicRecord } = record
   res.status(201).json({
     apiKey,
-    apiKeyMeta: publicRecord,
+    apiKeyMeta: toPublicApiKeyRecord(record),
+  })
+})
+
+apiKeysRouter.post('/:id/revoke', async (req, res) => {
+  const userId = req.authUser!.userId
+  const record = await revokeApiKey(req.params.id, userId)
+
+  if (!record) {
+    res.status(404).json({ error: 'API key not found.' })
+    return
+  }
+
+  res.json({ apiKeyMeta: toPublicApiKeyRecord(record) })
+})
+
+apiKeysRouter.post('/:id/rotate', async (req, res) => {
+  const userId = req.authUser!.userId
+  const { gracePeriodSeconds } = (req.body ?? {}) as { gracePeriodSeconds?: unknown }
+
+  if (
+    gracePeriodSeconds !== undefined &&
+    (typeof gracePeriodSeconds !== 'number' ||
+      !Number.isInteger(gracePeriodSeconds) ||
+      gracePeriodSeconds < 0 ||
+      gracePeriodSeconds > MAX_ROTATION_GRACE_SECONDS)
+  ) {
+    res.status(400).json({
+      error: `gracePeriodSeconds must be an integer between 0 and ${MAX_ROTATION_GRACE_SECONDS}.`,
+    })
+    return
+  }
+
+  const rotated = await rotateApiKey(req.params.id, userId, gracePeriodSeconds as number | undefined)
+
+  if (!rotated) {
+    res.status(404).json({ error: 'API key not found.' })
+    return
+  }
+
+  if (rotated === 'revoked') {
+    res.status(409).json({ error: 'Revoked API keys cannot be rotated.' })
+    return
+  }
+
+  res.json({
+    apiKey: rotated.apiKey,
+    apiKeyMeta: toPublicApiKeyRecord(rotated.record),
   })
 })
 
-apiKeysRouter.post('/:id/revoke', (req, res) => {
+apiKeysRouter.get('/:id/usage', async (req, res) => {
   const userId = req.authUser!.userId
-  const record = revokeApiKey(req.params.id, userId)
+  const record = await getApiKeyForUser(req.params.id, userId)
 
   if (!record) {
     res.status(404).json({ error: 'API key not found.' })
     return
   }
 
-  const { keyHash: _keyHash, ...publicRecord } = record
-  res.json({ apiKeyMeta: publicRecord })
+  res.json({
+    usage: {
+      apiKeyId: record.id,
+      lastUsedAt: record.lastUsedAt,
+      lastUsedIp: record.lastUsedIp,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+      rotatedAt: record.rotatedAt,
+      previousKeyExpiresAt: record.previousKeyExpiresAt,
+      revokedAt: record.revokedAt,
+    },
+  })
 })
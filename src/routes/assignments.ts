@@ -0,0 +1,199 @@
+import { Request, Response, Router } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { getMilestoneById } from '../services/milestones.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import {
+  getMilestoneAssignmentStore,
+  type AssignmentStatus,
+  type AssignmentStrategy,
+  type MilestoneAssignment,
+} from '../assignments/records.js'
+import {
+  AUTOMATIC_ASSIGNMENT_STRATEGIES,
+  assignMilestone,
+  getDefaultAssignmentStrategy,
+  getVerifierWorkloads,
+  isApprovedVerifier,
+  pickVerifier,
+} from '../assignments/service.js'
+import { UserRole } from '../types/user.js'
+
+const ASSIGNMENT_STATUSES: readonly AssignmentStatus[] = ['active', 'completed', 'escalated', 'reassigned']
+
+const isReviewer = (req: Request): boolean =>
+  req.user!.role === UserRole.VERIFIER || req.user!.role === UserRole.ADMIN
+
+const withSla = (assignment: MilestoneAssignment, now = Date.now()) => ({
+  ...assignment,
+  overdue: assignment.status === 'active' && Date.parse(assignment.dueAt) <= now,
+})
+
+/**
+ * A milestone's current verifier assignment, mounted at
+ * /api/vaults/:vaultId/milestones/:milestoneId/assignment
+ */
+export const milestoneAssignmentRouter = Router({ mergeParams: true })
+
+milestoneAssignmentRouter.use(authenticate)
+
+// GET /api/vaults/:vaultId/milestones/:milestoneId/assignment
+milestoneAssignmentRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    const milestone = await getMilestoneById(req.params.milestoneId)
+    if (!vault || !milestone || milestone.vaultId !== vault.id) {
+      res.status(404).json({ error: 'Milestone not found' })
+      return
+    }
+
+    if (req.user!.userId !== vault.creator && !isReviewer(req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const assignment = await getMilestoneAssignmentStore().getOpenForMilestone(milestone.id)
+    res.json({ assignment: assignment ? withSla(assignment) : null })
+  } catch (error) {
+    console.error('Error fetching milestone assignment:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/vaults/:vaultId/milestones/:milestoneId/assignment
+milestoneAssignmentRouter.put('/', async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== UserRole.ADMIN) {
+      res.status(403).json({ error: 'Only admins can assign verifiers' })
+      return
+    }
+
+    const { verifierId, strategy } = (req.body ?? {}) as { verifierId?: unknown; strategy?: unknown }
+    if (verifierId !== undefined && (typeof verifierId !== 'string' || !verifierId.trim())) {
+      res.status(400).json({ error: 'verifierId must be a non-empty string' })
+      return
+    }
+    if (strategy !== undefined && !AUTOMATIC_ASSIGNMENT_STRATEGIES.includes(strategy as AssignmentStrategy)) {
+      res.status(400).json({ error: `strategy must be one of ${AUTOMATIC_ASSIGNMENT_STRATEGIES.join(', ')}` })
+      return
+    }
+    if (verifierId !== undefined && strategy !== undefined) {
+      res.status(400).json({ error: 'Provide either verifierId or strategy, not both' })
+      return
+    }
+
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    const milestone = await getMilestoneById(req.params.milestoneId)
+    if (!vault || !milestone || milestone.vaultId !== vault.id) {
+      res.status(404).json({ error: 'Milestone not found' })
+      return
+    }
+
+    if (vault.status !== 'active' || milestone.status === 'approved' || milestone.releaseStatus !== 'pending') {
+      res.status(409).json({ error: 'Milestone is no longer awaiting review' })
+      return
+    }
+
+    let assignee: string | null
+    let assignedWith: AssignmentStrategy
+    if (typeof verifierId === 'string') {
+      assignee = verifierId.trim()
+      assignedWith = 'manual'
+      if (assignee === vault.creator || !(await isApprovedVerifier(assignee))) {
+        res.status(400).json({ error: 'verifierId must be an approved verifier other than the vault creator' })
+        return
+      }
+    } else {
+      assignedWith = (strategy as AssignmentStrategy | undefined) ?? getDefaultAssignmentStrategy()
+      assignee = await pickVerifier(assignedWith, [vault.creator])
+      if (!assignee) {
+        res.status(409).json({ error: 'No approved verifier is available' })
+        return
+      }
+    }
+
+    const assignment = await assignMilestone(vault, milestone, assignee, assignedWith, req.user!.userId)
+    res.json({ assignment: withSla(assignment) })
+  } catch (error) {
+    console.error('Error assigning milestone:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * Verifier queues and workloads, mounted at /api/assignments
+ */
+export const assignmentsRouter = Router()
+
+assignmentsRouter.use(authenticate)
+
+// GET /api/assignments/queue
+assignmentsRouter.get('/queue', async (req: Request, res: Response) => {
+  try {
+    if (!isReviewer(req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    // Admins also pick up everything escalated to them
+    const store = getMilestoneAssignmentStore()
+    const [own, escalated] = await Promise.all([
+      store.list({ verifierId: req.user!.userId, status: 'active' }),
+      req.user!.role === UserRole.ADMIN ? store.list({ status: 'escalated' }) : Promise.resolve([]),
+    ])
+
+    const now = Date.now()
+    const queue = await Promise.all(
+      [...own, ...escalated]
+        .sort((a, b) => Date.parse(a.dueAt) - Date.parse(b.dueAt))
+        .map(async (assignment) => ({
+          ...withSla(assignment, now),
+          milestone: await getMilestoneById(assignment.milestoneId),
+        })),
+    )
+    res.json({ queue })
+  } catch (error) {
+    console.error('Error fetching verifier queue:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/assignments/workload
+assignmentsRouter.get('/workload', async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== UserRole.ADMIN) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    res.json({ verifiers: await getVerifierWorkloads() })
+  } catch (error) {
+    console.error('Error fetching verifier workloads:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/assignments?verifierId=&status=
+assignmentsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    if (req.user!.role !== UserRole.ADMIN) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const { verifierId, status } = req.query
+    if (status !== undefined && !ASSIGNMENT_STATUSES.includes(status as AssignmentStatus)) {
+      res.status(400).json({ error: `status must be one of ${ASSIGNMENT_STATUSES.join(', ')}` })
+      return
+    }
+
+    const assignments = await getMilestoneAssignmentStore().list({
+      verifierId: typeof verifierId === 'string' ? verifierId : undefined,
+      status: status as AssignmentStatus | undefined,
+    })
+    const now = Date.now()
+    res.json({ assignments: assignments.map((assignment) => withSla(assignment, now)) })
+  } catch (error) {
+    console.error('Error listing assignments:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
@@ -62,7 +62,7 @@ authRouter.post('/login', async (req, res) => {
         const user = upsertMockUser(userId)
         user.lastLoginAt = now
 
-        const auditLog = createAuditLog({
+        const auditLog = await createAuditLog({
             actor_user_id: user.id,
             action: 'auth.login',
             target_type: 'user',
@@ -142,7 +142,7 @@ authRouter.post('/logout-all', authenticate, async (req: Request, res: Response)
   res.json({ message: 'Successfully logged out from all devices' })
 })
 
-authRouter.post('/users/:id/role', (req, res) => {
+authRouter.post('/users/:id/role', async (req, res) => {
   const actorRole = req.header('x-user-role')
   const actorId = req.header('x-user-id')
 
@@ -166,7 +166,7 @@ authRouter.post('/users/:id/role', (req, res) => {
   const previousRole = user.role
   user.role = role as UserRole
 
-  const auditLog = createAuditLog({
+  const auditLog = await createAuditLog({
     actor_user_id: actorId,
     action: 'auth.role_changed',
     target_type: 'user',
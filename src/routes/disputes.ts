@@ -0,0 +1,204 @@
+import { Request, Response, Router } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { getMilestoneById } from '../services/milestones.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { getMilestoneDisputeStore, type DisputeStatus, type MilestoneDispute } from '../disputes/records.js'
+import { getDisputeOpenError, openDispute, resolveDispute } from '../disputes/service.js'
+import { UserRole } from '../types/user.js'
+
+const MAX_STATEMENT_LENGTH = 5000
+const DISPUTE_STATUSES: readonly DisputeStatus[] = ['open', 'upheld', 'overturned']
+
+const isReviewer = (req: Request): boolean =>
+  req.user!.role === UserRole.VERIFIER || req.user!.role === UserRole.ADMIN
+
+const parseText = (value: unknown, field: string, required: boolean): string | null | { error: string } => {
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+    return required ? { error: `${field} is required` } : null
+  }
+  if (typeof value !== 'string') return { error: `${field} must be a string` }
+  if (value.trim().length > MAX_STATEMENT_LENGTH) {
+    return { error: `${field} can be at most ${MAX_STATEMENT_LENGTH} characters` }
+  }
+  return value.trim()
+}
+
+/**
+ * Disputes on one milestone, mounted at
+ * /api/vaults/:vaultId/milestones/:milestoneId/disputes
+ */
+export const milestoneDisputesRouter = Router({ mergeParams: true })
+
+milestoneDisputesRouter.use(authenticate)
+
+// POST /api/vaults/:vaultId/milestones/:milestoneId/disputes
+milestoneDisputesRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const statement = parseText(req.body?.statement, 'statement', true)
+    if (typeof statement !== 'string') {
+      res.status(400).json(statement)
+      return
+    }
+
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    const milestone = await getMilestoneById(req.params.milestoneId)
+    if (!milestone || milestone.vaultId !== vault.id) {
+      res.status(404).json({ error: 'Milestone not found' })
+      return
+    }
+
+    if (req.user!.userId !== vault.creator) {
+      res.status(403).json({ error: 'Only the vault creator can dispute a decision' })
+      return
+    }
+
+    const openError = await getDisputeOpenError(vault, milestone)
+    if (openError) {
+      res.status(409).json({ error: openError })
+      return
+    }
+
+    const dispute = await openDispute(vault, milestone, req.user!.userId, statement)
+    res.status(201).json({ dispute })
+  } catch (error) {
+    console.error('Error opening dispute:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/vaults/:vaultId/milestones/:milestoneId/disputes
+milestoneDisputesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    if (req.user!.userId !== vault.creator && !isReviewer(req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const disputes = await getMilestoneDisputeStore().list({ milestoneId: req.params.milestoneId })
+    res.json({ disputes: disputes.filter((dispute) => dispute.vaultId === vault.id) })
+  } catch (error) {
+    console.error('Error listing milestone disputes:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+/**
+ * The adjudication queue, mounted at /api/disputes
+ */
+export const disputesRouter = Router()
+
+disputesRouter.use(authenticate)
+
+const findVisible = async (req: Request, res: Response): Promise<MilestoneDispute | null> => {
+  const dispute = await getMilestoneDisputeStore().get(req.params.id)
+  if (!dispute || (dispute.openedBy !== req.user!.userId && !isReviewer(req))) {
+    res.status(404).json({ error: 'Dispute not found' })
+    return null
+  }
+  return dispute
+}
+
+// GET /api/disputes?status=open&verifierId=
+disputesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    if (!isReviewer(req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const { status, verifierId } = req.query
+    if (status !== undefined && !DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+      res.status(400).json({ error: `status must be one of ${DISPUTE_STATUSES.join(', ')}` })
+      return
+    }
+
+    const disputes = await getMilestoneDisputeStore().list({
+      status: status as DisputeStatus | undefined,
+      verifierId: typeof verifierId === 'string' ? verifierId : undefined,
+    })
+    res.json({ disputes })
+  } catch (error) {
+    console.error('Error listing disputes:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/disputes/:id
+disputesRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const dispute = await findVisible(req, res)
+    if (!dispute) return
+
+    res.json({ dispute })
+  } catch (error) {
+    console.error('Error fetching dispute:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/disputes/:id/resolve
+disputesRouter.post('/:id/resolve', async (req: Request, res: Response) => {
+  try {
+    const { outcome } = req.body as { outcome?: unknown }
+    if (outcome !== 'upheld' && outcome !== 'overturned') {
+      res.status(400).json({ error: "outcome must be 'upheld' or 'overturned'" })
+      return
+    }
+
+    const resolution = parseText(req.body?.resolution, 'resolution', false)
+    if (resolution !== null && typeof resolution !== 'string') {
+      res.status(400).json(resolution)
+      return
+    }
+
+    const dispute = await findVisible(req, res)
+    if (!dispute) return
+
+    // An admin, or a verifier other than the one whose decision is disputed
+    const { userId, role } = req.user!
+    const canAdjudicate =
+      role === UserRole.ADMIN || (role === UserRole.VERIFIER && userId !== dispute.verifierId && userId !== dispute.openedBy)
+    if (!canAdjudicate) {
+      res.status(403).json({ error: 'Disputes are resolved by an admin or a second verifier' })
+      return
+    }
+
+    if (dispute.status !== 'open') {
+      res.status(409).json({ error: `Dispute is already ${dispute.status}` })
+      return
+    }
+
+    const milestone = await getMilestoneById(dispute.milestoneId)
+    if (outcome === 'overturned' && (milestone?.status !== 'rejected' || milestone.releaseStatus !== 'pending')) {
+      res.status(409).json({ error: 'Milestone can no longer be approved; the dispute can only be upheld' })
+      return
+    }
+
+    const result = await resolveDispute(dispute, outcome, userId, resolution)
+    if (!result) {
+      res.status(409).json({ error: 'Dispute was resolved concurrently' })
+      return
+    }
+
+    res.json({
+      dispute: result.dispute,
+      milestone: result.milestone,
+      release: result.approval?.release ?? null,
+      vaultCompleted: result.approval?.vaultCompleted ?? false,
+    })
+  } catch (error) {
+    console.error('Error resolving dispute:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
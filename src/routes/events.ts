@@ -0,0 +1,60 @@
+import { Router, type Response } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import type { UserEvent, UserEventStream } from '../services/eventStream.js'
+
+export interface EventsRouterOptions {
+  /** Interval between heartbeat comments that keep idle connections open */
+  heartbeatMs?: number
+  /** Reconnect delay suggested to EventSource clients */
+  retryMs?: number
+}
+
+const writeEvent = (res: Response, event: UserEvent): void => {
+  const data = JSON.stringify({ ...event.data, createdAt: event.createdAt })
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`)
+}
+
+export const createEventsRouter = (stream: UserEventStream, options: EventsRouterOptions = {}): Router => {
+  const heartbeatMs = options.heartbeatMs ?? 25_000
+  const retryMs = options.retryMs ?? 3_000
+  const router = Router()
+
+  // GET /api/events/stream - Server-Sent Events for the authenticated user
+  router.get('/stream', authenticate, (req, res) => {
+    const userId = req.user!.userId
+    const headerId = req.get('Last-Event-ID')
+    const lastEventId = headerId ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined)
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    })
+    res.flushHeaders()
+    res.write(`retry: ${retryMs}\n\n`)
+
+    if (lastEventId) {
+      const missed = stream.eventsSince(userId, lastEventId)
+      if (missed) {
+        missed.forEach((event) => writeEvent(res, event))
+      } else {
+        // Too old to replay; the client should refetch what it displays
+        res.write('event: resync\ndata: {}\n\n')
+      }
+    }
+
+    // Replay and subscribe run in the same tick, so no event can fall between them
+    const unsubscribe = stream.subscribe(userId, (event) => writeEvent(res, event))
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n')
+    }, heartbeatMs)
+
+    req.on('close', () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    })
+  })
+
+  return router
+}
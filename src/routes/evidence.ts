@@ -0,0 +1,285 @@
+import express, { NextFunction, Request, Response, Router } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { getMilestoneById, type Milestone } from '../services/milestones.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import {
+  getMilestoneEvidenceStore,
+  toPublicMilestoneEvidence,
+  type MilestoneEvidence,
+} from '../evidence/records.js'
+import { hashMilestoneEvidence } from '../evidence/hashing.js'
+import {
+  EvidenceIntegrityError,
+  MAX_EVIDENCE_PER_MILESTONE,
+  MAX_EVIDENCE_TEXT_LENGTH,
+  getMaxEvidenceFileBytes,
+  listMilestoneEvidence,
+  readEvidenceContent,
+  submitEvidence,
+} from '../evidence/service.js'
+import type { Vault } from '../types/vaults.js'
+import { UserRole } from '../types/user.js'
+
+export const evidenceRouter = Router({ mergeParams: true })
+
+const CONTENT_HASH_HEADER = 'X-Content-SHA256'
+const MAX_FILE_NAME_LENGTH = 255
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+const parseDescription = (value: unknown): string | null | { error: string } => {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') return { error: 'description must be a string' }
+  return value.trim() || null
+}
+
+interface EvidenceTarget {
+  vault: Vault
+  milestone: Milestone
+}
+
+/**
+ * Resolve the vault and milestone from the path, answering 404 when either
+ * is missing and 403 unless the caller may see the milestone's evidence:
+ * the vault creator, or verifiers and admins when `reviewers` is set.
+ */
+const findTarget = async (req: Request, res: Response, reviewers: boolean): Promise<EvidenceTarget | null> => {
+  const { vaultId, milestoneId } = req.params
+
+  const vault = await getVaultRepository().getById(vaultId)
+  if (!vault) {
+    res.status(404).json({ error: 'Vault not found' })
+    return null
+  }
+
+  const milestone = await getMilestoneById(milestoneId)
+  if (!milestone || milestone.vaultId !== vaultId) {
+    res.status(404).json({ error: 'Milestone not found' })
+    return null
+  }
+
+  const { userId, role } = req.user!
+  const isReviewer = role === UserRole.VERIFIER || role === UserRole.ADMIN
+  if (userId !== vault.creator && !(reviewers && isReviewer)) {
+    res.status(403).json({ error: 'Forbidden' })
+    return null
+  }
+
+  return { vault, milestone }
+}
+
+/**
+ * Evidence can be added until the milestone is submitted for review, and
+ * again after a rejection so it can be resubmitted.
+ */
+const checkOpenForEvidence = async (
+  { vault, milestone }: EvidenceTarget,
+  res: Response,
+): Promise<boolean> => {
+  if (vault.status !== 'active') {
+    res.status(409).json({ error: 'Cannot submit evidence for a non-active vault' })
+    return false
+  }
+
+  if ((milestone.status !== 'pending' && milestone.status !== 'rejected') || milestone.releaseStatus !== 'pending') {
+    res.status(409).json({ error: `Milestone is '${milestone.status}' and not accepting evidence` })
+    return false
+  }
+
+  if ((await listMilestoneEvidence(milestone.id)).length >= MAX_EVIDENCE_PER_MILESTONE) {
+    res.status(409).json({ error: `A milestone can have at most ${MAX_EVIDENCE_PER_MILESTONE} pieces of evidence` })
+    return false
+  }
+
+  return true
+}
+
+const findEvidence = async (req: Request, res: Response, milestone: Milestone): Promise<MilestoneEvidence | null> => {
+  const evidence = await getMilestoneEvidenceStore().get(req.params.evidenceId)
+  if (!evidence || evidence.milestoneId !== milestone.id) {
+    res.status(404).json({ error: 'Evidence not found' })
+    return null
+  }
+  return evidence
+}
+
+/**
+ * Raw request body up to the configured file size limit. JSON bodies have
+ * already been parsed by the app-wide JSON parser and are left alone.
+ */
+const rawFileBody = (req: Request, res: Response, next: NextFunction): void => {
+  express.raw({ type: () => true, limit: getMaxEvidenceFileBytes() })(req, res, (error?: unknown) => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      res.status(413).json({ error: `Files can be at most ${getMaxEvidenceFileBytes()} bytes` })
+      return
+    }
+    next(error)
+  })
+}
+
+// GET /api/vaults/:vaultId/milestones/:milestoneId/evidence
+evidenceRouter.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const target = await findTarget(req, res, true)
+    if (!target) return
+
+    const evidence = await listMilestoneEvidence(target.milestone.id)
+    res.json({
+      evidence: evidence.map(toPublicMilestoneEvidence),
+      evidenceHash: hashMilestoneEvidence(evidence.map((item) => item.contentHash)),
+    })
+  } catch (error) {
+    console.error('Error listing milestone evidence:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/vaults/:vaultId/milestones/:milestoneId/evidence
+evidenceRouter.post('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { kind, text, url } = (req.body ?? {}) as Record<string, unknown>
+    const description = parseDescription(req.body?.description)
+    if (description && typeof description === 'object') {
+      res.status(400).json(description)
+      return
+    }
+
+    if (kind === 'text') {
+      if (typeof text !== 'string' || !text.trim()) {
+        res.status(400).json({ error: 'text is required' })
+        return
+      }
+      if (text.length > MAX_EVIDENCE_TEXT_LENGTH) {
+        res.status(400).json({ error: `text can be at most ${MAX_EVIDENCE_TEXT_LENGTH} characters` })
+        return
+      }
+    } else if (kind === 'link') {
+      if (!isHttpUrl(url)) {
+        res.status(400).json({ error: 'url must be an http or https URL' })
+        return
+      }
+    } else {
+      res.status(400).json({ error: "kind must be 'text' or 'link'; upload files to /evidence/files" })
+      return
+    }
+
+    const target = await findTarget(req, res, false)
+    if (!target || !(await checkOpenForEvidence(target, res))) return
+
+    const base = {
+      vaultId: target.vault.id,
+      milestoneId: target.milestone.id,
+      submittedBy: req.user!.userId,
+      description,
+    }
+    const evidence = await submitEvidence(
+      kind === 'text' ? { ...base, kind, text: text as string } : { ...base, kind, url: url as string },
+    )
+
+    res.status(201).json({ evidence: toPublicMilestoneEvidence(evidence) })
+  } catch (error) {
+    console.error('Error submitting milestone evidence:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/vaults/:vaultId/milestones/:milestoneId/evidence/files?filename=&description=
+evidenceRouter.post('/files', authenticate, rawFileBody, async (req: Request, res: Response) => {
+  try {
+    const fileName = typeof req.query.filename === 'string' ? req.query.filename.trim() : ''
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH || /[/\\]/.test(fileName)) {
+      res.status(400).json({ error: `filename is required and must be a plain file name of at most ${MAX_FILE_NAME_LENGTH} characters` })
+      return
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(415).json({ error: 'Send the file as the raw request body; upload JSON files as application/octet-stream' })
+      return
+    }
+    if (req.body.length === 0) {
+      res.status(400).json({ error: 'File is empty' })
+      return
+    }
+
+    const description = parseDescription(req.query.description)
+    if (description && typeof description === 'object') {
+      res.status(400).json(description)
+      return
+    }
+
+    const target = await findTarget(req, res, false)
+    if (!target || !(await checkOpenForEvidence(target, res))) return
+
+    const evidence = await submitEvidence({
+      vaultId: target.vault.id,
+      milestoneId: target.milestone.id,
+      submittedBy: req.user!.userId,
+      description,
+      kind: 'file',
+      fileName,
+      contentType: req.get('Content-Type') ?? 'application/octet-stream',
+      content: req.body,
+    })
+
+    res.status(201).json({ evidence: toPublicMilestoneEvidence(evidence) })
+  } catch (error) {
+    console.error('Error uploading milestone evidence:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/vaults/:vaultId/milestones/:milestoneId/evidence/:evidenceId
+evidenceRouter.get('/:evidenceId', authenticate, async (req: Request, res: Response) => {
+  try {
+    const target = await findTarget(req, res, true)
+    if (!target) return
+
+    const evidence = await findEvidence(req, res, target.milestone)
+    if (!evidence) return
+
+    res.json({ evidence: toPublicMilestoneEvidence(evidence) })
+  } catch (error) {
+    console.error('Error fetching milestone evidence:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/vaults/:vaultId/milestones/:milestoneId/evidence/:evidenceId/content
+evidenceRouter.get('/:evidenceId/content', authenticate, async (req: Request, res: Response) => {
+  try {
+    const target = await findTarget(req, res, true)
+    if (!target) return
+
+    const evidence = await findEvidence(req, res, target.milestone)
+    if (!evidence) return
+
+    const content = await readEvidenceContent(evidence)
+    if (!content) {
+      res.status(404).json({ error: 'Evidence content not found' })
+      return
+    }
+
+    res.set(CONTENT_HASH_HEADER, evidence.contentHash)
+    res.type(evidence.contentType)
+    if (evidence.kind === 'file') {
+      res.attachment(evidence.fileName ?? evidence.id)
+    }
+    res.send(content)
+  } catch (error) {
+    if (error instanceof EvidenceIntegrityError) {
+      console.error('Evidence integrity check failed:', error.message)
+      res.status(500).json({ error: 'Stored evidence does not match its content hash' })
+      return
+    }
+    console.error('Error fetching milestone evidence content:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
@@ -1,5 +1,6 @@
 import { Router, Response } from 'express'
 import { authenticate, requireAdmin, signDownloadToken, verifyDownloadToken, AuthenticatedRequest } from '../middleware/auth.js'
+import { authenticateUserOrApiKey } from '../middleware/apiKeyAuth.js'
 import { createJob, getJob, processJob, ExportFormat, ExportScope } from '../services/exportQueue.js'
 
 /**
@@ -11,6 +12,8 @@ export function createExportRouter(
     vaultsStore: Array<Record<string, unknown>>,
 ): Router {
     const router = Router()
+    // JWT or an API key granted exports:create
+    const requireExportsCreate = authenticateUserOrApiKey(['exports:create'], authenticate)
 
     function parseOptions(req: AuthenticatedRequest): { format: ExportFormat; scope: ExportScope } | null {
         const format = (req.query['format'] ?? 'json') as string
@@ -33,7 +36,7 @@ export function createExportRouter(
      *
      * Returns { jobId, statusUrl, pollIntervalMs }
      */
-    router.post('/me', authenticate, (req: AuthenticatedRequest, res: Response) => {
+    router.post('/me', requireExportsCreate, (req: AuthenticatedRequest, res: Response) => {
         const opts = parseOptions(req)
         if (!opts) {
             res.status(400).json({ error: 'Invalid format or scope parameter' })
@@ -102,7 +105,7 @@ export function createExportRouter(
     // ─────────────────────────────────────────────────────────────────────────────
     // GET /api/exports/status/:jobId  — poll job status, get signed download link
     // ─────────────────────────────────────────────────────────────────────────────
-    router.get('/status/:jobId', authenticate, (req: AuthenticatedRequest, res: Response) => {
+    router.get('/status/:jobId', requireExportsCreate, (req: AuthenticatedRequest, res: Response) => {
         const job = getJob(req.params['jobId'])
 
         if (!job) {
@@ -1,18 +1,15 @@
 import { Router } from 'express'
 import { BackgroundJobSystem } from '../jobs/system.js'
-import { startExpirationChecker } from '../services/expirationScheduler.js'
-import { horizonListenerConfig } from '../config/horizonListener.js'
 
 export const createHealthRouter = (jobSystem: BackgroundJobSystem) => {
   const router = Router()
 
-  router.get('/', (req, res) => {
+  router.get('/', async (req, res) => {
     res.status(200).json({
       status: 'ok',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
-      jobs: jobSystem.getMetrics()
-      jobs: jobSystem.getUptimeMetrics()
+      jobs: await jobSystem.getMetrics().catch(() => null),
     })
   })
 
@@ -1,6 +1,9 @@
 import { Router } from 'express'
+import { createAuditLog } from '../lib/audit-logs.js'
+import { authenticate, requireAdmin } from '../middleware/auth.js'
 import type { BackgroundJobSystem } from '../jobs/system.js'
 import {
+  isDedupePolicy,
   isJobType,
   isPayloadForJobType,
   type EnqueueOptions,
@@ -34,6 +37,20 @@ const parseEnqueueOptions = (body: Record<string, unknown>): EnqueueOptions | nu
     options.maxAttempts = body.maxAttempts
   }
 
+  if (body.dedupeKey !== undefined) {
+    if (typeof body.dedupeKey !== 'string' || body.dedupeKey.length === 0 || body.dedupeKey.length > 255) {
+      return null
+    }
+    options.dedupeKey = body.dedupeKey
+  }
+
+  if (body.dedupePolicy !== undefined) {
+    if (!isDedupePolicy(body.dedupePolicy)) {
+      return null
+    }
+    options.dedupePolicy = body.dedupePolicy
+  }
+
   return options
 }
 
@@ -52,6 +69,8 @@ const enqueueTypedJob = (
       return jobSystem.enqueue(type, payload, options)
     case 'analytics.recompute':
       return jobSystem.enqueue(type, payload, options)
+    case 'webhook.deliver':
+      return jobSystem.enqueue(type, payload, options)
     default:
       throw new Error('Unsupported job type')
   }
@@ -60,12 +79,28 @@ const enqueueTypedJob = (
 export const createJobsRouter = (jobSystem: BackgroundJobSystem): Router => {
   const jobsRouter = Router()
 
-  jobsRouter.get('/metrics', (_req, res) => {
-    res.json(jobSystem.getMetrics())
+  // Enqueued jobs send real notifications and webhooks, and metrics expose job errors
+  jobsRouter.use(authenticate, requireAdmin)
+
+  jobsRouter.get('/metrics', async (_req, res) => {
+    try {
+      res.json(await jobSystem.getMetrics())
+    } catch (error) {
+      console.error('Error reading job metrics:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
   })
 
-  jobsRouter.get('/health', (_req, res) => {
-    const metrics = jobSystem.getMetrics()
+  jobsRouter.get('/health', async (_req, res) => {
+    let metrics
+    try {
+      metrics = await jobSystem.getMetrics()
+    } catch (error) {
+      console.error('Error reading job metrics:', error)
+      res.status(503).json({ status: 'down', timestamp: new Date().toISOString() })
+      return
+    }
+
     const totalExecutions = metrics.totals.executions
     const failureRate = totalExecutions > 0 ? metrics.totals.failed / totalExecutions : 0
     const status = !metrics.running ? 'down' : failureRate > 0.25 ? 'degraded' : 'ok'
@@ -83,7 +118,7 @@ export const createJobsRouter = (jobSystem: BackgroundJobSystem): Router => {
     })
   })
 
-  jobsRouter.post('/enqueue', (req, res) => {
+  jobsRouter.post('/enqueue', async (req, res) => {
     if (!isRecord(req.body)) {
       res.status(400).json({ error: 'Body must be a JSON object' })
       return
@@ -93,7 +128,7 @@ export const createJobsRouter = (jobSystem: BackgroundJobSystem): Router => {
     if (!isJobType(type)) {
       res.status(400).json({
         error:
-          'Invalid or missing job type. Supported types: notification.send, deadline.check, oracle.call, analytics.recompute',
+          'Invalid or missing job type. Supported types: notification.send, deadline.check, oracle.call, analytics.recompute, webhook.deliver',
       })
       return
     }
@@ -109,16 +144,103 @@ export const createJobsRouter = (jobSystem: BackgroundJobSystem): Router => {
     const options = parseEnqueueOptions(req.body)
     if (!options) {
       res.status(400).json({
-        error: 'Invalid enqueue options. delayMs must be >= 0 and maxAttempts must be an integer from 1 to 10.',
+        error:
+          'Invalid enqueue options. delayMs must be >= 0, maxAttempts must be an integer from 1 to 10, dedupeKey must be a string of up to 255 characters and dedupePolicy one of keep, replace, extend.',
       })
       return
     }
 
-    const queuedJob = enqueueTypedJob(jobSystem, type, payload, options)
-    res.status(202).json({
-      queued: true,
-      job: queuedJob,
-    })
+    try {
+      const queuedJob = await enqueueTypedJob(jobSystem, type, payload, options)
+      res.status(202).json({
+        queued: true,
+        job: queuedJob,
+      })
+    } catch (error) {
+      console.error('Error enqueueing job:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  // Declared last so /metrics and /health win
+  jobsRouter.get('/:id', async (req, res) => {
+    try {
+      const job = await jobSystem.getJob(req.params.id)
+      if (!job) {
+        res.status(404).json({ error: 'Job not found' })
+        return
+      }
+
+      res.json({ job })
+    } catch (error) {
+      console.error('Error fetching job:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  jobsRouter.delete('/:id', async (req, res) => {
+    try {
+      const existing = await jobSystem.getJob(req.params.id)
+      if (!existing) {
+        res.status(404).json({ error: 'Job not found' })
+        return
+      }
+
+      const job = await jobSystem.cancelJob(existing.id)
+      if (!job) {
+        const current = await jobSystem.getJob(existing.id)
+        res.status(409).json({
+          error: 'Only queued or delayed jobs can be cancelled',
+          state: current?.state ?? existing.state,
+        })
+        return
+      }
+
+      await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: 'job.cancelled',
+        target_type: 'job',
+        target_id: job.id,
+        metadata: { type: job.type, previousState: existing.state },
+      })
+
+      res.json({ cancelled: true, job })
+    } catch (error) {
+      console.error('Error cancelling job:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  jobsRouter.post('/:id/retry', async (req, res) => {
+    try {
+      const existing = await jobSystem.getJob(req.params.id)
+      if (!existing) {
+        res.status(404).json({ error: 'Job not found' })
+        return
+      }
+
+      const queuedJob = await jobSystem.retryJob(existing.id)
+      if (!queuedJob) {
+        res.status(409).json({ error: 'Only failed jobs can be retried', state: existing.state })
+        return
+      }
+
+      await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: 'job.retried',
+        target_type: 'job',
+        target_id: queuedJob.id,
+        metadata: { type: queuedJob.type, previousAttempts: existing.attempt },
+      })
+
+      res.status(202).json({
+        queued: true,
+        job: queuedJob,
+      })
+    } catch (error) {
+      console.error('Error retrying job:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
   })
 
   return jobsRouter
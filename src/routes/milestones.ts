@@ -6,79 +6,298 @@ import {
   getMilestonesByVaultId,
   getMilestoneById,
   verifyMilestone,
-  allMilestonesVerified,
+  rejectMilestone,
+  submitMilestone,
+  getMilestoneTransitionError,
+  type Milestone,
 } from '../services/milestones.js'
-import { completeVault } from '../services/vaultTransitions.js'
-import { vaults } from './vaults.js'
+import { publishVaultEvent } from '../services/vaultEvents.js'
+import { applyMilestoneApproval } from '../services/milestoneApprovals.js'
+import { getMilestoneAllocation } from '../services/vaultReleases.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { getMilestoneEvidenceHash } from '../evidence/service.js'
+import { hasOpenDispute } from '../disputes/service.js'
+import {
+  autoAssignMilestone,
+  completeMilestoneAssignment,
+  getDecisionAccessError,
+} from '../assignments/service.js'
+import type { MilestoneAssignment } from '../assignments/records.js'
+import { UserRole } from '../types/user.js'
+import { isPositiveAmount, parseAmount } from '../utils/amounts.js'
+import { isValidISO8601, parseAndNormalizeToUTC } from '../utils/timestamps.js'
 
 export const milestonesRouter = Router({ mergeParams: true })
 
-// POST /api/vaults/:vaultId/milestones
-milestonesRouter.post('/', authenticate, requireUser, (req: Request, res: Response) => {
-  const { vaultId } = req.params
-  const vault = vaults.find((v) => v.id === vaultId)
+const MAX_REJECTION_REASON_LENGTH = 2000
 
-  if (!vault) {
-    res.status(404).json({ error: 'Vault not found' })
-    return
+const findMilestone = async (req: Request, res: Response): Promise<Milestone | null> => {
+  const milestone = await getMilestoneById(req.params.id)
+  if (!milestone || milestone.vaultId !== req.params.vaultId) {
+    res.status(404).json({ error: 'Milestone not found' })
+    return null
   }
+  return milestone
+}
 
-  if (vault.status !== 'active') {
-    res.status(409).json({ error: 'Cannot add milestones to a non-active vault' })
-    return
-  }
+// POST /api/vaults/:vaultId/milestones
+milestonesRouter.post('/', authenticate, requireUser, async (req: Request, res: Response) => {
+  try {
+    const { vaultId } = req.params
+    const vault = await getVaultRepository().getById(vaultId)
 
-  const { description } = req.body as { description?: string }
-  if (!description?.trim()) {
-    res.status(400).json({ error: 'description is required' })
-    return
-  }
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    if (req.user!.userId !== vault.creator && req.user!.role !== UserRole.ADMIN) {
+      res.status(403).json({ error: 'Only the vault creator can add milestones' })
+      return
+    }
+
+    if (vault.status !== 'active') {
+      res.status(409).json({ error: 'Cannot add milestones to a non-active vault' })
+      return
+    }
+
+    const { description, dueDate, amount } = req.body as { description?: string; dueDate?: unknown; amount?: unknown }
+    if (!description?.trim()) {
+      res.status(400).json({ error: 'description is required' })
+      return
+    }
+
+    if (dueDate !== undefined && dueDate !== null) {
+      if (!isValidISO8601(dueDate)) {
+        res.status(400).json({ error: 'dueDate must be an ISO 8601 timestamp with timezone' })
+        return
+      }
+      // A missed due date redirects the amount on the next deadline sweep
+      if (Date.parse(dueDate) <= Date.now()) {
+        res.status(400).json({ error: 'dueDate must be in the future' })
+        return
+      }
+      if (Date.parse(dueDate) > Date.parse(vault.endTimestamp)) {
+        res.status(400).json({ error: 'dueDate cannot be after the vault endTimestamp' })
+        return
+      }
+    }
+
+    let milestoneAmount: string | null = null
+    if (amount !== undefined && amount !== null) {
+      if (!isPositiveAmount(String(amount))) {
+        res.status(400).json({ error: 'amount must be a positive number with at most 7 decimal places' })
+        return
+      }
 
-  const milestone = createMilestone(vaultId, description.trim())
-  res.status(201).json(milestone)
+      milestoneAmount = String(amount).trim()
+      const allocated = (await getMilestoneAllocation(vaultId)) + parseAmount(milestoneAmount)!
+      if (allocated > (parseAmount(vault.amount) ?? 0n)) {
+        res.status(400).json({ error: 'Milestone amounts cannot exceed the vault amount' })
+        return
+      }
+    }
+
+    const milestone = await createMilestone(
+      vaultId,
+      description.trim(),
+      isValidISO8601(dueDate) ? parseAndNormalizeToUTC(dueDate) : null,
+      milestoneAmount,
+    )
+    res.status(201).json(milestone)
+  } catch (error) {
+    console.error('Error creating milestone:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
 // GET /api/vaults/:vaultId/milestones
-milestonesRouter.get('/', (req: Request, res: Response) => {
-  const { vaultId } = req.params
-  const vault = vaults.find((v) => v.id === vaultId)
+milestonesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const { vaultId } = req.params
+    const vault = await getVaultRepository().getById(vaultId)
+
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
 
-  if (!vault) {
-    res.status(404).json({ error: 'Vault not found' })
-    return
+    const milestones = await getMilestonesByVaultId(vaultId)
+    res.json({ milestones })
+  } catch (error) {
+    console.error('Error listing milestones:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
+})
+
+// POST /api/vaults/:vaultId/milestones/:id/submit
+milestonesRouter.post('/:id/submit', authenticate, requireUser, async (req: Request, res: Response) => {
+  try {
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    const milestone = await findMilestone(req, res)
+    if (!milestone) return
+
+    if (req.user!.userId !== vault.creator) {
+      res.status(403).json({ error: 'Only the vault creator can submit milestones' })
+      return
+    }
+
+    if (vault.status !== 'active' || milestone.releaseStatus !== 'pending') {
+      res.status(409).json({ error: 'Milestone can no longer be submitted' })
+      return
+    }
+
+    if (await hasOpenDispute(milestone.id)) {
+      res.status(409).json({ error: 'Milestone has an open dispute' })
+      return
+    }
+
+    const transitionError = getMilestoneTransitionError(
+      milestone,
+      milestone.status === 'rejected' ? 'resubmitted' : 'submitted',
+    )
+    if (transitionError) {
+      res.status(409).json({ error: transitionError })
+      return
+    }
+
+    const submitted = await submitMilestone(milestone.id, {
+      actorId: req.user!.userId,
+      evidenceHash: await getMilestoneEvidenceHash(milestone.id),
+    })
+    if (!submitted) {
+      res.status(409).json({ error: 'Milestone status changed concurrently' })
+      return
+    }
 
-  const milestones = getMilestonesByVaultId(vaultId)
-  res.json({ milestones })
+    // Best effort: an unassigned milestone can still be decided by any verifier
+    let assignment: MilestoneAssignment | null = null
+    try {
+      assignment = await autoAssignMilestone(vault, milestone)
+    } catch (error) {
+      console.error(`Error assigning milestone ${milestone.id}:`, error)
+    }
+
+    res.json({ milestone: submitted, assignment })
+  } catch (error) {
+    console.error('Error submitting milestone:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
 // PATCH /api/vaults/:vaultId/milestones/:id/verify
-milestonesRouter.patch('/:id/verify', authenticate, requireVerifier, (req: Request, res: Response) => {
-  const { vaultId, id } = req.params
+milestonesRouter.patch('/:id/verify', authenticate, requireVerifier, async (req: Request, res: Response) => {
+  try {
+    const { vaultId, id } = req.params
 
-  const vault = vaults.find((v) => v.id === vaultId)
-  if (!vault) {
-    res.status(404).json({ error: 'Vault not found' })
-    return
-  }
+    const vault = await getVaultRepository().getById(vaultId)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
 
-  const milestone = getMilestoneById(id)
-  if (!milestone || milestone.vaultId !== vaultId) {
-    res.status(404).json({ error: 'Milestone not found' })
-    return
-  }
+    const milestone = await findMilestone(req, res)
+    if (!milestone) return
 
-  const verified = verifyMilestone(id)
-  if (!verified) {
-    res.status(404).json({ error: 'Milestone not found' })
-    return
-  }
+    if (milestone.releaseStatus === 'redirected') {
+      res.status(409).json({ error: 'Milestone was missed and its amount has been redirected' })
+      return
+    }
+
+    const transitionError = getMilestoneTransitionError(milestone, 'approved')
+    if (transitionError) {
+      res.status(409).json({ error: transitionError })
+      return
+    }
+
+    const accessError = await getDecisionAccessError(vault, id, req.user!.userId, req.user!.role)
+    if (accessError) {
+      res.status(403).json({ error: accessError })
+      return
+    }
 
-  let vaultCompleted = false
-  if (allMilestonesVerified(vaultId) && vault.status === 'active') {
-    const result = completeVault(vaultId)
-    vaultCompleted = result.success
+    const verified = await verifyMilestone(id, await getMilestoneEvidenceHash(id), req.user!.userId)
+    if (!verified) {
+      res.status(409).json({ error: 'Milestone status changed concurrently' })
+      return
+    }
+
+    await completeMilestoneAssignment(id)
+    const { release, vaultCompleted } = await applyMilestoneApproval(vault, verified)
+    res.json({ milestone: verified, release, vaultCompleted })
+  } catch (error) {
+    console.error('Error verifying milestone:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
+})
 
-  res.json({ milestone: verified, vaultCompleted })
+// POST /api/vaults/:vaultId/milestones/:id/reject
+milestonesRouter.post('/:id/reject', authenticate, requireVerifier, async (req: Request, res: Response) => {
+  try {
+    const { reason } = req.body as { reason?: unknown }
+    if (typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'reason is required' })
+      return
+    }
+
+    if (reason.trim().length > MAX_REJECTION_REASON_LENGTH) {
+      res.status(400).json({ error: `reason can be at most ${MAX_REJECTION_REASON_LENGTH} characters` })
+      return
+    }
+
+    const vault = await getVaultRepository().getById(req.params.vaultId)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    const milestone = await findMilestone(req, res)
+    if (!milestone) return
+
+    const transitionError = getMilestoneTransitionError(milestone, 'rejected')
+    if (transitionError) {
+      res.status(409).json({ error: transitionError })
+      return
+    }
+
+    const accessError = await getDecisionAccessError(vault, milestone.id, req.user!.userId, req.user!.role)
+    if (accessError) {
+      res.status(403).json({ error: accessError })
+      return
+    }
+
+    const rejected = await rejectMilestone(milestone.id, reason.trim(), {
+      actorId: req.user!.userId,
+      evidenceHash: await getMilestoneEvidenceHash(milestone.id),
+    })
+    if (!rejected) {
+      res.status(409).json({ error: 'Milestone status changed concurrently' })
+      return
+    }
+
+    await completeMilestoneAssignment(rejected.id)
+
+    const decision = rejected.history[rejected.history.length - 1]
+    await publishVaultEvent({
+      type: 'milestone.validated',
+      vault,
+      milestone: {
+        milestoneId: rejected.id,
+        result: 'rejected',
+        reason: decision.reason,
+        rejectedAt: decision.decidedAt,
+        evidenceHash: decision.evidenceHash,
+      },
+    })
+
+    res.json({ milestone: rejected })
+  } catch (error) {
+    console.error('Error rejecting milestone:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
@@ -1,24 +1,305 @@
 import { Router, Request, Response } from 'express'
 import { authenticate } from '../middleware/auth.js'
+import { queryParser } from '../middleware/queryParser.js'
+import { isNotificationChannelName, type NotificationChannelName } from '../notifications/channels.js'
 import {
+  getNotificationPreferenceStore,
+  isNotificationType,
+  isQuietHoursTime,
+  type NotificationPreferences,
+} from '../notifications/preferences.js'
+import {
+  InvalidNotificationCursorError,
+  type NotificationListFilter,
+} from '../repositories/notificationRepository.js'
+import {
+  archiveNotifications,
+  countUnreadNotifications,
+  deleteNotifications,
   listUserNotifications,
   markAsRead,
   markAllAsRead,
 } from '../services/notification.js'
+import type { Notification } from '../types/notification.js'
+import type { CursorPaginatedResponse } from '../types/pagination.js'
+import { isValidTimeZone } from '../utils/timestamps.js'
+import { isWebhookUrl } from '../utils/webhookTargets.js'
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const parseChannels = (value: unknown): NotificationChannelName[] | null => {
+  if (!Array.isArray(value) || !value.every(isNotificationChannelName)) {
+    return null
+  }
+  return Array.from(new Set(value))
+}
+
+const isEmailAddress = (value: unknown): value is string => {
+  return typeof value === 'string' && value.length <= 255 && /^[^\s@]+@[^\s@]+$/.test(value)
+}
+
+/**
+ * Apply a PUT body to the current preferences. Omitted fields are kept;
+ * `null` clears quietHours, email, webhookUrl or a per-type entry.
+ */
+const applyPreferencesUpdate = (
+  current: NotificationPreferences,
+  body: Record<string, unknown>,
+): NotificationPreferences | string => {
+  const next: NotificationPreferences = { ...current, types: { ...current.types } }
+
+  if (body.channels !== undefined) {
+    const channels = parseChannels(body.channels)
+    if (!channels) return 'channels must be an array of email, webhook, in_app'
+    next.channels = channels
+  }
+
+  if (body.types !== undefined) {
+    if (!isRecord(body.types)) return 'types must be an object keyed by notification type'
+    for (const [type, value] of Object.entries(body.types)) {
+      if (!isNotificationType(type)) return `Unknown notification type: ${type}`
+      if (value === null) {
+        delete next.types[type]
+        continue
+      }
+      const channels = parseChannels(value)
+      if (!channels) return `types.${type} must be an array of email, webhook, in_app`
+      next.types[type] = channels
+    }
+  }
+
+  if (body.quietHours !== undefined) {
+    if (body.quietHours === null) {
+      next.quietHours = null
+    } else {
+      const quietHours = body.quietHours
+      if (
+        !isRecord(quietHours) ||
+        !isQuietHoursTime(quietHours.start) ||
+        !isQuietHoursTime(quietHours.end) ||
+        quietHours.start === quietHours.end
+      ) {
+        return 'quietHours must be null or { start, end } in HH:MM with start different from end'
+      }
+      next.quietHours = { start: quietHours.start, end: quietHours.end }
+    }
+  }
+
+  if (body.timezone !== undefined) {
+    if (!isValidTimeZone(body.timezone)) return 'timezone must be an IANA timezone such as Europe/Berlin'
+    next.timezone = body.timezone
+  }
+
+  if (body.email !== undefined) {
+    if (body.email !== null && !isEmailAddress(body.email)) {
+      return 'email must be null or an email address'
+    }
+    next.email = body.email
+  }
+
+  if (body.webhookUrl !== undefined) {
+    if (body.webhookUrl !== null && !isWebhookUrl(body.webhookUrl)) {
+      return 'webhookUrl must be null or a public https URL'
+    }
+    next.webhookUrl = body.webhookUrl
+  }
+
+  return next
+}
+
+// Upper bound on notifications archived or deleted by a single request
+const MAX_BULK_NOTIFICATIONS = 100
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value
+
+const parseListFilter = (req: Request): NotificationListFilter | string => {
+  const filters = req.filters ?? {}
+  const filter: NotificationListFilter = { limit: req.pagination?.pageSize ?? 20 }
+
+  if (filters.type !== undefined) {
+    const types = (Array.isArray(filters.type) ? filters.type : [filters.type])
+      .flatMap((type) => type.split(','))
+      .map((type) => type.trim())
+      .filter(Boolean)
+    if (types.length > 0) filter.types = types
+  }
+
+  const status = firstValue(filters.status)
+  if (status !== undefined) {
+    if (status !== 'read' && status !== 'unread') return 'status must be read or unread'
+    filter.status = status
+  }
+
+  const archived = firstValue(filters.archived)
+  if (archived !== undefined) {
+    if (archived !== 'true' && archived !== 'false') return 'archived must be true or false'
+    filter.archived = archived === 'true'
+  }
+
+  if (typeof req.query.cursor === 'string' && req.query.cursor.length > 0) {
+    filter.cursor = req.query.cursor
+  }
+
+  return filter
+}
+
+const parseIds = (body: unknown): string[] | null => {
+  const ids = isRecord(body) ? body.ids : undefined
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    ids.length > MAX_BULK_NOTIFICATIONS ||
+    !ids.every((id) => typeof id === 'string' && id.length > 0)
+  ) {
+    return null
+  }
+  return Array.from(new Set(ids as string[]))
+}
 
 export const notificationsRouter = Router()
 
 // All notifications routes require authentication
 notificationsRouter.use(authenticate)
 
-// GET /api/notifications - List current user's notifications
-notificationsRouter.get('/', async (req: Request, res: Response) => {
+// GET /api/notifications - Current user's notifications, newest first
+notificationsRouter.get(
+  '/',
+  queryParser({ allowedFilterFields: ['type', 'status', 'archived'] }),
+  async (req: Request, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Unauthenticated' })
+      return
+    }
+
+    const filter = parseListFilter(req)
+    if (typeof filter === 'string') {
+      res.status(400).json({ error: filter })
+      return
+    }
+
+    try {
+      const page = await listUserNotifications(req.user.userId, filter)
+      const body: CursorPaginatedResponse<Notification> = {
+        data: page.notifications,
+        pagination: {
+          cursor: filter.cursor,
+          nextCursor: page.nextCursor ?? undefined,
+          limit: filter.limit,
+          hasNext: page.nextCursor !== null,
+          hasPrev: filter.cursor !== undefined,
+        },
+      }
+      res.json(body)
+    } catch (error) {
+      if (error instanceof InvalidNotificationCursorError) {
+        res.status(400).json({ error: error.message })
+        return
+      }
+      console.error('Error listing notifications:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  },
+)
+
+// GET /api/notifications/unread-count - Unread notifications in the inbox
+notificationsRouter.get('/unread-count', async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Unauthenticated' })
+    return
+  }
+
+  try {
+    res.json({ unreadCount: await countUnreadNotifications(req.user.userId) })
+  } catch (error) {
+    console.error('Error counting unread notifications:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// POST /api/notifications/archive - Archive notifications by id
+notificationsRouter.post('/archive', async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Unauthenticated' })
+    return
+  }
+
+  const ids = parseIds(req.body)
+  if (!ids) {
+    res.status(400).json({ error: `ids must be an array of 1 to ${MAX_BULK_NOTIFICATIONS} notification ids` })
+    return
+  }
+
+  try {
+    res.json({ archived: await archiveNotifications(req.user.userId, ids) })
+  } catch (error) {
+    console.error('Error archiving notifications:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// DELETE /api/notifications - Delete notifications by id
+notificationsRouter.delete('/', async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Unauthenticated' })
+    return
+  }
+
+  const ids = parseIds(req.body)
+  if (!ids) {
+    res.status(400).json({ error: `ids must be an array of 1 to ${MAX_BULK_NOTIFICATIONS} notification ids` })
+    return
+  }
+
+  try {
+    res.json({ deleted: await deleteNotifications(req.user.userId, ids) })
+  } catch (error) {
+    console.error('Error deleting notifications:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// GET /api/notifications/preferences - Current user's channel preferences and quiet hours
+notificationsRouter.get('/preferences', async (req: Request, res: Response) => {
+  if (!req.user) {
+    res.status(401).json({ error: 'Unauthenticated' })
+    return
+  }
+
+  try {
+    res.json(await getNotificationPreferenceStore().get(req.user.userId))
+  } catch (error) {
+    console.error('Error reading notification preferences:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
+
+// PUT /api/notifications/preferences - Update channel preferences and quiet hours
+notificationsRouter.put('/preferences', async (req: Request, res: Response) => {
   if (!req.user) {
     res.status(401).json({ error: 'Unauthenticated' })
     return
   }
-  const notifications = await listUserNotifications(req.user.userId)
-  res.json(notifications)
+  if (!isRecord(req.body)) {
+    res.status(400).json({ error: 'Body must be a JSON object' })
+    return
+  }
+
+  try {
+    const store = getNotificationPreferenceStore()
+    const next = applyPreferencesUpdate(await store.get(req.user.userId), req.body)
+    if (typeof next === 'string') {
+      res.status(400).json({ error: next })
+      return
+    }
+
+    res.json(await store.save(req.user.userId, next))
+  } catch (error) {
+    console.error('Error updating notification preferences:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
 // PATCH /api/notifications/:id/read - Mark a notification as read
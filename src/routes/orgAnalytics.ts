@@ -1,17 +1,16 @@
 import { Router, Request, Response } from 'express'
-import { authenticate } from '../middleware/auth.js'
-import { requireOrgAccess } from '../middleware/orgAuth.js'
-import { vaults, Vault } from './vaults.js'
+import { requireOrgMemberOrApiKey } from '../middleware/orgAuth.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import type { Vault } from '../types/vaults.js'
 
 export const orgAnalyticsRouter = Router()
 
 orgAnalyticsRouter.get(
   '/:orgId/analytics',
-  authenticate,
-  requireOrgAccess('owner', 'admin'),
-  (req: Request, res: Response) => {
+  requireOrgMemberOrApiKey(['owner', 'admin'], ['analytics:read']),
+  async (req: Request, res: Response) => {
     const { orgId } = req.params
-    const orgVaults = vaults.filter((v) => v.orgId === orgId)
+    const orgVaults = await getVaultRepository().list({ orgId })
 
     const activeVaults = orgVaults.filter((v) => v.status === 'active').length
     const completedVaults = orgVaults.filter((v) => v.status === 'completed').length
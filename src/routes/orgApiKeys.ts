@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express'
+import { authenticate, AuthenticatedRequest } from '../middleware/auth.js'
+import { requireOrgAccess } from '../middleware/orgAuth.js'
+import { createAuditLog } from '../lib/audit-logs.js'
+import {
+  createApiKey,
+  listApiKeysForOrg,
+  revokeOrgApiKey,
+  toPublicApiKeyRecord,
+} from '../services/apiKeys.js'
+import { parseCreateApiKeyBody } from './apiKeys.js'
+
+export const orgApiKeysRouter = Router()
+
+orgApiKeysRouter.use('/:orgId/api-keys', authenticate, requireOrgAccess('owner', 'admin'))
+
+orgApiKeysRouter.get('/:orgId/api-keys', async (req: Request, res: Response) => {
+  const apiKeys = (await listApiKeysForOrg(req.params.orgId)).map(toPublicApiKeyRecord)
+
+  res.json({ apiKeys })
+})
+
+orgApiKeysRouter.post('/:orgId/api-keys', async (req: AuthenticatedRequest, res: Response) => {
+  const { orgId } = req.params
+  const parsed = parseCreateApiKeyBody(req.body)
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error })
+    return
+  }
+
+  const { apiKey, record } = await createApiKey({ orgId, ...parsed })
+
+  await createAuditLog({
+    actor_user_id: req.user!.userId,
+    action: 'org_api_key.created',
+    target_type: 'api_key',
+    target_id: record.id,
+    metadata: {
+      org_id: orgId,
+      label: record.label,
+      scopes: record.scopes,
+    },
+  })
+
+  res.status(201).json({
+    apiKey,
+    apiKeyMeta: toPublicApiKeyRecord(record),
+  })
+})
+
+orgApiKeysRouter.post('/:orgId/api-keys/:id/revoke', async (req: AuthenticatedRequest, res: Response) => {
+  const { orgId, id } = req.params
+  const record = await revokeOrgApiKey(id, orgId)
+
+  if (!record) {
+    res.status(404).json({ error: 'API key not found.' })
+    return
+  }
+
+  await createAuditLog({
+    actor_user_id: req.user!.userId,
+    action: 'org_api_key.revoked',
+    target_type: 'api_key',
+    target_id: record.id,
+    metadata: { org_id: orgId },
+  })
+
+  res.json({ apiKeyMeta: toPublicApiKeyRecord(record) })
+})
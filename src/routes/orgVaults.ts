@@ -1,23 +1,21 @@
 import { Router, Request, Response } from 'express'
-import { authenticate } from '../middleware/auth.js'
-import { requireOrgAccess } from '../middleware/orgAuth.js'
+import { requireOrgMemberOrApiKey } from '../middleware/orgAuth.js'
 import { queryParser } from '../middleware/queryParser.js'
 import { applyFilters, applySort, paginateArray } from '../utils/pagination.js'
-import { vaults } from './vaults.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
 
 export const orgVaultsRouter = Router()
 
 orgVaultsRouter.get(
   '/:orgId/vaults',
-  authenticate,
-  requireOrgAccess('owner', 'admin', 'member'),
+  requireOrgMemberOrApiKey(['owner', 'admin', 'member'], ['vaults:read']),
   queryParser({
     allowedSortFields: ['createdAt', 'amount', 'endTimestamp', 'status'],
     allowedFilterFields: ['status', 'creator'],
   }),
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     const { orgId } = req.params
-    let result = vaults.filter((v) => v.orgId === orgId)
+    let result = await getVaultRepository().list({ orgId })
 
     if (req.filters) {
       result = applyFilters(result, req.filters)
@@ -0,0 +1,13 @@
+import { Router } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { requireOrgAccess } from '../middleware/orgAuth.js'
+import { createWebhookSubscriptionRoutes } from './webhooks.js'
+
+export const orgWebhooksRouter = Router()
+
+orgWebhooksRouter.use(
+  '/:orgId/webhooks',
+  authenticate,
+  requireOrgAccess('owner', 'admin'),
+  createWebhookSubscriptionRoutes((req) => ({ orgId: req.params.orgId }), 'org_webhook'),
+)
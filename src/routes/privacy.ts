@@ -1,8 +1,6 @@
-import { Router } from 'express'
-import { vaults, setVaults } from './vaults.js'
-import { utcNow } from '../utils/timestamps.js'
 import { Router, Request, Response } from 'express'
-import { prisma } from '../lib/prisma.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { utcNow } from '../utils/timestamps.js'
 
 export const privacyRouter = Router()
 
@@ -11,7 +9,7 @@ export const privacyRouter = Router()
  * Exports all data related to a specific creator.
  */
 privacyRouter.get('/export', async (req: Request, res: Response) => {
-    const creator = req.query.creator as string
+    const creator = creatorIdFromQuery(req)
 
     if (!creator) {
         res.status(400).json({ error: 'Missing required query parameter: creator' })
@@ -19,27 +17,13 @@ privacyRouter.get('/export', async (req: Request, res: Response) => {
     }
 
     try {
-        const userData = await prisma.vault.findMany({
-            where: { creatorId: creator },
-            include: {
-                creator: {
-                    select: { id: true, email: true }
-                }
-            }
-        })
+        const userVaults = await getVaultRepository().list({ creator })
 
-    res.json({
-        creator,
-        exportDate: utcNow(),
-        data: {
-            vaults: userData,
-        },
-    })
         res.json({
             creator,
-            exportDate: new Date().toISOString(),
+            exportDate: utcNow(),
             data: {
-                vaults: userData,
+                vaults: userVaults,
             },
         })
     } catch (error: any) {
@@ -60,18 +44,16 @@ privacyRouter.delete('/account', async (req: Request, res: Response) => {
     }
 
     try {
-        const deleteResult = await prisma.vault.deleteMany({
-            where: { creatorId: creator }
-        })
+        const deletedCount = await getVaultRepository().deleteByCreator(creator)
 
-        if (deleteResult.count === 0) {
+        if (deletedCount === 0) {
             res.status(404).json({ error: 'No data found for this creator' })
             return
         }
 
         res.json({
             message: `Account data for creator ${creator} has been deleted.`,
-            deletedCount: deleteResult.count,
+            deletedCount,
             status: 'success'
         })
     } catch (error: any) {
@@ -3,13 +3,17 @@ import { queryParser } from '../middleware/queryParser.js'
 import { applyFilters, applySort, paginateArray } from '../utils/pagination.js'
 import { db } from '../db/index.js'
 import { requireUserAuth } from '../middleware/userAuth.js'
+import { authenticateUserOrApiKey } from '../middleware/apiKeyAuth.js'
 
 export const transactionsRouter = Router()
 
+// Accepts the caller's user auth or an API key granted transactions:read
+const requireTransactionsRead = authenticateUserOrApiKey(['transactions:read'], requireUserAuth)
+
 // GET /api/transactions - Get user's transaction history
 transactionsRouter.get(
   '/',
-  requireUserAuth,
+  requireTransactionsRead,
   queryParser({
     allowedSortFields: ['created_at', 'stellar_timestamp', 'amount', 'type', 'stellar_ledger'],
     allowedFilterFields: ['type', 'vault_id', 'date_from', 'date_to', 'amount_min', 'amount_max'],
@@ -121,7 +125,7 @@ transactionsRouter.get(
 )
 
 // GET /api/transactions/:id - Get specific transaction
-transactionsRouter.get('/:id', requireUserAuth, async (req: Request, res: Response) => {
+transactionsRouter.get('/:id', requireTransactionsRead, async (req: Request, res: Response) => {
   try {
     const userId = req.authUser!.userId
     const transactionId = req.params.id
@@ -160,7 +164,7 @@ transactionsRouter.get('/:id', requireUserAuth, async (req: Request, res: Respon
 // GET /api/transactions/vault/:vaultId - Get transactions for a specific vault
 transactionsRouter.get(
   '/vault/:vaultId',
-  requireUserAuth,
+  requireTransactionsRead,
   queryParser({
     allowedSortFields: ['created_at', 'stellar_timestamp', 'amount', 'type'],
     allowedFilterFields: ['type', 'date_from', 'date_to', 'amount_min', 'amount_max'],
@@ -1,227 +1,292 @@
 import { Router, Request, Response } from 'express'
 import { authenticate } from '../middleware/auth.js'
-import { VaultService } from '../services/vault.service.js'
-import { UserRole } from '../types/user.js'
-import { applyFilters, applySort, paginateArray } from '../utils/pagination.js'
-import { updateAnalyticsSummary } from '../db/database.js'
-import { createAuditLog } from '../lib/audit-logs.js'
-import {
-  IdempotencyConflictError,
-  getIdempotentResponse,
-  hashRequestPayload,
-  saveIdempotentResponse
-} from '../services/idempotency.js'
-import { buildVaultCreationPayload } from '../services/soroban.js'
-import {
-  createVaultWithMilestones,
-  getVaultById,
-  listVaults,
-  cancelVaultById
-} from '../services/vaultStore.js'
-import { normalizeCreateVaultInput, validateCreateVaultInput } from '../services/vaultValidation.js'
+import { authenticateUserOrApiKey } from '../middleware/apiKeyAuth.js'
 import { queryParser } from '../middleware/queryParser.js'
+import { getMemberRole } from '../models/organizations.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import { createAuditLog } from '../lib/audit-logs.js'
+import { createMilestone, getMilestonesByVaultId } from '../services/milestones.js'
+import { publishVaultEvent } from '../services/vaultEvents.js'
+import { getVaultBalances } from '../services/vaultReleases.js'
+import { UserRole } from '../types/user.js'
+import { isPositiveAmount, parseAmount, sumAmounts } from '../utils/amounts.js'
 import { applyFilters, applySort, paginateArray } from '../utils/pagination.js'
-import { updateAnalyticsSummary } from '../db/database.js'
-import { utcNow } from '../utils/timestamps.js'
-import { prisma } from '../lib/prisma.js'
+import { isValidISO8601, parseAndNormalizeToUTC } from '../utils/timestamps.js'
+
+export type { Vault } from '../types/vaults.js'
 
 export const vaultsRouter = Router()
 
-// In-memory fallback (for development/legacy support)
-export let vaults: any[] = []
-export const setVaults = (newVaults: any[]) => { vaults = newVaults }
-
-export interface Vault {
-  id: string
-  creator: string
-  amount: string
-  status: 'active' | 'completed' | 'failed' | 'cancelled'
-  startTimestamp: string
-  endTimestamp: string
-  successDestination: string
-  failureDestination: string
-  createdAt: string
-}
+// Accept a JWT or an API key granted the matching vaults scope
+const requireVaultsRead = authenticateUserOrApiKey(['vaults:read'], authenticate)
+const requireVaultsWrite = authenticateUserOrApiKey(['vaults:write'], authenticate)
 
 /**
  * GET /api/vaults
  */
-vaultsRouter.get('/', authenticate, queryParser, (req: Request, res: Response) => {
-  const filtered = applyFilters(vaults, req.query)
-  const sorted = applySort(filtered, req.query.sort as string)
-  const { data, pagination } = paginateArray(sorted, Number(req.query.page) || 1, Number(req.query.limit) || 10)
-
-  res.json({ vaults: data, pagination })
-})
 vaultsRouter.get(
   '/',
-  authenticate,
+  requireVaultsRead,
   queryParser({
     allowedSortFields: ['createdAt', 'amount', 'endTimestamp', 'status'],
     allowedFilterFields: ['status', 'creator'],
   }),
   async (req: Request, res: Response) => {
     try {
-      // Fetch all vaults
-      let vaults = await listVaults()
-      
-      // Apply filters, sort, and pagination if available
-      if (req.filters && applyFilters) {
-          vaults = applyFilters(vaults as any, req.filters)
-      }
-      if (req.sort && applySort) {
-          vaults = applySort(vaults as any, req.sort)
+      let result = await getVaultRepository().list()
+
+      if (req.filters) {
+        result = applyFilters(result, req.filters)
       }
-      if (req.pagination && paginateArray) {
-          vaults = paginateArray(vaults as any, req.pagination) as any
+
+      if (req.sort) {
+        result = applySort(result, req.sort)
       }
 
-      res.json(vaults)
-    } catch (error: any) {
-      res.status(500).json({ error: error.message })
+      res.json(paginateArray(result, req.pagination!))
+    } catch (error) {
+      console.error('Error listing vaults:', error)
+      res.status(500).json({ error: 'Internal server error' })
     }
   }
 )
 
+interface NewVaultMilestone {
+  description: string
+  amount: string
+  dueDate: string | null
+}
+
 /**
- * POST /api/vaults
+ * Validate the optional `milestones` of a new vault. Their amounts must add
+ * up to exactly the vault amount, since each one is released on its own.
  */
-vaultsRouter.post('/', authenticate, async (req: Request, res: Response) => {
-  const { creator, amount, endTimestamp, successDestination, failureDestination, milestoneHash, verifierAddress, contractId } = req.body
-
-  if (!creator || !amount || !endTimestamp || !successDestination || !failureDestination) {
-    res.status(400).json({ error: 'Missing required vault fields' })
-    return
+const parseVaultMilestones = (
+  value: unknown,
+  amount: string,
+  endTimestamp: string,
+): NewVaultMilestone[] | { error: string } => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'milestones must be a non-empty array' }
   }
 
-  // 1. Persist to PostgreSQL via VaultService (Issue #46/Issue #80 logic)
-  let dbVaultId: string | undefined;
-  try {
-    const newDbVault = await VaultService.createVault({
-      contractId: contractId || 'mock-contract-id',
-      creatorAddress: creator,
-      amount,
-      milestoneHash,
-      verifierAddress,
-      successDestination,
-      failureDestination,
-      deadline: endTimestamp
-    });
-    dbVaultId = newDbVault.id;
-  } catch (error) {
-    console.error('Warning: Failed to save to PostgreSQL, falling back to in-memory only.', error);
+  const milestones: NewVaultMilestone[] = []
+  for (const [index, item] of value.entries()) {
+    const { description, amount: milestoneAmount, dueDate } = (item ?? {}) as Record<string, unknown>
+    if (typeof description !== 'string' || !description.trim()) {
+      return { error: `milestones[${index}].description is required` }
+    }
+
+    if (!isPositiveAmount(String(milestoneAmount ?? ''))) {
+      return { error: `milestones[${index}].amount must be a positive number with at most 7 decimal places` }
+    }
+
+    if (dueDate !== undefined && dueDate !== null) {
+      if (!isValidISO8601(dueDate)) {
+        return { error: `milestones[${index}].dueDate must be an ISO 8601 timestamp with timezone` }
+      }
+      if (Date.parse(dueDate) <= Date.now()) {
+        return { error: `milestones[${index}].dueDate must be in the future` }
+      }
+      if (Date.parse(dueDate) > Date.parse(endTimestamp)) {
+        return { error: `milestones[${index}].dueDate cannot be after endTimestamp` }
+      }
+    }
+
+    milestones.push({
+      description: description.trim(),
+      amount: String(milestoneAmount).trim(),
+      dueDate: isValidISO8601(dueDate) ? parseAndNormalizeToUTC(dueDate) : null,
+    })
   }
 
-  // 2. Persist to In-Memory Array
-  const id = dbVaultId || `vault-${Date.now()}`
-  const startTimestamp = utcNow()
-  const vault: Vault = {
-    id,
-    creator,
-    amount,
-    startTimestamp,
-    endTimestamp,
-    successDestination,
-    failureDestination,
-    status: 'active',
-    createdAt: startTimestamp,
+  const vaultAmount = parseAmount(amount)
+  if (vaultAmount === null) {
+    return { error: 'amount must be a number with at most 7 decimal places when milestones are given' }
   }
 
-  vaults.push(vault)
-  updateAnalyticsSummary()
+  if (sumAmounts(milestones.map((milestone) => milestone.amount)) !== vaultAmount) {
+    return { error: 'Milestone amounts must add up to the vault amount' }
+  }
 
-  res.status(201).json(vault)
-})
+  return milestones
+}
 
 /**
- * GET /api/vaults/:id
+ * POST /api/vaults
  */
-vaultsRouter.get('/:id', authenticate, async (req: Request, res: Response) => {
-  // 1. Try DB first
+vaultsRouter.post('/', requireVaultsWrite, async (req: Request, res: Response) => {
   try {
-    const dbVault = await VaultService.getVaultById(req.params.id)
-    if (dbVault) {
-      res.json(dbVault)
+    const { creator, amount, endTimestamp, successDestination, failureDestination, orgId, milestones } = req.body
+
+    if (!creator || !amount || !endTimestamp || !successDestination || !failureDestination) {
+      res.status(400).json({ error: 'Missing required vault fields' })
       return
     }
-  } catch (error) {}
 
-  // 2. Try In-memory
-  const vault = vaults.find(v => v.id === req.params.id)
-  if (!vault) {
-    res.status(404).json({ error: 'Vault not found' })
-    return
-    const responseBody = {
-      vault,
-      onChain: buildVaultCreationPayload(input, vault),
-      idempotency: { key: idempotencyKey, replayed: false },
+    if (!isPositiveAmount(String(amount))) {
+      res.status(400).json({ error: 'amount must be a positive number with at most 7 decimal places' })
+      return
     }
 
-    if (idempotencyKey) {
-      await saveIdempotentResponse(idempotencyKey, requestHash, vault.id, responseBody, client ?? undefined)
+    if (!isValidISO8601(endTimestamp)) {
+      res.status(400).json({ error: 'endTimestamp must be an ISO 8601 timestamp with timezone' })
+      return
     }
 
-    const actorUserId = (req.header('x-user-id') ?? input.creator) || 'unknown'
-    createAuditLog({
-      actor_user_id: actorUserId,
+    const normalizedEnd = parseAndNormalizeToUTC(endTimestamp)
+    if (Date.parse(normalizedEnd) <= Date.now()) {
+      res.status(400).json({ error: 'endTimestamp must be in the future' })
+      return
+    }
+
+    const parsedMilestones =
+      milestones === undefined ? [] : parseVaultMilestones(milestones, String(amount), normalizedEnd)
+    if ('error' in parsedMilestones) {
+      res.status(400).json({ error: parsedMilestones.error })
+      return
+    }
+
+    if (orgId !== undefined && !getMemberRole(String(orgId), req.user!.userId)) {
+      res.status(403).json({ error: 'Insufficient organization permissions' })
+      return
+    }
+
+    const vault = await getVaultRepository().create({
+      creator,
+      amount: String(amount),
+      endTimestamp: normalizedEnd,
+      successDestination,
+      failureDestination,
+      orgId: orgId === undefined ? null : String(orgId),
+    })
+
+    await createAuditLog({
+      actor_user_id: req.user!.userId,
       action: 'vault.created',
       target_type: 'vault',
       target_id: vault.id,
-      metadata: { creator: input.creator, amount: input.amount },
+      metadata: { creator: vault.creator, amount: vault.amount },
     })
 
-    if (client) await client.query('COMMIT')
+    const createdMilestones = []
+    for (const milestone of parsedMilestones) {
+      createdMilestones.push(await createMilestone(vault.id, milestone.description, milestone.dueDate, milestone.amount))
+    }
 
-    // Trigger analytics update
-    updateAnalyticsSummary()
+    await publishVaultEvent({ type: 'vault.created', vault })
 
-    res.status(201).json(responseBody)
+    res.status(201).json(createdMilestones.length > 0 ? { ...vault, milestones: createdMilestones } : vault)
   } catch (error) {
-    if (client) await client.query('ROLLBACK')
-    console.error('Vault creation failed', error)
-    res.status(500).json({ error: 'Failed to create vault.' })
-  } finally {
-    if (client) client.release()
+    console.error('Error creating vault:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
-  res.json(vault)
 })
 
 /**
- * POST /api/vaults/:id/cancel
+ * GET /api/vaults/:id
  */
-vaultsRouter.post('/:id/cancel', authenticate, async (req, res) => {
-  const actorUserId = req.user!.userId
-  const actorRole = req.user!.role
+vaultsRouter.get('/:id', requireVaultsRead, async (req: Request, res: Response) => {
+  try {
+    const vault = await getVaultRepository().getById(req.params.id)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
 
-  let existingVault = await VaultService.getVaultById(req.params.id)
-  if (!existingVault) existingVault = vaults.find(v => v.id === req.params.id)
+    res.json(vault)
+  } catch (error) {
+    console.error('Error fetching vault:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
+})
 
-  if (!existingVault) return res.status(404).json({ error: 'Vault not found' })
+/**
+ * GET /api/vaults/:id/balances
+ */
+vaultsRouter.get('/:id/balances', requireVaultsRead, async (req: Request, res: Response) => {
+  try {
+    const vault = await getVaultRepository().getById(req.params.id)
+    if (!vault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
 
-  // Access control
-  if (actorUserId !== existingVault.creator && actorRole !== UserRole.ADMIN) {
-    return res.status(403).json({ error: 'Forbidden' })
+    res.json({
+      vaultId: vault.id,
+      ...getVaultBalances(vault),
+      milestones: (await getMilestonesByVaultId(vault.id)).map((milestone) => ({
+        id: milestone.id,
+        amount: milestone.amount,
+        dueDate: milestone.dueDate,
+        verified: milestone.verified,
+        releaseStatus: milestone.releaseStatus,
+        settledAt: milestone.settledAt,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching vault balances:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
-  
-  // 1. Update Database
+})
+
+/**
+ * POST /api/vaults/:id/cancel
+ */
+vaultsRouter.post('/:id/cancel', requireVaultsWrite, async (req: Request, res: Response) => {
   try {
-    await VaultService.updateVaultStatus(req.params.id, 'cancelled' as any)
-  } catch (error) {}
-
-  // 2. Update In-memory
-  const arrayIndex = vaults.findIndex(v => v.id === req.params.id);
-  if (arrayIndex !== -1) vaults[arrayIndex].status = 'cancelled';
-  
-  updateAnalyticsSummary()
-  res.status(200).json({ message: 'Vault cancelled', id: req.params.id })
+    const actorUserId = req.user!.userId
+    const actorRole = req.user!.role
+    const repository = getVaultRepository()
+
+    const existingVault = await repository.getById(req.params.id)
+    if (!existingVault) {
+      res.status(404).json({ error: 'Vault not found' })
+      return
+    }
+
+    if (actorUserId !== existingVault.creator && actorRole !== UserRole.ADMIN) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const cancelled = await repository.updateStatus(existingVault.id, 'cancelled', ['active'])
+    if (!cancelled) {
+      res.status(409).json({ error: `Vault cannot be cancelled from status: ${existingVault.status}` })
+      return
+    }
+
+    await publishVaultEvent({
+      type: 'vault.status_changed',
+      vault: cancelled,
+      status: cancelled.status,
+      previousStatus: existingVault.status,
+    })
+
+    await createAuditLog({
+      actor_user_id: actorUserId,
+      action: 'vault.cancelled',
+      target_type: 'vault',
+      target_id: cancelled.id,
+      metadata: { previousStatus: existingVault.status },
+    })
+
+    res.status(200).json({ message: 'Vault cancelled', id: cancelled.id, vault: cancelled })
+  } catch (error) {
+    console.error('Error cancelling vault:', error)
+    res.status(500).json({ error: 'Internal server error' })
+  }
 })
 
-// Additional user-specific routes (Standardized)
-vaultsRouter.get('/user/:address', authenticate, async (req: Request, res: Response) => {
+/**
+ * GET /api/vaults/user/:address
+ */
+vaultsRouter.get('/user/:address', requireVaultsRead, async (req: Request, res: Response) => {
   try {
-    const userVaults = await VaultService.getVaultsByUser(req.params.address);
-    res.json(userVaults);
+    const userVaults = await getVaultRepository().list({ creator: req.params.address })
+    res.json(userVaults)
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch user vaults' });
+    console.error('Error fetching user vaults:', error)
+    res.status(500).json({ error: 'Internal server error' })
   }
-});
+})
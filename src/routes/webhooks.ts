@@ -0,0 +1,271 @@
+import { Router, Request, Response } from 'express'
+import { authenticate } from '../middleware/auth.js'
+import { createAuditLog } from '../lib/audit-logs.js'
+import { getWebhookDeliveryLog } from '../webhooks/deliveries.js'
+import { replayWebhookDelivery } from '../webhooks/dispatcher.js'
+import {
+  WEBHOOK_EVENT_TYPES,
+  generateWebhookSecret,
+  getWebhookSubscriptionStore,
+  isOwnedBy,
+  isWebhookEventType,
+  toPublicWebhookSubscription,
+  type WebhookEventType,
+  type WebhookOwner,
+  type WebhookSubscription,
+  type WebhookSubscriptionChanges,
+} from '../webhooks/subscriptions.js'
+import { isWebhookUrl } from '../utils/webhookTargets.js'
+
+const DEFAULT_DELIVERY_PAGE_SIZE = 50
+const MAX_DELIVERY_PAGE_SIZE = 100
+
+const parseEventTypes = (value: unknown): WebhookEventType[] | { error: string } => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'eventTypes must be a non-empty array' }
+  }
+
+  const unknown = value.filter((type) => !isWebhookEventType(type))
+  if (unknown.length > 0) {
+    return { error: `Unknown event types: ${unknown.join(', ')}. Expected one of ${WEBHOOK_EVENT_TYPES.join(', ')}` }
+  }
+
+  return [...new Set(value as WebhookEventType[])]
+}
+
+/**
+ * Validate a create (all fields) or update (any subset) request body
+ */
+const parseSubscriptionBody = (
+  body: unknown,
+  partial: boolean,
+): WebhookSubscriptionChanges | { error: string } => {
+  const { url, eventTypes, description, active } = (body ?? {}) as Record<string, unknown>
+  const changes: WebhookSubscriptionChanges = {}
+
+  if (url !== undefined || !partial) {
+    if (!isWebhookUrl(url)) return { error: 'url must be a public https URL' }
+    changes.url = url
+  }
+
+  if (eventTypes !== undefined) {
+    const parsed = parseEventTypes(eventTypes)
+    if ('error' in parsed) return parsed
+    changes.eventTypes = parsed
+  } else if (!partial) {
+    changes.eventTypes = [...WEBHOOK_EVENT_TYPES]
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      return { error: 'description must be a string' }
+    }
+    changes.description = description?.trim() || null
+  }
+
+  if (active !== undefined) {
+    if (!partial) return { error: 'active can only be changed on an existing subscription' }
+    if (typeof active !== 'boolean') return { error: 'active must be a boolean' }
+    changes.active = active
+  }
+
+  return changes
+}
+
+type OwnerResolver = (req: Request) => WebhookOwner
+
+/**
+ * Subscription management shared by user and organization webhooks. Each
+ * subscription is only visible to the owner it was created for.
+ */
+export const createWebhookSubscriptionRoutes = (resolveOwner: OwnerResolver, auditPrefix: string): Router => {
+  const router = Router({ mergeParams: true })
+
+  const findOwned = async (req: Request, res: Response): Promise<WebhookSubscription | null> => {
+    const subscription = await getWebhookSubscriptionStore().get(req.params.id)
+    if (!subscription || !isOwnedBy(subscription, resolveOwner(req))) {
+      res.status(404).json({ error: 'Webhook subscription not found' })
+      return null
+    }
+    return subscription
+  }
+
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      const subscriptions = await getWebhookSubscriptionStore().listByOwner(resolveOwner(req))
+      res.json({ subscriptions: subscriptions.map(toPublicWebhookSubscription) })
+    } catch (error) {
+      console.error('Error listing webhook subscriptions:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.post('/', async (req: Request, res: Response) => {
+    try {
+      const parsed = parseSubscriptionBody(req.body, false)
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error })
+        return
+      }
+
+      const owner = resolveOwner(req)
+      const subscription = await getWebhookSubscriptionStore().create({
+        owner,
+        url: parsed.url!,
+        eventTypes: parsed.eventTypes!,
+        description: parsed.description ?? null,
+      })
+
+      await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: `${auditPrefix}.created`,
+        target_type: 'webhook_subscription',
+        target_id: subscription.id,
+        metadata: { ...(owner.orgId ? { org_id: owner.orgId } : {}), url: subscription.url },
+      })
+
+      // The secret is only ever shown here and on rotation
+      res.status(201).json({
+        subscription: toPublicWebhookSubscription(subscription),
+        secret: subscription.secret,
+      })
+    } catch (error) {
+      console.error('Error creating webhook subscription:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      res.json({ subscription: toPublicWebhookSubscription(subscription) })
+    } catch (error) {
+      console.error('Error fetching webhook subscription:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.patch('/:id', async (req: Request, res: Response) => {
+    try {
+      const parsed = parseSubscriptionBody(req.body, true)
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error })
+        return
+      }
+
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      const updated = await getWebhookSubscriptionStore().update(subscription.id, parsed)
+      res.json({ subscription: toPublicWebhookSubscription(updated!) })
+    } catch (error) {
+      console.error('Error updating webhook subscription:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.post('/:id/rotate-secret', async (req: Request, res: Response) => {
+    try {
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      const updated = await getWebhookSubscriptionStore().update(subscription.id, { secret: generateWebhookSecret() })
+
+      await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: `${auditPrefix}.secret_rotated`,
+        target_type: 'webhook_subscription',
+        target_id: subscription.id,
+        metadata: subscription.orgId ? { org_id: subscription.orgId } : {},
+      })
+
+      res.json({ subscription: toPublicWebhookSubscription(updated!), secret: updated!.secret })
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      await getWebhookSubscriptionStore().delete(subscription.id)
+
+      await createAuditLog({
+        actor_user_id: req.user!.userId,
+        action: `${auditPrefix}.deleted`,
+        target_type: 'webhook_subscription',
+        target_id: subscription.id,
+        metadata: { ...(subscription.orgId ? { org_id: subscription.orgId } : {}), url: subscription.url },
+      })
+
+      res.status(204).send()
+    } catch (error) {
+      console.error('Error deleting webhook subscription:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.get('/:id/deliveries', async (req: Request, res: Response) => {
+    try {
+      const limit = req.query.limit === undefined ? DEFAULT_DELIVERY_PAGE_SIZE : Number(req.query.limit)
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_PAGE_SIZE) {
+        res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_DELIVERY_PAGE_SIZE}` })
+        return
+      }
+
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      const deliveries = await getWebhookDeliveryLog().listBySubscription(subscription.id, limit)
+      res.json({ deliveries })
+    } catch (error) {
+      console.error('Error listing webhook deliveries:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  router.post('/:id/deliveries/:deliveryId/replay', async (req: Request, res: Response) => {
+    try {
+      const subscription = await findOwned(req, res)
+      if (!subscription) return
+
+      const delivery = await getWebhookDeliveryLog().get(req.params.deliveryId)
+      if (!delivery || delivery.subscriptionId !== subscription.id) {
+        res.status(404).json({ error: 'Webhook delivery not found' })
+        return
+      }
+
+      if (!subscription.active) {
+        res.status(409).json({ error: 'Webhook subscription is disabled' })
+        return
+      }
+
+      const replay = await replayWebhookDelivery(delivery)
+      res.status(202).json({ delivery: replay })
+    } catch (error) {
+      console.error('Error replaying webhook delivery:', error)
+      res.status(500).json({ error: 'Internal server error' })
+    }
+  })
+
+  return router
+}
+
+/**
+ * Webhooks of the authenticated user, mounted at /api/webhooks
+ */
+export const webhooksRouter = Router()
+
+webhooksRouter.get('/event-types', (_req, res) => {
+  res.json({ eventTypes: WEBHOOK_EVENT_TYPES })
+})
+
+webhooksRouter.use(
+  authenticate,
+  createWebhookSubscriptionRoutes((req) => ({ userId: req.user!.userId }), 'webhook'),
+)
@@ -1,85 +1,78 @@
-import { db, getTimeRangeFilter, updateAnalyticsSummary } from '../db/database.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import type { Vault } from '../types/vaults.js'
 import type { VaultAnalytics, VaultAnalyticsWithPeriod } from '../types/vault.js'
 
 /**
- * Get overall vault analytics summary (all-time)
+ * Start and end of a reporting period ('7d', '30d', '90d', '1y'; anything else is all time)
  */
-export function getOverallAnalytics(): VaultAnalytics {
-    const summary = db.prepare(`
-    SELECT 
-      total_vaults,
-      active_vaults,
-      completed_vaults,
-      failed_vaults,
-      total_locked_capital,
-      active_capital,
-      success_rate,
-      last_updated
-    FROM vault_analytics_summary
-    WHERE id = 1
-  `).get() as {
-        total_vaults: number
-        active_vaults: number
-        completed_vaults: number
-        failed_vaults: number
-        total_locked_capital: string
-        active_capital: string
-        success_rate: number
-        last_updated: string
+export function getTimeRangeFilter(period: string): { startDate: string; endDate: string } {
+    const endDate = new Date().toISOString()
+    let startDate: string
+
+    switch (period) {
+        case '7d':
+            startDate = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString()
+            break
+        case '30d':
+            startDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()
+            break
+        case '90d':
+            startDate = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString()
+            break
+        case '1y':
+            startDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString()
+            break
+        default:
+            // Default to all time
+            startDate = new Date(0).toISOString()
     }
 
+    return { startDate, endDate }
+}
+
+const createdWithin = (vault: Vault, startDate: string, endDate: string): boolean => {
+    const createdAt = Date.parse(vault.createdAt)
+    return createdAt >= Date.parse(startDate) && createdAt <= Date.parse(endDate)
+}
+
+const sumAmounts = (vaults: Vault[]): number =>
+    vaults.reduce((sum, vault) => sum + parseFloat(vault.amount || '0'), 0)
+
+const summarize = (vaults: Vault[]): VaultAnalytics => {
+    const active = vaults.filter((v) => v.status === 'active')
+    const completedVaults = vaults.filter((v) => v.status === 'completed').length
+    const failedVaults = vaults.filter((v) => v.status === 'failed').length
+    const resolved = completedVaults + failedVaults
+    const successRate = resolved > 0 ? (completedVaults / resolved) * 100 : 0
+
     return {
-        totalVaults: summary.total_vaults,
-        activeVaults: summary.active_vaults,
-        completedVaults: summary.completed_vaults,
-        failedVaults: summary.failed_vaults,
-        totalLockedCapital: summary.total_locked_capital,
-        activeCapital: summary.active_capital,
-        successRate: summary.success_rate,
-        lastUpdated: summary.last_updated,
+        totalVaults: vaults.length,
+        activeVaults: active.length,
+        completedVaults,
+        failedVaults,
+        totalLockedCapital: sumAmounts(vaults).toString(),
+        activeCapital: sumAmounts(active).toString(),
+        successRate: Math.round(successRate * 100) / 100,
+        lastUpdated: new Date().toISOString(),
     }
 }
 
+/**
+ * Get overall vault analytics summary (all-time)
+ */
+export async function getOverallAnalytics(): Promise<VaultAnalytics> {
+    return summarize(await getVaultRepository().list())
+}
+
 /**
  * Get vault analytics for a specific time period
  */
-export function getAnalyticsByPeriod(period: string): VaultAnalyticsWithPeriod {
+export async function getAnalyticsByPeriod(period: string): Promise<VaultAnalyticsWithPeriod> {
     const { startDate, endDate } = getTimeRangeFilter(period)
-
-    const stats = db.prepare(`
-    SELECT 
-      COUNT(*) as total_vaults,
-      SUM(CASE WHEN status = 'active' THEN 1 ELSE 0 END) as active_vaults,
-      SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_vaults,
-      SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed_vaults,
-      SUM(CAST(amount AS REAL)) as total_locked_capital,
-      SUM(CASE WHEN status = 'active' THEN CAST(amount AS REAL) ELSE 0 END) as active_capital
-    FROM vaults
-    WHERE created_at >= ? AND created_at <= ?
-  `).get(startDate, endDate) as {
-        total_vaults: number
-        active_vaults: number
-        completed_vaults: number
-        failed_vaults: number
-        total_locked_capital: number | null
-        active_capital: number | null
-    }
-
-    const totalCompleted = stats.completed_vaults || 0
-    const totalFailed = stats.failed_vaults || 0
-    const successRate = (totalCompleted + totalFailed) > 0
-        ? (totalCompleted / (totalCompleted + totalFailed)) * 100
-        : 0
+    const vaults = (await getVaultRepository().list()).filter((v) => createdWithin(v, startDate, endDate))
 
     return {
-        totalVaults: stats.total_vaults || 0,
-        activeVaults: stats.active_vaults || 0,
-        completedVaults: stats.completed_vaults || 0,
-        failedVaults: stats.failed_vaults || 0,
-        totalLockedCapital: (stats.total_locked_capital || 0).toString(),
-        activeCapital: (stats.active_capital || 0).toString(),
-        successRate: Math.round(successRate * 100) / 100,
-        lastUpdated: new Date().toISOString(),
+        ...summarize(vaults),
         period,
         startDate,
         endDate,
@@ -89,84 +82,50 @@ export function getAnalyticsByPeriod(period: string): VaultAnalyticsWithPeriod {
 /**
  * Get vault status breakdown for dashboard
  */
-export function getVaultStatusBreakdown(): {
+export async function getVaultStatusBreakdown(): Promise<{
     byStatus: Record<string, number>
     byStatusAndPeriod: Record<string, Record<string, number>>
-} {
-    const allTime = db.prepare(`
-    SELECT status, COUNT(*) as count
-    FROM vaults
-    GROUP BY status
-  `).all() as { status: string; count: number }[]
-
-    const byStatus: Record<string, number> = {}
-    allTime.forEach((row) => {
-        byStatus[row.status] = row.count
-    })
+}> {
+    const vaults = await getVaultRepository().list()
+
+    const countByStatus = (list: Vault[]): Record<string, number> =>
+        list.reduce<Record<string, number>>((counts, vault) => {
+            counts[vault.status] = (counts[vault.status] ?? 0) + 1
+            return counts
+        }, {})
 
     // Get breakdown for last 30 days
     const { startDate, endDate } = getTimeRangeFilter('30d')
-    const last30Days = db.prepare(`
-    SELECT status, COUNT(*) as count
-    FROM vaults
-    WHERE created_at >= ? AND created_at <= ?
-    GROUP BY status
-  `).all(startDate, endDate) as { status: string; count: number }[]
-
-    const byStatusAndPeriod: Record<string, Record<string, number>> = {
-        '30d': {},
-    }
-    last30Days.forEach((row) => {
-        byStatusAndPeriod['30d'][row.status] = row.count
-    })
 
-    return { byStatus, byStatusAndPeriod }
+    return {
+        byStatus: countByStatus(vaults),
+        byStatusAndPeriod: {
+            '30d': countByStatus(vaults.filter((v) => createdWithin(v, startDate, endDate))),
+        },
+    }
 }
 
 /**
  * Get capital analytics
  */
-export function getCapitalAnalytics(period: string = 'all'): {
+export async function getCapitalAnalytics(period: string = 'all'): Promise<{
     totalLockedCapital: string
     activeCapital: string
     averageVaultSize: string
     period: string
-} {
-    let stats: {
-        total_locked_capital: number | null
-        active_capital: number | null
-        avg_size: number | null
-        vault_count: number
-    }
-
-    if (period === 'all') {
-        stats = db.prepare(`
-      SELECT 
-        SUM(CAST(amount AS REAL)) as total_locked_capital,
-        SUM(CASE WHEN status = 'active' THEN CAST(amount AS REAL) ELSE 0 END) as active_capital,
-        AVG(CAST(amount AS REAL)) as avg_size,
-        COUNT(*) as vault_count
-      FROM vaults
-    `).get() as typeof stats
-    } else {
+}> {
+    let vaults = await getVaultRepository().list()
+    if (period !== 'all') {
         const { startDate, endDate } = getTimeRangeFilter(period)
-        stats = db.prepare(`
-      SELECT 
-        SUM(CAST(amount AS REAL)) as total_locked_capital,
-        SUM(CASE WHEN status = 'active' THEN CAST(amount AS REAL) ELSE 0 END) as active_capital,
-        AVG(CAST(amount AS REAL)) as avg_size,
-        COUNT(*) as vault_count
-      FROM vaults
-      WHERE created_at >= ? AND created_at <= ?
-    `).get(startDate, endDate) as typeof stats
+        vaults = vaults.filter((v) => createdWithin(v, startDate, endDate))
     }
 
+    const total = sumAmounts(vaults)
+
     return {
-        totalLockedCapital: (stats.total_locked_capital || 0).toString(),
-        activeCapital: (stats.active_capital || 0).toString(),
-        averageVaultSize: stats.vault_count > 0 ? (stats.avg_size || 0).toFixed(2) : '0',
+        totalLockedCapital: total.toString(),
+        activeCapital: sumAmounts(vaults.filter((v) => v.status === 'active')).toString(),
+        averageVaultSize: vaults.length > 0 ? (total / vaults.length).toFixed(2) : '0',
         period,
     }
 }
-
-export { updateAnalyticsSummary }
@@ -1,23 +1,120 @@
-import { createHash, randomBytes, randomUUID } from 'node:crypto'
-import type { ApiKeyAuthContext, ApiKeyRecord } from '../types/auth.js'
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto'
+import { getPgPool } from '../db/pool.js'
+import { API_KEY_SCOPES, LEGACY_API_KEY_SCOPE_ALIASES } from '../types/apiKeyScopes.js'
+import type { ApiKeyAuthContext, ApiKeyPublicRecord, ApiKeyRecord, ApiKeyScope } from '../types/auth.js'
 import { utcNow } from '../utils/timestamps.js'
+import { isUuid } from '../utils/ids.js'
 
 interface CreateApiKeyInput {
   userId?: string
   orgId?: string
   label: string
+  scopes: ApiKeyScope[]
+  expiresAt?: string
+}
+
+type ApiKeyValidationFailure = 'malformed' | 'invalid' | 'revoked' | 'expired' | 'forbidden'
+
+type ApiKeyRow = {
+  id: string
+  user_id: string | null
+  org_id: string | null
+  key_hash: string
+  label: string
   scopes: string[]
+  created_at: Date | string
+  expires_at: Date | string | null
+  revoked_at: Date | string | null
+  previous_key_hash: string | null
+  previous_key_expires_at: Date | string | null
+  rotated_at: Date | string | null
+  last_used_at: Date | string | null
+  last_used_ip: string | null
 }
 
+// How long the replaced secret keeps working after a rotation unless the caller overrides it
+export const DEFAULT_ROTATION_GRACE_SECONDS = 24 * 60 * 60
+export const MAX_ROTATION_GRACE_SECONDS = 7 * 24 * 60 * 60
+
 const apiKeysTable: ApiKeyRecord[] = []
 
 const hashSecret = (secret: string): string => createHash('sha256').update(secret).digest('hex')
 
-const normalizeScopes = (scopes: string[]): string[] => {
-  return Array.from(new Set(scopes.map((scope) => scope.trim()).filter(Boolean))).sort()
+const hashesMatch = (a: string, b: string): boolean =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b))
+
+export const isApiKeyScope = (scope: string): scope is ApiKeyScope =>
+  Object.prototype.hasOwnProperty.call(API_KEY_SCOPES, scope)
+
+/**
+ * The catalog scope for a scope name, translating legacy aliases.
+ * @returns Null for names that are not in the catalog
+ */
+export const resolveApiKeyScope = (scope: string): ApiKeyScope | null => {
+  if (isApiKeyScope(scope)) return scope
+  return Object.prototype.hasOwnProperty.call(LEGACY_API_KEY_SCOPE_ALIASES, scope)
+    ? LEGACY_API_KEY_SCOPE_ALIASES[scope]
+    : null
+}
+
+const normalizeScopes = (scopes: ApiKeyScope[]): ApiKeyScope[] => {
+  return Array.from(new Set(scopes)).sort()
 }
 
-export const createApiKey = (input: CreateApiKeyInput): { apiKey: string; record: ApiKeyRecord } => {
+const toIso = (value: Date | string | null): string | null =>
+  value === null ? null : new Date(value).toISOString()
+
+const mapApiKeyRow = (row: ApiKeyRow): ApiKeyRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  orgId: row.org_id,
+  keyHash: row.key_hash,
+  label: row.label,
+  scopes: normalizeScopes(
+    row.scopes.map(resolveApiKeyScope).filter((scope): scope is ApiKeyScope => scope !== null),
+  ),
+  createdAt: toIso(row.created_at)!,
+  expiresAt: toIso(row.expires_at),
+  revokedAt: toIso(row.revoked_at),
+  previousKeyHash: row.previous_key_hash,
+  previousKeyExpiresAt: toIso(row.previous_key_expires_at),
+  rotatedAt: toIso(row.rotated_at),
+  lastUsedAt: toIso(row.last_used_at),
+  lastUsedIp: row.last_used_ip,
+})
+
+const formatApiKey = (id: string, secret: string): string => `dsk_${id}.${secret}`
+
+export const toPublicApiKeyRecord = (record: ApiKeyRecord): ApiKeyPublicRecord => ({
+  id: record.id,
+  userId: record.userId,
+  orgId: record.orgId,
+  label: record.label,
+  scopes: record.scopes,
+  createdAt: record.createdAt,
+  expiresAt: record.expiresAt,
+  revokedAt: record.revokedAt,
+  previousKeyExpiresAt: record.previousKeyExpiresAt,
+  rotatedAt: record.rotatedAt,
+  lastUsedAt: record.lastUsedAt,
+  lastUsedIp: record.lastUsedIp,
+})
+
+const findApiKeyById = async (apiKeyId: string): Promise<ApiKeyRecord | null> => {
+  if (!isUuid(apiKeyId)) {
+    return null
+  }
+
+  const pool = getPgPool()
+  if (!pool) {
+    return apiKeysTable.find((entry) => entry.id === apiKeyId) ?? null
+  }
+
+  const result = await pool.query<ApiKeyRow>('SELECT * FROM api_keys WHERE id = $1', [apiKeyId])
+  return result.rows[0] ? mapApiKeyRow(result.rows[0]) : null
+}
+
+export const createApiKey = async (input: CreateApiKeyInput): Promise<{ apiKey: string; record: ApiKeyRecord }> => {
   const id = randomUUID()
   const secret = randomBytes(32).toString('hex')
   const createdAt = utcNow()
@@ -30,45 +127,206 @@ export const createApiKey = (input: CreateApiKeyInput): { apiKey: string; record
     label: input.label,
     scopes: normalizeScopes(input.scopes),
     createdAt,
+    expiresAt: input.expiresAt ?? null,
     revokedAt: null,
+    previousKeyHash: null,
+    previousKeyExpiresAt: null,
+    rotatedAt: null,
+    lastUsedAt: null,
+    lastUsedIp: null,
   }
 
-  apiKeysTable.push(record)
+  const pool = getPgPool()
+  if (!pool) {
+    apiKeysTable.push(record)
+  } else {
+    await pool.query(
+      `INSERT INTO api_keys (id, user_id, org_id, key_hash, label, scopes, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        record.id,
+        record.userId,
+        record.orgId,
+        record.keyHash,
+        record.label,
+        JSON.stringify(record.scopes),
+        record.createdAt,
+        record.expiresAt,
+      ],
+    )
+  }
 
   return {
-    apiKey: `dsk_${id}.${secret}`,
+    apiKey: formatApiKey(id, secret),
     record,
   }
 }
 
-export const listApiKeysForUser = (userId: string): ApiKeyRecord[] => {
-  return apiKeysTable.filter((record) => record.userId === userId)
+export const listApiKeysForUser = async (userId: string): Promise<ApiKeyRecord[]> => {
+  const pool = getPgPool()
+  if (!pool) {
+    return apiKeysTable.filter((record) => record.userId === userId)
+  }
+
+  const result = await pool.query<ApiKeyRow>(
+    'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at ASC',
+    [userId],
+  )
+  return result.rows.map(mapApiKeyRow)
 }
 
-export const revokeApiKey = (apiKeyId: string, userId: string): ApiKeyRecord | null => {
-  const record = apiKeysTable.find((entry) => entry.id === apiKeyId && entry.userId === userId)
-  if (!record) {
+export const getApiKeyForUser = async (apiKeyId: string, userId: string): Promise<ApiKeyRecord | null> => {
+  const record = await findApiKeyById(apiKeyId)
+  return record && record.userId === userId ? record : null
+}
+
+type ApiKeyOwner = { userId: string } | { orgId: string }
+
+const ownerColumn = (owner: ApiKeyOwner): ['user_id' | 'org_id', string] =>
+  'userId' in owner ? ['user_id', owner.userId] : ['org_id', owner.orgId]
+
+const isOwnedBy = (record: ApiKeyRecord, owner: ApiKeyOwner): boolean =>
+  'userId' in owner ? record.userId === owner.userId : record.orgId === owner.orgId
+
+const revokeOwnedApiKey = async (apiKeyId: string, owner: ApiKeyOwner): Promise<ApiKeyRecord | null> => {
+  if (!isUuid(apiKeyId)) {
+    return null
+  }
+
+  const pool = getPgPool()
+  if (!pool) {
+    const record = apiKeysTable.find((entry) => entry.id === apiKeyId && isOwnedBy(entry, owner))
+    if (!record) {
+      return null
+    }
+
+    if (!record.revokedAt) {
+      record.revokedAt = utcNow()
+    }
+
+    return record
+  }
+
+  const [column, value] = ownerColumn(owner)
+  const result = await pool.query<ApiKeyRow>(
+    `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, $3)
+     WHERE id = $1 AND ${column} = $2
+     RETURNING *`,
+    [apiKeyId, value, utcNow()],
+  )
+  return result.rows[0] ? mapApiKeyRow(result.rows[0]) : null
+}
+
+export const revokeApiKey = async (apiKeyId: string, userId: string): Promise<ApiKeyRecord | null> =>
+  revokeOwnedApiKey(apiKeyId, { userId })
+
+/**
+ * List keys owned by an organization (created through the org API key routes)
+ */
+export const listApiKeysForOrg = async (orgId: string): Promise<ApiKeyRecord[]> => {
+  const pool = getPgPool()
+  if (!pool) {
+    return apiKeysTable.filter((record) => record.orgId === orgId && record.userId === null)
+  }
+
+  const result = await pool.query<ApiKeyRow>(
+    'SELECT * FROM api_keys WHERE org_id = $1 AND user_id IS NULL ORDER BY created_at ASC',
+    [orgId],
+  )
+  return result.rows.map(mapApiKeyRow)
+}
+
+export const revokeOrgApiKey = async (apiKeyId: string, orgId: string): Promise<ApiKeyRecord | null> => {
+  const record = await findApiKeyById(apiKeyId)
+  if (!record || record.userId !== null) {
     return null
   }
+  return revokeOwnedApiKey(apiKeyId, { orgId })
+}
 
-  if (!record.revokedAt) {
-    record.revokedAt = utcNow()
+/**
+ * Issue a new secret for an existing key. The previous secret keeps validating
+ * until the grace window ends so callers can roll the new key out without downtime.
+ * Rotating again replaces the previous secret; only one old secret is ever accepted.
+ *
+ * @returns The new full API key and updated record, or null if the key does not
+ * belong to the user, and 'revoked' if it has been revoked
+ */
+export const rotateApiKey = async (
+  apiKeyId: string,
+  userId: string,
+  gracePeriodSeconds: number = DEFAULT_ROTATION_GRACE_SECONDS,
+): Promise<{ apiKey: string; record: ApiKeyRecord } | null | 'revoked'> => {
+  const existing = await getApiKeyForUser(apiKeyId, userId)
+  if (!existing) {
+    return null
+  }
+  if (existing.revokedAt) {
+    return 'revoked'
   }
 
-  return record
+  const secret = randomBytes(32).toString('hex')
+  const now = new Date()
+  const updates = {
+    keyHash: hashSecret(secret),
+    previousKeyHash: existing.keyHash,
+    previousKeyExpiresAt: new Date(now.getTime() + gracePeriodSeconds * 1000).toISOString(),
+    rotatedAt: now.toISOString(),
+  }
+
+  const pool = getPgPool()
+  if (!pool) {
+    Object.assign(existing, updates)
+    return { apiKey: formatApiKey(apiKeyId, secret), record: existing }
+  }
+
+  const result = await pool.query<ApiKeyRow>(
+    `UPDATE api_keys
+     SET key_hash = $2, previous_key_hash = $3, previous_key_expires_at = $4, rotated_at = $5
+     WHERE id = $1
+     RETURNING *`,
+    [apiKeyId, updates.keyHash, updates.previousKeyHash, updates.previousKeyExpiresAt, updates.rotatedAt],
+  )
+  return { apiKey: formatApiKey(apiKeyId, secret), record: mapApiKeyRow(result.rows[0]) }
 }
 
-export const validateApiKey = (
+/**
+ * Record a successful authentication with the key
+ */
+export const recordApiKeyUsage = async (apiKeyId: string, ip: string | null): Promise<void> => {
+  const lastUsedAt = utcNow()
+  const pool = getPgPool()
+  if (!pool) {
+    const record = apiKeysTable.find((entry) => entry.id === apiKeyId)
+    if (record) {
+      record.lastUsedAt = lastUsedAt
+      record.lastUsedIp = ip
+    }
+    return
+  }
+
+  await pool.query('UPDATE api_keys SET last_used_at = $2, last_used_ip = $3 WHERE id = $1', [
+    apiKeyId,
+    lastUsedAt,
+    ip,
+  ])
+}
+
+export const validateApiKey = async (
   apiKey: string,
-  requiredScopes: string[] = [],
-): { valid: true; context: ApiKeyAuthContext } | { valid: false; reason: 'malformed' | 'invalid' | 'revoked' | 'forbidden' } => {
+  requiredScopes: ApiKeyScope[] = [],
+): Promise<{ valid: true; context: ApiKeyAuthContext } | { valid: false; reason: ApiKeyValidationFailure }> => {
   const match = /^dsk_([^\.]+)\.(.+)$/.exec(apiKey.trim())
   if (!match) {
     return { valid: false, reason: 'malformed' }
   }
 
   const [, apiKeyId, secret] = match
-  const record = apiKeysTable.find((entry) => entry.id === apiKeyId)
+  if (!isUuid(apiKeyId)) {
+    return { valid: false, reason: 'malformed' }
+  }
+
+  const record = await findApiKeyById(apiKeyId)
   if (!record) {
     return { valid: false, reason: 'invalid' }
   }
@@ -77,7 +335,20 @@ export const validateApiKey = (
     return { valid: false, reason: 'revoked' }
   }
 
-  if (hashSecret(secret) !== record.keyHash) {
+  const now = Date.now()
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now) {
+    return { valid: false, reason: 'expired' }
+  }
+
+  const secretHash = hashSecret(secret)
+  const matchesCurrent = hashesMatch(secretHash, record.keyHash)
+  const matchesPrevious =
+    record.previousKeyHash !== null &&
+    record.previousKeyExpiresAt !== null &&
+    Date.parse(record.previousKeyExpiresAt) > now &&
+    hashesMatch(secretHash, record.previousKeyHash)
+
+  if (!matchesCurrent && !matchesPrevious) {
     return { valid: false, reason: 'invalid' }
   }
 
@@ -0,0 +1,220 @@
+import { Knex } from 'knex'
+import { EventProcessor } from './eventProcessor.js'
+import { EventType, FailedEvent, ParsedEvent } from '../types/horizonSync.js'
+import type { PaginatedResponse, PaginationParams } from '../types/pagination.js'
+
+// Upper bound on events retried by a single bulk request
+export const MAX_BULK_RETRY = 100
+
+/**
+ * Filters for listing dead-lettered events
+ */
+export interface DeadLetterFilters {
+  eventType?: EventType
+  ledgerFrom?: number
+  ledgerTo?: number
+  // Case-insensitive substring of the recorded error message
+  error?: string
+}
+
+/**
+ * Outcome of retrying a single dead-lettered event
+ */
+export interface DeadLetterRetryResult {
+  id: number
+  eventId: string
+  success: boolean
+  error?: string
+}
+
+/**
+ * Dead Letter Queue Service
+ * Reads and manages events that EventProcessor gave up on.
+ * Retries go back through EventProcessor.processEvent so idempotency checks still apply.
+ */
+export class DeadLetterQueue {
+  private db: Knex
+  private eventProcessor: EventProcessor
+
+  constructor(db: Knex, eventProcessor: EventProcessor) {
+    this.db = db
+    this.eventProcessor = eventProcessor
+  }
+
+  /**
+   * List dead-lettered events, oldest ledger first
+   *
+   * @param filters - Event type, ledger range and error filters
+   * @param pagination - Page and page size
+   * @returns Paginated entries
+   */
+  async list(
+    filters: DeadLetterFilters,
+    pagination: PaginationParams
+  ): Promise<PaginatedResponse<FailedEvent>> {
+    const { page, pageSize } = pagination
+
+    const countRow = await this.filteredQuery(filters).count<{ count: string | number }[]>('* as count').first()
+    const total = Number(countRow?.count ?? 0)
+
+    const rows = await this.filteredQuery(filters)
+      .select('*')
+      .orderBy([{ column: 'ledger_number', order: 'asc' }, { column: 'id', order: 'asc' }])
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+
+    const totalPages = Math.ceil(total / pageSize)
+    return {
+      data: rows.map(toFailedEvent),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    }
+  }
+
+  /**
+   * Get a single dead-lettered event
+   *
+   * @param id - failed_events row id
+   * @returns The entry, or null if not found
+   */
+  async get(id: number): Promise<FailedEvent | null> {
+    const row = await this.db('failed_events').where({ id }).first()
+    return row ? toFailedEvent(row) : null
+  }
+
+  /**
+   * Retry a dead-lettered event. On success the entry is removed; on failure
+   * EventProcessor updates the existing entry with the new error and retry count.
+   *
+   * @param id - failed_events row id
+   * @returns Retry outcome, or null if the entry does not exist
+   */
+  async retry(id: number): Promise<DeadLetterRetryResult | null> {
+    const entry = await this.get(id)
+    if (!entry) {
+      return null
+    }
+
+    const result = await this.eventProcessor.processEvent(entry.eventPayload)
+
+    if (result.success) {
+      await this.db('failed_events').where({ id }).delete()
+    }
+
+    return {
+      id,
+      eventId: entry.eventId,
+      success: result.success,
+      error: result.error
+    }
+  }
+
+  /**
+   * Retry several dead-lettered events sequentially in ledger order,
+   * so that e.g. a vault_created retry lands before its milestone_created
+   *
+   * @param ids - failed_events row ids
+   * @returns One result per id that exists
+   */
+  async retryMany(ids: number[]): Promise<DeadLetterRetryResult[]> {
+    const rows = await this.db('failed_events')
+      .whereIn('id', ids)
+      .select('id')
+      .orderBy([{ column: 'ledger_number', order: 'asc' }, { column: 'id', order: 'asc' }])
+
+    const results: DeadLetterRetryResult[] = []
+    for (const row of rows) {
+      const result = await this.retry(row.id)
+      if (result) {
+        results.push(result)
+      }
+    }
+    return results
+  }
+
+  /**
+   * Find the ids of entries matching the filters, capped at MAX_BULK_RETRY
+   *
+   * @param filters - Event type, ledger range and error filters
+   * @returns Matching row ids in ledger order
+   */
+  async findIds(filters: DeadLetterFilters): Promise<number[]> {
+    const rows = await this.filteredQuery(filters)
+      .select('id')
+      .orderBy([{ column: 'ledger_number', order: 'asc' }, { column: 'id', order: 'asc' }])
+      .limit(MAX_BULK_RETRY)
+
+    return rows.map((row: { id: number }) => row.id)
+  }
+
+  /**
+   * Permanently discard a dead-lettered event without processing it
+   *
+   * @param id - failed_events row id
+   * @returns The discarded entry, or null if not found
+   */
+  async discard(id: number): Promise<FailedEvent | null> {
+    const entry = await this.get(id)
+    if (!entry) {
+      return null
+    }
+
+    await this.db('failed_events').where({ id }).delete()
+    return entry
+  }
+
+  private filteredQuery(filters: DeadLetterFilters): Knex.QueryBuilder {
+    const query = this.db('failed_events')
+
+    if (filters.eventType) {
+      query.where('event_type', filters.eventType)
+    }
+    if (filters.ledgerFrom !== undefined) {
+      query.where('ledger_number', '>=', filters.ledgerFrom)
+    }
+    if (filters.ledgerTo !== undefined) {
+      query.where('ledger_number', '<=', filters.ledgerTo)
+    }
+    if (filters.error) {
+      query.whereILike('error_message', `%${filters.error}%`)
+    }
+
+    return query
+  }
+}
+
+// Raw failed_events row; bigint columns come back from pg as strings
+interface FailedEventRow {
+  id: number
+  event_id: string
+  event_type: EventType | null
+  ledger_number: string | number | null
+  event_payload: string | ParsedEvent
+  error_message: string
+  retry_count: number
+  failed_at: Date
+  created_at: Date
+}
+
+function toFailedEvent(row: FailedEventRow): FailedEvent {
+  const eventPayload: ParsedEvent =
+    typeof row.event_payload === 'string' ? JSON.parse(row.event_payload) : row.event_payload
+
+  return {
+    id: row.id,
+    eventId: row.event_id,
+    eventType: row.event_type ?? eventPayload.eventType ?? null,
+    ledgerNumber: row.ledger_number != null ? Number(row.ledger_number) : eventPayload.ledgerNumber ?? null,
+    eventPayload,
+    errorMessage: row.error_message,
+    retryCount: row.retry_count,
+    failedAt: row.failed_at,
+    createdAt: row.created_at
+  }
+}
@@ -5,6 +5,19 @@ import {
   MilestoneEventPayload, 
   ValidationEventPayload 
 } from '../types/horizonSync'
+import { xdr } from '@stellar/stellar-sdk'
+import {
+  XdrDecodeError,
+  decodeScMap,
+  decodeTopic,
+  optionalEntry,
+  requireEntry,
+  scValToAddress,
+  scValToAmount,
+  scValToDate,
+  scValToHex,
+  scValToString
+} from './scValDecoder.js'
 
 /**
  * Result of parsing a Horizon event
@@ -104,68 +117,92 @@ function validateVaultStatusPayload(payload: VaultEventPayload): string | null {
   return null
 }
 
+/**
+ * Reads the primary entity id from the event value map, falling back to topic[1]
+ *
+ * @param fields - Decoded event value map
+ * @param key - Name of the id field in the value map
+ * @param topics - Decoded event topics
+ * @returns The entity id
+ * @throws XdrDecodeError if the id is present in neither place
+ */
+function readEntityId(
+  fields: Map<string, xdr.ScVal>,
+  key: string,
+  topics: string[]
+): string {
+  const value = optionalEntry(fields, key)
+  if (value) {
+    return scValToString(value, key)
+  }
+
+  if (topics.length > 1) {
+    return topics[1]
+  }
+
+  throw new XdrDecodeError('missing_field', key, `Missing required field: ${key}`)
+}
+
 /**
  * Parses vault event payload from XDR data
  * 
  * @param eventType - The type of vault event
- * @param xdrData - Base64 encoded XDR data
- * @returns VaultEventPayload or null if parsing fails
+ * @param xdrData - Base64 encoded ScMap XDR data
+ * @param topics - Decoded event topics
+ * @returns VaultEventPayload or null if validation fails
+ * @throws XdrDecodeError if the XDR data is malformed
  */
 function parseVaultPayload(
   eventType: EventType,
-  xdrData: string
+  xdrData: string,
+  topics: string[]
 ): VaultEventPayload | null {
-  try {
-    // TODO: Implement full XDR decoding using Stellar SDK
-    // For now, return a minimal payload structure based on event type
-    
-    // Extract vault ID from XDR (placeholder implementation)
-    const vaultId = `vault_${Date.now()}`
-    
-    let payload: VaultEventPayload
-    
-    switch (eventType) {
-      case 'vault_created':
-        payload = {
-          vaultId,
-          creator: 'GXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX',
-          amount: '1000.0000000',
-          startTimestamp: new Date(),
-          endTimestamp: new Date(Date.now() + 86400000), // +1 day
-          successDestination: 'GXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX',
-          failureDestination: 'GXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX',
-          status: 'active'
-        }
-        
-        // Validate vault_created payload
-        const createdError = validateVaultCreatedPayload(payload)
-        if (createdError) {
-          console.error(`Vault created validation error: ${createdError}`)
-          return null
-        }
-        return payload
-      
-      case 'vault_completed':
-      case 'vault_failed':
-      case 'vault_cancelled':
-        payload = {
-          vaultId,
-          status: eventType.replace('vault_', '') as 'completed' | 'failed' | 'cancelled'
-        }
-        
-        // Validate vault status payload
-        const statusError = validateVaultStatusPayload(payload)
-        if (statusError) {
-          console.error(`Vault status validation error: ${statusError}`)
-          return null
-        }
-        return payload
-      
-      default:
+  const fields = decodeScMap(xdrData, 'value')
+  const vaultId = readEntityId(fields, 'vault_id', topics)
+
+  let payload: VaultEventPayload
+
+  switch (eventType) {
+    case 'vault_created': {
+      payload = {
+        vaultId,
+        creator: scValToAddress(requireEntry(fields, 'creator'), 'creator'),
+        amount: scValToAmount(requireEntry(fields, 'amount'), 'amount'),
+        startTimestamp: scValToDate(requireEntry(fields, 'start_timestamp'), 'start_timestamp'),
+        endTimestamp: scValToDate(requireEntry(fields, 'end_timestamp'), 'end_timestamp'),
+        successDestination: scValToAddress(requireEntry(fields, 'success_destination'), 'success_destination'),
+        failureDestination: scValToAddress(requireEntry(fields, 'failure_destination'), 'failure_destination'),
+        status: 'active'
+      }
+
+      // Validate vault_created payload
+      const createdError = validateVaultCreatedPayload(payload)
+      if (createdError) {
+        console.error(`Vault created validation error: ${createdError}`)
         return null
+      }
+      return payload
     }
-  } catch (error) {
-    return null
+
+    case 'vault_completed':
+    case 'vault_failed':
+    case 'vault_cancelled': {
+      payload = {
+        vaultId,
+        status: eventType.replace('vault_', '') as 'completed' | 'failed' | 'cancelled'
+      }
+
+      // Validate vault status payload
+      const statusError = validateVaultStatusPayload(payload)
+      if (statusError) {
+        console.error(`Vault status validation error: ${statusError}`)
+        return null
+      }
+      return payload
+    }
+
+    default:
+      return null
   }
 }
 
@@ -212,34 +249,32 @@ function validateMilestonePayload(payload: MilestoneEventPayload): string | null
 /**
  * Parses milestone event payload from XDR data
  * 
- * @param xdrData - Base64 encoded XDR data
- * @returns MilestoneEventPayload or null if parsing fails
+ * @param xdrData - Base64 encoded ScMap XDR data
+ * @param topics - Decoded event topics
+ * @returns MilestoneEventPayload or null if validation fails
+ * @throws XdrDecodeError if the XDR data is malformed
  */
-function parseMilestonePayload(xdrData: string): MilestoneEventPayload | null {
-  try {
-    // TODO: Implement full XDR decoding using Stellar SDK
-    // For now, return a minimal payload structure
-    
-    const payload: MilestoneEventPayload = {
-      milestoneId: `milestone_${Date.now()}`,
-      vaultId: `vault_${Date.now()}`,
-      title: 'Milestone Title',
-      description: 'Milestone Description',
-      targetAmount: '500.0000000',
-      deadline: new Date(Date.now() + 86400000) // +1 day
-    }
-    
-    // Validate milestone payload
-    const error = validateMilestonePayload(payload)
-    if (error) {
-      console.error(`Milestone validation error: ${error}`)
-      return null
-    }
-    
-    return payload
-  } catch (error) {
+function parseMilestonePayload(xdrData: string, topics: string[]): MilestoneEventPayload | null {
+  const fields = decodeScMap(xdrData, 'value')
+  const description = optionalEntry(fields, 'description')
+
+  const payload: MilestoneEventPayload = {
+    milestoneId: readEntityId(fields, 'milestone_id', topics),
+    vaultId: scValToString(requireEntry(fields, 'vault_id'), 'vault_id'),
+    title: scValToString(requireEntry(fields, 'title'), 'title'),
+    description: description ? scValToString(description, 'description') : '',
+    targetAmount: scValToAmount(requireEntry(fields, 'target_amount'), 'target_amount'),
+    deadline: scValToDate(requireEntry(fields, 'deadline'), 'deadline')
+  }
+
+  // Validate milestone payload
+  const error = validateMilestonePayload(payload)
+  if (error) {
+    console.error(`Milestone validation error: ${error}`)
     return null
   }
+
+  return payload
 }
 
 /**
@@ -285,34 +320,35 @@ function validateValidationPayload(payload: ValidationEventPayload): string | nu
 /**
  * Parses validation event payload from XDR data
  * 
- * @param xdrData - Base64 encoded XDR data
- * @returns ValidationEventPayload or null if parsing fails
+ * @param xdrData - Base64 encoded ScMap XDR data
+ * @param topics - Decoded event topics
+ * @returns ValidationEventPayload or null if validation fails
+ * @throws XdrDecodeError if the XDR data is malformed
  */
-function parseValidationPayload(xdrData: string): ValidationEventPayload | null {
-  try {
-    // TODO: Implement full XDR decoding using Stellar SDK
-    // For now, return a minimal payload structure
-    
-    const payload: ValidationEventPayload = {
-      validationId: `validation_${Date.now()}`,
-      milestoneId: `milestone_${Date.now()}`,
-      validatorAddress: 'GXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX',
-      validationResult: 'approved',
-      evidenceHash: 'hash_' + Date.now(),
-      validatedAt: new Date()
-    }
-    
-    // Validate validation payload
-    const error = validateValidationPayload(payload)
-    if (error) {
-      console.error(`Validation event validation error: ${error}`)
-      return null
-    }
-    
-    return payload
-  } catch (error) {
+function parseValidationPayload(xdrData: string, topics: string[]): ValidationEventPayload | null {
+  const fields = decodeScMap(xdrData, 'value')
+  const evidenceHash = optionalEntry(fields, 'evidence_hash')
+
+  const payload: ValidationEventPayload = {
+    validationId: readEntityId(fields, 'validation_id', topics),
+    milestoneId: scValToString(requireEntry(fields, 'milestone_id'), 'milestone_id'),
+    validatorAddress: scValToAddress(requireEntry(fields, 'validator'), 'validator'),
+    validationResult: scValToString(
+      requireEntry(fields, 'result'),
+      'result'
+    ) as ValidationEventPayload['validationResult'],
+    evidenceHash: evidenceHash ? scValToHex(evidenceHash, 'evidence_hash') : '',
+    validatedAt: scValToDate(requireEntry(fields, 'validated_at'), 'validated_at')
+  }
+
+  // Validate validation payload
+  const error = validateValidationPayload(payload)
+  if (error) {
+    console.error(`Validation event validation error: ${error}`)
     return null
   }
+
+  return payload
 }
 
 /**
@@ -320,24 +356,27 @@ function parseValidationPayload(xdrData: string): ValidationEventPayload | null
  * 
  * @param eventType - The type of event
  * @param xdrData - Base64 encoded XDR data
- * @returns Parsed payload or null if parsing fails
+ * @param topics - Decoded event topics
+ * @returns Parsed payload or null if validation fails
+ * @throws XdrDecodeError if the XDR data is malformed
  */
 function routeToPayloadParser(
   eventType: EventType,
-  xdrData: string
+  xdrData: string,
+  topics: string[]
 ): VaultEventPayload | MilestoneEventPayload | ValidationEventPayload | null {
   switch (eventType) {
     case 'vault_created':
     case 'vault_completed':
     case 'vault_failed':
     case 'vault_cancelled':
-      return parseVaultPayload(eventType, xdrData)
+      return parseVaultPayload(eventType, xdrData, topics)
     
     case 'milestone_created':
-      return parseMilestonePayload(xdrData)
+      return parseMilestonePayload(xdrData, topics)
     
     case 'milestone_validated':
-      return parseValidationPayload(xdrData)
+      return parseValidationPayload(xdrData, topics)
     
     default:
       return null
@@ -400,7 +439,9 @@ export function parseHorizonEvent(rawEvent: HorizonEvent): ParseResult {
       }
     }
 
-    const eventType = rawEvent.topic[0] as EventType
+    // Topics are base64 ScVals; topic[0] is the event name Symbol
+    const topics = rawEvent.topic.map((topic, index) => decodeTopic(topic, `topic[${index}]`))
+    const eventType = topics[0] as EventType
 
     // Validate event type
     const validEventTypes: EventType[] = [
@@ -421,7 +462,15 @@ export function parseHorizonEvent(rawEvent: HorizonEvent): ParseResult {
     }
 
     // Route to appropriate payload parser based on event type
-    const payload = routeToPayloadParser(eventType, rawEvent.value.xdr)
+    if (!rawEvent.value?.xdr) {
+      return {
+        success: false,
+        error: 'Missing event value',
+        details: { eventType }
+      }
+    }
+
+    const payload = routeToPayloadParser(eventType, rawEvent.value.xdr, topics)
     
     if (!payload) {
       return {
@@ -446,6 +495,14 @@ export function parseHorizonEvent(rawEvent: HorizonEvent): ParseResult {
       event: parsedEvent
     }
   } catch (error) {
+    if (error instanceof XdrDecodeError) {
+      return {
+        success: false,
+        error: `Failed to decode event XDR: ${error.message}`,
+        details: { code: error.code, field: error.field, eventId: rawEvent.id }
+      }
+    }
+
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown parsing error',
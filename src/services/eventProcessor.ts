@@ -1,7 +1,8 @@
 import { Knex } from 'knex'
 import { ParsedEvent, ProcessorConfig, VaultEventPayload, MilestoneEventPayload, ValidationEventPayload } from '../types/horizonSync.js'
 import { retryWithBackoff, DEFAULT_RETRY_CONFIG } from '../utils/retry.js'
-import { createAuditLog } from '../lib/audit-logs.js'
+import { AuditLogInput, createAuditLog } from '../lib/audit-logs.js'
+import { publishVaultEvent, type VaultEvent } from './vaultEvents.js'
 
 /**
  * Result of processing an event
@@ -38,10 +39,8 @@ export class EventProcessor {
 
     try {
       // Attempt processing with retry logic
-      await retryWithBackoff(
-        async () => {
-          await this.processEventWithTransaction(event)
-        },
+      const vaultEvents = await retryWithBackoff(
+        async () => this.processEventWithTransaction(event),
         {
           maxAttempts: this.config.maxRetries,
           initialBackoffMs: this.config.retryBackoffMs,
@@ -50,9 +49,14 @@ export class EventProcessor {
         }
       )
 
+      // Stream and post webhooks only once the changes are committed
+      for (const vaultEvent of vaultEvents) {
+        await publishVaultEvent(vaultEvent)
+      }
+
       // Create audit log for successful processing
       const processingDurationMs = Date.now() - startTime
-      createAuditLog({
+      await this.recordAuditLog({
         actor_user_id: 'system',
         action: 'event_processed',
         target_type: event.eventType,
@@ -75,7 +79,7 @@ export class EventProcessor {
       const processingDurationMs = Date.now() - startTime
 
       // Create audit log for failed processing
-      createAuditLog({
+      await this.recordAuditLog({
         actor_user_id: 'system',
         action: 'event_processing_failed',
         target_type: event.eventType,
@@ -106,36 +110,46 @@ export class EventProcessor {
    * Process event within a database transaction with idempotency checking
    * 
    * @param event - Parsed event to process
+   * @returns Vault events to publish once the transaction has committed
    */
-  private async processEventWithTransaction(event: ParsedEvent): Promise<void> {
+  private async processEventWithTransaction(event: ParsedEvent): Promise<VaultEvent[]> {
     const trx = await this.db.transaction()
 
     try {
-      // Check idempotency - if event already processed, return success
+      // Check idempotency - if event already processed, return success.
+      // Rows superseded by a ledger rewind no longer count, so the event is reapplied.
       const existing = await trx('processed_events')
         .where({ event_id: event.eventId })
+        .whereNull('superseded_at')
         .first()
 
       if (existing) {
         await trx.commit()
-        return // Already processed
+        return [] // Already processed
       }
 
       // Route to appropriate handler based on event type
-      await this.routeEvent(event, trx)
+      const vaultEvents = await this.routeEvent(event, trx)
 
-      // Store event_id in processed_events table
-      await trx('processed_events').insert({
-        event_id: event.eventId,
-        transaction_hash: event.transactionHash,
-        event_index: event.eventIndex,
-        ledger_number: event.ledgerNumber,
-        processed_at: new Date(),
-        created_at: new Date()
-      })
+      // Store event_id in processed_events table, reviving a superseded row if one exists
+      await trx('processed_events')
+        .insert({
+          event_id: event.eventId,
+          transaction_hash: event.transactionHash,
+          event_index: event.eventIndex,
+          ledger_number: event.ledgerNumber,
+          processed_at: new Date(),
+          created_at: new Date()
+        })
+        .onConflict('event_id')
+        .merge({
+          processed_at: new Date(),
+          superseded_at: null
+        })
 
       // Commit transaction
       await trx.commit()
+      return vaultEvents
     } catch (error) {
       // Rollback transaction on any error
       await trx.rollback()
@@ -148,23 +162,22 @@ export class EventProcessor {
    * 
    * @param event - Parsed event to route
    * @param trx - Database transaction
+   * @returns Vault events produced by the handler
    */
-  private async routeEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<void> {
+  private async routeEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<VaultEvent[]> {
     switch (event.eventType) {
       case 'vault_created':
       case 'vault_completed':
       case 'vault_failed':
       case 'vault_cancelled':
-        await this.handleVaultEvent(event, trx)
-        break
+        return this.handleVaultEvent(event, trx)
 
       case 'milestone_created':
         await this.handleMilestoneEvent(event, trx)
-        break
+        return []
 
       case 'milestone_validated':
-        await this.handleValidationEvent(event, trx)
-        break
+        return this.handleValidationEvent(event, trx)
 
       default:
         throw new Error(`Unknown event type: ${event.eventType}`)
@@ -176,11 +189,17 @@ export class EventProcessor {
    * 
    * @param event - Parsed vault event
    * @param trx - Database transaction
+   * @returns A vault.created event when the vault is new, or a status change when the status changed
    */
-  private async handleVaultEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<void> {
+  private async handleVaultEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<VaultEvent[]> {
     const payload = event.payload as VaultEventPayload
 
     if (event.eventType === 'vault_created') {
+      // A ledger rewind replays vault_created for vaults that already exist
+      const existing = await trx('vaults')
+        .where({ id: payload.vaultId })
+        .first('id')
+
       // Insert or update vault record with all required fields
       await trx('vaults')
         .insert({
@@ -196,14 +215,46 @@ export class EventProcessor {
         })
         .onConflict('id')
         .merge()
-    } else {
-      // Update vault status for completed, failed, or cancelled events
-      const status = event.eventType.replace('vault_', '') as 'completed' | 'failed' | 'cancelled'
-      
-      await trx('vaults')
-        .where({ id: payload.vaultId })
-        .update({ status })
+
+      if (existing) {
+        return []
+      }
+
+      return [{
+        type: 'vault.created',
+        vault: {
+          id: payload.vaultId,
+          creator: payload.creator!,
+          amount: payload.amount!,
+          startTimestamp: new Date(payload.startTimestamp!).toISOString(),
+          endTimestamp: new Date(payload.endTimestamp!).toISOString(),
+          successDestination: payload.successDestination!,
+          failureDestination: payload.failureDestination!,
+          status: payload.status || 'active'
+        }
+      }]
+    }
+
+    // Update vault status for completed, failed, or cancelled events
+    const status = event.eventType.replace('vault_', '') as 'completed' | 'failed' | 'cancelled'
+    const vault = await trx('vaults')
+      .where({ id: payload.vaultId })
+      .first('creator', 'status', 'org_id')
+
+    await trx('vaults')
+      .where({ id: payload.vaultId })
+      .update({ status })
+
+    if (!vault || vault.status === status) {
+      return []
     }
+
+    return [{
+      type: 'vault.status_changed',
+      vault: { id: payload.vaultId, creator: vault.creator, orgId: vault.org_id },
+      status,
+      previousStatus: vault.status
+    }]
   }
 
   /**
@@ -224,19 +275,22 @@ export class EventProcessor {
       throw new Error(`Vault not found: ${payload.vaultId}`)
     }
 
-    // Insert milestone record
-    await trx('milestones').insert({
-      id: payload.milestoneId,
-      vault_id: payload.vaultId,
-      title: payload.title,
-      description: payload.description || null,
-      target_amount: payload.targetAmount,
-      current_amount: '0',
-      deadline: payload.deadline,
-      status: 'pending',
-      created_at: new Date(),
-      updated_at: new Date()
-    })
+    // Insert milestone record; on reapply after a rewind only the on-chain fields are refreshed
+    await trx('milestones')
+      .insert({
+        id: payload.milestoneId,
+        vault_id: payload.vaultId,
+        title: payload.title,
+        description: payload.description || null,
+        target_amount: payload.targetAmount,
+        current_amount: '0',
+        deadline: payload.deadline,
+        status: 'pending',
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .onConflict('id')
+      .merge(['vault_id', 'title', 'description', 'target_amount', 'deadline', 'updated_at'])
   }
 
   /**
@@ -244,8 +298,9 @@ export class EventProcessor {
    * 
    * @param event - Parsed validation event
    * @param trx - Database transaction
+   * @returns A milestone.validated event for the vault
    */
-  private async handleValidationEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<void> {
+  private async handleValidationEvent(event: ParsedEvent, trx: Knex.Transaction): Promise<VaultEvent[]> {
     const payload = event.payload as ValidationEventPayload
 
     // Validate that referenced milestone exists
@@ -257,16 +312,51 @@ export class EventProcessor {
       throw new Error(`Milestone not found: ${payload.milestoneId}`)
     }
 
-    // Insert validation record
-    await trx('validations').insert({
-      id: payload.validationId,
-      milestone_id: payload.milestoneId,
-      validator_address: payload.validatorAddress,
-      validation_result: payload.validationResult,
-      evidence_hash: payload.evidenceHash || null,
-      validated_at: payload.validatedAt,
-      created_at: new Date()
-    })
+    // Insert validation record (merged when reapplied after a rewind)
+    await trx('validations')
+      .insert({
+        id: payload.validationId,
+        milestone_id: payload.milestoneId,
+        validator_address: payload.validatorAddress,
+        validation_result: payload.validationResult,
+        evidence_hash: payload.evidenceHash || null,
+        validated_at: payload.validatedAt,
+        created_at: new Date()
+      })
+      .onConflict('id')
+      .merge(['milestone_id', 'validator_address', 'validation_result', 'evidence_hash', 'validated_at'])
+
+    const vault = await trx('vaults')
+      .where({ id: milestone.vault_id })
+      .first('creator', 'org_id')
+
+    if (!vault) {
+      return []
+    }
+
+    return [{
+      type: 'milestone.validated',
+      vault: { id: milestone.vault_id, creator: vault.creator, orgId: vault.org_id },
+      milestone: {
+        milestoneId: payload.milestoneId,
+        validationId: payload.validationId,
+        result: payload.validationResult
+      }
+    }]
+  }
+
+  /**
+   * Write an audit log entry without letting an audit store failure
+   * change the outcome of event processing
+   *
+   * @param entry - Audit log entry
+   */
+  private async recordAuditLog(entry: AuditLogInput): Promise<void> {
+    try {
+      await createAuditLog(entry)
+    } catch (error) {
+      console.error('Failed to write audit log:', error)
+    }
   }
 
   /**
@@ -282,8 +372,26 @@ export class EventProcessor {
     retryCount: number
   ): Promise<void> {
     try {
+      // An event retried from the dead letter queue that fails again keeps its existing entry
+      const existing = await this.db('failed_events')
+        .where({ event_id: event.eventId })
+        .first()
+
+      if (existing) {
+        await this.db('failed_events')
+          .where({ id: existing.id })
+          .update({
+            error_message: errorMessage,
+            retry_count: existing.retry_count + retryCount,
+            failed_at: new Date()
+          })
+        return
+      }
+
       await this.db('failed_events').insert({
         event_id: event.eventId,
+        event_type: event.eventType,
+        ledger_number: event.ledgerNumber,
         event_payload: JSON.stringify(event),
         error_message: errorMessage,
         retry_count: retryCount,
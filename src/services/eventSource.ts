@@ -0,0 +1,56 @@
+import type { HorizonEvent } from './eventParser.js'
+import type { HorizonListenerConfig } from '../config/horizonListener.js'
+import { SorobanRpcEventSource } from './sorobanRpcEventSource.js'
+import { ReplayEventSource } from './replayEventSource.js'
+
+/**
+ * A batch of raw contract events returned by an EventSource
+ */
+export interface EventSourceBatch {
+  events: HorizonEvent[]
+  // Latest ledger known to the source, if it reports one
+  latestLedger: number | null
+  // True when the source has no more events and will never produce more (e.g. end of a replay file)
+  done: boolean
+}
+
+/**
+ * Pluggable supplier of Soroban contract events for the HorizonListener.
+ *
+ * Lifecycle: connect(startLedger) → poll() repeatedly → close().
+ * A source may be connected again after an error; it must then resume from
+ * the ledger passed to connect(). Events at startLedger may be redelivered,
+ * which is safe because EventProcessor deduplicates by event id.
+ */
+export interface EventSource {
+  readonly name: string
+
+  /**
+   * Position the source at the given ledger (inclusive)
+   */
+  connect(startLedger: number): Promise<void>
+
+  /**
+   * Fetch the next batch of events. An empty, not-done batch means the source is caught up.
+   */
+  poll(): Promise<EventSourceBatch>
+
+  /**
+   * Release any resources held by the source
+   */
+  close(): Promise<void>
+}
+
+/**
+ * Create the event source selected by the listener configuration
+ */
+export function createEventSource(config: HorizonListenerConfig): EventSource {
+  if (config.eventSource === 'replay') {
+    return new ReplayEventSource({ filePath: config.replayFile ?? '' })
+  }
+
+  return new SorobanRpcEventSource({
+    rpcUrl: config.rpcUrl || config.horizonUrl,
+    contractIds: config.contractAddresses
+  })
+}
@@ -0,0 +1,133 @@
+export const USER_EVENT_TYPES = ['notification', 'vault.status', 'milestone.verification'] as const
+
+export type UserEventType = (typeof USER_EVENT_TYPES)[number]
+
+export interface UserEvent {
+  /** `<stream epoch>-<sequence>`, sent to clients as the SSE event id */
+  id: string
+  userId: string
+  type: UserEventType
+  data: Record<string, unknown>
+  createdAt: string
+}
+
+export type UserEventListener = (event: UserEvent) => void
+
+const DEFAULT_HISTORY_SIZE = 1_000
+
+/**
+ * In-process fan-out of per-user events for the SSE endpoint. A bounded
+ * history of recent events lets reconnecting clients resume from their
+ * Last-Event-ID. Ids carry the epoch of the stream that issued them, so an
+ * id from before a restart is recognised as unresumable.
+ */
+export class UserEventStream {
+  private readonly epoch = Date.now().toString(36)
+  private sequence = 0
+  private history: UserEvent[] = []
+  private listeners = new Map<string, Set<UserEventListener>>()
+
+  constructor(private readonly historySize = DEFAULT_HISTORY_SIZE) {}
+
+  publish(userId: string, type: UserEventType, data: Record<string, unknown>): UserEvent {
+    this.sequence += 1
+    const event: UserEvent = {
+      id: `${this.epoch}-${this.sequence}`,
+      userId,
+      type,
+      data,
+      createdAt: new Date().toISOString(),
+    }
+
+    this.history.push(event)
+    if (this.history.length > this.historySize) {
+      this.history.splice(0, this.history.length - this.historySize)
+    }
+
+    for (const listener of this.listeners.get(userId) ?? []) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`[UserEventStream] Listener for user ${userId} failed:`, error)
+      }
+    }
+
+    return event
+  }
+
+  /**
+   * @returns A function that removes the listener
+   */
+  subscribe(userId: string, listener: UserEventListener): () => void {
+    let userListeners = this.listeners.get(userId)
+    if (!userListeners) {
+      userListeners = new Set()
+      this.listeners.set(userId, userListeners)
+    }
+    userListeners.add(listener)
+
+    return () => {
+      userListeners.delete(listener)
+      if (userListeners.size === 0 && this.listeners.get(userId) === userListeners) {
+        this.listeners.delete(userId)
+      }
+    }
+  }
+
+  /**
+   * The user's events published after `lastEventId`, or null when that id
+   * was issued by another stream or has already left the history, in which
+   * case the client has to refetch its state.
+   */
+  eventsSince(userId: string, lastEventId: string): UserEvent[] | null {
+    const separator = lastEventId.lastIndexOf('-')
+    const sequence = Number(lastEventId.slice(separator + 1))
+    if (
+      separator === -1 ||
+      lastEventId.slice(0, separator) !== this.epoch ||
+      !Number.isInteger(sequence) ||
+      sequence < 0 ||
+      sequence > this.sequence
+    ) {
+      return null
+    }
+
+    const oldest = this.sequence - this.history.length + 1
+    if (sequence < oldest - 1) return null
+
+    return this.history.slice(sequence - oldest + 1).filter((event) => event.userId === userId)
+  }
+
+  subscriberCount(): number {
+    let count = 0
+    for (const userListeners of this.listeners.values()) {
+      count += userListeners.size
+    }
+    return count
+  }
+}
+
+let stream: UserEventStream | null = null
+
+export const getUserEventStream = (): UserEventStream => {
+  if (!stream) {
+    stream = new UserEventStream()
+  }
+  return stream
+}
+
+export const setUserEventStream = (next: UserEventStream | null): void => {
+  stream = next
+}
+
+/**
+ * Publish to the shared stream. Streaming is best effort, so a failure here
+ * never fails the operation that produced the event.
+ */
+export const publishUserEvent = (userId: string, type: UserEventType, data: Record<string, unknown>): void => {
+  try {
+    getUserEventStream().publish(userId, type, data)
+  } catch (error) {
+    console.error(`[UserEventStream] Failed to publish ${type} for user ${userId}:`, error)
+  }
+}
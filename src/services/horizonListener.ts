@@ -2,11 +2,16 @@ import { Knex } from 'knex'
 import { EventProcessor } from './eventProcessor.js'
 import { parseHorizonEvent, HorizonEvent } from './eventParser.js'
 import { HorizonListenerConfig } from '../config/horizonListener.js'
+import { EventSource, createEventSource } from './eventSource.js'
 import { sleep } from '../utils/retry.js'
 
+const DEFAULT_POLL_INTERVAL_MS = 5000
+const DEFAULT_RECONNECT_BACKOFF_MS = 1000
+const MAX_RECONNECT_BACKOFF_MS = 60000
+
 /**
  * Horizon Listener Service
- * Connects to Stellar Horizon API to receive Soroban contract events
+ * Pulls Soroban contract events from an EventSource (Soroban RPC or a replay file)
  * and processes them into database operations
  */
 export class HorizonListener {
@@ -17,19 +22,24 @@ export class HorizonListener {
   private shutdownRequested: boolean = false
   private inFlightEvents: number = 0
   private reconnectAttempts: number = 0
-  private currentBackoffMs: number = 1000
+  private currentBackoffMs: number
+  private eventSource: EventSource
 
-  // Stellar SDK Server instance (will be initialized when SDK is available)
-  private server: any = null
+  // Resolved when stop() is called so pending polls and sleeps can be abandoned
+  private shutdownSignal: Promise<void> = Promise.resolve()
+  private signalShutdown: () => void = () => {}
 
   constructor(
     config: HorizonListenerConfig,
     eventProcessor: EventProcessor,
-    db: Knex
+    db: Knex,
+    eventSource?: EventSource
   ) {
     this.config = config
     this.eventProcessor = eventProcessor
     this.db = db
+    this.eventSource = eventSource ?? createEventSource(config)
+    this.currentBackoffMs = this.initialBackoffMs()
   }
 
   /**
@@ -45,6 +55,9 @@ export class HorizonListener {
     console.log('Starting Horizon listener...')
     this.running = true
     this.shutdownRequested = false
+    this.shutdownSignal = new Promise<void>((resolve) => {
+      this.signalShutdown = resolve
+    })
 
     // Register signal handlers for graceful shutdown
     this.registerShutdownHandlers()
@@ -69,6 +82,7 @@ export class HorizonListener {
 
     console.log('Stopping Horizon listener...')
     this.shutdownRequested = true
+    this.signalShutdown()
 
     // Wait for in-flight events with timeout
     const shutdownStart = Date.now()
@@ -84,11 +98,8 @@ export class HorizonListener {
       await sleep(100)
     }
 
-    // Close Horizon connection
-    if (this.server) {
-      // TODO: Close Stellar SDK connection when SDK is available
-      this.server = null
-    }
+    // Close the event source connection
+    await this.eventSource.close()
 
     // Close database connection
     // Note: We don't destroy the db connection here as it may be shared
@@ -128,6 +139,48 @@ export class HorizonListener {
     }
   }
 
+  /**
+   * Check whether an admin has requested a cursor rewind since the last check
+   */
+  private async hasPendingRewind(): Promise<boolean> {
+    try {
+      const state = await this.db('listener_state')
+        .where({ service_name: 'horizon_listener' })
+        .first()
+
+      return state?.rewind_to_ledger != null
+    } catch (error) {
+      console.error('Error checking for cursor rewind:', error)
+      return false
+    }
+  }
+
+  /**
+   * Take a pending rewind request, clearing the marker so it is applied only once
+   *
+   * @returns The ledger to resume from, or null if no rewind is pending
+   */
+  private async claimRewindRequest(): Promise<number | null> {
+    const state = await this.db('listener_state')
+      .where({ service_name: 'horizon_listener' })
+      .first()
+
+    if (state?.rewind_to_ledger == null) {
+      return null
+    }
+
+    const rewindLedger = Number(state.rewind_to_ledger)
+    await this.db('listener_state')
+      .where({ service_name: 'horizon_listener', rewind_to_ledger: state.rewind_to_ledger })
+      .update({
+        last_processed_ledger: rewindLedger,
+        rewind_to_ledger: null,
+        updated_at: new Date()
+      })
+
+    return rewindLedger
+  }
+
   /**
    * Update the cursor in the database after successful event processing
    */
@@ -154,48 +207,76 @@ export class HorizonListener {
   }
 
   /**
-   * Start event streaming from Horizon API with retry logic
+   * Stream events from the event source with reconnect logic.
+   * Events are handled one at a time so the persisted cursor only ever moves forward.
+   * Returns when shutdown is requested or the source reports it is exhausted.
    */
   private async startEventStream(startLedger: number): Promise<void> {
+    let cursor = startLedger
+
     while (this.running && !this.shutdownRequested) {
       try {
-        // TODO: Initialize Stellar SDK Server when available
-        // For now, this is a placeholder that will be replaced with actual SDK integration
-        // Example:
-        // import { Server } from '@stellar/stellar-sdk'
-        // this.server = new Server(this.config.horizonUrl)
-        
-        console.log('Horizon SDK not yet integrated - placeholder implementation')
-        console.log(`Would connect to: ${this.config.horizonUrl}`)
-        console.log(`Monitoring contracts: ${this.config.contractAddresses.join(', ')}`)
-        console.log(`Starting from ledger: ${startLedger}`)
-
-        // TODO: Replace with actual Horizon event streaming
-        // Example:
-        // const eventStream = this.server
-        //   .events()
-        //   .cursor(startLedger.toString())
-        //   .stream({
-        //     onmessage: (event) => this.handleEvent(event),
-        //     onerror: (error) => this.handleStreamError(error)
-        //   })
+        const rewindLedger = await this.claimRewindRequest()
+        if (rewindLedger !== null) {
+          console.log(`Applying cursor rewind to ledger ${rewindLedger}`)
+          cursor = rewindLedger
+        }
+
+        await this.eventSource.connect(cursor)
+        console.log(`Connected to ${this.eventSource.name} event source at ledger ${cursor}`)
 
         // Reset reconnect attempts on successful connection
         this.reconnectAttempts = 0
-        this.currentBackoffMs = 1000
-
-        // For now, just wait to simulate running
-        await sleep(1000)
-        
-        // In production, the stream would keep running until an error occurs
-        // For this placeholder, we'll break after one iteration
-        break
+        this.currentBackoffMs = this.initialBackoffMs()
+
+        while (!this.shutdownRequested) {
+          const batch = await this.untilShutdown(this.eventSource.poll())
+          if (!batch) {
+            return
+          }
+
+          for (const rawEvent of batch.events) {
+            if (this.shutdownRequested) {
+              return
+            }
+            await this.handleEvent(rawEvent)
+          }
+
+          if (await this.hasPendingRewind()) {
+            // Reconnect at the rewound ledger on the next iteration of the outer loop
+            break
+          }
+
+          if (batch.done) {
+            console.log(`${this.eventSource.name} event source exhausted`)
+            return
+          }
+
+          if (batch.events.length === 0) {
+            await this.untilShutdown(sleep(this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS))
+          }
+        }
       } catch (error) {
+        this.handleStreamError(error as Error)
         await this.handleConnectionError(error as Error)
+
+        // Resume from the last persisted cursor
+        cursor = await this.loadCursor()
       }
     }
   }
 
+  /**
+   * Race an operation against shutdown; resolves to null if shutdown wins
+   */
+  private async untilShutdown<T>(operation: Promise<T>): Promise<T | null> {
+    return Promise.race([operation, this.shutdownSignal.then(() => null)])
+  }
+
+  private initialBackoffMs(): number {
+    return this.config.reconnectBackoffMs ?? DEFAULT_RECONNECT_BACKOFF_MS
+  }
+
   /**
    * Handle individual event from Horizon stream
    */
@@ -258,17 +339,17 @@ export class HorizonListener {
     }
 
     // Wait with exponential backoff before retrying
-    await sleep(this.currentBackoffMs)
+    await this.untilShutdown(sleep(this.currentBackoffMs))
 
     // Increase backoff with cap at 60 seconds
-    this.currentBackoffMs = Math.min(this.currentBackoffMs * 2, 60000)
+    this.currentBackoffMs = Math.min(this.currentBackoffMs * 2, MAX_RECONNECT_BACKOFF_MS)
   }
 
   /**
    * Handle stream errors
    */
   private handleStreamError(error: Error): void {
-    console.error('Horizon stream error:', error)
+    console.error('Event source error:', error)
     // The stream will automatically reconnect via the retry logic in startEventStream
   }
 
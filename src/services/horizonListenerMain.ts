@@ -14,6 +14,9 @@
  *   START_LEDGER - Initial ledger to start from (optional)
  *   RETRY_MAX_ATTEMPTS - Maximum retry attempts (optional, default: 3)
  *   RETRY_BACKOFF_MS - Initial backoff delay in ms (optional, default: 100)
+ *   EVENT_SOURCE - 'rpc' (Soroban RPC getEvents) or 'replay' (JSONL file) (optional, default: rpc)
+ *   SOROBAN_RPC_URL - Soroban RPC endpoint (optional, default: HORIZON_URL)
+ *   REPLAY_FILE - JSONL file of events to replay (required when EVENT_SOURCE=replay)
  */
 
 import { db } from '../db/knex.js'
@@ -33,6 +36,10 @@ async function main(): Promise<void> {
     const config = getValidatedConfig()
     console.log('Configuration loaded successfully')
     console.log(`  Horizon URL: ${config.horizonUrl}`)
+    console.log(`  Event Source: ${config.eventSource ?? 'rpc'}`)
+    if (config.eventSource === 'replay') {
+      console.log(`  Replay File: ${config.replayFile}`)
+    }
     console.log(`  Contract Addresses: ${config.contractAddresses.join(', ')}`)
     console.log(`  Start Ledger: ${config.startLedger ?? 'from cursor'}`)
     console.log(`  Max Retry Attempts: ${config.retryMaxAttempts}`)
@@ -0,0 +1,118 @@
+import { Knex } from 'knex'
+
+const LISTENER_SERVICE_NAME = 'horizon_listener'
+
+/**
+ * Error raised when a rewind request cannot be applied
+ */
+export class LedgerRewindError extends Error {
+  readonly code: 'invalid_ledger' | 'no_cursor' | 'ahead_of_cursor'
+
+  constructor(message: string, code: LedgerRewindError['code']) {
+    super(message)
+    this.name = 'LedgerRewindError'
+    this.code = code
+  }
+}
+
+/**
+ * Parameters for rewinding the listener cursor
+ */
+export interface LedgerRewindRequest {
+  // First ledger to reprocess (inclusive)
+  toLedger: number
+  requestedBy: string
+  reason?: string
+}
+
+/**
+ * Outcome of a cursor rewind
+ */
+export interface LedgerRewindResult {
+  rewindId: number
+  fromLedger: number
+  toLedger: number
+  supersededEvents: number
+}
+
+/**
+ * Rewind the Horizon listener cursor so that every event from `toLedger` onwards is reapplied.
+ *
+ * In a single transaction this records the rewind, marks the affected processed_events rows as
+ * superseded (so EventProcessor no longer treats them as duplicates) and moves the persisted
+ * cursor back. A running listener notices the pending rewind_to_ledger marker after its current
+ * batch and reconnects its event source at the new position; a stopped listener resumes there.
+ *
+ * @param db - Knex instance
+ * @param request - Target ledger, requesting actor and optional reason
+ * @returns Summary of the rewind
+ * @throws LedgerRewindError if the ledger is invalid, no cursor exists, or the ledger is ahead of the cursor
+ */
+export async function rewindLedgerCursor(
+  db: Knex,
+  request: LedgerRewindRequest
+): Promise<LedgerRewindResult> {
+  const { toLedger, requestedBy, reason } = request
+
+  if (!Number.isInteger(toLedger) || toLedger < 1) {
+    throw new LedgerRewindError('toLedger must be a positive integer', 'invalid_ledger')
+  }
+
+  return db.transaction(async (trx) => {
+    const state = await trx('listener_state')
+      .where({ service_name: LISTENER_SERVICE_NAME })
+      .forUpdate()
+      .first()
+
+    if (!state) {
+      throw new LedgerRewindError('Listener cursor not found; nothing to rewind', 'no_cursor')
+    }
+
+    const fromLedger = Number(state.last_processed_ledger)
+    if (toLedger > fromLedger) {
+      throw new LedgerRewindError(
+        `Cannot rewind to ledger ${toLedger}: cursor is at ledger ${fromLedger}`,
+        'ahead_of_cursor'
+      )
+    }
+
+    const [rewind] = await trx('ledger_rewinds')
+      .insert({
+        service_name: LISTENER_SERVICE_NAME,
+        from_ledger: fromLedger,
+        to_ledger: toLedger,
+        reason: reason ?? null,
+        requested_by: requestedBy,
+        created_at: new Date()
+      })
+      .returning('id')
+    const rewindId = typeof rewind === 'object' ? rewind.id : rewind
+
+    const supersededEvents = await trx('processed_events')
+      .where('ledger_number', '>=', toLedger)
+      .whereNull('superseded_at')
+      .update({
+        superseded_at: new Date(),
+        rewind_id: rewindId
+      })
+
+    await trx('ledger_rewinds')
+      .where({ id: rewindId })
+      .update({ superseded_events: supersededEvents })
+
+    await trx('listener_state')
+      .where({ service_name: LISTENER_SERVICE_NAME })
+      .update({
+        last_processed_ledger: toLedger,
+        rewind_to_ledger: toLedger,
+        updated_at: new Date()
+      })
+
+    return {
+      rewindId,
+      fromLedger,
+      toLedger,
+      supersededEvents
+    }
+  })
+}
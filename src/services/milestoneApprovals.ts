@@ -0,0 +1,45 @@
+import type { Vault } from '../types/vaults.js'
+import { allMilestonesVerified, type Milestone } from './milestones.js'
+import { publishVaultEvent } from './vaultEvents.js'
+import { releaseMilestone, type VaultSettlement } from './vaultReleases.js'
+import { completeVault } from './vaultTransitions.js'
+
+export interface MilestoneApprovalOutcome {
+  release: VaultSettlement | null
+  vaultCompleted: boolean
+}
+
+/**
+ * Everything that follows a milestone approval, whether a verifier approved
+ * it or a dispute overturned its rejection: release its amount, publish the
+ * validation and complete the vault once every milestone is verified.
+ */
+export const applyMilestoneApproval = async (
+  vault: Vault,
+  milestone: Milestone,
+  eventData: Record<string, unknown> = {},
+): Promise<MilestoneApprovalOutcome> => {
+  // A failed vault still holds the amount of a milestone whose dispute was pending when it failed
+  const release = vault.status !== 'cancelled' ? await releaseMilestone(vault, milestone.id) : null
+
+  await publishVaultEvent({
+    type: 'milestone.validated',
+    vault,
+    milestone: {
+      milestoneId: milestone.id,
+      result: 'approved',
+      verifiedAt: milestone.verifiedAt,
+      evidenceHash: milestone.evidenceHash,
+      ...eventData,
+      ...(release ? { releasedAmount: release.amount } : {}),
+    },
+  })
+
+  let vaultCompleted = false
+  if (vault.status === 'active' && (await allMilestonesVerified(vault.id))) {
+    const result = await completeVault(vault.id)
+    vaultCompleted = result.success
+  }
+
+  return { release, vaultCompleted }
+}
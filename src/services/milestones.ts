@@ -1,54 +1,162 @@
-export interface Milestone {
-  id: string
-  vaultId: string
-  description: string
-  verified: boolean
-  verifiedAt: string | null
-  createdAt: string
+import { getMilestoneRepository } from '../repositories/milestoneRepository.js'
+import type { Milestone, MilestoneDecision, MilestoneReleaseStatus, MilestoneReviewStatus } from '../types/milestone.js'
+
+export type { Milestone, MilestoneDecision, MilestoneReleaseStatus, MilestoneReviewStatus } from '../types/milestone.js'
+
+const MILESTONE_TRANSITIONS: Record<MilestoneReviewStatus, readonly MilestoneReviewStatus[]> = {
+  pending: ['submitted'],
+  submitted: ['approved', 'rejected'],
+  approved: [],
+  rejected: ['resubmitted'],
+  resubmitted: ['approved', 'rejected'],
 }
 
-const milestonesTable: Milestone[] = []
-
-export const createMilestone = (vaultId: string, description: string): Milestone => {
-  const id = `ms-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
-  const milestone: Milestone = {
-    id,
-    vaultId,
-    description,
-    verified: false,
-    verifiedAt: null,
-    createdAt: new Date().toISOString(),
-  }
-  milestonesTable.push(milestone)
-  return milestone
+export interface MilestoneDecisionInput {
+  actorId?: string | null
+  reason?: string | null
+  evidenceHash?: string | null
+  disputeId?: string | null
 }
 
-export const getMilestonesByVaultId = (vaultId: string): Milestone[] => {
-  return milestonesTable.filter((m) => m.vaultId === vaultId)
+const DEFAULT_MAX_RESUBMISSIONS = 3
+
+export const getMaxMilestoneResubmissions = (): number => {
+  const configured = Number(process.env.MILESTONE_MAX_RESUBMISSIONS)
+  return process.env.MILESTONE_MAX_RESUBMISSIONS && Number.isInteger(configured) && configured >= 0
+    ? configured
+    : DEFAULT_MAX_RESUBMISSIONS
 }
 
-export const getMilestoneById = (id: string): Milestone | undefined => {
-  return milestonesTable.find((m) => m.id === id)
+export const createMilestone = (
+  vaultId: string,
+  description: string,
+  dueDate: string | null = null,
+  amount: string | null = null,
+): Promise<Milestone> => getMilestoneRepository().create({ vaultId, description, dueDate, amount })
+
+export const getMilestonesByVaultId = (vaultId: string): Promise<Milestone[]> =>
+  getMilestoneRepository().listByVault(vaultId)
+
+export const getMilestoneById = (id: string): Promise<Milestone | null> => getMilestoneRepository().getById(id)
+
+/**
+ * Why a milestone cannot move to `target`, or null when it can
+ */
+export const getMilestoneTransitionError = (milestone: Milestone, target: MilestoneReviewStatus): string | null => {
+  if (!MILESTONE_TRANSITIONS[milestone.status].includes(target)) {
+    return `Milestone is '${milestone.status}' and cannot become '${target}'`
+  }
+
+  if (target === 'resubmitted' && milestone.resubmissions >= getMaxMilestoneResubmissions()) {
+    return `Milestone has reached the maximum of ${getMaxMilestoneResubmissions()} resubmissions`
+  }
+
+  return null
 }
 
-export const verifyMilestone = (id: string): Milestone | null => {
-  const milestone = milestonesTable.find((m) => m.id === id)
+const recordDecision = (
+  milestone: Milestone,
+  target: Exclude<MilestoneReviewStatus, 'pending'>,
+  input: MilestoneDecisionInput,
+): Promise<Milestone | null> =>
+  // Guard on the status we validated so a concurrent decision cannot be overwritten
+  getMilestoneRepository().recordDecision(
+    milestone.id,
+    {
+      status: target,
+      actorId: input.actorId ?? null,
+      reason: input.reason ?? null,
+      evidenceHash: input.evidenceHash ?? null,
+      disputeId: input.disputeId ?? null,
+    },
+    [milestone.status],
+  )
+
+/**
+ * Move a milestone through review and record the decision in its history.
+ * Returns null when the milestone does not exist or cannot make the move.
+ */
+export const transitionMilestone = async (
+  id: string,
+  target: Exclude<MilestoneReviewStatus, 'pending'>,
+  input: MilestoneDecisionInput = {},
+): Promise<Milestone | null> => {
+  const milestone = await getMilestoneById(id)
+  if (!milestone || getMilestoneTransitionError(milestone, target)) return null
+  return recordDecision(milestone, target, input)
+}
+
+/**
+ * Submit a pending milestone for review, or resubmit a rejected one
+ */
+export const submitMilestone = async (id: string, input: MilestoneDecisionInput = {}): Promise<Milestone | null> => {
+  const milestone = await getMilestoneById(id)
   if (!milestone) return null
+  return transitionMilestone(id, milestone.status === 'rejected' ? 'resubmitted' : 'submitted', input)
+}
+
+export const verifyMilestone = (
+  id: string,
+  evidenceHash: string | null = null,
+  verifierId: string | null = null,
+): Promise<Milestone | null> => transitionMilestone(id, 'approved', { actorId: verifierId, evidenceHash })
 
-  milestone.verified = true
-  milestone.verifiedAt = new Date().toISOString()
-  return milestone
+/**
+ * Approve a rejected milestone because a dispute overturned the rejection.
+ * This is the only way out of `rejected` other than resubmitting.
+ */
+export const overturnMilestoneRejection = async (
+  id: string,
+  input: MilestoneDecisionInput & { disputeId: string },
+): Promise<Milestone | null> => {
+  const milestone = await getMilestoneById(id)
+  if (milestone?.status !== 'rejected') return null
+  return recordDecision(milestone, 'approved', input)
 }
 
-export const allMilestonesVerified = (vaultId: string): boolean => {
-  const milestones = getMilestonesByVaultId(vaultId)
+export const getLatestMilestoneDecision = (milestone: Milestone): MilestoneDecision | null =>
+  milestone.history[milestone.history.length - 1] ?? null
+
+/**
+ * Approvals and rejections a verifier made on review, not counting
+ * approvals that came from adjudicating a dispute
+ */
+export const countMilestoneDecisionsBy = (actorId: string): Promise<number> =>
+  getMilestoneRepository().countDecisionsBy(actorId)
+
+export const rejectMilestone = (
+  id: string,
+  reason: string,
+  input: Omit<MilestoneDecisionInput, 'reason'> = {},
+): Promise<Milestone | null> => transitionMilestone(id, 'rejected', { ...input, reason })
+
+/**
+ * Record where a pending milestone's amount went. Returns null when the
+ * milestone does not exist or was already settled, so each amount moves once.
+ */
+export const settleMilestone = (
+  id: string,
+  status: Exclude<MilestoneReleaseStatus, 'pending'>,
+): Promise<Milestone | null> => getMilestoneRepository().settle(id, status)
+
+/**
+ * Unverified milestones with an amount whose due date is at or before `now`
+ * and whose amount has not moved yet.
+ */
+export const listMissedMilestones = (now: Date): Promise<Milestone[]> => getMilestoneRepository().listMissed(now)
+
+/**
+ * Unverified milestones whose due date is after `from` and at or before `to`.
+ */
+export const listPendingMilestonesDueBetween = (from: Date, to: Date): Promise<Milestone[]> =>
+  getMilestoneRepository().listPendingDueBetween(from, to)
+
+export const allMilestonesVerified = async (vaultId: string): Promise<boolean> => {
+  const milestones = await getMilestonesByVaultId(vaultId)
   if (milestones.length === 0) return false
   return milestones.every((m) => m.verified)
 }
 
-export const resetMilestonesTable = (): void => {
-  milestonesTable.length = 0
-}
 export type MilestoneStatus = 'success' | 'failed'
 export interface MilestoneEvent {
   id: string
@@ -1,36 +1,40 @@
-import db from '../db/index.js'
+import {
+  getNotificationRepository,
+  type NotificationListFilter,
+  type NotificationPage,
+} from '../repositories/notificationRepository.js'
+import { publishUserEvent } from './eventStream.js'
 import type { Notification, CreateNotificationInput } from '../types/notification.js'
 
 export const createNotification = async (input: CreateNotificationInput): Promise<Notification> => {
-  const [notification] = await db('notifications')
-    .insert({
-      user_id: input.user_id,
-      type: input.type,
-      title: input.title,
-      message: input.message,
-      data: input.data ? JSON.stringify(input.data) : null,
-    })
-    .returning('*')
+  const notification = await getNotificationRepository().create(input)
+  publishUserEvent(notification.user_id, 'notification', { notification })
   return notification
 }
 
-export const listUserNotifications = async (userId: string): Promise<Notification[]> => {
-  return db('notifications')
-    .where({ user_id: userId })
-    .orderBy('created_at', 'desc')
-    .select('*')
+export const listUserNotifications = async (
+  userId: string,
+  filter: NotificationListFilter,
+): Promise<NotificationPage> => {
+  return getNotificationRepository().list(userId, filter)
+}
+
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+  return getNotificationRepository().countUnread(userId)
 }
 
 export const markAsRead = async (id: string, userId: string): Promise<Notification | null> => {
-  const [notification] = await db('notifications')
-    .where({ id, user_id: userId })
-    .update({ read_at: new Date().toISOString() })
-    .returning('*')
-  return notification || null
+  return getNotificationRepository().markAsRead(id, userId)
 }
 
 export const markAllAsRead = async (userId: string): Promise<number> => {
-  return db('notifications')
-    .where({ user_id: userId, read_at: null })
-    .update({ read_at: new Date().toISOString() })
+  return getNotificationRepository().markAllAsRead(userId)
+}
+
+export const archiveNotifications = async (userId: string, ids: string[]): Promise<number> => {
+  return getNotificationRepository().archive(userId, ids)
+}
+
+export const deleteNotifications = async (userId: string, ids: string[]): Promise<number> => {
+  return getNotificationRepository().delete(userId, ids)
 }
@@ -0,0 +1,109 @@
+import { readFile } from 'node:fs/promises'
+import type { HorizonEvent } from './eventParser.js'
+import type { EventSource, EventSourceBatch } from './eventSource.js'
+import { sleep } from '../utils/retry.js'
+
+export interface ReplayEventSourceOptions {
+  // Path to a JSONL file with one HorizonEvent per line
+  filePath: string
+  // Events returned per poll (default: 10)
+  batchSize?: number
+  // Artificial delay before each poll, to simulate network latency
+  pollDelayMs?: number
+}
+
+const DEFAULT_BATCH_SIZE = 10
+
+/**
+ * Event source that replays HorizonEvent records from a JSONL file on disk.
+ * Lets the listener run end-to-end without any network access.
+ * Blank lines and lines starting with '#' are ignored.
+ */
+export class ReplayEventSource implements EventSource {
+  readonly name = 'replay'
+
+  private options: ReplayEventSourceOptions
+  private pending: HorizonEvent[] = []
+
+  constructor(options: ReplayEventSourceOptions) {
+    this.options = options
+  }
+
+  async connect(startLedger: number): Promise<void> {
+    const events = await loadReplayFile(this.options.filePath)
+    this.pending = events
+      .filter((event) => event.ledger >= startLedger)
+      .sort((a, b) => a.ledger - b.ledger)
+  }
+
+  async poll(): Promise<EventSourceBatch> {
+    if (this.options.pollDelayMs) {
+      await sleep(this.options.pollDelayMs)
+    }
+
+    const batchSize = this.options.batchSize ?? DEFAULT_BATCH_SIZE
+    const events = this.pending.splice(0, batchSize)
+    const lastEvent = events[events.length - 1]
+
+    return {
+      events,
+      latestLedger: lastEvent ? lastEvent.ledger : null,
+      done: this.pending.length === 0
+    }
+  }
+
+  async close(): Promise<void> {
+    this.pending = []
+  }
+}
+
+/**
+ * Read and parse a JSONL replay file
+ *
+ * @param filePath - Path to the JSONL file
+ * @returns Parsed events in file order
+ * @throws Error naming the offending line if a record is not a valid event
+ */
+export async function loadReplayFile(filePath: string): Promise<HorizonEvent[]> {
+  const contents = await readFile(filePath, 'utf8')
+  const events: HorizonEvent[] = []
+
+  contents.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (trimmed.length === 0 || trimmed.startsWith('#')) {
+      return
+    }
+
+    let record: unknown
+    try {
+      record = JSON.parse(trimmed)
+    } catch {
+      throw new Error(`Invalid JSON in replay file ${filePath} at line ${index + 1}`)
+    }
+
+    if (!isHorizonEventRecord(record)) {
+      throw new Error(`Invalid event record in replay file ${filePath} at line ${index + 1}`)
+    }
+
+    events.push(record)
+  })
+
+  return events
+}
+
+function isHorizonEventRecord(value: unknown): value is HorizonEvent {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const record = value as Record<string, unknown>
+  const eventValue = record.value as Record<string, unknown> | undefined
+  return (
+    typeof record.id === 'string' &&
+    typeof record.txHash === 'string' &&
+    typeof record.ledger === 'number' &&
+    typeof record.contractId === 'string' &&
+    Array.isArray(record.topic) &&
+    typeof eventValue?.xdr === 'string'
+  )
+}
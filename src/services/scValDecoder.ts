@@ -0,0 +1,235 @@
+import { Address, xdr } from '@stellar/stellar-sdk'
+
+/**
+ * Helpers for decoding Soroban contract event data (ScVal XDR) into plain values.
+ *
+ * Disciplr contract events publish the event name as a Symbol in topic[0]
+ * (optionally followed by the primary entity id in topic[1]) and a struct-like
+ * ScMap with snake_case Symbol keys as the event value.
+ */
+
+export type XdrDecodeErrorCode =
+  | 'invalid_base64'
+  | 'invalid_xdr'
+  | 'unexpected_type'
+  | 'missing_field'
+  | 'invalid_value'
+
+/**
+ * Raised when an event topic or value cannot be decoded into the expected shape
+ */
+export class XdrDecodeError extends Error {
+  readonly code: XdrDecodeErrorCode
+  readonly field: string
+
+  constructor(code: XdrDecodeErrorCode, field: string, message: string) {
+    super(message)
+    this.name = 'XdrDecodeError'
+    this.code = code
+    this.field = field
+  }
+}
+
+/** Number of stroops in one unit of a Stellar asset (7 decimal places) */
+const STROOPS_PER_UNIT = 10_000_000n
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/
+
+/**
+ * Checks whether a string is strictly valid, padded base64
+ */
+export function isBase64(value: string): boolean {
+  return value.length > 0 && value.length % 4 === 0 && BASE64_PATTERN.test(value)
+}
+
+/**
+ * Decodes a base64 encoded ScVal
+ *
+ * @param base64 - Base64 encoded XDR
+ * @param field - Name of the field being decoded (used in errors)
+ * @throws XdrDecodeError if the input is not base64 or not a valid ScVal
+ */
+export function decodeScVal(base64: string, field: string): xdr.ScVal {
+  if (typeof base64 !== 'string' || !isBase64(base64)) {
+    throw new XdrDecodeError('invalid_base64', field, `${field} is not valid base64 XDR`)
+  }
+
+  try {
+    return xdr.ScVal.fromXDR(base64, 'base64')
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new XdrDecodeError('invalid_xdr', field, `${field} could not be decoded as ScVal: ${reason}`)
+  }
+}
+
+/**
+ * Decodes an event topic into a string.
+ * Topics are normally base64 ScVal Symbols or Strings; anything that does not
+ * decode to one is accepted as-is so already-decoded topics keep working, even
+ * when a plain name such as `test` happens to be valid base64.
+ *
+ * @param topic - Raw topic entry from the event
+ * @param field - Name of the field being decoded (used in errors)
+ */
+export function decodeTopic(topic: string, field: string): string {
+  if (typeof topic !== 'string' || topic.length === 0) {
+    throw new XdrDecodeError('missing_field', field, `${field} is empty`)
+  }
+
+  try {
+    return scValToString(decodeScVal(topic, field), field)
+  } catch (error) {
+    if (error instanceof XdrDecodeError) {
+      return topic
+    }
+    throw error
+  }
+}
+
+/**
+ * Decodes a base64 ScVal that must be a map with Symbol (or String) keys
+ *
+ * @param base64 - Base64 encoded XDR
+ * @param field - Name of the field being decoded (used in errors)
+ * @returns Map of key name to raw ScVal
+ */
+export function decodeScMap(base64: string, field: string): Map<string, xdr.ScVal> {
+  const value = decodeScVal(base64, field)
+  if (value.switch() !== xdr.ScValType.scvMap()) {
+    throw new XdrDecodeError(
+      'unexpected_type',
+      field,
+      `${field} must be an ScMap, got ${value.switch().name}`
+    )
+  }
+
+  const entries = new Map<string, xdr.ScVal>()
+  for (const entry of value.map() ?? []) {
+    entries.set(scValToString(entry.key(), `${field} key`), entry.val())
+  }
+  return entries
+}
+
+/**
+ * Converts a Symbol, String or Bytes (hex) ScVal to a string
+ */
+export function scValToString(value: xdr.ScVal, field: string): string {
+  switch (value.switch()) {
+    case xdr.ScValType.scvSymbol():
+      return value.sym().toString()
+    case xdr.ScValType.scvString():
+      return value.str().toString()
+    case xdr.ScValType.scvBytes():
+      return value.bytes().toString('hex')
+    default:
+      throw new XdrDecodeError(
+        'unexpected_type',
+        field,
+        `${field} must be a Symbol, String or Bytes, got ${value.switch().name}`
+      )
+  }
+}
+
+/**
+ * Converts an Address ScVal to its strkey (G... or C...) representation
+ */
+export function scValToAddress(value: xdr.ScVal, field: string): string {
+  if (value.switch() !== xdr.ScValType.scvAddress()) {
+    throw new XdrDecodeError(
+      'unexpected_type',
+      field,
+      `${field} must be an Address, got ${value.switch().name}`
+    )
+  }
+  return Address.fromScVal(value).toString()
+}
+
+/**
+ * Converts an integer amount in stroops (i128/u128/i64/u64) to a
+ * 7-decimal string, e.g. 10000000000 -> "1000.0000000"
+ */
+export function scValToAmount(value: xdr.ScVal, field: string): string {
+  const stroops = scValToBigInt(value, field)
+  if (stroops < 0n) {
+    throw new XdrDecodeError('invalid_value', field, `${field} must not be negative`)
+  }
+
+  const whole = stroops / STROOPS_PER_UNIT
+  const fraction = (stroops % STROOPS_PER_UNIT).toString().padStart(7, '0')
+  return `${whole}.${fraction}`
+}
+
+/**
+ * Converts a u64 unix timestamp (seconds) or a Soroban Timepoint to a Date
+ */
+export function scValToDate(value: xdr.ScVal, field: string): Date {
+  const seconds = scValToBigInt(value, field)
+  const date = new Date(Number(seconds) * 1000)
+  if (seconds < 0n || isNaN(date.getTime())) {
+    throw new XdrDecodeError('invalid_value', field, `${field} is not a valid timestamp`)
+  }
+  return date
+}
+
+/**
+ * Converts a Bytes or BytesN ScVal to a lowercase hex string
+ */
+export function scValToHex(value: xdr.ScVal, field: string): string {
+  if (value.switch() !== xdr.ScValType.scvBytes()) {
+    throw new XdrDecodeError(
+      'unexpected_type',
+      field,
+      `${field} must be Bytes, got ${value.switch().name}`
+    )
+  }
+  return value.bytes().toString('hex')
+}
+
+function scValToBigInt(value: xdr.ScVal, field: string): bigint {
+  switch (value.switch()) {
+    case xdr.ScValType.scvU64():
+      return value.u64().toBigInt()
+    case xdr.ScValType.scvI64():
+      return value.i64().toBigInt()
+    case xdr.ScValType.scvTimepoint():
+      return value.timepoint().toBigInt()
+    case xdr.ScValType.scvU128(): {
+      const parts = value.u128()
+      return (parts.hi().toBigInt() << 64n) | parts.lo().toBigInt()
+    }
+    case xdr.ScValType.scvI128(): {
+      const parts = value.i128()
+      return (parts.hi().toBigInt() << 64n) | parts.lo().toBigInt()
+    }
+    default:
+      throw new XdrDecodeError(
+        'unexpected_type',
+        field,
+        `${field} must be an integer, got ${value.switch().name}`
+      )
+  }
+}
+
+/**
+ * Reads a required entry from a decoded ScMap
+ *
+ * @throws XdrDecodeError with code 'missing_field' if the key is absent
+ */
+export function requireEntry(map: Map<string, xdr.ScVal>, key: string): xdr.ScVal {
+  const value = map.get(key)
+  if (!value || value.switch() === xdr.ScValType.scvVoid()) {
+    throw new XdrDecodeError('missing_field', key, `Missing required field: ${key}`)
+  }
+  return value
+}
+
+/**
+ * Reads an optional entry from a decoded ScMap; Void values are treated as absent
+ */
+export function optionalEntry(map: Map<string, xdr.ScVal>, key: string): xdr.ScVal | undefined {
+  const value = map.get(key)
+  if (!value || value.switch() === xdr.ScValType.scvVoid()) {
+    return undefined
+  }
+  return value
+}
@@ -0,0 +1,96 @@
+import { rpc } from '@stellar/stellar-sdk'
+import type { HorizonEvent } from './eventParser.js'
+import type { EventSource, EventSourceBatch } from './eventSource.js'
+
+export interface SorobanRpcEventSourceOptions {
+  rpcUrl: string
+  contractIds: string[]
+  // Maximum events per getEvents request
+  limit?: number
+}
+
+// Soroban RPC accepts at most 5 contract ids per event filter
+const MAX_CONTRACT_IDS_PER_FILTER = 5
+const DEFAULT_LIMIT = 100
+
+/**
+ * Event source that polls Soroban RPC `getEvents`.
+ * The first request after connect() uses startLedger; subsequent requests
+ * page forward with the opaque cursor returned by the server.
+ */
+export class SorobanRpcEventSource implements EventSource {
+  readonly name = 'soroban-rpc'
+
+  private options: SorobanRpcEventSourceOptions
+  private server: rpc.Server | null = null
+  private startLedger = 1
+  private cursor: string | null = null
+
+  constructor(options: SorobanRpcEventSourceOptions) {
+    this.options = options
+  }
+
+  async connect(startLedger: number): Promise<void> {
+    this.server = new rpc.Server(this.options.rpcUrl, {
+      allowHttp: this.options.rpcUrl.startsWith('http://')
+    })
+    this.startLedger = Math.max(1, startLedger)
+    this.cursor = null
+  }
+
+  async poll(): Promise<EventSourceBatch> {
+    if (!this.server) {
+      throw new Error('Soroban RPC event source is not connected')
+    }
+
+    const filters = this.buildFilters()
+    const limit = this.options.limit ?? DEFAULT_LIMIT
+    const request: rpc.Api.GetEventsRequest = this.cursor
+      ? { filters, cursor: this.cursor, limit }
+      : { filters, startLedger: this.startLedger, limit }
+
+    const response = await this.server.getEvents(request)
+    this.cursor = response.cursor
+
+    return {
+      events: response.events.map(toHorizonEvent),
+      latestLedger: response.latestLedger,
+      done: false
+    }
+  }
+
+  async close(): Promise<void> {
+    this.server = null
+    this.cursor = null
+  }
+
+  private buildFilters(): rpc.Api.EventFilter[] {
+    const filters: rpc.Api.EventFilter[] = []
+    for (let i = 0; i < this.options.contractIds.length; i += MAX_CONTRACT_IDS_PER_FILTER) {
+      filters.push({
+        type: 'contract',
+        contractIds: this.options.contractIds.slice(i, i + MAX_CONTRACT_IDS_PER_FILTER)
+      })
+    }
+    return filters
+  }
+}
+
+/**
+ * Convert a decoded RPC event back into the raw HorizonEvent shape
+ * (base64 XDR topics and value) that parseHorizonEvent consumes
+ */
+function toHorizonEvent(event: rpc.Api.EventResponse): HorizonEvent {
+  return {
+    type: event.type,
+    ledger: event.ledger,
+    ledgerClosedAt: event.ledgerClosedAt,
+    contractId: event.contractId?.contractId() ?? '',
+    id: event.id,
+    pagingToken: event.id,
+    topic: event.topic.map((topic) => topic.toXDR('base64')),
+    value: { xdr: event.value.toXDR('base64') },
+    inSuccessfulContractCall: event.inSuccessfulContractCall,
+    txHash: event.txHash
+  }
+}
@@ -0,0 +1,47 @@
+import type { Vault, VaultStatus } from '../types/vaults.js'
+import { emitWebhookEvent } from '../webhooks/dispatcher.js'
+import { publishUserEvent } from './eventStream.js'
+
+export type VaultEventSubject = Pick<Vault, 'id' | 'creator'> & { orgId?: string | null }
+
+export type VaultEvent =
+  | { type: 'vault.created'; vault: VaultEventSubject & Partial<Vault> }
+  | { type: 'vault.status_changed'; vault: VaultEventSubject; status: VaultStatus; previousStatus: VaultStatus }
+  | { type: 'milestone.validated'; vault: VaultEventSubject; milestone: { milestoneId: string } & Record<string, unknown> }
+
+const emitWebhook = async (...args: Parameters<typeof emitWebhookEvent>): Promise<void> => {
+  try {
+    await emitWebhookEvent(...args)
+  } catch (error) {
+    console.error(`[VaultEvents] Failed to emit ${args[0]} webhooks:`, error)
+  }
+}
+
+/**
+ * Stream a vault lifecycle event to the creator and post it to the webhook
+ * subscriptions of the creator and the vault's organization. Both are best
+ * effort and never fail the operation that produced the event.
+ */
+export const publishVaultEvent = async (event: VaultEvent): Promise<void> => {
+  const { vault } = event
+  const owner = { userId: vault.creator, orgId: vault.orgId ?? null }
+
+  switch (event.type) {
+    case 'vault.created':
+      await emitWebhook('vault.created', owner, { vault })
+      return
+    case 'vault.status_changed': {
+      const data = { vaultId: vault.id, status: event.status, previousStatus: event.previousStatus }
+      publishUserEvent(vault.creator, 'vault.status', data)
+      if (event.status !== 'active') {
+        await emitWebhook(`vault.${event.status}`, owner, data)
+      }
+      return
+    }
+    case 'milestone.validated': {
+      const data = { vaultId: vault.id, ...event.milestone }
+      publishUserEvent(vault.creator, 'milestone.verification', data)
+      await emitWebhook('milestone.validated', owner, data)
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { getMilestoneDisputeStore } from '../disputes/records.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import type { Vault } from '../types/vaults.js'
+import { formatAmount, parseAmount, sumAmounts } from '../utils/amounts.js'
+import { getMilestoneById, getMilestonesByVaultId, listMissedMilestones, settleMilestone } from './milestones.js'
+
+export interface VaultBalances {
+  amount: string
+  released: string
+  redirected: string
+  /** Still held by the vault */
+  remaining: string
+}
+
+/**
+ * A movement of funds out of a vault. `milestoneId` is null for the part of
+ * the vault amount not tied to any milestone, settled when the vault ends.
+ */
+export interface VaultSettlement {
+  vaultId: string
+  milestoneId: string | null
+  outcome: 'released' | 'redirected'
+  amount: string
+  destination: string
+}
+
+export const getVaultBalances = (vault: Vault): VaultBalances => {
+  const amount = parseAmount(vault.amount) ?? 0n
+  const released = parseAmount(vault.releasedAmount ?? '0') ?? 0n
+  const redirected = parseAmount(vault.redirectedAmount ?? '0') ?? 0n
+  const remaining = amount - released - redirected
+
+  return {
+    amount: formatAmount(amount),
+    released: formatAmount(released),
+    redirected: formatAmount(redirected),
+    remaining: formatAmount(remaining > 0n ? remaining : 0n),
+  }
+}
+
+/**
+ * Sum of the amounts of a vault's milestones, in units of 10^-7
+ */
+export const getMilestoneAllocation = async (vaultId: string): Promise<bigint> => {
+  const milestones = await getMilestonesByVaultId(vaultId)
+  return sumAmounts(milestones.flatMap((milestone) => (milestone.amount ? [milestone.amount] : [])))
+}
+
+const moveFunds = async (
+  vault: Vault,
+  milestoneId: string | null,
+  outcome: VaultSettlement['outcome'],
+  amount: string,
+): Promise<VaultSettlement> => {
+  await getVaultRepository().recordSettlement(vault.id, outcome === 'released' ? { released: amount } : { redirected: amount })
+
+  return {
+    vaultId: vault.id,
+    milestoneId,
+    outcome,
+    amount,
+    destination: outcome === 'released' ? vault.successDestination : vault.failureDestination,
+  }
+}
+
+// A disputed rejection may still be overturned, so its amount stays put until the dispute is resolved
+const isHeldByDispute = async (milestoneId: string): Promise<boolean> =>
+  (await getMilestoneDisputeStore().list({ milestoneId, status: 'open' })).length > 0
+
+/**
+ * Release a verified milestone's amount to the vault's success destination.
+ *
+ * @returns Null when the milestone has no amount or its amount already moved
+ */
+export const releaseMilestone = async (vault: Vault, milestoneId: string): Promise<VaultSettlement | null> => {
+  const milestone = await getMilestoneById(milestoneId)
+  if (!milestone?.verified || !milestone.amount || milestone.vaultId !== vault.id) return null
+
+  // Claim the milestone first so concurrent callers cannot release it twice
+  if (!(await settleMilestone(milestone.id, 'released'))) return null
+  return moveFunds(vault, milestone.id, 'released', milestone.amount)
+}
+
+/**
+ * Redirect the amounts of active vaults' milestones that passed their due
+ * date unverified to the vaults' failure destinations. Milestones with an
+ * open dispute are skipped until it is resolved.
+ */
+export const redirectMissedMilestones = async (now = new Date()): Promise<VaultSettlement[]> => {
+  const repository = getVaultRepository()
+  const settlements: VaultSettlement[] = []
+
+  for (const milestone of await listMissedMilestones(now)) {
+    const vault = await repository.getById(milestone.vaultId)
+    if (vault?.status !== 'active' || (await isHeldByDispute(milestone.id))) continue
+    if (!(await settleMilestone(milestone.id, 'redirected'))) continue
+
+    settlements.push(await moveFunds(vault, milestone.id, 'redirected', milestone.amount!))
+  }
+
+  return settlements
+}
+
+/**
+ * Settle everything a vault still holds once it has completed or failed.
+ * Verified milestones are released either way; on failure the amounts of
+ * unverified milestones and any unallocated remainder are redirected.
+ * Milestones with an open dispute keep their amount in the vault; resolving
+ * the dispute settles it. Safe to call again, already moved amounts are skipped.
+ */
+export const settleVault = async (vault: Vault, outcome: 'completed' | 'failed'): Promise<VaultSettlement[]> => {
+  const settlements: VaultSettlement[] = []
+  const held: string[] = []
+
+  for (const milestone of await getMilestonesByVaultId(vault.id)) {
+    if (!milestone.amount || milestone.releaseStatus !== 'pending') continue
+    if (await isHeldByDispute(milestone.id)) {
+      held.push(milestone.amount)
+      continue
+    }
+
+    const milestoneOutcome = outcome === 'completed' || milestone.verified ? 'released' : 'redirected'
+    if (await settleMilestone(milestone.id, milestoneOutcome)) {
+      settlements.push(await moveFunds(vault, milestone.id, milestoneOutcome, milestone.amount))
+    }
+  }
+
+  const current = await getVaultRepository().getById(vault.id)
+  const remaining = (current ? parseAmount(getVaultBalances(current).remaining)! : 0n) - sumAmounts(held)
+  if (remaining > 0n) {
+    settlements.push(
+      await moveFunds(vault, null, outcome === 'completed' ? 'released' : 'redirected', formatAmount(remaining)),
+    )
+  }
+
+  return settlements
+}
@@ -1,5 +1,9 @@
-import { vaults, type Vault } from '../routes/vaults.js'
+import { getVaultRepository } from '../repositories/vaultRepository.js'
+import type { Vault, VaultStatus } from '../types/vaults.js'
+import { notifyUser, type UserNotification } from '../notifications/notify.js'
 import { allMilestonesVerified } from './milestones.js'
+import { publishVaultEvent } from './vaultEvents.js'
+import { settleVault } from './vaultReleases.js'
 
 type TerminalStatus = 'completed' | 'failed' | 'cancelled'
 
@@ -8,23 +12,24 @@ export interface TransitionResult {
   error?: string
 }
 
-const TERMINAL_STATUSES: ReadonlySet<string> = new Set(['completed', 'failed', 'cancelled'])
+export type CancelVaultResult =
+  | { error: 'not_found' | 'already_cancelled' | 'not_cancellable'; currentStatus?: string }
+  | { vault: Vault; previousStatus: VaultStatus }
 
-const findVault = (vaultId: string): Vault | undefined =>
-  vaults.find((v) => v.id === vaultId)
+const TERMINAL_STATUSES: ReadonlySet<string> = new Set(['completed', 'failed', 'cancelled'])
 
-export const getTransitionError = (
+export const getTransitionError = async (
   vault: Vault,
   targetStatus: TerminalStatus,
   requesterId?: string,
-): string | null => {
+): Promise<string | null> => {
   if (TERMINAL_STATUSES.has(vault.status)) {
     return `Vault is already '${vault.status}' and cannot transition`
   }
 
   switch (targetStatus) {
     case 'completed': {
-      if (!allMilestonesVerified(vault.id)) {
+      if (!(await allMilestonesVerified(vault.id))) {
         return 'Cannot complete vault: not all milestones are verified'
       }
       return null
@@ -48,51 +53,106 @@ export const getTransitionError = (
   }
 }
 
-export const completeVault = (vaultId: string): TransitionResult => {
-  const vault = findVault(vaultId)
-  if (!vault) return { success: false, error: 'Vault not found' }
+type CreatorNotification = Pick<UserNotification, 'type' | 'subject' | 'body'>
 
-  const error = getTransitionError(vault, 'completed')
-  if (error) return { success: false, error }
+const vaultFailedNotification = (vault: Vault): CreatorNotification => ({
+  type: 'vault_failed',
+  subject: 'Vault Deadline Reached',
+  body: `Vault ${vault.id} has expired and been marked as failed.`,
+})
 
-  vault.status = 'completed'
-  return { success: true }
+const notifyCreator = async (
+  vault: Vault,
+  notification: CreatorNotification,
+): Promise<void> => {
+  try {
+    await notifyUser({ ...notification, userId: vault.creator, data: { vaultId: vault.id } })
+  } catch (error) {
+    console.error(`[VaultTransitions] Failed to notify creator of vault ${vault.id}:`, error)
+  }
 }
 
-export const failVault = (vaultId: string): TransitionResult => {
-  const vault = findVault(vaultId)
+const publishStatusChange = (vault: Vault, previousStatus: VaultStatus): Promise<void> =>
+  publishVaultEvent({ type: 'vault.status_changed', vault, status: vault.status, previousStatus })
+
+const transition = async (
+  vaultId: string,
+  targetStatus: TerminalStatus,
+  requesterId?: string,
+): Promise<TransitionResult> => {
+  const repository = getVaultRepository()
+  const vault = await repository.getById(vaultId)
   if (!vault) return { success: false, error: 'Vault not found' }
 
-  const error = getTransitionError(vault, 'failed')
+  const error = await getTransitionError(vault, targetStatus, requesterId)
   if (error) return { success: false, error }
 
-  vault.status = 'failed'
-  return { success: true }
-}
+  // Guard on the status we validated so a concurrent transition cannot be overwritten
+  const updated = await repository.updateStatus(vaultId, targetStatus, [vault.status])
+  if (!updated) return { success: false, error: 'Vault status changed concurrently' }
 
-export const cancelVault = (vaultId: string, requesterId: string): TransitionResult => {
-  const vault = findVault(vaultId)
-  if (!vault) return { success: false, error: 'Vault not found' }
+  if (targetStatus !== 'cancelled') {
+    await settleVault(updated, targetStatus)
+  }
 
-  const error = getTransitionError(vault, 'cancelled', requesterId)
-  if (error) return { success: false, error }
+  await publishStatusChange(updated, vault.status)
+
+  if (targetStatus === 'completed') {
+    await notifyCreator(updated, {
+      type: 'vault_completed',
+      subject: 'Vault Completed',
+      body: `Vault ${updated.id} has been completed.`,
+    })
+  } else if (targetStatus === 'failed') {
+    await notifyCreator(updated, vaultFailedNotification(updated))
+  }
 
-  vault.status = 'cancelled'
   return { success: true }
 }
 
-export const checkExpiredVaults = (): string[] => {
-  const now = new Date()
-  const failed: string[] = []
+export const completeVault = (vaultId: string): Promise<TransitionResult> => transition(vaultId, 'completed')
 
-  for (const vault of vaults) {
-    if (vault.status !== 'active') continue
-    const end = new Date(vault.endTimestamp)
-    if (end <= now) {
-      vault.status = 'failed'
-      failed.push(vault.id)
-    }
+export const failVault = (vaultId: string): Promise<TransitionResult> => transition(vaultId, 'failed')
+
+export const cancelVault = (vaultId: string, requesterId: string): Promise<TransitionResult> =>
+  transition(vaultId, 'cancelled', requesterId)
+
+/**
+ * Cancel a vault without the creator check (admin override).
+ * Only active vaults can be cancelled.
+ */
+export const cancelVaultById = async (vaultId: string): Promise<CancelVaultResult> => {
+  const repository = getVaultRepository()
+  const vault = await repository.getById(vaultId)
+  if (!vault) return { error: 'not_found' }
+  if (vault.status === 'cancelled') return { error: 'already_cancelled', currentStatus: 'cancelled' }
+  if (vault.status !== 'active') return { error: 'not_cancellable', currentStatus: vault.status }
+
+  const updated = await repository.updateStatus(vaultId, 'cancelled', ['active'])
+  if (!updated) {
+    const current = await repository.getById(vaultId)
+    return { error: 'not_cancellable', currentStatus: current?.status }
+  }
+
+  await publishStatusChange(updated, vault.status)
+
+  return { vault: updated, previousStatus: vault.status }
+}
+
+/**
+ * Fail every active vault past its end timestamp, redirect what they still
+ * hold and notify the creators.
+ *
+ * @returns Ids of the vaults that were failed
+ */
+export const checkExpiredVaults = async (): Promise<string[]> => {
+  const expired = await getVaultRepository().failExpired(new Date())
+
+  for (const vault of expired) {
+    await settleVault(vault, 'failed')
+    await publishStatusChange(vault, 'active')
+    await notifyCreator(vault, vaultFailedNotification(vault))
   }
 
-  return failed
+  return expired.map((vault) => vault.id)
 }
@@ -1,4 +1,6 @@
 import { db } from '../db/knex.js'
+import { getVerifierDisputeStats } from '../disputes/service.js'
+import { countMilestoneDecisionsBy } from './milestones.js'
 
 export type VerifierStatus = 'pending' | 'approved' | 'suspended'
 
@@ -82,11 +84,20 @@ export const getVerifierStats = async (userId: string) => {
   const total = Number(totalR?.count ?? 0)
   const approvals = Number(approvalsR?.count ?? 0)
   const rejections = Number(rejectionsR?.count ?? 0)
-  const disputes = Number(disputesR?.count ?? 0)
 
   const approvalRatio = total === 0 ? 0 : approvals / total
   const rejectionRatio = total === 0 ? 0 : rejections / total
-  const disputeRate = total === 0 ? 0 : disputes / total
+
+  // Disputes against this verifier's milestone decisions come from the dispute store
+  const disputeOutcomes = await getVerifierDisputeStats(userId)
+  const milestoneDisputes =
+    disputeOutcomes.disputesOpen + disputeOutcomes.disputesUpheld + disputeOutcomes.disputesOverturned
+  const resolvedDisputes = disputeOutcomes.disputesUpheld + disputeOutcomes.disputesOverturned
+  const overturnRate = resolvedDisputes === 0 ? 0 : disputeOutcomes.disputesOverturned / resolvedDisputes
+
+  const disputes = Number(disputesR?.count ?? 0) + milestoneDisputes
+  const decisions = total + (await countMilestoneDecisionsBy(userId))
+  const disputeRate = decisions === 0 ? 0 : disputes / decisions
 
   return {
     totalVerifications: total,
@@ -96,6 +107,8 @@ export const getVerifierStats = async (userId: string) => {
     approvalRatio,
     rejectionRatio,
     disputeRate,
+    ...disputeOutcomes,
+    overturnRate,
   }
 }
 
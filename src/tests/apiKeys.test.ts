@@ -0,0 +1,192 @@
+import { describe, it, beforeEach, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { authenticateApiKey, authenticateUserOrApiKey } from '../middleware/apiKeyAuth.js'
+import { requireUserAuth } from '../middleware/userAuth.js'
+import { parseCreateApiKeyBody } from '../routes/apiKeys.js'
+import {
+  createApiKey,
+  getApiKeyForUser,
+  resetApiKeysTable,
+  resolveApiKeyScope,
+  revokeApiKey,
+  rotateApiKey,
+  toPublicApiKeyRecord,
+  validateApiKey,
+} from '../services/apiKeys.js'
+
+describe('API key store (in-memory)', () => {
+  beforeEach(() => {
+    delete process.env.DATABASE_URL
+    resetApiKeysTable()
+  })
+
+  it('should reject keys past their expiry', async () => {
+    const { apiKey, record } = await createApiKey({
+      userId: 'user-1',
+      label: 'expiring',
+      scopes: ['vaults:read'],
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    })
+
+    expect((await validateApiKey(apiKey)).valid).toBe(true)
+
+    record.expiresAt = new Date(Date.now() - 1000).toISOString()
+    expect(await validateApiKey(apiKey)).toEqual({ valid: false, reason: 'expired' })
+  })
+
+  it('should accept the previous secret only during the rotation grace window', async () => {
+    const { apiKey: originalKey, record } = await createApiKey({ userId: 'user-1', label: 'rotating', scopes: [] })
+
+    const rotated = await rotateApiKey(record.id, 'user-1', 3600)
+    if (!rotated || rotated === 'revoked') {
+      throw new Error('expected rotation to succeed')
+    }
+
+    expect(rotated.apiKey).not.toBe(originalKey)
+    expect(rotated.record.rotatedAt).not.toBeNull()
+    expect((await validateApiKey(rotated.apiKey)).valid).toBe(true)
+    expect((await validateApiKey(originalKey)).valid).toBe(true)
+
+    rotated.record.previousKeyExpiresAt = new Date(Date.now() - 1000).toISOString()
+    expect(await validateApiKey(originalKey)).toEqual({ valid: false, reason: 'invalid' })
+    expect((await validateApiKey(rotated.apiKey)).valid).toBe(true)
+  })
+
+  it('should invalidate the previous secret immediately with a zero grace window', async () => {
+    const { apiKey, record } = await createApiKey({ userId: 'user-1', label: 'rotating', scopes: [] })
+
+    await rotateApiKey(record.id, 'user-1', 0)
+
+    expect(await validateApiKey(apiKey)).toEqual({ valid: false, reason: 'invalid' })
+  })
+
+  it('should treat a key whose id is not a UUID as malformed', async () => {
+    expect(await validateApiKey('dsk_1234.secret')).toEqual({ valid: false, reason: 'malformed' })
+    expect(await getApiKeyForUser('1234', 'user-1')).toBeNull()
+    expect(await revokeApiKey('1234', 'user-1')).toBeNull()
+  })
+
+  it('should not rotate keys owned by another user or already revoked', async () => {
+    const { record } = await createApiKey({ userId: 'user-1', label: 'owned', scopes: [] })
+
+    expect(await rotateApiKey(record.id, 'user-2')).toBeNull()
+
+    await revokeApiKey(record.id, 'user-1')
+    expect(await rotateApiKey(record.id, 'user-1')).toBe('revoked')
+  })
+
+  it('should hide secret hashes from the public record', async () => {
+    const { record } = await createApiKey({ userId: 'user-1', label: 'public', scopes: [] })
+    await rotateApiKey(record.id, 'user-1')
+
+    const publicRecord = toPublicApiKeyRecord(record)
+    expect(publicRecord).not.toHaveProperty('keyHash')
+    expect(publicRecord).not.toHaveProperty('previousKeyHash')
+    expect(publicRecord.previousKeyExpiresAt).not.toBeNull()
+  })
+
+  describe('authenticateApiKey', () => {
+    const app = express()
+    app.get('/protected', authenticateApiKey(['vaults:read']), (req, res) => {
+      res.json({ apiKeyId: req.apiKeyAuth?.apiKeyId })
+    })
+
+    it('should record last-used time and IP on successful authentication', async () => {
+      const { apiKey, record } = await createApiKey({ userId: 'user-1', label: 'usage', scopes: ['vaults:read'] })
+      expect(record.lastUsedAt).toBeNull()
+
+      const response = await request(app).get('/protected').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(200)
+      const stored = await getApiKeyForUser(record.id, 'user-1')
+      expect(stored?.lastUsedAt).not.toBeNull()
+      expect(stored?.lastUsedIp).toEqual(expect.any(String))
+    })
+
+    it('should not record usage for rejected keys', async () => {
+      const { apiKey, record } = await createApiKey({ userId: 'user-1', label: 'usage', scopes: [] })
+
+      const response = await request(app).get('/protected').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(403)
+      expect(record.lastUsedAt).toBeNull()
+    })
+
+    it('should report expired keys', async () => {
+      const { apiKey, record } = await createApiKey({ userId: 'user-1', label: 'usage', scopes: ['vaults:read'] })
+      record.expiresAt = new Date(Date.now() - 1000).toISOString()
+
+      const response = await request(app).get('/protected').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(401)
+      expect(response.body.error).toBe('API key is expired.')
+    })
+  })
+
+  describe('scope catalog', () => {
+    it('should reject unknown scopes at creation', () => {
+      expect(parseCreateApiKeyBody({ label: 'ci', scopes: ['vaults:read', 'vaults:delete', 'admin'] })).toEqual({
+        error: 'Unknown scopes: vaults:delete, admin. See GET /api/api-keys/scopes.',
+      })
+    })
+
+    it('should accept the legacy scope names as aliases', () => {
+      expect(parseCreateApiKeyBody({ label: 'ci', scopes: ['read:vaults', 'read:analytics'] })).toEqual({
+        label: 'ci',
+        scopes: ['vaults:read', 'analytics:read'],
+        expiresAt: undefined,
+      })
+      expect(resolveApiKeyScope('read:vaults')).toBe('vaults:read')
+      expect(resolveApiKeyScope('vaults:delete')).toBeNull()
+    })
+
+    it('should accept catalog scopes', () => {
+      expect(parseCreateApiKeyBody({ label: 'ci', scopes: [' transactions:read ', 'exports:create'] })).toEqual({
+        label: 'ci',
+        scopes: ['transactions:read', 'exports:create'],
+        expiresAt: undefined,
+      })
+    })
+  })
+
+  describe('authenticateUserOrApiKey', () => {
+    const app = express()
+    app.get('/transactions', authenticateUserOrApiKey(['transactions:read'], requireUserAuth), (req, res) => {
+      res.json({ userId: req.authUser?.userId, role: req.user?.role ?? null })
+    })
+
+    it('should fall back to user auth without an API key', async () => {
+      const response = await request(app).get('/transactions').set('x-user-id', 'user-1')
+
+      expect(response.status).toBe(200)
+      expect(response.body).toEqual({ userId: 'user-1', role: null })
+    })
+
+    it('should act as the key owner when the key has the scope', async () => {
+      const { apiKey } = await createApiKey({ userId: 'user-1', label: 'reader', scopes: ['transactions:read'] })
+
+      const response = await request(app).get('/transactions').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(200)
+      expect(response.body).toEqual({ userId: 'user-1', role: 'USER' })
+    })
+
+    it('should reject keys without the scope', async () => {
+      const { apiKey } = await createApiKey({ userId: 'user-1', label: 'vaults', scopes: ['vaults:read'] })
+
+      const response = await request(app).get('/transactions').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should reject organization keys that have no owning user', async () => {
+      const { apiKey } = await createApiKey({ orgId: 'org-1', label: 'org', scopes: ['transactions:read'] })
+
+      const response = await request(app).get('/transactions').set('x-api-key', apiKey)
+
+      expect(response.status).toBe(403)
+      expect(response.body.error).toBe('Organization API keys cannot access user resources.')
+    })
+  })
+})
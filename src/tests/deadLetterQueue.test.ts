@@ -0,0 +1,164 @@
+import { describe, it, beforeEach, expect, jest } from '@jest/globals'
+import type { Knex } from 'knex'
+import { DeadLetterQueue } from '../services/deadLetterQueue.js'
+import type { EventProcessor } from '../services/eventProcessor.js'
+import { ParsedEvent } from '../types/horizonSync.js'
+
+const milestoneEvent: ParsedEvent = {
+  eventId: 'tx-dlq:1',
+  transactionHash: 'tx-dlq',
+  eventIndex: 1,
+  ledgerNumber: 12351,
+  eventType: 'milestone_created',
+  payload: {
+    milestoneId: 'milestone-dlq',
+    vaultId: 'vault-dlq',
+    title: 'Dead letter milestone',
+    targetAmount: '100.0000000',
+    deadline: new Date('2024-06-30T00:00:00Z')
+  }
+}
+
+const failedRow = (id: number, event: ParsedEvent) => ({
+  id,
+  event_id: event.eventId,
+  event_type: event.eventType,
+  ledger_number: String(event.ledgerNumber),
+  event_payload: JSON.parse(JSON.stringify(event)),
+  error_message: 'Vault not found: vault-dlq',
+  retry_count: 3,
+  failed_at: new Date('2024-07-01T00:00:00Z'),
+  created_at: new Date('2024-07-01T00:00:00Z')
+})
+
+const createQueryBuilder = () => ({
+  where: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  whereIn: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  whereILike: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  select: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  orderBy: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  limit: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  offset: jest.fn<(...args: unknown[]) => Promise<unknown>>().mockResolvedValue([]),
+  count: jest.fn<(...args: unknown[]) => unknown>().mockReturnThis(),
+  first: jest.fn<(...args: unknown[]) => Promise<unknown>>().mockResolvedValue(undefined),
+  delete: jest.fn<(...args: unknown[]) => Promise<number>>().mockResolvedValue(1)
+})
+
+const createEventProcessor = () => ({
+  processEvent: jest
+    .fn<EventProcessor['processEvent']>()
+    .mockResolvedValue({ success: true, eventId: milestoneEvent.eventId })
+})
+
+describe('DeadLetterQueue', () => {
+  let mockQueryBuilder: ReturnType<typeof createQueryBuilder>
+  let mockEventProcessor: ReturnType<typeof createEventProcessor>
+  let deadLetterQueue: DeadLetterQueue
+
+  beforeEach(() => {
+    mockQueryBuilder = createQueryBuilder()
+    const mockDb = jest.fn<(...args: unknown[]) => unknown>().mockReturnValue(mockQueryBuilder)
+    mockEventProcessor = createEventProcessor()
+    deadLetterQueue = new DeadLetterQueue(
+      mockDb as unknown as Knex,
+      mockEventProcessor as unknown as EventProcessor
+    )
+  })
+
+  it('should decode a failed_events row', async () => {
+    mockQueryBuilder.first.mockResolvedValueOnce(failedRow(7, milestoneEvent))
+
+    const entry = await deadLetterQueue.get(7)
+
+    expect(entry).toMatchObject({
+      id: 7,
+      eventId: 'tx-dlq:1',
+      eventType: 'milestone_created',
+      ledgerNumber: 12351,
+      errorMessage: 'Vault not found: vault-dlq',
+      retryCount: 3
+    })
+    expect(entry?.eventPayload.payload).toMatchObject({ milestoneId: 'milestone-dlq' })
+  })
+
+  it('should retry through EventProcessor.processEvent and remove the entry on success', async () => {
+    mockQueryBuilder.first.mockResolvedValueOnce(failedRow(7, milestoneEvent))
+
+    const result = await deadLetterQueue.retry(7)
+
+    expect(mockEventProcessor.processEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: 'tx-dlq:1', eventType: 'milestone_created' })
+    )
+    expect(result).toEqual({ id: 7, eventId: 'tx-dlq:1', success: true, error: undefined })
+    expect(mockQueryBuilder.delete).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep the entry when the retry fails', async () => {
+    mockQueryBuilder.first.mockResolvedValueOnce(failedRow(7, milestoneEvent))
+    mockEventProcessor.processEvent.mockResolvedValueOnce({
+      success: false,
+      eventId: milestoneEvent.eventId,
+      error: 'Vault not found: vault-dlq'
+    })
+
+    const result = await deadLetterQueue.retry(7)
+
+    expect(result).toMatchObject({ success: false, error: 'Vault not found: vault-dlq' })
+    expect(mockQueryBuilder.delete).not.toHaveBeenCalled()
+  })
+
+  it('should return null when retrying a missing entry', async () => {
+    expect(await deadLetterQueue.retry(404)).toBeNull()
+    expect(mockEventProcessor.processEvent).not.toHaveBeenCalled()
+  })
+
+  it('should retry many entries in ledger order', async () => {
+    const vaultEvent: ParsedEvent = { ...milestoneEvent, eventId: 'tx-dlq:0', eventType: 'vault_created', ledgerNumber: 12350 }
+    mockQueryBuilder.orderBy.mockReturnValueOnce(Promise.resolve([{ id: 9 }, { id: 7 }]))
+    mockQueryBuilder.first
+      .mockResolvedValueOnce(failedRow(9, vaultEvent))
+      .mockResolvedValueOnce(failedRow(7, milestoneEvent))
+
+    const results = await deadLetterQueue.retryMany([7, 9])
+
+    expect(mockQueryBuilder.whereIn).toHaveBeenCalledWith('id', [7, 9])
+    expect(results.map((result) => result.id)).toEqual([9, 7])
+    expect(mockEventProcessor.processEvent.mock.calls.map(([event]) => event.eventId))
+      .toEqual(['tx-dlq:0', 'tx-dlq:1'])
+  })
+
+  it('should discard an entry without processing it', async () => {
+    mockQueryBuilder.first.mockResolvedValueOnce(failedRow(7, milestoneEvent))
+
+    const entry = await deadLetterQueue.discard(7)
+
+    expect(entry?.eventId).toBe('tx-dlq:1')
+    expect(mockQueryBuilder.delete).toHaveBeenCalledTimes(1)
+    expect(mockEventProcessor.processEvent).not.toHaveBeenCalled()
+  })
+
+  it('should apply filters and pagination when listing', async () => {
+    mockQueryBuilder.first.mockResolvedValueOnce({ count: '21' })
+    mockQueryBuilder.offset.mockResolvedValueOnce([failedRow(7, milestoneEvent)])
+
+    const result = await deadLetterQueue.list(
+      { eventType: 'milestone_created', ledgerFrom: 12000, ledgerTo: 13000, error: 'vault not found' },
+      { page: 2, pageSize: 10 }
+    )
+
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith('event_type', 'milestone_created')
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith('ledger_number', '>=', 12000)
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith('ledger_number', '<=', 13000)
+    expect(mockQueryBuilder.whereILike).toHaveBeenCalledWith('error_message', '%vault not found%')
+    expect(mockQueryBuilder.offset).toHaveBeenCalledWith(10)
+    expect(result.data).toHaveLength(1)
+    expect(result.pagination).toEqual({
+      page: 2,
+      pageSize: 10,
+      total: 21,
+      totalPages: 3,
+      hasNext: true,
+      hasPrev: true
+    })
+  })
+})
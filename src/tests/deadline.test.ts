@@ -1,64 +1,63 @@
-import { jest, beforeAll, describe, it, expect } from '@jest/globals'
+import { jest, beforeAll, beforeEach, describe, it, expect } from '@jest/globals'
 
-// Mock database
-const mockDb = {
-  insert: jest.fn<any>().mockReturnThis(),
-  returning: jest.fn<any>().mockReturnThis(),
-  where: jest.fn<any>().mockReturnThis(),
-  andWhere: jest.fn<any>().mockReturnThis(),
-  whereIn: jest.fn<any>().mockReturnThis(),
-  update: jest.fn<any>().mockReturnThis(),
-  select: jest.fn<any>().mockReturnThis(),
-  orderBy: jest.fn<any>().mockReturnThis(),
-  first: jest.fn<any>().mockResolvedValue({}),
-}
-
-jest.unstable_mockModule('../db/index.js', () => ({
-  default: jest.fn<any>(() => mockDb),
-}))
-
-// We need to mock NotificationService too
+// We need to mock NotificationService
 const mockNotificationService = {
-  createNotification: jest.fn<any>().mockResolvedValue({}),
+  createNotification: jest.fn<(...args: unknown[]) => Promise<unknown>>().mockResolvedValue({}),
 }
 jest.unstable_mockModule('../services/notification.js', () => mockNotificationService)
 
-let markVaultExpiries: any
+let checkExpiredVaults: typeof import('../services/vaultTransitions.js').checkExpiredVaults
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
 
 beforeAll(async () => {
-  const vaultModule = await import('../services/vault.js')
-  markVaultExpiries = vaultModule.markVaultExpiries
+  const transitions = await import('../services/vaultTransitions.js')
+  checkExpiredVaults = transitions.checkExpiredVaults
 })
 
+beforeEach(async () => {
+  const { InMemoryVaultRepository, setVaultRepository } = await import('../repositories/vaultRepository.js')
+  repository = new InMemoryVaultRepository()
+  setVaultRepository(repository)
+  mockNotificationService.createNotification.mockClear()
+})
+
+const baseVault = {
+  amount: '100',
+  successDestination: 'addr-success',
+  failureDestination: 'addr-fail',
+}
+
 describe('Deadline Monitoring', () => {
   it('should mark active vaults past deadline as failed', async () => {
-    const expiredVault = {
+    await repository.create({
+      ...baseVault,
       id: 'vault-expired',
       creator: 'user-1',
-      status: 'active',
-      end_timestamp: '2020-01-01T00:00:00.000Z'
-    }
-    
-    mockDb.select.mockResolvedValueOnce([expiredVault])
-    mockDb.whereIn.mockReturnThis()
-    mockDb.update.mockResolvedValueOnce(1)
-    
-    const count = await markVaultExpiries()
-    
-    expect(count).toBe(1)
-    expect(mockDb.update).toHaveBeenCalledWith({ status: 'failed' })
+      endTimestamp: '2020-01-01T00:00:00.000Z',
+    })
+
+    const expired = await checkExpiredVaults()
+
+    expect(expired).toEqual(['vault-expired'])
+    expect((await repository.getById('vault-expired'))?.status).toBe('failed')
     expect(mockNotificationService.createNotification).toHaveBeenCalledWith(expect.objectContaining({
       user_id: 'user-1',
-      type: 'vault_failure'
+      type: 'vault_failed'
     }))
   })
 
-  it('should return 0 if no vaults are expired', async () => {
-    mockDb.select.mockResolvedValueOnce([])
-    
-    const count = await markVaultExpiries()
-    
-    expect(count).toBe(0)
-    expect(mockDb.update).not.toHaveBeenCalled()
+  it('should return nothing if no vaults are expired', async () => {
+    await repository.create({
+      ...baseVault,
+      id: 'vault-future',
+      creator: 'user-1',
+      endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    })
+
+    const expired = await checkExpiredVaults()
+
+    expect(expired).toHaveLength(0)
+    expect((await repository.getById('vault-future'))?.status).toBe('active')
+    expect(mockNotificationService.createNotification).not.toHaveBeenCalled()
   })
 })
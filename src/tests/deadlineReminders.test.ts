@@ -0,0 +1,153 @@
+import { jest, beforeAll, beforeEach, afterAll, describe, it, expect } from '@jest/globals'
+import type { NotificationJobPayload } from '../jobs/types.js'
+import type { NotifyOptions } from '../notifications/notify.js'
+
+jest.unstable_mockModule('../services/notification.js', () => ({
+  createNotification: jest.fn<() => Promise<unknown>>().mockResolvedValue({}),
+}))
+
+type Reminders = typeof import('../notifications/reminders.js')
+
+let reminders: Reminders
+let milestones: typeof import('../services/milestones.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+let setNotificationEnqueuer: typeof import('../notifications/notify.js').setNotificationEnqueuer
+
+const enqueued: { payload: NotificationJobPayload; options: NotifyOptions }[] = []
+const enqueue = jest.fn(async (payload: NotificationJobPayload, options: NotifyOptions) => {
+  enqueued.push({ payload, options })
+})
+
+const HOUR = 3_600_000
+const now = new Date('2026-03-01T12:00:00.000Z')
+const at = (offsetMs: number) => new Date(now.getTime() + offsetMs)
+
+const createVault = (id: string, endsInMs: number) =>
+  repository.create({
+    id,
+    creator: 'user-1',
+    amount: '100',
+    endTimestamp: at(endsInMs).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+
+beforeAll(async () => {
+  reminders = await import('../notifications/reminders.js')
+  milestones = await import('../services/milestones.js')
+  ;({ setNotificationEnqueuer } = await import('../notifications/notify.js'))
+  setNotificationEnqueuer(enqueue)
+})
+
+afterAll(() => {
+  setNotificationEnqueuer(null)
+  reminders.setReminderLog(null)
+})
+
+beforeEach(async () => {
+  const { InMemoryVaultRepository, setVaultRepository } = await import('../repositories/vaultRepository.js')
+  const { InMemoryMilestoneRepository, setMilestoneRepository } = await import('../repositories/milestoneRepository.js')
+  repository = new InMemoryVaultRepository()
+  setVaultRepository(repository)
+  setMilestoneRepository(new InMemoryMilestoneRepository())
+  reminders.setReminderLog(new reminders.InMemoryReminderLog())
+  enqueued.length = 0
+  enqueue.mockClear()
+})
+
+describe('parseReminderOffsets', () => {
+  it('orders offsets largest first and skips invalid or duplicate entries', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const offsets = reminders.parseReminderOffsets('1h, 7d,soon,24h,1d,0m')
+
+    expect(offsets.map((offset) => offset.label)).toEqual(['7d', '24h', '1h'])
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
+
+describe('sendDeadlineReminders', () => {
+  const offsets = () => reminders.parseReminderOffsets('7d,24h,1h')
+
+  it('sends each offset once per vault', async () => {
+    await createVault('vault-1', 23 * HOUR)
+
+    expect(await reminders.sendDeadlineReminders(now, offsets())).toBe(1)
+    expect(await reminders.sendDeadlineReminders(at(HOUR), offsets())).toBe(0)
+    expect(await reminders.sendDeadlineReminders(at(22.5 * HOUR), offsets())).toBe(1)
+    expect(await reminders.sendDeadlineReminders(at(22.6 * HOUR), offsets())).toBe(0)
+
+    expect(enqueued.map(({ payload, options }) => [payload.subject, payload.data?.offset, options.dedupeKey])).toEqual([
+      ['Vault ends in 23 hours', '24h', 'vault:vault-1:1440m'],
+      ['Vault ends in 30 minutes', '1h', 'vault:vault-1:60m'],
+    ])
+    expect(enqueued[0].payload).toMatchObject({
+      userId: 'user-1',
+      type: 'vault_deadline_approaching',
+      data: { vaultId: 'vault-1', dueAt: at(23 * HOUR).toISOString() },
+    })
+  })
+
+  it('skips vaults outside the largest offset and vaults that are no longer active', async () => {
+    await createVault('vault-far', 8 * 24 * HOUR)
+    await createVault('vault-done', 2 * HOUR)
+    await repository.updateStatus('vault-done', 'completed')
+
+    expect(await reminders.sendDeadlineReminders(now, offsets())).toBe(0)
+  })
+
+  it('reminds about unverified milestones with a due date', async () => {
+    await createVault('vault-1', 30 * 24 * HOUR)
+    const due = await milestones.createMilestone('vault-1', 'Write chapter one', at(3 * 24 * HOUR).toISOString())
+    const verified = await milestones.createMilestone('vault-1', 'Outline', at(2 * 24 * HOUR).toISOString())
+    await milestones.submitMilestone(verified.id)
+    await milestones.verifyMilestone(verified.id)
+    await milestones.createMilestone('vault-1', 'No deadline')
+
+    expect(await reminders.sendDeadlineReminders(now, offsets())).toBe(1)
+    expect(enqueued[0].payload).toMatchObject({
+      subject: 'Milestone due in 3 days',
+      data: { vaultId: 'vault-1', milestoneId: due.id, offset: '7d' },
+    })
+    expect(enqueued[0].options.dedupeKey).toBe(`milestone:${due.id}:10080m`)
+  })
+
+  it('tries again on the next sweep when enqueueing fails', async () => {
+    await createVault('vault-1', 30 * 60_000)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    enqueue.mockRejectedValueOnce(new Error('queue unavailable'))
+
+    expect(await reminders.sendDeadlineReminders(now, offsets())).toBe(0)
+    expect(await reminders.sendDeadlineReminders(now, offsets())).toBe(1)
+    error.mockRestore()
+  })
+})
+
+describe('deadline.check job', () => {
+  it('fails expired vaults, notifies the creator and sends reminders', async () => {
+    const { defaultJobHandlers } = await import('../jobs/handlers.js')
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {})
+    // The job runs against the real clock
+    const endingIn = (id: string, creator: string, ms: number) =>
+      repository.create({
+        id,
+        creator,
+        amount: '100',
+        endTimestamp: new Date(Date.now() + ms).toISOString(),
+        successDestination: 'addr-success',
+        failureDestination: 'addr-fail',
+      })
+    await endingIn('vault-expired', 'user-1', -HOUR)
+    await endingIn('vault-soon', 'user-2', HOUR / 2)
+
+    await defaultJobHandlers['deadline.check']({ triggerSource: 'scheduler' }, { jobId: 'job-1', attempt: 1 })
+    log.mockRestore()
+
+    expect((await repository.getById('vault-expired'))?.status).toBe('failed')
+    expect(enqueued.map(({ payload }) => [payload.userId, payload.type])).toEqual([
+      ['user-1', 'vault_failed'],
+      ['user-2', 'vault_deadline_approaching'],
+    ])
+  })
+})
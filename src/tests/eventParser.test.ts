@@ -1,4 +1,10 @@
 import { parseHorizonEvent, HorizonEvent } from '../services/eventParser.js'
+import {
+  xdrMilestoneCreatedEvent,
+  xdrMilestoneValidatedEvent,
+  xdrVaultCompletedEvent,
+  xdrVaultCreatedEvent
+} from './fixtures/horizonXdrEvents.js'
 
 describe('eventParser', () => {
   describe('parseHorizonEvent', () => {
@@ -12,7 +18,7 @@ describe('eventParser', () => {
         pagingToken: 'abc123-0',
         topic: ['vault_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'abc123'
@@ -42,7 +48,7 @@ describe('eventParser', () => {
         pagingToken: 'def456-1',
         topic: ['vault_completed'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCompletedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'def456'
@@ -68,7 +74,7 @@ describe('eventParser', () => {
         pagingToken: 'ghi789-2',
         topic: ['milestone_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrMilestoneCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'ghi789'
@@ -95,7 +101,7 @@ describe('eventParser', () => {
         pagingToken: 'jkl012-3',
         topic: ['milestone_validated'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrMilestoneValidatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'jkl012'
@@ -146,7 +152,7 @@ describe('eventParser', () => {
         pagingToken: 'pqr678-5',
         topic: ['vault_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: ''
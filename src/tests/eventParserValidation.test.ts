@@ -1,4 +1,11 @@
 import { parseHorizonEvent, HorizonEvent } from '../services/eventParser.js'
+import {
+  xdrMilestoneCreatedEvent,
+  xdrMilestoneValidatedEvent,
+  xdrVaultCompletedEvent,
+  xdrVaultCreatedEvent,
+  xdrVaultFailedEvent
+} from './fixtures/horizonXdrEvents.js'
 
 describe('eventParser - Payload Validation', () => {
   describe('vault_created validation', () => {
@@ -12,7 +19,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'abc123-0',
         topic: ['vault_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'abc123'
@@ -61,7 +68,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'def456-1',
         topic: ['vault_completed'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCompletedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'def456'
@@ -91,7 +98,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'ghi789-2',
         topic: ['vault_failed'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultFailedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'ghi789'
@@ -121,7 +128,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'jkl012-3',
         topic: ['vault_cancelled'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCompletedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'jkl012'
@@ -153,7 +160,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'mno345-4',
         topic: ['milestone_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrMilestoneCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'mno345'
@@ -197,7 +204,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'pqr678-5',
         topic: ['milestone_validated'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrMilestoneValidatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'pqr678'
@@ -241,7 +248,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'stu901-6',
         topic: ['vault_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrVaultCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'stu901'
@@ -271,7 +278,7 @@ describe('eventParser - Payload Validation', () => {
         pagingToken: 'vwx234-7',
         topic: ['milestone_created'],
         value: {
-          xdr: 'AAAAAgAAAA...'
+          xdr: xdrMilestoneCreatedEvent.value.xdr
         },
         inSuccessfulContractCall: true,
         txHash: 'vwx234'
@@ -0,0 +1,180 @@
+import { describe, it, expect } from '@jest/globals'
+import { parseHorizonEvent } from '../services/eventParser.js'
+import { XdrDecodeError, decodeScVal, decodeTopic } from '../services/scValDecoder.js'
+import {
+  XDR_CREATOR,
+  XDR_EVIDENCE_HASH,
+  XDR_FAILURE_DESTINATION,
+  XDR_SUCCESS_DESTINATION,
+  XDR_VALIDATOR,
+  allXdrEvents,
+  createXdrHorizonEvent,
+  malformedXdrValues,
+  xdrMilestoneCreatedEvent,
+  xdrMilestoneValidatedEvent,
+  xdrTopics,
+  xdrVaultCancelledEvent,
+  xdrVaultCreatedEvent,
+  xdrVaultFailedEvent
+} from './fixtures/horizonXdrEvents.js'
+
+describe('eventParser - XDR decoding', () => {
+  describe('well-formed events', () => {
+    it('should decode every fixture event successfully', () => {
+      for (const rawEvent of allXdrEvents) {
+        const result = parseHorizonEvent(rawEvent)
+        expect(result.success).toBe(true)
+      }
+    })
+
+    it('should decode vault_created fields from the ScMap value', () => {
+      const result = parseHorizonEvent(xdrVaultCreatedEvent)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.event.eventType).toBe('vault_created')
+        expect(result.event.eventId).toBe('a1b2c3d4e5f6:0')
+        expect(result.event.payload).toEqual({
+          vaultId: 'vault-xdr-001',
+          creator: XDR_CREATOR,
+          amount: '1000.0000000',
+          startTimestamp: new Date('2024-01-01T00:00:00Z'),
+          endTimestamp: new Date('2024-12-31T23:59:59Z'),
+          successDestination: XDR_SUCCESS_DESTINATION,
+          failureDestination: XDR_FAILURE_DESTINATION,
+          status: 'active'
+        })
+      }
+    })
+
+    it('should derive vault status from the event topic', () => {
+      const result = parseHorizonEvent(xdrVaultFailedEvent)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.event.payload).toEqual({ vaultId: 'vault-xdr-002', status: 'failed' })
+      }
+    })
+
+    it('should fall back to topic[1] for the entity id', () => {
+      const result = parseHorizonEvent(xdrVaultCancelledEvent)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.event.payload).toEqual({ vaultId: 'vault-xdr-003', status: 'cancelled' })
+      }
+    })
+
+    it('should decode milestone_created fields', () => {
+      const result = parseHorizonEvent(xdrMilestoneCreatedEvent)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.event.payload).toEqual({
+          milestoneId: 'milestone-xdr-001',
+          vaultId: 'vault-xdr-001',
+          title: 'First Milestone',
+          description: 'Complete the first task',
+          targetAmount: '500.0000000',
+          deadline: new Date('2024-06-30T23:59:59Z')
+        })
+      }
+    })
+
+    it('should decode milestone_validated fields with a hex evidence hash', () => {
+      const result = parseHorizonEvent(xdrMilestoneValidatedEvent)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.event.payload).toEqual({
+          validationId: 'validation-xdr-001',
+          milestoneId: 'milestone-xdr-001',
+          validatorAddress: XDR_VALIDATOR,
+          validationResult: 'approved',
+          evidenceHash: XDR_EVIDENCE_HASH,
+          validatedAt: new Date('2024-03-15T10:30:00Z')
+        })
+      }
+    })
+
+    it('should accept plain string topics for backwards compatibility', () => {
+      expect(decodeTopic('vault_created', 'topic[0]')).toBe('vault_created')
+      expect(decodeTopic(xdrTopics.vault_created, 'topic[0]')).toBe('vault_created')
+    })
+
+    it('should keep plain string topics that happen to be valid base64', () => {
+      expect(decodeTopic('test', 'topic[0]')).toBe('test')
+      expect(decodeTopic('deadline', 'topic[1]')).toBe('deadline')
+    })
+  })
+
+  describe('malformed events', () => {
+    const withValue = (topic: string, valueXdr: string) =>
+      createXdrHorizonEvent('f6a1b2c3d4e5', 0, 50100, [topic], valueXdr)
+
+    it('should report a missing required field', () => {
+      const result = parseHorizonEvent(
+        withValue(xdrTopics.vault_created, malformedXdrValues.vaultCreatedMissingCreator)
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Missing required field: creator')
+        expect(result.details).toMatchObject({ code: 'missing_field', field: 'creator' })
+      }
+    })
+
+    it('should report a field with an unexpected ScVal type', () => {
+      const result = parseHorizonEvent(
+        withValue(xdrTopics.vault_created, malformedXdrValues.vaultCreatedStringAmount)
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.details).toMatchObject({ code: 'unexpected_type', field: 'amount' })
+      }
+    })
+
+    it('should report a value that is not an ScMap', () => {
+      const result = parseHorizonEvent(withValue(xdrTopics.vault_completed, malformedXdrValues.notAMap))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.details).toMatchObject({ code: 'unexpected_type', field: 'value' })
+      }
+    })
+
+    it('should report truncated XDR', () => {
+      const result = parseHorizonEvent(withValue(xdrTopics.vault_completed, malformedXdrValues.truncated))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.details).toMatchObject({ code: 'invalid_xdr', field: 'value' })
+      }
+    })
+
+    it('should report non-base64 values', () => {
+      const result = parseHorizonEvent(withValue(xdrTopics.vault_completed, malformedXdrValues.notBase64))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.details).toMatchObject({ code: 'invalid_base64', field: 'value' })
+      }
+    })
+
+    it('should reject decoded payloads that fail validation', () => {
+      const result = parseHorizonEvent(
+        withValue(xdrTopics.milestone_validated, malformedXdrValues.validationUnknownResult)
+      )
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Failed to parse payload for event type: milestone_validated')
+      }
+    })
+
+    it('should throw XdrDecodeError from the low-level decoder', () => {
+      expect(() => decodeScVal(malformedXdrValues.truncated, 'value')).toThrow(XdrDecodeError)
+    })
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, it, beforeAll, afterAll, beforeEach, expect } from '@jest/globals'
+import express from 'express'
+import { get, type IncomingMessage, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+type EventStreamModule = typeof import('../services/eventStream.js')
+
+let eventStream: EventStreamModule
+let stream: InstanceType<EventStreamModule['UserEventStream']>
+let server: Server
+
+interface Connection {
+  response: IncomingMessage
+  /** Resolves with everything received once `predicate` holds */
+  waitFor(predicate: (body: string) => boolean): Promise<string>
+  close(): void
+}
+
+const connect = (userId: string, headers: Record<string, string> = {}): Promise<Connection> =>
+  new Promise((resolve, reject) => {
+    const port = (server.address() as AddressInfo).port
+    const request = get(
+      {
+        host: '127.0.0.1',
+        port,
+        path: '/api/events/stream',
+        headers: { Authorization: bearer(userId), ...headers },
+      },
+      (response) => {
+        let body = ''
+        const waiters: { predicate: (body: string) => boolean; resolve: (body: string) => void }[] = []
+        response.setEncoding('utf8')
+        response.on('data', (chunk: string) => {
+          body += chunk
+          for (const waiter of [...waiters]) {
+            if (waiter.predicate(body)) {
+              waiters.splice(waiters.indexOf(waiter), 1)
+              waiter.resolve(body)
+            }
+          }
+        })
+        resolve({
+          response,
+          waitFor: (predicate) =>
+            predicate(body) ? Promise.resolve(body) : new Promise((done) => waiters.push({ predicate, resolve: done })),
+          close: () => request.destroy(),
+        })
+      },
+    )
+    request.on('error', reject)
+  })
+
+const waitForUnsubscribe = async (): Promise<void> => {
+  while (stream.subscriberCount() > 0) {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+beforeAll(async () => {
+  eventStream = await import('../services/eventStream.js')
+  const { createEventsRouter } = await import('../routes/events.js')
+
+  stream = new eventStream.UserEventStream(3)
+  eventStream.setUserEventStream(stream)
+
+  const app = express()
+  app.use('/api/events', createEventsRouter(stream, { heartbeatMs: 50, retryMs: 1_000 }))
+  server = app.listen(0, '127.0.0.1')
+  await new Promise((resolve) => server.once('listening', resolve))
+})
+
+afterAll(async () => {
+  eventStream.setUserEventStream(null)
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('UserEventStream', () => {
+  it('replays only the user\'s events after the given id', () => {
+    const local = new eventStream.UserEventStream()
+    const first = local.publish('user-1', 'notification', { n: 1 })
+    local.publish('user-2', 'notification', { n: 2 })
+    const third = local.publish('user-1', 'vault.status', { n: 3 })
+
+    expect(local.eventsSince('user-1', first.id)).toEqual([third])
+    expect(local.eventsSince('user-1', third.id)).toEqual([])
+  })
+
+  it('cannot resume from an id that left the history or came from another stream', () => {
+    const local = new eventStream.UserEventStream(2)
+    const first = local.publish('user-1', 'notification', {})
+    const second = local.publish('user-1', 'notification', {})
+    local.publish('user-1', 'notification', {})
+    local.publish('user-1', 'notification', {})
+
+    expect(local.eventsSince('user-1', first.id)).toBeNull()
+    expect(local.eventsSince('user-1', second.id)).toHaveLength(2)
+    expect(local.eventsSince('user-1', 'abc-1')).toBeNull()
+    expect(local.eventsSince('user-1', 'garbage')).toBeNull()
+  })
+})
+
+describe('GET /api/events/stream', () => {
+  beforeEach(async () => {
+    await waitForUnsubscribe()
+  })
+
+  it('requires authentication', async () => {
+    const port = (server.address() as AddressInfo).port
+    const status = await new Promise<number | undefined>((resolve) => {
+      get({ host: '127.0.0.1', port, path: '/api/events/stream' }, (response) => {
+        response.resume()
+        resolve(response.statusCode)
+      })
+    })
+    expect(status).toBe(401)
+  })
+
+  it('pushes the user\'s events and heartbeats', async () => {
+    const connection = await connect('user-1')
+    expect(connection.response.headers['content-type']).toContain('text/event-stream')
+    await connection.waitFor((body) => body.includes('retry: 1000'))
+
+    stream.publish('user-2', 'notification', { title: 'not yours' })
+    const event = stream.publish('user-1', 'vault.status', { vaultId: 'v-1', status: 'completed' })
+
+    const body = await connection.waitFor((received) => received.includes(event.id) && received.includes(': heartbeat'))
+    connection.close()
+
+    expect(body).toContain(`id: ${event.id}\nevent: vault.status\ndata: {"vaultId":"v-1","status":"completed"`)
+    expect(body).not.toContain('not yours')
+  })
+
+  it('resumes after Last-Event-ID and asks for a resync when it is too old', async () => {
+    const seen = stream.publish('user-1', 'notification', { n: 'seen' })
+    const missed = stream.publish('user-1', 'notification', { n: 'missed' })
+
+    const resumed = await connect('user-1', { 'Last-Event-ID': seen.id })
+    const body = await resumed.waitFor((received) => received.includes(missed.id))
+    resumed.close()
+    expect(body).not.toContain(`id: ${seen.id}\n`)
+
+    // The history holds three events, so `missed` is pushed out
+    for (let i = 0; i < 3; i++) {
+      stream.publish('user-1', 'notification', {})
+    }
+    const stale = await connect('user-1', { 'Last-Event-ID': seen.id })
+    expect(await stale.waitFor((received) => received.includes('event: resync'))).toContain('event: resync')
+    stale.close()
+  })
+
+  it('streams vault transitions and new notifications', async () => {
+    const { InMemoryVaultRepository, setVaultRepository } = await import('../repositories/vaultRepository.js')
+    const { InMemoryNotificationRepository, setNotificationRepository } = await import(
+      '../repositories/notificationRepository.js'
+    )
+    const { cancelVault } = await import('../services/vaultTransitions.js')
+    const { createNotification } = await import('../services/notification.js')
+
+    const vaults = new InMemoryVaultRepository()
+    setVaultRepository(vaults)
+    setNotificationRepository(new InMemoryNotificationRepository())
+    const vault = await vaults.create({
+      creator: 'user-3',
+      amount: '100',
+      endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+      successDestination: 'addr-success',
+      failureDestination: 'addr-fail',
+    })
+
+    const connection = await connect('user-3')
+    await connection.waitFor((body) => body.includes('retry:'))
+
+    expect((await cancelVault(vault.id, 'user-3')).success).toBe(true)
+    await createNotification({ user_id: 'user-3', type: 'vault_completed', title: 'Hello', message: 'World' })
+
+    const body = await connection.waitFor((received) => received.includes('event: notification'))
+    connection.close()
+    setVaultRepository(null)
+    setNotificationRepository(null)
+
+    expect(body).toContain(`event: vault.status\ndata: {"vaultId":"${vault.id}","status":"cancelled","previousStatus":"active"`)
+    expect(body).toContain('"title":"Hello"')
+  })
+})
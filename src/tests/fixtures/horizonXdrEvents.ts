@@ -0,0 +1,132 @@
+import type { HorizonEvent } from '../../services/eventParser.js'
+
+/**
+ * Raw Soroban contract event fixtures with real ScVal XDR encoding.
+ * Topics and values were produced with `nativeToScVal` from @stellar/stellar-sdk,
+ * so parser tests can run fully offline against real-shaped data.
+ *
+ * Layout of every event:
+ * - topic[0]: event name as an ScSymbol
+ * - topic[1] (optional): primary entity id as an ScString
+ * - value: ScMap keyed by snake_case ScSymbols
+ */
+
+export const XDR_CONTRACT_ID = 'CAEQSCIJBEEQSCIJBEEQSCIJBEEQSCIJBEEQSCIJBEEQSCIJBEEQTD2L'
+export const XDR_CREATOR = 'GCFIRY65OQE7DFP5KLNS2PF2LVZMUZYJX4OZIEQ36N2IQANUB5XVYOJR'
+export const XDR_SUCCESS_DESTINATION = 'GCATS5YOVB6ROX2WUNKGNQ2MP3GMXDMKSG2O4N5CLX3A6W4PZGZZI55U'
+export const XDR_FAILURE_DESTINATION = 'GDWUSKGGFDI4FRXK5EBTRECZSVQSSWJHHJOGH6JWG3AUMFFMQ435DIAG'
+export const XDR_VALIDATOR = 'GDFJHLAXAUMHA4OWPOB4P7YO72AQR2HMIUYFOXLXE2DZGM633K7HZDQP'
+
+// Base64 ScSymbol topics
+export const xdrTopics = {
+  vault_created: 'AAAADwAAAA12YXVsdF9jcmVhdGVkAAAA',
+  vault_completed: 'AAAADwAAAA92YXVsdF9jb21wbGV0ZWQA',
+  vault_failed: 'AAAADwAAAAx2YXVsdF9mYWlsZWQ=',
+  vault_cancelled: 'AAAADwAAAA92YXVsdF9jYW5jZWxsZWQA',
+  milestone_created: 'AAAADwAAABFtaWxlc3RvbmVfY3JlYXRlZAAAAA==',
+  milestone_validated: 'AAAADwAAABNtaWxlc3RvbmVfdmFsaWRhdGVkAA==',
+}
+
+/**
+ * Builds a raw contract event around the given topics and value XDR
+ */
+export function createXdrHorizonEvent(
+  txHash: string,
+  eventIndex: number,
+  ledger: number,
+  topic: string[],
+  valueXdr: string
+): HorizonEvent {
+  return {
+    type: 'contract',
+    ledger,
+    ledgerClosedAt: '2024-03-15T10:30:00Z',
+    contractId: XDR_CONTRACT_ID,
+    id: `${txHash}-${eventIndex}`,
+    pagingToken: `${txHash}-${eventIndex}`,
+    topic,
+    value: { xdr: valueXdr },
+    inSuccessfulContractCall: true,
+    txHash
+  }
+}
+
+// vault_created: amount 1000.0000000 (10000000000 stroops), 2024-01-01T00:00:00Z → 2024-12-31T23:59:59Z
+export const xdrVaultCreatedEvent = createXdrHorizonEvent(
+  'a1b2c3d4e5f6',
+  0,
+  50001,
+  [xdrTopics.vault_created],
+  'AAAAEQAAAAEAAAAHAAAADwAAAAZhbW91bnQAAAAAAAoAAAAAAAAAAAAAAAJUC+QAAAAADwAAAAdjcmVhdG9yAAAAABIAAAAAAAAAAIqI4910CfGV/VLbLTy6XXLKZwm/HZQSG/N0iAG0D29cAAAADwAAAA1lbmRfdGltZXN0YW1wAAAAAAAABQAAAABndIV/AAAADwAAABNmYWlsdXJlX2Rlc3RpbmF0aW9uAAAAABIAAAAAAAAAAO1JKMYo0cLG6ukDOJBZlWEpWSc6XGP5NjbBRhSshzfRAAAADwAAAA9zdGFydF90aW1lc3RhbXAAAAAABQAAAABlkgCAAAAADwAAABNzdWNjZXNzX2Rlc3RpbmF0aW9uAAAAABIAAAAAAAAAAIE5dw6ofRdfVqNUZsNMfszLjYqRtO43ol32D1uPybOUAAAADwAAAAh2YXVsdF9pZAAAAA4AAAANdmF1bHQteGRyLTAwMQAAAA=='
+)
+
+export const xdrVaultCompletedEvent = createXdrHorizonEvent(
+  'a1b2c3d4e5f6',
+  1,
+  50002,
+  [xdrTopics.vault_completed],
+  'AAAAEQAAAAEAAAABAAAADwAAAAh2YXVsdF9pZAAAAA4AAAANdmF1bHQteGRyLTAwMQAAAA=='
+)
+
+export const xdrVaultFailedEvent = createXdrHorizonEvent(
+  'b2c3d4e5f6a1',
+  0,
+  50003,
+  [xdrTopics.vault_failed],
+  'AAAAEQAAAAEAAAABAAAADwAAAAh2YXVsdF9pZAAAAA4AAAANdmF1bHQteGRyLTAwMgAAAA=='
+)
+
+// vault_cancelled with an empty value map; the vault id is carried in topic[1]
+export const xdrVaultCancelledEvent = createXdrHorizonEvent(
+  'c3d4e5f6a1b2',
+  0,
+  50004,
+  [xdrTopics.vault_cancelled, 'AAAADgAAAA12YXVsdC14ZHItMDAzAAAA'],
+  'AAAAEQAAAAEAAAAA'
+)
+
+// milestone_created: target 500.0000000, deadline 2024-06-30T23:59:59Z
+export const xdrMilestoneCreatedEvent = createXdrHorizonEvent(
+  'd4e5f6a1b2c3',
+  0,
+  50005,
+  [xdrTopics.milestone_created],
+  'AAAAEQAAAAEAAAAGAAAADwAAAAhkZWFkbGluZQAAAAUAAAAAZoHxfwAAAA8AAAALZGVzY3JpcHRpb24AAAAADgAAABdDb21wbGV0ZSB0aGUgZmlyc3QgdGFzawAAAAAPAAAADG1pbGVzdG9uZV9pZAAAAA4AAAARbWlsZXN0b25lLXhkci0wMDEAAAAAAAAPAAAADXRhcmdldF9hbW91bnQAAAAAAAAKAAAAAAAAAAAAAAABKgXyAAAAAA8AAAAFdGl0bGUAAAAAAAAOAAAAD0ZpcnN0IE1pbGVzdG9uZQAAAAAPAAAACHZhdWx0X2lkAAAADgAAAA12YXVsdC14ZHItMDAxAAAA'
+)
+
+// milestone_validated: approved at 2024-03-15T10:30:00Z with a 32-byte evidence hash
+export const xdrMilestoneValidatedEvent = createXdrHorizonEvent(
+  'e5f6a1b2c3d4',
+  0,
+  50006,
+  [xdrTopics.milestone_validated],
+  'AAAAEQAAAAEAAAAGAAAADwAAAA1ldmlkZW5jZV9oYXNoAAAAAAAADQAAACCfhtCBiEx9ZZov6qDFWtAVo79PGysLgizRXWwVsPAKCAAAAA8AAAAMbWlsZXN0b25lX2lkAAAADgAAABFtaWxlc3RvbmUteGRyLTAwMQAAAAAAAA8AAAAGcmVzdWx0AAAAAAAPAAAACGFwcHJvdmVkAAAADwAAAAx2YWxpZGF0ZWRfYXQAAAAFAAAAAGX0IygAAAAPAAAADXZhbGlkYXRpb25faWQAAAAAAAAOAAAAEnZhbGlkYXRpb24teGRyLTAwMQAAAAAADwAAAAl2YWxpZGF0b3IAAAAAAAASAAAAAAAAAADKk6wXBRhwcdZ7g8f/Dv6BCOjsRTBXXXcmh5Mz29q+fA=='
+)
+
+export const XDR_EVIDENCE_HASH = '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+
+// Collection of all well-formed XDR events
+export const allXdrEvents: HorizonEvent[] = [
+  xdrVaultCreatedEvent,
+  xdrVaultCompletedEvent,
+  xdrVaultFailedEvent,
+  xdrVaultCancelledEvent,
+  xdrMilestoneCreatedEvent,
+  xdrMilestoneValidatedEvent
+]
+
+// Malformed values for error-path tests
+export const malformedXdrValues = {
+  // vault_created map without the creator entry
+  vaultCreatedMissingCreator: 'AAAAEQAAAAEAAAAGAAAADwAAAAZhbW91bnQAAAAAAAoAAAAAAAAAAAAAAAJUC+QAAAAADwAAAA1lbmRfdGltZXN0YW1wAAAAAAAABQAAAABndIV/AAAADwAAABNmYWlsdXJlX2Rlc3RpbmF0aW9uAAAAABIAAAAAAAAAAO1JKMYo0cLG6ukDOJBZlWEpWSc6XGP5NjbBRhSshzfRAAAADwAAAA9zdGFydF90aW1lc3RhbXAAAAAABQAAAABlkgCAAAAADwAAABNzdWNjZXNzX2Rlc3RpbmF0aW9uAAAAABIAAAAAAAAAAIE5dw6ofRdfVqNUZsNMfszLjYqRtO43ol32D1uPybOUAAAADwAAAAh2YXVsdF9pZAAAAA4AAAANdmF1bHQteGRyLTAwMwAAAA==',
+  // vault_created map whose amount is an ScString instead of i128
+  vaultCreatedStringAmount: 'AAAAEQAAAAEAAAAHAAAADwAAAAZhbW91bnQAAAAAAA4AAAAEMTAwMAAAAA8AAAAHY3JlYXRvcgAAAAASAAAAAAAAAACKiOPddAnxlf1S2y08ul1yymcJvx2UEhvzdIgBtA9vXAAAAA8AAAANZW5kX3RpbWVzdGFtcAAAAAAAAAUAAAAAZ3SFfwAAAA8AAAATZmFpbHVyZV9kZXN0aW5hdGlvbgAAAAASAAAAAAAAAADtSSjGKNHCxurpAziQWZVhKVknOlxj+TY2wUYUrIc30QAAAA8AAAAPc3RhcnRfdGltZXN0YW1wAAAAAAUAAAAAZZIAgAAAAA8AAAATc3VjY2Vzc19kZXN0aW5hdGlvbgAAAAASAAAAAAAAAACBOXcOqH0XX1ajVGbDTH7My42KkbTuN6Jd9g9bj8mzlAAAAA8AAAAIdmF1bHRfaWQAAAAOAAAADXZhdWx0LXhkci0wMDQAAAA=',
+  // milestone_validated map whose result symbol is not a known outcome
+  validationUnknownResult: 'AAAAEQAAAAEAAAAFAAAADwAAAAxtaWxlc3RvbmVfaWQAAAAOAAAAEW1pbGVzdG9uZS14ZHItMDAxAAAAAAAADwAAAAZyZXN1bHQAAAAAAA8AAAAFbWF5YmUAAAAAAAAPAAAADHZhbGlkYXRlZF9hdAAAAAUAAAAAZfQjKAAAAA8AAAANdmFsaWRhdGlvbl9pZAAAAAAAAA4AAAASdmFsaWRhdGlvbi14ZHItMDAyAAAAAAAPAAAACXZhbGlkYXRvcgAAAAAAABIAAAAAAAAAAMqTrBcFGHBx1nuDx/8O/oEI6OxFMFdddyaHkzPb2r58',
+  // a bare u32 instead of an ScMap
+  notAMap: 'AAAAAwAAACo=',
+  // valid base64 but truncated XDR
+  truncated: 'AAAAEQAAAAEAAAAH',
+  // not base64 at all
+  notBase64: 'AAAAAgAAAA...'
+}
@@ -0,0 +1,39 @@
+import { jest } from '@jest/globals'
+import type { NextFunction, Request, Response } from 'express'
+import jwt from 'jsonwebtoken'
+import type * as session from '../../services/session.js'
+
+/**
+ * Replace the session store so tokens from `bearer` are accepted without a
+ * database. Call at the top of a test file, before the app is imported.
+ */
+export const mockSessions = (): void => {
+  jest.unstable_mockModule('../../services/session.js', () => ({
+    recordSession: jest.fn<typeof session.recordSession>(),
+    validateSession: jest.fn<typeof session.validateSession>().mockResolvedValue(true),
+  }))
+}
+
+/**
+ * Replace the RBAC middleware, which needs the generated Prisma client, with
+ * plain role checks. Call at the top of a test file, before the app is imported.
+ */
+export const mockRbac = (): void => {
+  const requireRole =
+    (...roles: string[]) =>
+    (req: Request, res: Response, next: NextFunction) =>
+      roles.includes(req.user!.role) ? next() : res.status(403).json({ error: 'Forbidden' })
+
+  jest.unstable_mockModule('../../middleware/rbac.js', () => ({
+    requireRole,
+    requireUser: requireRole('USER', 'VERIFIER', 'ADMIN'),
+    requireVerifier: requireRole('VERIFIER', 'ADMIN'),
+    requireAdmin: requireRole('ADMIN'),
+  }))
+}
+
+export const signToken = (userId: string, role = 'USER'): string =>
+  jwt.sign({ userId, role }, process.env.JWT_SECRET ?? 'change-me-in-production')
+
+/** Authorization header value for a user */
+export const bearer = (userId: string, role = 'USER'): string => `Bearer ${signToken(userId, role)}`
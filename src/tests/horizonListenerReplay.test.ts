@@ -0,0 +1,217 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { describe, it, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import type { Knex } from 'knex'
+import type { EventProcessor } from '../services/eventProcessor.js'
+import { HorizonListener } from '../services/horizonListener.js'
+import { ReplayEventSource, loadReplayFile } from '../services/replayEventSource.js'
+import type { EventSource } from '../services/eventSource.js'
+import type { HorizonListenerConfig } from '../config/horizonListener.js'
+import { XDR_CONTRACT_ID, allXdrEvents } from './fixtures/horizonXdrEvents.js'
+
+/**
+ * Minimal knex stand-in that keeps the listener_state row in memory
+ */
+function createListenerStateDb(initialLedger?: number) {
+  const state: { row: Record<string, unknown> | null } = {
+    row: initialLedger ? { service_name: 'horizon_listener', last_processed_ledger: initialLedger } : null
+  }
+
+  const db = jest.fn(() => ({
+    where: () => ({
+      first: async () => state.row,
+      update: async (updates: Record<string, unknown>) => {
+        state.row = { ...state.row, ...updates }
+        return 1
+      }
+    }),
+    insert: (row: Record<string, unknown>) => ({
+      onConflict: () => ({
+        merge: async (updates: Record<string, unknown>) => {
+          state.row = { ...(state.row ?? row), ...updates }
+        }
+      })
+    })
+  })) as unknown as Knex
+
+  return { db, state }
+}
+
+describe('HorizonListener with replay event source', () => {
+  let tempDir: string
+  let replayFile: string
+  let config: HorizonListenerConfig
+  let processedIds: string[]
+  let processEvent: jest.Mock<EventProcessor['processEvent']>
+  let eventProcessor: EventProcessor
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'disciplr-replay-'))
+    replayFile = path.join(tempDir, 'events.jsonl')
+    await writeFile(replayFile, allXdrEvents.map((event) => JSON.stringify(event)).join('\n') + '\n')
+
+    config = {
+      horizonUrl: '',
+      contractAddresses: [XDR_CONTRACT_ID],
+      retryMaxAttempts: 1,
+      retryBackoffMs: 1,
+      shutdownTimeoutMs: 2000,
+      eventSource: 'replay',
+      replayFile,
+      pollIntervalMs: 10,
+      reconnectBackoffMs: 10
+    }
+
+    processedIds = []
+    processEvent = jest.fn<EventProcessor['processEvent']>(async (event) => {
+      processedIds.push(event.eventId)
+      return { success: true, eventId: event.eventId }
+    })
+    eventProcessor = { processEvent } as unknown as EventProcessor
+
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should replay every event and persist the cursor at the last ledger', async () => {
+    const { db, state } = createListenerStateDb()
+    const listener = new HorizonListener(config, eventProcessor, db)
+
+    await listener.start()
+    await listener.stop()
+
+    expect(processedIds).toHaveLength(allXdrEvents.length)
+    expect(state.row?.last_processed_ledger).toBe(50006)
+  })
+
+  it('should resume from the persisted cursor', async () => {
+    const { db } = createListenerStateDb(50005)
+    const listener = new HorizonListener(config, eventProcessor, db)
+
+    await listener.start()
+    await listener.stop()
+
+    expect(processedIds).toEqual(['d4e5f6a1b2c3:0', 'e5f6a1b2c3d4:0'])
+  })
+
+  it('should skip events from contracts that are not configured', async () => {
+    const { db } = createListenerStateDb()
+    const listener = new HorizonListener(
+      { ...config, contractAddresses: ['CSOMEOTHERCONTRACT'] },
+      eventProcessor,
+      db
+    )
+
+    await listener.start()
+    await listener.stop()
+
+    expect(processedIds).toHaveLength(0)
+  })
+
+  it('should reconnect with backoff after a source failure', async () => {
+    const { db } = createListenerStateDb()
+    const replay = new ReplayEventSource({ filePath: replayFile })
+    let connectAttempts = 0
+    const flakySource: EventSource = {
+      name: 'flaky-replay',
+      connect: async (startLedger: number) => {
+        connectAttempts++
+        if (connectAttempts === 1) {
+          throw new Error('connection refused')
+        }
+        await replay.connect(startLedger)
+      },
+      poll: () => replay.poll(),
+      close: () => replay.close()
+    }
+    const listener = new HorizonListener(config, eventProcessor, db, flakySource)
+
+    await listener.start()
+    await listener.stop()
+
+    expect(connectAttempts).toBe(2)
+    expect(processedIds).toHaveLength(allXdrEvents.length)
+  })
+
+  it('should reconnect at the rewound ledger when a rewind is requested', async () => {
+    const { db, state } = createListenerStateDb()
+    processEvent.mockImplementation(async (event) => {
+      processedIds.push(event.eventId)
+      if (processedIds.length === allXdrEvents.length) {
+        state.row = { ...state.row, rewind_to_ledger: 50005 }
+      }
+      return { success: true, eventId: event.eventId }
+    })
+    const listener = new HorizonListener(config, eventProcessor, db)
+
+    await listener.start()
+    await listener.stop()
+
+    expect(processedIds).toHaveLength(allXdrEvents.length + 2)
+    expect(processedIds.slice(-2)).toEqual(['d4e5f6a1b2c3:0', 'e5f6a1b2c3d4:0'])
+    expect(state.row?.rewind_to_ledger).toBeNull()
+    expect(state.row?.last_processed_ledger).toBe(50006)
+  })
+
+  it('should drain the in-flight event and stop reading on shutdown', async () => {
+    const { db, state } = createListenerStateDb()
+    let releaseEvent: () => void = () => {}
+    processEvent.mockImplementation(async (event) => {
+      await new Promise<void>((resolve) => {
+        releaseEvent = resolve
+      })
+      processedIds.push(event.eventId)
+      return { success: true, eventId: event.eventId }
+    })
+    const listener = new HorizonListener(config, eventProcessor, db)
+
+    const startPromise = listener.start()
+    while (processEvent.mock.calls.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+    }
+
+    const stopPromise = listener.stop()
+    releaseEvent()
+    await stopPromise
+    await startPromise
+
+    expect(processedIds).toEqual(['a1b2c3d4e5f6:0'])
+    expect(state.row?.last_processed_ledger).toBe(50001)
+    expect(listener.isRunning()).toBe(false)
+  })
+})
+
+describe('loadReplayFile', () => {
+  let tempDir: string
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(path.join(tmpdir(), 'disciplr-replay-'))
+  })
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should ignore blank lines and comments', async () => {
+    const file = path.join(tempDir, 'events.jsonl')
+    await writeFile(file, `# captured from testnet\n\n${JSON.stringify(allXdrEvents[0])}\n`)
+
+    const events = await loadReplayFile(file)
+
+    expect(events).toHaveLength(1)
+    expect(events[0].id).toBe(allXdrEvents[0].id)
+  })
+
+  it('should report the line number of an invalid record', async () => {
+    const file = path.join(tempDir, 'events.jsonl')
+    await writeFile(file, `${JSON.stringify(allXdrEvents[0])}\n{"id": "missing-fields"}\n`)
+
+    await expect(loadReplayFile(file)).rejects.toThrow('at line 2')
+  })
+})
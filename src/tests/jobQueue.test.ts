@@ -0,0 +1,375 @@
+import { describe, it, expect, afterEach, jest } from '@jest/globals'
+import type { Knex } from 'knex'
+import { JobQueue } from '../jobs/queue.js'
+import { InMemoryJobStore, PostgresJobStore, type JobStore } from '../jobs/store.js'
+import { JobDeferredError, type JobContext, type NotificationJobPayload } from '../jobs/types.js'
+
+const payload: NotificationJobPayload = {
+  recipient: 'user@example.com',
+  subject: 'Reminder',
+  body: 'Milestone due soon',
+}
+
+const waitFor = async (predicate: () => boolean | Promise<boolean>, timeoutMs = 2_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+const queues: JobQueue[] = []
+
+const createQueue = (store: InMemoryJobStore, concurrency = 2): JobQueue => {
+  const queue = new JobQueue({ store, concurrency, pollIntervalMs: 10 })
+  queues.push(queue)
+  return queue
+}
+
+afterEach(async () => {
+  await Promise.all(queues.map((queue) => queue.stop()))
+  queues.length = 0
+})
+
+describe('JobQueue', () => {
+  it('runs enqueued jobs and reports them in metrics', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    const seen: JobContext[] = []
+    queue.registerHandler('notification.send', async (_payload, context) => {
+      seen.push(context)
+    })
+    queue.start()
+
+    const receipt = await queue.enqueue('notification.send', payload)
+    await waitFor(() => seen.length === 1)
+
+    expect(seen[0]).toEqual({ jobId: receipt.id, attempt: 1, maxAttempts: 3 })
+    await waitFor(async () => (await queue.getMetrics()).byType['notification.send'].completed === 1)
+    expect((await queue.getMetrics()).totals.enqueued).toBe(1)
+  })
+
+  it('keeps queued jobs in the store across a worker restart', async () => {
+    const store = new InMemoryJobStore()
+    const first = createQueue(store)
+    first.registerHandler('notification.send', async () => {})
+    await first.enqueue('notification.send', payload, { delayMs: 50 })
+    await first.stop()
+
+    const ran: string[] = []
+    const second = createQueue(store)
+    second.registerHandler('notification.send', async (_payload, context) => {
+      ran.push(context.jobId)
+    })
+    second.start()
+
+    await waitFor(() => ran.length === 1)
+    expect((await second.getMetrics()).delayedJobs).toBe(0)
+  })
+
+  it('records a failure once maxAttempts is exhausted', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    let attempts = 0
+    queue.registerHandler('notification.send', async () => {
+      attempts += 1
+      throw new Error('smtp down')
+    })
+    queue.start()
+
+    const receipt = await queue.enqueue('notification.send', payload, { maxAttempts: 1 })
+    await waitFor(async () => (await store.recentFailures(10)).length === 1)
+
+    expect(attempts).toBe(1)
+    expect(await store.recentFailures(10)).toEqual([
+      expect.objectContaining({ jobId: receipt.id, attempts: 1, error: 'smtp down' }),
+    ])
+  })
+
+  it('reschedules failed attempts with the attempt count preserved', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {
+      throw new Error('try again')
+    })
+    queue.start()
+
+    await queue.enqueue('notification.send', payload, { maxAttempts: 3 })
+    await waitFor(async () => (await queue.getMetrics()).delayedJobs === 1)
+
+    const metrics = await queue.getMetrics()
+    expect(metrics.totals.retried).toBe(1)
+    expect(metrics.byType['notification.send'].failed).toBe(0)
+  })
+
+  it('puts deferred jobs back without using up an attempt', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    const attempts: number[] = []
+    queue.registerHandler('notification.send', async (_payload, context) => {
+      attempts.push(context.attempt)
+      if (attempts.length === 1) {
+        throw new JobDeferredError(Date.now() + 20)
+      }
+    })
+    queue.start()
+
+    const receipt = await queue.enqueue('notification.send', payload, { maxAttempts: 1 })
+    await waitFor(async () => (await store.getJob(receipt.id, Date.now()))?.state === 'completed')
+
+    expect(attempts).toEqual([1, 1])
+    expect((await queue.getMetrics()).totals).toMatchObject({ deferred: 1, failed: 0, retried: 0 })
+  })
+
+  it('never hands the same job to two workers sharing a store', async () => {
+    const store = new InMemoryJobStore()
+    const ran: string[] = []
+    for (let i = 0; i < 2; i += 1) {
+      const worker = createQueue(store, 4)
+      worker.registerHandler('notification.send', async (_payload, context) => {
+        ran.push(context.jobId)
+      })
+      worker.start()
+    }
+
+    const producer = queues[0]
+    for (let i = 0; i < 6; i += 1) {
+      await producer.enqueue('notification.send', payload)
+    }
+
+    await waitFor(() => ran.length === 6)
+    await new Promise((resolve) => setTimeout(resolve, 50))
+    expect(new Set(ran).size).toBe(6)
+    expect(ran).toHaveLength(6)
+  })
+
+  it('requeues jobs claimed by a worker that stopped responding', async () => {
+    const store: JobStore = new InMemoryJobStore()
+    await store.insert({
+      id: 'orphan',
+      type: 'notification.send',
+      payload,
+      attempt: 0,
+      maxAttempts: 3,
+      createdAt: Date.now() - 20_000,
+      runAt: Date.now() - 20_000,
+    })
+    await store.claimDue(Date.now() - 10_000, 1, 'dead-worker')
+
+    expect(await store.releaseStale(Date.now() - 5_000)).toBe(1)
+    const [job] = await store.claimDue(Date.now(), 1, 'live-worker')
+    expect(job).toMatchObject({ id: 'orphan', attempt: 2 })
+  })
+
+  it('keeps renewing the claim of a job that runs longer than the lock timeout', async () => {
+    const store = new InMemoryJobStore()
+    let runs = 0
+    for (let i = 0; i < 2; i += 1) {
+      const worker = new JobQueue({ store, pollIntervalMs: 10, lockTimeoutMs: 60 })
+      queues.push(worker)
+      worker.registerHandler('notification.send', async () => {
+        runs += 1
+        await new Promise((resolve) => setTimeout(resolve, 300))
+      })
+      worker.start()
+    }
+
+    const receipt = await queues[0].enqueue('notification.send', payload)
+
+    await waitFor(async () => (await store.getJob(receipt.id, Date.now()))?.state === 'completed')
+    expect(runs).toBe(1)
+  })
+
+  it('drops the result of a worker whose claim was released as stale', async () => {
+    const store: JobStore = new InMemoryJobStore()
+    await store.insert({
+      id: 'slow',
+      type: 'notification.send',
+      payload,
+      attempt: 0,
+      maxAttempts: 3,
+      createdAt: Date.now() - 20_000,
+      runAt: Date.now() - 20_000,
+    })
+    const [stale] = await store.claimDue(Date.now() - 10_000, 1, 'slow-worker')
+    await store.releaseStale(Date.now() - 5_000)
+    const [current] = await store.claimDue(Date.now(), 1, 'live-worker')
+
+    await store.markCompleted(stale, 10_000)
+    await store.markFailed(stale, 'timed out')
+    expect((await store.getJob('slow', Date.now()))?.state).toBe('active')
+
+    await store.markCompleted(current, 5)
+    expect((await store.getJob('slow', Date.now()))?.state).toBe('completed')
+  })
+
+  it('collapses duplicate enqueues onto the queued job by default', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {})
+
+    const first = await queue.enqueue('notification.send', payload, { delayMs: 60_000, dedupeKey: 'digest:u1' })
+    const second = await queue.enqueue('notification.send', { ...payload, subject: 'Newer' }, {
+      delayMs: 120_000,
+      dedupeKey: 'digest:u1',
+    })
+
+    expect(second).toMatchObject({ id: first.id, runAt: first.runAt, collapsed: true })
+    expect((await store.getJob(first.id, Date.now()))?.payload).toEqual(payload)
+
+    const metrics = await queue.getMetrics()
+    expect(metrics.delayedJobs).toBe(1)
+    expect(metrics.totals).toMatchObject({ enqueued: 1, collapsed: 1 })
+  })
+
+  it('replaces the payload and schedule of the queued job with the replace policy', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {})
+
+    const first = await queue.enqueue('notification.send', payload, { delayMs: 60_000, dedupeKey: 'digest:u1' })
+    const second = await queue.enqueue('notification.send', { ...payload, subject: 'Newer' }, {
+      delayMs: 10_000,
+      maxAttempts: 5,
+      dedupeKey: 'digest:u1',
+      dedupePolicy: 'replace',
+    })
+
+    expect(second.id).toBe(first.id)
+    expect(Date.parse(second.runAt)).toBeLessThan(Date.parse(first.runAt))
+    expect(await store.getJob(first.id, Date.now())).toMatchObject({
+      payload: { subject: 'Newer' },
+      maxAttempts: 5,
+    })
+  })
+
+  it('only pushes the run time later with the extend policy', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {})
+
+    const first = await queue.enqueue('notification.send', payload, { delayMs: 60_000, dedupeKey: 'k' })
+    const sooner = await queue.enqueue('notification.send', payload, {
+      delayMs: 1_000,
+      dedupeKey: 'k',
+      dedupePolicy: 'extend',
+    })
+    const later = await queue.enqueue('notification.send', payload, {
+      delayMs: 300_000,
+      dedupeKey: 'k',
+      dedupePolicy: 'extend',
+    })
+
+    expect(sooner.runAt).toBe(first.runAt)
+    expect(Date.parse(later.runAt)).toBeGreaterThan(Date.parse(first.runAt))
+    expect((await queue.getMetrics()).totals.collapsed).toBe(2)
+  })
+
+  it('enqueues a fresh job once the deduplicated one has started', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {})
+
+    const first = await queue.enqueue('notification.send', payload, { dedupeKey: 'k' })
+    await store.claimDue(Date.now(), 1, 'worker')
+    const second = await queue.enqueue('notification.send', payload, { dedupeKey: 'k' })
+
+    expect(second.id).not.toBe(first.id)
+    expect(second.collapsed).toBe(false)
+  })
+
+  it('requeues a retried job next to its newer duplicate and keeps deduplicating on the newer one', async () => {
+    const store = new InMemoryJobStore()
+    const queue = createQueue(store)
+    queue.registerHandler('notification.send', async () => {})
+
+    const first = await queue.enqueue('notification.send', payload, { dedupeKey: 'k' })
+    const [claimed] = await store.claimDue(Date.now(), 1, 'worker')
+    const second = await queue.enqueue('notification.send', payload, { delayMs: 60_000, dedupeKey: 'k' })
+    await store.reschedule(claimed, Date.now() + 60_000, 'boom')
+
+    expect(await store.getJob(first.id, Date.now())).toMatchObject({ state: 'delayed', dedupeKey: null })
+    const third = await queue.enqueue('notification.send', payload, { delayMs: 60_000, dedupeKey: 'k' })
+    expect(third).toMatchObject({ id: second.id, collapsed: true })
+  })
+
+  it('rejects job types without a handler', async () => {
+    const queue = createQueue(new InMemoryJobStore())
+    await expect(queue.enqueue('oracle.call', { oracle: 'x', symbol: 'XLM' })).rejects.toThrow(
+      'No job handler registered for type: oracle.call',
+    )
+  })
+})
+
+describe('PostgresJobStore', () => {
+  it('clears the dedupe key of claimed jobs so their retries cannot hit the queued-dedupe unique index', async () => {
+    const row = {
+      id: 'job-1',
+      type: 'notification.send',
+      payload,
+      status: 'active',
+      attempt: 1,
+      max_attempts: 3,
+      run_at: new Date(),
+      created_at: new Date(),
+      dedupe_key: null,
+    }
+    const update = jest.fn<(values: Record<string, unknown>) => unknown>()
+    const builder = {
+      select: () => builder,
+      where: () => builder,
+      andWhere: () => builder,
+      orderBy: () => builder,
+      limit: () => builder,
+      forUpdate: () => builder,
+      skipLocked: () => builder,
+      whereIn: () => builder,
+      update: (values: Record<string, unknown>) => {
+        update(values)
+        return builder
+      },
+      returning: async () => [row],
+    }
+    const db = Object.assign(() => builder, { raw: (sql: string) => sql })
+
+    const [job] = await new PostgresJobStore(db as unknown as Knex).claimDue(Date.now(), 1, 'worker-1')
+
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'active', dedupe_key: null }))
+    expect(job).toMatchObject({ id: 'job-1', dedupeKey: null })
+  })
+
+  it('only records results and heartbeats for the worker holding the claim', async () => {
+    const where = jest.fn<(conditions: Record<string, unknown>) => unknown>()
+    const update = jest.fn<(values: Record<string, unknown>) => Promise<number>>().mockResolvedValue(1)
+    const builder = {
+      where: (conditions: Record<string, unknown>) => {
+        where(conditions)
+        return builder
+      },
+      update,
+    }
+    const store = new PostgresJobStore((() => builder) as unknown as Knex)
+    const job = {
+      id: 'job-1',
+      type: 'notification.send' as const,
+      payload,
+      attempt: 1,
+      maxAttempts: 3,
+      createdAt: Date.now(),
+      runAt: Date.now(),
+      lockedBy: 'worker-1',
+    }
+
+    await store.heartbeat(job, 1_000)
+    await store.markCompleted(job, 5)
+    await store.markFailed(job, 'boom')
+
+    expect(where).toHaveBeenCalledTimes(3)
+    for (const [conditions] of where.mock.calls) {
+      expect(conditions).toEqual({ id: 'job-1', status: 'active', locked_by: 'worker-1' })
+    }
+    expect(update).toHaveBeenNthCalledWith(1, { locked_at: new Date(1_000) })
+  })
+})
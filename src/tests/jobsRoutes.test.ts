@@ -0,0 +1,162 @@
+import { describe, it, beforeAll, beforeEach, afterEach, expect, jest } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+jest.unstable_mockModule('../services/notification.js', () => ({
+  createNotification: jest.fn<() => Promise<unknown>>().mockResolvedValue({}),
+}))
+
+const notification = {
+  recipient: 'user@example.com',
+  subject: 'Reminder',
+  body: 'Milestone due soon',
+}
+
+let app: express.Express
+let jobSystem: import('../jobs/system.js').BackgroundJobSystem
+let auditLogs: typeof import('../lib/audit-logs.js')
+let BackgroundJobSystem: typeof import('../jobs/system.js').BackgroundJobSystem
+let createJobsRouter: typeof import('../routes/jobs.js').createJobsRouter
+let InMemoryJobStore: typeof import('../jobs/store.js').InMemoryJobStore
+let store: import('../jobs/store.js').JobStore
+
+const waitFor = async (predicate: () => Promise<boolean>, timeoutMs = 3_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+beforeAll(async () => {
+  delete process.env.DATABASE_URL
+  process.env.ENABLE_JOB_SCHEDULER = 'false'
+
+  ;({ BackgroundJobSystem } = await import('../jobs/system.js'))
+  ;({ createJobsRouter } = await import('../routes/jobs.js'))
+  ;({ InMemoryJobStore } = await import('../jobs/store.js'))
+  auditLogs = await import('../lib/audit-logs.js')
+})
+
+beforeEach(() => {
+  auditLogs.resetAuditLogs()
+  store = new InMemoryJobStore()
+  jobSystem = new BackgroundJobSystem({ store })
+  app = express()
+  app.use(express.json())
+  app.use('/api/jobs', createJobsRouter(jobSystem))
+})
+
+afterEach(async () => {
+  await jobSystem.stop()
+})
+
+describe('GET /api/jobs/:id', () => {
+  it('requires an admin', async () => {
+    const { id } = await jobSystem.enqueue('notification.send', notification)
+
+    expect((await request(app).get(`/api/jobs/${id}`)).status).toBe(401)
+    expect((await request(app).get(`/api/jobs/${id}`).set('Authorization', bearer('u1', 'USER'))).status).toBe(403)
+  })
+
+  it('returns the state, attempts and last error of a job', async () => {
+    const { id } = await jobSystem.enqueue('notification.send', notification, { delayMs: 60_000 })
+
+    const res = await request(app).get(`/api/jobs/${id}`).set('Authorization', bearer('admin-1', 'ADMIN'))
+
+    expect(res.status).toBe(200)
+    expect(res.body.job).toMatchObject({
+      id,
+      type: 'notification.send',
+      state: 'delayed',
+      attempt: 0,
+      maxAttempts: 3,
+      lastError: null,
+    })
+  })
+
+  it('returns 404 for unknown jobs', async () => {
+    const res = await request(app).get('/api/jobs/missing').set('Authorization', bearer('admin-1', 'ADMIN'))
+    expect(res.status).toBe(404)
+  })
+
+  it('serves /metrics to admins only', async () => {
+    expect((await request(app).get('/api/jobs/metrics')).status).toBe(401)
+    expect((await request(app).get('/api/jobs/metrics').set('Authorization', bearer('u1', 'USER'))).status).toBe(403)
+
+    const res = await request(app).get('/api/jobs/metrics').set('Authorization', bearer('admin-1', 'ADMIN'))
+    expect(res.status).toBe(200)
+    expect(res.body.recurring).toEqual([])
+  })
+})
+
+describe('POST /api/jobs/enqueue', () => {
+  it('requires an admin', async () => {
+    const body = { type: 'notification.send', payload: notification }
+
+    expect((await request(app).post('/api/jobs/enqueue').send(body)).status).toBe(401)
+    expect((await request(app).post('/api/jobs/enqueue').set('Authorization', bearer('u1', 'USER')).send(body)).status).toBe(
+      403,
+    )
+
+    const res = await request(app).post('/api/jobs/enqueue').set('Authorization', bearer('admin-1', 'ADMIN')).send(body)
+    expect(res.status).toBe(202)
+    expect(res.body.job.type).toBe('notification.send')
+  })
+})
+
+describe('DELETE /api/jobs/:id', () => {
+  it('cancels a delayed job and records an audit log', async () => {
+    const { id } = await jobSystem.enqueue('notification.send', notification, { delayMs: 60_000 })
+
+    const res = await request(app).delete(`/api/jobs/${id}`).set('Authorization', bearer('admin-1', 'ADMIN'))
+
+    expect(res.status).toBe(200)
+    expect(res.body.job.state).toBe('cancelled')
+    expect((await jobSystem.getMetrics()).delayedJobs).toBe(0)
+    expect((await auditLogs.listAuditLogs({ action: 'job.cancelled' })).logs).toHaveLength(1)
+  })
+
+  it('refuses to cancel a job that has already finished', async () => {
+    jobSystem.start()
+    const { id } = await jobSystem.enqueue('notification.send', notification)
+    await waitFor(async () => (await jobSystem.getJob(id))?.state === 'completed')
+
+    const res = await request(app).delete(`/api/jobs/${id}`).set('Authorization', bearer('admin-1', 'ADMIN'))
+
+    expect(res.status).toBe(409)
+    expect(res.body.state).toBe('completed')
+  })
+})
+
+describe('POST /api/jobs/:id/retry', () => {
+  it('requeues a failed job with a fresh attempt budget', async () => {
+    const { id } = await jobSystem.enqueue('notification.send', notification, { maxAttempts: 1 })
+    const [claimed] = await store.claimDue(Date.now(), 1, 'worker')
+    await store.markFailed(claimed, 'smtp down')
+    expect((await jobSystem.getMetrics()).recentFailures).toHaveLength(1)
+
+    const res = await request(app).post(`/api/jobs/${id}/retry`).set('Authorization', bearer('admin-1', 'ADMIN'))
+
+    expect(res.status).toBe(202)
+    expect(res.body.job.id).toBe(id)
+    const job = await jobSystem.getJob(id)
+    expect(job).toMatchObject({ state: 'queued', attempt: 0, lastError: 'smtp down' })
+    expect((await jobSystem.getMetrics()).recentFailures).toHaveLength(0)
+    expect((await auditLogs.listAuditLogs({ action: 'job.retried' })).logs).toHaveLength(1)
+  })
+
+  it('only retries failed jobs', async () => {
+    const { id } = await jobSystem.enqueue('notification.send', notification, { delayMs: 60_000 })
+
+    const res = await request(app).post(`/api/jobs/${id}/retry`).set('Authorization', bearer('admin-1', 'ADMIN'))
+
+    expect(res.status).toBe(409)
+    expect(res.body.state).toBe('delayed')
+  })
+})
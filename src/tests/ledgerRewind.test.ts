@@ -0,0 +1,200 @@
+import { describe, it, beforeAll, expect, jest } from '@jest/globals'
+import type { Knex } from 'knex'
+import type { VaultEvent } from '../services/vaultEvents.js'
+import type { ParsedEvent } from '../types/horizonSync.js'
+import { LedgerRewindError, rewindLedgerCursor } from '../services/ledgerRewind.js'
+
+const publishVaultEvent = jest.fn<(event: VaultEvent) => Promise<void>>()
+
+jest.unstable_mockModule('../services/vaultEvents.js', () => ({ publishVaultEvent }))
+
+interface ProcessedEventRow {
+  event_id: string
+  ledger_number: number
+  superseded_at: Date | null
+  rewind_id: number | null
+}
+
+type Row = Record<string, unknown>
+
+interface FakeQueryBuilder {
+  where(column: string | Row, operator?: string, value?: number): FakeQueryBuilder
+  whereNull(column: string): FakeQueryBuilder
+  forUpdate(): FakeQueryBuilder
+  first(column?: string): Promise<Row | undefined>
+  update(updates: Row): Promise<number>
+  insert(row: Row): {
+    returning(): Promise<{ id: number }[]>
+    onConflict(column: string): { merge(updates?: Row): Promise<void> }
+  }
+}
+
+/**
+ * In-memory stand-in for the subset of knex used by rewindLedgerCursor and
+ * the event processor's vault handling
+ */
+function createRewindDb(cursorLedger: number | null, processedEvents: ProcessedEventRow[]) {
+  const tables: Record<string, Row[]> = {
+    listener_state: cursorLedger === null
+      ? []
+      : [{ service_name: 'horizon_listener', last_processed_ledger: cursorLedger, rewind_to_ledger: null }],
+    ledger_rewinds: [],
+    processed_events: processedEvents as unknown as Row[],
+    vaults: []
+  }
+
+  const query = (table: string) => {
+    const predicates: Array<(row: Row) => boolean> = []
+    const matching = () => tables[table].filter((row) => predicates.every((predicate) => predicate(row)))
+
+    const builder: FakeQueryBuilder = {
+      where: (column: string | Record<string, unknown>, operator?: string, value?: number) => {
+        if (typeof column === 'object') {
+          predicates.push((row) => Object.entries(column).every(([key, expected]) => row[key] === expected))
+        } else if (operator === '>=') {
+          predicates.push((row) => (row[column] as number) >= value!)
+        }
+        return builder
+      },
+      whereNull: (column: string) => {
+        predicates.push((row) => row[column] === null)
+        return builder
+      },
+      forUpdate: () => builder,
+      first: async () => matching()[0],
+      update: async (updates: Record<string, unknown>) => {
+        const rows = matching()
+        rows.forEach((row) => Object.assign(row, updates))
+        return rows.length
+      },
+      insert: (row: Record<string, unknown>) => ({
+        returning: async () => {
+          const inserted = { id: tables[table].length + 1, ...row }
+          tables[table].push(inserted)
+          return [{ id: inserted.id }]
+        },
+        onConflict: (column: string) => ({
+          merge: async (updates?: Row) => {
+            const existing = tables[table].find((candidate) => candidate[column] === row[column])
+            if (existing) {
+              Object.assign(existing, updates ?? row)
+            } else {
+              tables[table].push({ ...row })
+            }
+          }
+        })
+      })
+    }
+    return builder
+  }
+
+  const trx = Object.assign(query, { commit: async () => {}, rollback: async () => {} })
+  const db = {
+    transaction: async (callback?: (trx: typeof query) => Promise<unknown>) => callback ? callback(trx) : trx
+  } as unknown as Knex
+
+  return { db, tables }
+}
+
+const processedEvent = (eventId: string, ledger: number): ProcessedEventRow => ({
+  event_id: eventId,
+  ledger_number: ledger,
+  superseded_at: null,
+  rewind_id: null
+})
+
+describe('rewindLedgerCursor', () => {
+  it('should supersede events at or after the target ledger and move the cursor back', async () => {
+    const { db, tables } = createRewindDb(50006, [
+      processedEvent('a:0', 50001),
+      processedEvent('b:0', 50004),
+      processedEvent('c:0', 50005),
+      processedEvent('d:0', 50006)
+    ])
+
+    const result = await rewindLedgerCursor(db, { toLedger: 50004, requestedBy: 'admin-1', reason: 'bad data' })
+
+    expect(result).toEqual({ rewindId: 1, fromLedger: 50006, toLedger: 50004, supersededEvents: 3 })
+    expect(tables.processed_events.filter((row) => row.superseded_at !== null).map((row) => row.event_id))
+      .toEqual(['b:0', 'c:0', 'd:0'])
+    expect(tables.processed_events.every((row) => row.superseded_at === null || row.rewind_id === 1)).toBe(true)
+    expect(tables.listener_state[0]).toMatchObject({ last_processed_ledger: 50004, rewind_to_ledger: 50004 })
+    expect(tables.ledger_rewinds[0]).toMatchObject({
+      from_ledger: 50006,
+      to_ledger: 50004,
+      superseded_events: 3,
+      reason: 'bad data',
+      requested_by: 'admin-1'
+    })
+  })
+
+  it('should not count events already superseded by an earlier rewind', async () => {
+    const earlier = { ...processedEvent('c:0', 50005), superseded_at: new Date(), rewind_id: 7 }
+    const { db, tables } = createRewindDb(50006, [processedEvent('b:0', 50004), earlier])
+
+    const result = await rewindLedgerCursor(db, { toLedger: 50004, requestedBy: 'admin-1' })
+
+    expect(result.supersededEvents).toBe(1)
+    expect(tables.processed_events[1].rewind_id).toBe(7)
+  })
+
+  it('should reject a non-positive ledger', async () => {
+    const { db } = createRewindDb(50006, [])
+
+    await expect(rewindLedgerCursor(db, { toLedger: 0, requestedBy: 'admin-1' }))
+      .rejects.toMatchObject({ code: 'invalid_ledger' })
+  })
+
+  it('should reject a rewind when no cursor exists', async () => {
+    const { db } = createRewindDb(null, [])
+
+    await expect(rewindLedgerCursor(db, { toLedger: 10, requestedBy: 'admin-1' }))
+      .rejects.toBeInstanceOf(LedgerRewindError)
+  })
+
+  it('should reject a target ledger ahead of the cursor', async () => {
+    const { db, tables } = createRewindDb(50006, [processedEvent('d:0', 50006)])
+
+    await expect(rewindLedgerCursor(db, { toLedger: 50010, requestedBy: 'admin-1' }))
+      .rejects.toMatchObject({ code: 'ahead_of_cursor' })
+    expect(tables.processed_events[0].superseded_at).toBeNull()
+  })
+})
+
+describe('replaying events after a rewind', () => {
+  let EventProcessor: typeof import('../services/eventProcessor.js').EventProcessor
+
+  beforeAll(async () => {
+    ({ EventProcessor } = await import('../services/eventProcessor.js'))
+  })
+
+  it('should not publish vault.created again for a vault that already exists', async () => {
+    const { db, tables } = createRewindDb(50006, [])
+    const processor = new EventProcessor(db, { maxRetries: 1, retryBackoffMs: 1 })
+    const event: ParsedEvent = {
+      eventId: 'tx-1:0',
+      transactionHash: 'tx-1',
+      eventIndex: 0,
+      ledgerNumber: 50005,
+      eventType: 'vault_created',
+      payload: {
+        vaultId: 'vault-1',
+        creator: 'GCREATOR',
+        amount: '100',
+        startTimestamp: new Date('2026-01-01T00:00:00.000Z'),
+        endTimestamp: new Date('2026-02-01T00:00:00.000Z'),
+        successDestination: 'GSUCCESS',
+        failureDestination: 'GFAILURE'
+      }
+    }
+
+    expect((await processor.processEvent(event)).success).toBe(true)
+    await rewindLedgerCursor(db, { toLedger: 50004, requestedBy: 'admin-1' })
+    expect((await processor.processEvent(event)).success).toBe(true)
+
+    expect(tables.vaults).toHaveLength(1)
+    expect(tables.processed_events[0].superseded_at).toBeNull()
+    expect(publishVaultEvent).toHaveBeenCalledTimes(1)
+    expect(publishVaultEvent.mock.calls[0][0]).toMatchObject({ type: 'vault.created', vault: { id: 'vault-1' } })
+  })
+})
@@ -0,0 +1,228 @@
+import { describe, it, beforeAll, beforeEach, afterAll, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let records: typeof import('../disputes/records.js')
+let disputes: typeof import('../disputes/service.js')
+let releases: typeof import('../services/vaultReleases.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+/** A vault with two milestones, the first rejected by verifier `val` */
+const setup = async (dueDate: string | null = null) => {
+  const vault = await repository.create({
+    creator: 'alice',
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+  const created = await milestones.createMilestone(vault.id, 'Ship the thing', dueDate, '40')
+  await milestones.createMilestone(vault.id, 'Write the docs', null, '60')
+  await milestones.submitMilestone(created.id, { actorId: 'alice' })
+  const milestone = (await milestones.rejectMilestone(created.id, 'Screenshot is unreadable', { actorId: 'val' }))!
+
+  return { vault, milestone, base: `/api/vaults/${vault.id}/milestones/${milestone.id}/disputes` }
+}
+
+const openDispute = async (base: string) => {
+  const response = await request(app)
+    .post(base)
+    .set('Authorization', bearer('alice'))
+    .send({ statement: 'The screenshot is attached in full resolution as evidence #2' })
+  return response.body.dispute as { id: string }
+}
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  records = await import('../disputes/records.js')
+  disputes = await import('../disputes/service.js')
+  releases = await import('../services/vaultReleases.js')
+  const { disputesRouter, milestoneDisputesRouter } = await import('../routes/disputes.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults/:vaultId/milestones/:milestoneId/disputes', milestoneDisputesRouter)
+  app.use('/api/disputes', disputesRouter)
+})
+
+beforeEach(() => {
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  records.setMilestoneDisputeStore(new records.InMemoryMilestoneDisputeStore())
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+  records.setMilestoneDisputeStore(null)
+})
+
+describe('opening disputes', () => {
+  it('lets the vault creator dispute a rejection once', async () => {
+    const { milestone, base } = await setup()
+
+    const opened = await request(app)
+      .post(base)
+      .set('Authorization', bearer('alice'))
+      .send({ statement: 'The screenshot is readable at full size' })
+    const again = await request(app).post(base).set('Authorization', bearer('alice')).send({ statement: 'Again' })
+
+    expect(opened.status).toBe(201)
+    expect(opened.body.dispute).toMatchObject({
+      milestoneId: milestone.id,
+      decisionId: milestone.history[1].id,
+      verifierId: 'val',
+      openedBy: 'alice',
+      status: 'open',
+    })
+    expect(again.status).toBe(409)
+    expect(again.body.error).toBe('Milestone already has an open dispute')
+  })
+
+  it('requires a statement, the creator and a rejected milestone', async () => {
+    const { vault, base } = await setup()
+    const pending = await milestones.createMilestone(vault.id, 'Not reviewed yet')
+
+    const noStatement = await request(app).post(base).set('Authorization', bearer('alice')).send({})
+    const byStranger = await request(app).post(base).set('Authorization', bearer('bob')).send({ statement: 'Mine' })
+    const notRejected = await request(app)
+      .post(`/api/vaults/${vault.id}/milestones/${pending.id}/disputes`)
+      .set('Authorization', bearer('alice'))
+      .send({ statement: 'Too early' })
+
+    expect(noStatement.status).toBe(400)
+    expect(byStranger.status).toBe(403)
+    expect(notRejected.status).toBe(409)
+  })
+})
+
+describe('resolving disputes', () => {
+  it('overturning approves the milestone and releases its amount', async () => {
+    const { vault, milestone, base } = await setup()
+    const dispute = await openDispute(base)
+
+    const queue = await request(app).get('/api/disputes?status=open').set('Authorization', bearer('admin', 'ADMIN'))
+    const resolved = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('val2', 'VERIFIER'))
+      .send({ outcome: 'overturned', resolution: 'The screenshot shows the release' })
+
+    expect(queue.body.disputes.map((item: { id: string }) => item.id)).toEqual([dispute.id])
+    expect(resolved.status).toBe(200)
+    expect(resolved.body.dispute).toMatchObject({ status: 'overturned', adjudicatorId: 'val2' })
+    expect(resolved.body.milestone).toMatchObject({ status: 'approved', verified: true })
+    expect(resolved.body.milestone.history[2]).toMatchObject({ status: 'approved', actorId: 'val2', disputeId: dispute.id })
+    expect(resolved.body.release).toMatchObject({ milestoneId: milestone.id, amount: '40', outcome: 'released' })
+    expect((await repository.getById(vault.id))?.releasedAmount).toBe('40')
+    expect(await disputes.getVerifierDisputeStats('val')).toEqual({
+      disputesOpen: 0,
+      disputesUpheld: 0,
+      disputesOverturned: 1,
+    })
+    // The adjudication does not count as a review decision of the second verifier
+    expect(await milestones.countMilestoneDecisionsBy('val')).toBe(1)
+    expect(await milestones.countMilestoneDecisionsBy('val2')).toBe(0)
+  })
+
+  it('upholding keeps the rejection and lets the creator resubmit', async () => {
+    const { milestone, base } = await setup()
+    const dispute = await openDispute(base)
+
+    expect(await disputes.hasOpenDispute(milestone.id)).toBe(true)
+    const resolved = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('admin', 'ADMIN'))
+      .send({ outcome: 'upheld' })
+    const twice = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('admin', 'ADMIN'))
+      .send({ outcome: 'overturned' })
+
+    expect(resolved.status).toBe(200)
+    expect(resolved.body.milestone.status).toBe('rejected')
+    expect(twice.status).toBe(409)
+    expect(await disputes.hasOpenDispute(milestone.id)).toBe(false)
+    expect((await milestones.submitMilestone(milestone.id))?.status).toBe('resubmitted')
+    expect((await disputes.getVerifierDisputeStats('val')).disputesUpheld).toBe(1)
+  })
+
+  it('keeps the disputed verifier and the creator from adjudicating', async () => {
+    const { base } = await setup()
+    const dispute = await openDispute(base)
+
+    const byOriginalVerifier = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('val', 'VERIFIER'))
+      .send({ outcome: 'upheld' })
+    const byCreator = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('alice'))
+      .send({ outcome: 'overturned' })
+    const creatorView = await request(app).get(`/api/disputes/${dispute.id}`).set('Authorization', bearer('alice'))
+    const strangerView = await request(app).get(`/api/disputes/${dispute.id}`).set('Authorization', bearer('bob'))
+
+    expect(byOriginalVerifier.status).toBe(403)
+    expect(byCreator.status).toBe(403)
+    expect(creatorView.status).toBe(200)
+    expect(strangerView.status).toBe(404)
+  })
+})
+
+describe('settlement while a dispute is open', () => {
+  it('holds the disputed amount when the vault fails and releases it on overturn', async () => {
+    const { vault, milestone, base } = await setup()
+    const dispute = await openDispute(base)
+
+    await repository.updateStatus(vault.id, 'failed')
+    await releases.settleVault((await repository.getById(vault.id))!, 'failed')
+    expect((await repository.getById(vault.id))?.redirectedAmount).toBe('60')
+    expect((await milestones.getMilestoneById(milestone.id))?.releaseStatus).toBe('pending')
+
+    const resolved = await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('admin', 'ADMIN'))
+      .send({ outcome: 'overturned' })
+
+    expect(resolved.status).toBe(200)
+    expect(resolved.body.release).toMatchObject({ milestoneId: milestone.id, amount: '40', outcome: 'released' })
+    expect(await repository.getById(vault.id)).toMatchObject({ releasedAmount: '40', redirectedAmount: '60' })
+  })
+
+  it('redirects the held amount once the dispute is upheld', async () => {
+    const { vault, base } = await setup()
+    const dispute = await openDispute(base)
+    await repository.updateStatus(vault.id, 'failed')
+    await releases.settleVault((await repository.getById(vault.id))!, 'failed')
+
+    await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('admin', 'ADMIN'))
+      .send({ outcome: 'upheld' })
+
+    expect((await repository.getById(vault.id))?.redirectedAmount).toBe('100')
+  })
+
+  it('does not redirect a missed milestone while its dispute is open', async () => {
+    const { base } = await setup('2020-01-01T00:00:00.000Z')
+    const dispute = await openDispute(base)
+
+    expect(await releases.redirectMissedMilestones()).toEqual([])
+
+    await request(app)
+      .post(`/api/disputes/${dispute.id}/resolve`)
+      .set('Authorization', bearer('admin', 'ADMIN'))
+      .send({ outcome: 'upheld' })
+
+    expect((await releases.redirectMissedMilestones()).map((settlement) => settlement.amount)).toEqual(['40'])
+  })
+})
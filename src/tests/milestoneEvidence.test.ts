@@ -0,0 +1,219 @@
+import { describe, it, beforeAll, beforeEach, afterAll, expect, jest } from '@jest/globals'
+import { createHash } from 'node:crypto'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let records: typeof import('../evidence/records.js')
+let storageModule: typeof import('../evidence/storage.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+let storage: import('../evidence/storage.js').EvidenceStorage
+
+const sha256 = (content: Buffer | string) => createHash('sha256').update(content).digest('hex')
+
+const setup = async () => {
+  const vault = await repository.create({
+    creator: 'alice',
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+  const milestone = await milestones.createMilestone(vault.id, 'Ship the thing')
+  return { vault, milestone, base: `/api/vaults/${vault.id}/milestones/${milestone.id}/evidence` }
+}
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  records = await import('../evidence/records.js')
+  storageModule = await import('../evidence/storage.js')
+  const { evidenceRouter } = await import('../routes/evidence.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults/:vaultId/milestones/:milestoneId/evidence', evidenceRouter)
+})
+
+beforeEach(() => {
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  records.setMilestoneEvidenceStore(new records.InMemoryMilestoneEvidenceStore())
+  storage = new storageModule.InMemoryEvidenceStorage()
+  storageModule.setEvidenceStorage(storage)
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+  records.setMilestoneEvidenceStore(null)
+  storageModule.setEvidenceStorage(null)
+})
+
+describe('milestone evidence', () => {
+  it('hashes text, links and files and combines them into the milestone evidence hash', async () => {
+    const { base } = await setup()
+    const file = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+
+    const text = await request(app)
+      .post(base)
+      .set('Authorization', bearer('alice'))
+      .send({ kind: 'text', text: 'Deployed to production', description: 'Release notes' })
+    const link = await request(app)
+      .post(base)
+      .set('Authorization', bearer('alice'))
+      .send({ kind: 'link', url: 'https://example.com/release' })
+    const upload = await request(app)
+      .post(`${base}/files?filename=screenshot.png`)
+      .set('Authorization', bearer('alice'))
+      .set('Content-Type', 'image/png')
+      .send(file)
+
+    expect(text.status).toBe(201)
+    expect(text.body.evidence).toMatchObject({
+      kind: 'text',
+      description: 'Release notes',
+      contentHash: sha256('Deployed to production'),
+    })
+    expect(link.body.evidence.contentHash).toBe(sha256('https://example.com/release'))
+    expect(upload.status).toBe(201)
+    expect(upload.body.evidence).toMatchObject({
+      kind: 'file',
+      fileName: 'screenshot.png',
+      contentType: 'image/png',
+      size: file.length,
+      contentHash: sha256(file),
+    })
+    expect(upload.body.evidence.storageKey).toBeUndefined()
+
+    const list = await request(app).get(base).set('Authorization', bearer('val', 'VERIFIER'))
+    const expectedHash = createHash('sha256')
+      .update(Buffer.concat([sha256('Deployed to production'), sha256('https://example.com/release'), sha256(file)].map((hash) => Buffer.from(hash, 'hex'))))
+      .digest('hex')
+    expect(list.status).toBe(200)
+    expect(list.body.evidence.map((item: { kind: string }) => item.kind)).toEqual(['text', 'link', 'file'])
+    expect(list.body.evidenceHash).toBe(expectedHash)
+  })
+
+  it('lets verifiers download stored files and checks them against their hash', async () => {
+    const { base } = await setup()
+    const upload = await request(app)
+      .post(`${base}/files?filename=report.pdf`)
+      .set('Authorization', bearer('alice'))
+      .set('Content-Type', 'application/pdf')
+      .send(Buffer.from('%PDF-1.7 report'))
+    const id = upload.body.evidence.id
+
+    const content = await request(app)
+      .get(`${base}/${id}/content`)
+      .set('Authorization', bearer('val', 'VERIFIER'))
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = []
+        res.on('data', (chunk: Buffer) => chunks.push(chunk))
+        res.on('end', () => callback(null, Buffer.concat(chunks)))
+      })
+
+    expect(content.status).toBe(200)
+    expect(content.headers['content-type']).toBe('application/pdf')
+    expect(content.headers['content-disposition']).toBe('attachment; filename="report.pdf"')
+    expect(content.headers['x-content-sha256']).toBe(sha256('%PDF-1.7 report'))
+    expect((content.body as Buffer).toString()).toBe('%PDF-1.7 report')
+
+    const { storageKey } = (await records.getMilestoneEvidenceStore().get(id))!
+    await storage.put(storageKey!, Buffer.from('tampered'), 'application/pdf')
+    jest.spyOn(console, 'error').mockImplementationOnce(() => undefined)
+
+    const tampered = await request(app).get(`${base}/${id}/content`).set('Authorization', bearer('val', 'VERIFIER'))
+    expect(tampered.status).toBe(500)
+    expect(tampered.body.error).toBe('Stored evidence does not match its content hash')
+  })
+
+  it('only lets the vault creator submit and only reviewers read other vaults\' evidence', async () => {
+    const { base } = await setup()
+
+    const byVerifier = await request(app)
+      .post(base)
+      .set('Authorization', bearer('val', 'VERIFIER'))
+      .send({ kind: 'text', text: 'Not mine' })
+    const byStranger = await request(app).get(base).set('Authorization', bearer('mallory'))
+    const unauthenticated = await request(app).get(base)
+
+    expect(byVerifier.status).toBe(403)
+    expect(byStranger.status).toBe(403)
+    expect(unauthenticated.status).toBe(401)
+  })
+
+  it('rejects invalid evidence and evidence for milestones under review', async () => {
+    const { base, milestone } = await setup()
+
+    const badLink = await request(app)
+      .post(base)
+      .set('Authorization', bearer('alice'))
+      .send({ kind: 'link', url: 'javascript:alert(1)' })
+    const badKind = await request(app).post(base).set('Authorization', bearer('alice')).send({ kind: 'video' })
+    const noName = await request(app)
+      .post(`${base}/files`)
+      .set('Authorization', bearer('alice'))
+      .set('Content-Type', 'text/plain')
+      .send('hello')
+
+    expect(badLink.status).toBe(400)
+    expect(badKind.status).toBe(400)
+    expect(noName.status).toBe(400)
+
+    await milestones.submitMilestone(milestone.id)
+    const late = await request(app)
+      .post(base)
+      .set('Authorization', bearer('alice'))
+      .send({ kind: 'text', text: 'Too late' })
+    expect(late.status).toBe(409)
+  })
+
+  it('rejects files over the configured size limit', async () => {
+    const { base, milestone } = await setup()
+    process.env.EVIDENCE_MAX_FILE_BYTES = '8'
+
+    try {
+      const response = await request(app)
+        .post(`${base}/files?filename=big.bin`)
+        .set('Authorization', bearer('alice'))
+        .set('Content-Type', 'application/octet-stream')
+        .send(Buffer.alloc(16))
+
+      expect(response.status).toBe(413)
+      expect(await records.getMilestoneEvidenceStore().listByMilestone(milestone.id)).toEqual([])
+    } finally {
+      delete process.env.EVIDENCE_MAX_FILE_BYTES
+    }
+  })
+})
+
+describe('LocalDiskEvidenceStorage', () => {
+  it('stores files under its directory and refuses keys that escape it', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'evidence-'))
+    const disk: import('../evidence/storage.js').EvidenceStorage = new storageModule.LocalDiskEvidenceStorage(dir)
+
+    try {
+      await disk.put('ms-1/abc', Buffer.from('proof'), 'text/plain')
+      expect((await disk.get('ms-1/abc'))?.toString()).toBe('proof')
+
+      await disk.delete('ms-1/abc')
+      expect(await disk.get('ms-1/abc')).toBeNull()
+      await expect(disk.put('../outside', Buffer.from('x'), 'text/plain')).rejects.toThrow('escapes')
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { InMemoryMilestoneRepository } from '../repositories/milestoneRepository.js'
+
+const decision = { actorId: 'val', reason: null, evidenceHash: null, disputeId: null }
+
+let repository: InMemoryMilestoneRepository
+
+beforeEach(() => {
+  repository = new InMemoryMilestoneRepository()
+})
+
+describe('InMemoryMilestoneRepository', () => {
+  it('creates pending milestones with generated ids and timestamps', async () => {
+    const milestone = await repository.create({ vaultId: 'v1', description: 'Draft', dueDate: null, amount: '40' })
+
+    expect(milestone.id).toBeTruthy()
+    expect(milestone).toMatchObject({ status: 'pending', verified: false, releaseStatus: 'pending', history: [] })
+    expect(milestone.createdAt).toMatch(/Z$/)
+    expect(await repository.getById(milestone.id)).toEqual(milestone)
+  })
+
+  it('returns copies so callers cannot mutate stored milestones', async () => {
+    const milestone = await repository.create({ vaultId: 'v1', description: 'Draft', dueDate: null, amount: null })
+    milestone.status = 'approved'
+    milestone.history.push({ ...decision, id: 'd1', status: 'approved', decidedAt: new Date().toISOString() })
+
+    expect(await repository.getById(milestone.id)).toMatchObject({ status: 'pending', history: [] })
+  })
+
+  it('lists a vault oldest first', async () => {
+    const first = await repository.create({ vaultId: 'v1', description: 'One', dueDate: null, amount: null })
+    await repository.create({ vaultId: 'v2', description: 'Other', dueDate: null, amount: null })
+    const second = await repository.create({ vaultId: 'v1', description: 'Two', dueDate: null, amount: null })
+
+    expect((await repository.listByVault('v1')).map((m) => m.id)).toEqual([first.id, second.id])
+  })
+
+  it('only records a decision when the current status matches the guard', async () => {
+    const milestone = await repository.create({ vaultId: 'v1', description: 'Draft', dueDate: null, amount: null })
+
+    expect(await repository.recordDecision(milestone.id, { ...decision, status: 'approved' }, ['submitted'])).toBeNull()
+    await repository.recordDecision(milestone.id, { ...decision, actorId: 'alice', status: 'submitted' }, ['pending'])
+    await repository.recordDecision(milestone.id, { ...decision, status: 'rejected', reason: 'Blurry' }, ['submitted'])
+    await repository.recordDecision(milestone.id, { ...decision, actorId: 'alice', status: 'resubmitted' }, ['rejected'])
+    const approved = await repository.recordDecision(
+      milestone.id,
+      { ...decision, status: 'approved', evidenceHash: 'abc' },
+      ['resubmitted'],
+    )
+
+    expect(approved).toMatchObject({ status: 'approved', verified: true, resubmissions: 1, evidenceHash: 'abc' })
+    expect(approved!.verifiedAt).toBe(approved!.history[3].decidedAt)
+    expect(approved!.history.map((entry) => entry.status)).toEqual(['submitted', 'rejected', 'resubmitted', 'approved'])
+    expect(await repository.recordDecision('missing', { ...decision, status: 'submitted' }, ['pending'])).toBeNull()
+  })
+
+  it('settles each amount once', async () => {
+    const milestone = await repository.create({ vaultId: 'v1', description: 'Draft', dueDate: null, amount: '40' })
+
+    expect(await repository.settle(milestone.id, 'released')).toMatchObject({ releaseStatus: 'released' })
+    expect(await repository.settle(milestone.id, 'redirected')).toBeNull()
+    expect((await repository.getById(milestone.id))?.settledAt).toMatch(/Z$/)
+  })
+
+  it('lists missed and upcoming milestones by due date', async () => {
+    const due = (day: number) => `2025-01-0${day}T00:00:00.000Z`
+    const missed = await repository.create({ vaultId: 'v1', description: 'Missed', dueDate: due(1), amount: '10' })
+    await repository.create({ vaultId: 'v1', description: 'No amount', dueDate: due(1), amount: null })
+    const later = await repository.create({ vaultId: 'v1', description: 'Later', dueDate: due(4), amount: '10' })
+    const soon = await repository.create({ vaultId: 'v1', description: 'Soon', dueDate: due(3), amount: '10' })
+    await repository.create({ vaultId: 'v1', description: 'Undated', dueDate: null, amount: '10' })
+
+    const now = new Date(due(2))
+    expect((await repository.listMissed(now)).map((m) => m.id)).toEqual([missed.id])
+    expect((await repository.listPendingDueBetween(now, new Date(due(5)))).map((m) => m.id)).toEqual([soon.id, later.id])
+
+    await repository.settle(missed.id, 'redirected')
+    expect(await repository.listMissed(now)).toEqual([])
+  })
+
+  it('counts review decisions but not dispute resolutions', async () => {
+    const milestone = await repository.create({ vaultId: 'v1', description: 'Draft', dueDate: null, amount: null })
+    await repository.recordDecision(milestone.id, { ...decision, actorId: 'alice', status: 'submitted' }, ['pending'])
+    await repository.recordDecision(milestone.id, { ...decision, status: 'rejected', reason: 'No' }, ['submitted'])
+    await repository.recordDecision(milestone.id, { ...decision, status: 'approved', disputeId: 'd1' }, ['rejected'])
+
+    expect(await repository.countDecisionsBy('val')).toBe(1)
+    expect(await repository.countDecisionsBy('alice')).toBe(0)
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, beforeAll, beforeEach, afterAll, afterEach, expect, jest } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockRbac, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+mockRbac()
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let records: typeof import('../assignments/records.js')
+let pool: typeof import('../assignments/pool.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+const setup = async () => {
+  const vault = await repository.create({
+    creator: 'alice',
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+  const milestone = await milestones.createMilestone(vault.id, 'Ship the thing')
+  return { vault, milestone, base: `/api/vaults/${vault.id}/milestones/${milestone.id}` }
+}
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  records = await import('../assignments/records.js')
+  pool = await import('../assignments/pool.js')
+  const { milestonesRouter } = await import('../routes/milestones.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults/:vaultId/milestones', milestonesRouter)
+})
+
+beforeEach(() => {
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+  records.setMilestoneAssignmentStore(new records.InMemoryMilestoneAssignmentStore())
+  pool.setVerifierPool(new pool.InMemoryVerifierPool(['val']))
+})
+
+afterEach(() => {
+  delete process.env.MILESTONE_MAX_RESUBMISSIONS
+  jest.restoreAllMocks()
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+  records.setMilestoneAssignmentStore(null)
+  pool.setVerifierPool(null)
+})
+
+describe('milestone review state machine', () => {
+  it('only allows the documented transitions', async () => {
+    const { milestone } = await setup()
+
+    expect(milestones.getMilestoneTransitionError(milestone, 'approved')).toBe(
+      "Milestone is 'pending' and cannot become 'approved'",
+    )
+    expect(await milestones.verifyMilestone(milestone.id)).toBeNull()
+    expect(await milestones.rejectMilestone(milestone.id, 'No proof')).toBeNull()
+
+    expect((await milestones.submitMilestone(milestone.id))?.status).toBe('submitted')
+    expect((await milestones.rejectMilestone(milestone.id, 'No proof'))?.status).toBe('rejected')
+    expect(await milestones.verifyMilestone(milestone.id)).toBeNull()
+    expect((await milestones.submitMilestone(milestone.id))?.status).toBe('resubmitted')
+    const approved = await milestones.verifyMilestone(milestone.id, null, 'val')
+    expect(approved).toMatchObject({ status: 'approved', verified: true })
+    expect(milestones.getMilestoneTransitionError(approved!, 'rejected')).toBe(
+      "Milestone is 'approved' and cannot become 'rejected'",
+    )
+  })
+
+  it('stops resubmissions at the configured maximum', async () => {
+    process.env.MILESTONE_MAX_RESUBMISSIONS = '1'
+    const { milestone } = await setup()
+
+    await milestones.submitMilestone(milestone.id)
+    await milestones.rejectMilestone(milestone.id, 'Blurry')
+    await milestones.submitMilestone(milestone.id)
+    const rejected = await milestones.rejectMilestone(milestone.id, 'Still blurry')
+
+    expect(milestones.getMilestoneTransitionError(rejected!, 'resubmitted')).toBe(
+      'Milestone has reached the maximum of 1 resubmissions',
+    )
+    expect(await milestones.submitMilestone(milestone.id)).toBeNull()
+    expect(await milestones.getMilestoneById(milestone.id)).toMatchObject({ status: 'rejected', resubmissions: 1 })
+  })
+})
+
+describe('POST /api/vaults/:vaultId/milestones/:id/reject', () => {
+  it('rejects with a reason and returns the decision history', async () => {
+    const { base } = await setup()
+
+    expect((await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))).status).toBe(200)
+    const rejected = await request(app)
+      .post(`${base}/reject`)
+      .set('Authorization', bearer('val', 'VERIFIER'))
+      .send({ reason: '  Screenshot does not show the release  ' })
+    const resubmitted = await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))
+    const approved = await request(app).patch(`${base}/verify`).set('Authorization', bearer('val', 'VERIFIER'))
+
+    expect(rejected.status).toBe(200)
+    expect(rejected.body.milestone).toMatchObject({ status: 'rejected', verified: false })
+    expect(resubmitted.body.milestone).toMatchObject({ status: 'resubmitted', resubmissions: 1 })
+    expect(approved.status).toBe(200)
+    expect(approved.body.milestone.history).toEqual([
+      expect.objectContaining({ status: 'submitted', actorId: 'alice', reason: null }),
+      expect.objectContaining({ status: 'rejected', actorId: 'val', reason: 'Screenshot does not show the release' }),
+      expect.objectContaining({ status: 'resubmitted', actorId: 'alice' }),
+      expect.objectContaining({ status: 'approved', actorId: 'val' }),
+    ])
+
+    const listed = await request(app).get(`/api/vaults/${rejected.body.milestone.vaultId}/milestones`)
+    expect(listed.body.milestones[0].history).toHaveLength(4)
+  })
+
+  it('requires a reason, a verifier and a submitted milestone', async () => {
+    const { base } = await setup()
+
+    const noReason = await request(app).post(`${base}/reject`).set('Authorization', bearer('val', 'VERIFIER')).send({})
+    const notSubmitted = await request(app)
+      .post(`${base}/reject`)
+      .set('Authorization', bearer('val', 'VERIFIER'))
+      .send({ reason: 'Nothing here' })
+    const byUser = await request(app).post(`${base}/reject`).set('Authorization', bearer('bob')).send({ reason: 'No' })
+    const submitByStranger = await request(app).post(`${base}/submit`).set('Authorization', bearer('bob'))
+
+    expect(noReason.status).toBe(400)
+    expect(notSubmitted.status).toBe(409)
+    expect(byUser.status).toBe(403)
+    expect(submitByStranger.status).toBe(403)
+  })
+
+  it('refuses to resubmit once the limit is reached', async () => {
+    process.env.MILESTONE_MAX_RESUBMISSIONS = '0'
+    const { base } = await setup()
+
+    await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))
+    await request(app).post(`${base}/reject`).set('Authorization', bearer('val', 'VERIFIER')).send({ reason: 'Missing' })
+    const response = await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))
+
+    expect(response.status).toBe(409)
+    expect(response.body.error).toBe('Milestone has reached the maximum of 0 resubmissions')
+  })
+})
+
+describe('storage failures', () => {
+  it('answers 500 instead of leaving the rejection unhandled', async () => {
+    const { base } = await setup()
+    jest.spyOn(repository, 'getById').mockRejectedValue(new Error('connection refused'))
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const submit = await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))
+    const verify = await request(app).patch(`${base}/verify`).set('Authorization', bearer('val', 'VERIFIER'))
+
+    expect(submit.status).toBe(500)
+    expect(verify.status).toBe(500)
+    expect(verify.body).toEqual({ error: 'Internal server error' })
+  })
+})
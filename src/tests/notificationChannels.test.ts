@@ -0,0 +1,276 @@
+import { describe, it, beforeAll, afterAll, beforeEach, expect, jest } from '@jest/globals'
+import { createServer as createHttpServer, type Server as HttpServer } from 'node:http'
+import { createServer as createTcpServer, type AddressInfo, type Server as TcpServer } from 'node:net'
+
+const createNotification = jest.fn<(...args: unknown[]) => Promise<unknown>>().mockResolvedValue({})
+
+jest.unstable_mockModule('../services/notification.js', () => ({
+  createNotification,
+}))
+
+type Channels = typeof import('../notifications/channels.js')
+type Dispatcher = typeof import('../notifications/dispatcher.js')
+
+let channels: Channels
+let NotificationDispatcher: Dispatcher['NotificationDispatcher']
+let InMemoryNotificationDeliveryLog: typeof import('../notifications/deliveries.js').InMemoryNotificationDeliveryLog
+let InMemoryNotificationPreferenceStore: typeof import('../notifications/preferences.js').InMemoryNotificationPreferenceStore
+let defaultNotificationPreferences: typeof import('../notifications/preferences.js').defaultNotificationPreferences
+let SmtpTransport: typeof import('../notifications/smtp.js').SmtpTransport
+
+interface CapturedMail {
+  from: string
+  to: string[]
+  data: string
+}
+
+/**
+ * Just enough of an SMTP server to accept mail and hand it to the test.
+ */
+const startSmtpSink = async (
+  mails: CapturedMail[],
+  options: { rejectRecipients?: boolean } = {},
+): Promise<TcpServer> => {
+  const server = createTcpServer((socket) => {
+    let mail: CapturedMail = { from: '', to: [], data: '' }
+    let inData = false
+    let buffer = ''
+
+    socket.setEncoding('utf8')
+    socket.write('220 sink ESMTP\r\n')
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      let index = buffer.indexOf('\r\n')
+      while (index !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        index = buffer.indexOf('\r\n')
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            mails.push(mail)
+            mail = { from: '', to: [], data: '' }
+            socket.write('250 queued\r\n')
+          } else {
+            mail.data += `${line}\r\n`
+          }
+          continue
+        }
+
+        const verb = line.split(/[ :]/)[0].toUpperCase()
+        if (verb === 'EHLO') {
+          socket.write('250-sink\r\n250-8BITMIME\r\n250 AUTH PLAIN\r\n')
+        } else if (verb === 'MAIL') {
+          mail.from = line.slice(10).replace(/[<>]/g, '')
+          socket.write('250 ok\r\n')
+        } else if (verb === 'RCPT') {
+          if (options.rejectRecipients) {
+            socket.write('550 no such user\r\n')
+          } else {
+            mail.to.push(line.slice(8).replace(/[<>]/g, ''))
+            socket.write('250 ok\r\n')
+          }
+        } else if (verb === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else {
+          socket.write('502 not implemented\r\n')
+        }
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  return server
+}
+
+const portOf = (server: TcpServer | HttpServer): number => (server.address() as AddressInfo).port
+
+const close = (server: TcpServer | HttpServer): Promise<void> =>
+  new Promise((resolve) => server.close(() => resolve()))
+
+beforeAll(async () => {
+  channels = await import('../notifications/channels.js')
+  ;({ NotificationDispatcher } = await import('../notifications/dispatcher.js'))
+  ;({ InMemoryNotificationDeliveryLog } = await import('../notifications/deliveries.js'))
+  ;({ InMemoryNotificationPreferenceStore, defaultNotificationPreferences } = await import(
+    '../notifications/preferences.js'
+  ))
+  ;({ SmtpTransport } = await import('../notifications/smtp.js'))
+})
+
+beforeEach(() => {
+  createNotification.mockClear()
+})
+
+describe('SmtpTransport', () => {
+  it('delivers a message to a local SMTP sink', async () => {
+    const mails: CapturedMail[] = []
+    const sink = await startSmtpSink(mails)
+
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: portOf(sink),
+        from: 'Disciplr <no-reply@disciplr.app>',
+      })
+      await transport.send({ to: 'user@example.com', subject: 'Milestone due', text: 'Line one\n.hidden' })
+
+      expect(mails).toHaveLength(1)
+      expect(mails[0].from).toBe('no-reply@disciplr.app')
+      expect(mails[0].to).toEqual(['user@example.com'])
+      expect(mails[0].data).toContain('Subject: Milestone due')
+
+      const body = mails[0].data.split('\r\n\r\n')[1].replace(/\r\n/g, '')
+      expect(Buffer.from(body, 'base64').toString('utf8')).toBe('Line one\n.hidden')
+    } finally {
+      await close(sink)
+    }
+  })
+
+  it('fails with the server reply when a recipient is rejected', async () => {
+    const sink = await startSmtpSink([], { rejectRecipients: true })
+
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: portOf(sink), from: 'no-reply@disciplr.app' })
+      await expect(transport.send({ to: 'nobody@example.com', subject: 's', text: 't' })).rejects.toThrow(
+        'SMTP RCPT rejected: 550 no such user',
+      )
+    } finally {
+      await close(sink)
+    }
+  })
+})
+
+describe('NotificationDispatcher', () => {
+  const payload = {
+    recipient: 'Ada',
+    subject: 'Vault completed',
+    body: 'Your vault is complete.',
+    userId: 'user-1',
+    type: 'vault_completed',
+  }
+
+  let webhookStatus = 200
+  let webhookBodies: unknown[] = []
+  let receiver: HttpServer
+  const originalNodeEnv = process.env.NODE_ENV
+
+  beforeAll(async () => {
+    // The webhook receiver is a plain http server on loopback
+    process.env.NODE_ENV = 'development'
+    process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true'
+    receiver = createHttpServer((req, res) => {
+      let raw = ''
+      req.on('data', (chunk) => {
+        raw += chunk
+      })
+      req.on('end', () => {
+        webhookBodies.push(JSON.parse(raw))
+        res.statusCode = webhookStatus
+        res.end()
+      })
+    })
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve))
+  })
+
+  afterAll(async () => {
+    process.env.NODE_ENV = originalNodeEnv
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+    await close(receiver)
+  })
+
+  beforeEach(() => {
+    webhookStatus = 200
+    webhookBodies = []
+  })
+
+  const createDispatcher = async (channelNames: ('email' | 'webhook' | 'in_app')[]) => {
+    const sent: string[] = []
+    const preferences = new InMemoryNotificationPreferenceStore()
+    await preferences.save('user-1', {
+      ...defaultNotificationPreferences(),
+      channels: channelNames,
+      email: 'ada@example.com',
+      webhookUrl: `http://127.0.0.1:${portOf(receiver)}/hooks`,
+    })
+    const deliveries = new InMemoryNotificationDeliveryLog()
+    const dispatcher = new NotificationDispatcher({
+      channels: [
+        new channels.EmailChannel({ send: async (mail) => { sent.push(mail.to) } }),
+        new channels.WebhookChannel(1_000),
+        new channels.InAppChannel(),
+      ],
+      preferences,
+      deliveries,
+    })
+    return { dispatcher, deliveries, sent }
+  }
+
+  it('delivers on every channel the user prefers and records each attempt', async () => {
+    const { dispatcher, deliveries, sent } = await createDispatcher(['email', 'webhook', 'in_app'])
+
+    await dispatcher.dispatch(payload, { jobId: 'job-1', attempt: 1 })
+
+    expect(sent).toEqual(['ada@example.com'])
+    expect(webhookBodies).toEqual([expect.objectContaining({ type: 'vault_completed', subject: 'Vault completed' })])
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: 'user-1', type: 'vault_completed', title: 'Vault completed' }),
+    )
+    expect((await deliveries.listByJob('job-1')).map((delivery) => [delivery.channel, delivery.status])).toEqual([
+      ['email', 'delivered'],
+      ['webhook', 'delivered'],
+      ['in_app', 'delivered'],
+    ])
+  })
+
+  it('sends to the in-app inbox only by default', async () => {
+    const deliveries = new InMemoryNotificationDeliveryLog()
+    const dispatcher = new NotificationDispatcher({
+      channels: [new channels.InAppChannel()],
+      preferences: new InMemoryNotificationPreferenceStore(),
+      deliveries,
+    })
+
+    await dispatcher.dispatch(payload, { jobId: 'job-1', attempt: 1 })
+
+    expect(createNotification).toHaveBeenCalledTimes(1)
+    expect(await deliveries.listByJob('job-1')).toHaveLength(1)
+  })
+
+  it('throws on a failed channel and only retries that channel on the next attempt', async () => {
+    const { dispatcher, deliveries } = await createDispatcher(['webhook', 'in_app'])
+    webhookStatus = 503
+
+    await expect(dispatcher.dispatch(payload, { jobId: 'job-2', attempt: 1 })).rejects.toThrow(
+      'Notification delivery failed on webhook (Webhook responded with 503)',
+    )
+
+    webhookStatus = 200
+    await dispatcher.dispatch(payload, { jobId: 'job-2', attempt: 2 })
+
+    expect(createNotification).toHaveBeenCalledTimes(1)
+    expect(webhookBodies).toHaveLength(2)
+    expect(
+      (await deliveries.listByJob('job-2')).map((delivery) => [delivery.channel, delivery.attempt, delivery.status]),
+    ).toEqual([
+      ['webhook', 1, 'failed'],
+      ['in_app', 1, 'delivered'],
+      ['webhook', 2, 'delivered'],
+    ])
+  })
+
+  it('emails the recipient directly when the job has no user', async () => {
+    const { dispatcher, sent } = await createDispatcher([])
+
+    await dispatcher.dispatch(
+      { recipient: 'ops@example.com', subject: 'Report', body: 'Done' },
+      { jobId: 'job-3', attempt: 1 },
+    )
+
+    expect(sent).toEqual(['ops@example.com'])
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, beforeAll, beforeEach, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+type Repositories = typeof import('../repositories/notificationRepository.js')
+
+let app: express.Express
+let repositories: Repositories
+let repository: InstanceType<Repositories['InMemoryNotificationRepository']>
+
+const seed = async (userId: string, type: string, title: string) =>
+  repository.create({ user_id: userId, type, title, message: `${title} message` })
+
+beforeAll(async () => {
+  repositories = await import('../repositories/notificationRepository.js')
+  const { notificationsRouter } = await import('../routes/notifications.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/notifications', notificationsRouter)
+})
+
+beforeEach(() => {
+  repository = new repositories.InMemoryNotificationRepository()
+  repositories.setNotificationRepository(repository)
+})
+
+describe('GET /api/notifications', () => {
+  it('pages through the inbox newest first with cursors', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await seed('user-1', 'vault_completed', `n${i}`)
+    }
+    await seed('user-2', 'vault_completed', 'other')
+
+    const titles: string[] = []
+    let cursor: string | undefined
+    let pages = 0
+    do {
+      const res = await request(app)
+        .get('/api/notifications')
+        .query({ pageSize: 2, ...(cursor ? { cursor } : {}) })
+        .set('Authorization', bearer('user-1'))
+
+      expect(res.status).toBe(200)
+      expect(res.body.pagination).toMatchObject({ limit: 2, hasPrev: cursor !== undefined })
+      titles.push(...res.body.data.map((n: { title: string }) => n.title))
+      cursor = res.body.pagination.nextCursor
+      pages += 1
+    } while (cursor)
+
+    expect(pages).toBe(3)
+    expect([...titles].sort()).toEqual(['n1', 'n2', 'n3', 'n4', 'n5'])
+    expect(new Set(titles).size).toBe(5)
+  })
+
+  it('filters by type, read status and archive', async () => {
+    const completed = await seed('user-1', 'vault_completed', 'completed')
+    const failed = await seed('user-1', 'vault_failed', 'failed')
+    const verified = await seed('user-1', 'milestone_verified', 'verified')
+    await repository.markAsRead(completed.id, 'user-1')
+    await repository.archive('user-1', [verified.id])
+
+    const list = async (query: Record<string, string | string[]>) => {
+      const res = await request(app).get('/api/notifications').query(query).set('Authorization', bearer('user-1'))
+      expect(res.status).toBe(200)
+      return res.body.data.map((n: { id: string }) => n.id).sort()
+    }
+
+    expect(await list({ type: 'vault_failed' })).toEqual([failed.id])
+    expect(await list({ type: 'vault_failed,vault_completed' })).toEqual([completed.id, failed.id].sort())
+    expect(await list({ status: 'unread' })).toEqual([failed.id])
+    expect(await list({ status: 'read' })).toEqual([completed.id])
+    expect(await list({ archived: 'true' })).toEqual([verified.id])
+  })
+
+  it.each([
+    [{ status: 'seen' }, 'status must be read or unread'],
+    [{ archived: 'yes' }, 'archived must be true or false'],
+    [{ cursor: 'not-a-cursor' }, 'Invalid notification cursor'],
+  ])('rejects %j', async (query, message) => {
+    const res = await request(app).get('/api/notifications').query(query).set('Authorization', bearer('user-1'))
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toBe(message)
+  })
+})
+
+describe('GET /api/notifications/unread-count', () => {
+  it('counts unread notifications left in the inbox', async () => {
+    const read = await seed('user-1', 'vault_completed', 'read')
+    const archived = await seed('user-1', 'vault_completed', 'archived')
+    await seed('user-1', 'vault_completed', 'unread')
+    await seed('user-2', 'vault_completed', 'other')
+    await repository.markAsRead(read.id, 'user-1')
+    await repository.archive('user-1', [archived.id])
+
+    const res = await request(app).get('/api/notifications/unread-count').set('Authorization', bearer('user-1'))
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ unreadCount: 1 })
+  })
+})
+
+describe('bulk archive and delete', () => {
+  it('archives only the caller\'s notifications', async () => {
+    const mine = await seed('user-1', 'vault_completed', 'mine')
+    const theirs = await seed('user-2', 'vault_completed', 'theirs')
+
+    const res = await request(app)
+      .post('/api/notifications/archive')
+      .set('Authorization', bearer('user-1'))
+      .send({ ids: [mine.id, theirs.id] })
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ archived: 1 })
+    expect((await repository.list('user-2', { limit: 10 })).notifications).toHaveLength(1)
+  })
+
+  it('deletes only the caller\'s notifications', async () => {
+    const mine = await seed('user-1', 'vault_completed', 'mine')
+    const theirs = await seed('user-2', 'vault_completed', 'theirs')
+
+    const res = await request(app)
+      .delete('/api/notifications')
+      .set('Authorization', bearer('user-1'))
+      .send({ ids: [mine.id, theirs.id] })
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({ deleted: 1 })
+    expect((await repository.list('user-1', { limit: 10 })).notifications).toEqual([])
+    expect((await repository.list('user-2', { limit: 10 })).notifications).toHaveLength(1)
+  })
+
+  it.each([[{}], [{ ids: [] }], [{ ids: [1] }], [{ ids: Array.from({ length: 101 }, (_, i) => `id-${i}`) }]])(
+    'rejects %j',
+    async (body) => {
+      const res = await request(app).delete('/api/notifications').set('Authorization', bearer('user-1')).send(body)
+      expect(res.status).toBe(400)
+    },
+  )
+})
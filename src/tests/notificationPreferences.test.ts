@@ -0,0 +1,208 @@
+import { describe, it, beforeAll, beforeEach, expect, jest } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+const createNotification = jest.fn<() => Promise<unknown>>().mockResolvedValue({})
+
+mockSessions()
+
+jest.unstable_mockModule('../services/notification.js', () => ({
+  createNotification,
+  listUserNotifications: jest.fn<() => Promise<unknown>>(),
+  countUnreadNotifications: jest.fn<() => Promise<unknown>>(),
+  markAsRead: jest.fn<() => Promise<unknown>>(),
+  markAllAsRead: jest.fn<() => Promise<unknown>>(),
+  archiveNotifications: jest.fn<() => Promise<unknown>>(),
+  deleteNotifications: jest.fn<() => Promise<unknown>>(),
+}))
+
+type Preferences = typeof import('../notifications/preferences.js')
+
+let app: express.Express
+let preferences: Preferences
+let channels: typeof import('../notifications/channels.js')
+let NotificationDispatcher: typeof import('../notifications/dispatcher.js').NotificationDispatcher
+let InMemoryNotificationDeliveryLog: typeof import('../notifications/deliveries.js').InMemoryNotificationDeliveryLog
+let JobDeferredError: typeof import('../jobs/types.js').JobDeferredError
+
+beforeAll(async () => {
+  preferences = await import('../notifications/preferences.js')
+  channels = await import('../notifications/channels.js')
+  ;({ NotificationDispatcher } = await import('../notifications/dispatcher.js'))
+  ;({ InMemoryNotificationDeliveryLog } = await import('../notifications/deliveries.js'))
+  ;({ JobDeferredError } = await import('../jobs/types.js'))
+  const { notificationsRouter } = await import('../routes/notifications.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/notifications', notificationsRouter)
+})
+
+beforeEach(() => {
+  preferences.setNotificationPreferenceStore(new preferences.InMemoryNotificationPreferenceStore())
+  createNotification.mockClear()
+})
+
+describe('quietHoursEndAt', () => {
+  const withQuietHours = (start: string, end: string, timezone = 'UTC') => ({
+    ...preferences.defaultNotificationPreferences(),
+    quietHours: { start, end },
+    timezone,
+  })
+
+  it('returns null outside quiet hours or when none are set', () => {
+    const noon = new Date('2026-03-10T12:00:00.000Z')
+    expect(preferences.quietHoursEndAt(preferences.defaultNotificationPreferences(), noon)).toBeNull()
+    expect(preferences.quietHoursEndAt(withQuietHours('22:00', '07:00'), noon)).toBeNull()
+  })
+
+  it('handles windows that wrap past midnight', () => {
+    const lateNight = new Date('2026-03-10T23:15:30.000Z')
+    expect(preferences.quietHoursEndAt(withQuietHours('22:00', '07:00'), lateNight)?.toISOString()).toBe(
+      '2026-03-11T07:00:00.000Z',
+    )
+  })
+
+  it('evaluates the window in the user timezone', () => {
+    // 21:30 UTC is 23:30 in Berlin (CEST, UTC+2)
+    const evening = new Date('2026-06-10T21:30:00.000Z')
+    expect(preferences.quietHoursEndAt(withQuietHours('22:00', '07:00', 'Europe/Berlin'), evening)?.toISOString()).toBe(
+      '2026-06-11T05:00:00.000Z',
+    )
+    expect(preferences.quietHoursEndAt(withQuietHours('22:00', '07:00'), evening)).toBeNull()
+  })
+})
+
+describe('NotificationDispatcher with preferences', () => {
+  const createDispatcher = () => {
+    const sent: string[] = []
+    const deliveries = new InMemoryNotificationDeliveryLog()
+    const dispatcher = new NotificationDispatcher({
+      channels: [
+        new channels.EmailChannel({ send: async (mail) => { sent.push(mail.to) } }),
+        new channels.InAppChannel(),
+      ],
+      preferences: preferences.getNotificationPreferenceStore(),
+      deliveries,
+    })
+    return { dispatcher, deliveries, sent }
+  }
+
+  const payload = (type: string) => ({
+    recipient: 'Ada',
+    userId: 'user-1',
+    type,
+    subject: 'Subject',
+    body: 'Body',
+  })
+
+  it('uses the channels chosen for the notification type', async () => {
+    await preferences.getNotificationPreferenceStore().save('user-1', {
+      ...preferences.defaultNotificationPreferences(),
+      email: 'ada@example.com',
+      types: { vault_failed: ['email', 'in_app'], session_revoked: [] },
+    })
+    const { dispatcher, sent } = createDispatcher()
+
+    await dispatcher.dispatch(payload('vault_failed'), { jobId: 'a', attempt: 1 })
+    await dispatcher.dispatch(payload('session_revoked'), { jobId: 'b', attempt: 1 })
+    await dispatcher.dispatch(payload('milestone_verified'), { jobId: 'c', attempt: 1 })
+
+    expect(sent).toEqual(['ada@example.com'])
+    expect(createNotification).toHaveBeenCalledTimes(2)
+  })
+
+  it('delivers in-app during quiet hours and defers email until they end', async () => {
+    // Quiet from an hour ago until an hour from now
+    const now = new Date()
+    const start = new Date(now.getTime() - 60 * 60_000).toISOString().slice(11, 16)
+    const end = new Date(now.getTime() + 60 * 60_000).toISOString().slice(11, 16)
+    await preferences.getNotificationPreferenceStore().save('user-1', {
+      ...preferences.defaultNotificationPreferences(),
+      channels: ['email', 'in_app'],
+      email: 'ada@example.com',
+      quietHours: { start, end },
+    })
+    const { dispatcher, deliveries, sent } = createDispatcher()
+
+    const deferred = await dispatcher
+      .dispatch(payload('vault_completed'), { jobId: 'job-q', attempt: 1 })
+      .catch((error: unknown) => error)
+
+    expect(deferred).toBeInstanceOf(JobDeferredError)
+    expect((deferred as InstanceType<typeof JobDeferredError>).runAt).toBeGreaterThan(now.getTime())
+    expect(sent).toEqual([])
+    expect((await deliveries.listByJob('job-q')).map((delivery) => delivery.channel)).toEqual(['in_app'])
+  })
+})
+
+describe('/api/notifications/preferences', () => {
+  it('requires authentication', async () => {
+    expect((await request(app).get('/api/notifications/preferences')).status).toBe(401)
+  })
+
+  it('returns defaults for a user without stored preferences', async () => {
+    const res = await request(app).get('/api/notifications/preferences').set('Authorization', bearer('user-1'))
+
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual({
+      channels: ['in_app'],
+      types: {},
+      quietHours: null,
+      timezone: 'UTC',
+      email: null,
+      webhookUrl: null,
+    })
+  })
+
+  it('merges updates into the stored preferences', async () => {
+    await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', bearer('user-1'))
+      .send({ email: 'ada@example.com', types: { vault_failed: ['email', 'in_app'] } })
+
+    const res = await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', bearer('user-1'))
+      .send({ quietHours: { start: '22:00', end: '07:00' }, timezone: 'Europe/Berlin' })
+
+    expect(res.status).toBe(200)
+    expect(res.body).toMatchObject({
+      email: 'ada@example.com',
+      types: { vault_failed: ['email', 'in_app'] },
+      quietHours: { start: '22:00', end: '07:00' },
+      timezone: 'Europe/Berlin',
+    })
+
+    const other = await request(app).get('/api/notifications/preferences').set('Authorization', bearer('user-2'))
+    expect(other.body.email).toBeNull()
+  })
+
+  it('clears a per-type entry with null', async () => {
+    const put = (body: object) =>
+      request(app).put('/api/notifications/preferences').set('Authorization', bearer('user-1')).send(body)
+
+    await put({ types: { vault_failed: ['email'] } })
+    const res = await put({ types: { vault_failed: null } })
+
+    expect(res.body.types).toEqual({})
+  })
+
+  it.each([
+    [{ channels: ['sms'] }, 'channels must be an array'],
+    [{ types: { vault_exploded: ['email'] } }, 'Unknown notification type: vault_exploded'],
+    [{ quietHours: { start: '25:00', end: '07:00' } }, 'quietHours must be null'],
+    [{ timezone: 'Mars/Base' }, 'timezone must be an IANA timezone'],
+    [{ webhookUrl: 'ftp://example.com' }, 'webhookUrl must be null or a public https URL'],
+    [{ webhookUrl: 'https://10.0.0.5/hooks' }, 'webhookUrl must be null or a public https URL'],
+  ])('rejects %j', async (body, message) => {
+    const res = await request(app)
+      .put('/api/notifications/preferences')
+      .set('Authorization', bearer('user-1'))
+      .send(body)
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toContain(message)
+  })
+})
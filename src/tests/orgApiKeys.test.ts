@@ -0,0 +1,181 @@
+import { describe, it, beforeAll, beforeEach, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import type { OrgMember } from '../models/organizations.js'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+const ORG_ID = 'org-1'
+const OTHER_ORG_ID = 'org-2'
+
+let app: express.Express
+let apiKeys: typeof import('../services/apiKeys.js')
+let auditLogs: typeof import('../lib/audit-logs.js')
+let organizations: typeof import('../models/organizations.js')
+
+const members: OrgMember[] = [
+  { orgId: ORG_ID, userId: 'alice', role: 'owner' },
+  { orgId: ORG_ID, userId: 'bob', role: 'admin' },
+  { orgId: ORG_ID, userId: 'carol', role: 'member' },
+  { orgId: OTHER_ORG_ID, userId: 'dave', role: 'admin' },
+]
+
+beforeAll(async () => {
+  delete process.env.DATABASE_URL
+
+  const { orgApiKeysRouter } = await import('../routes/orgApiKeys.js')
+  const { apiKeysRouter } = await import('../routes/apiKeys.js')
+  const { requireOrgMemberOrApiKey } = await import('../middleware/orgAuth.js')
+  organizations = await import('../models/organizations.js')
+  apiKeys = await import('../services/apiKeys.js')
+  auditLogs = await import('../lib/audit-logs.js')
+
+  organizations.setOrganizations([
+    { id: ORG_ID, name: 'Org One', createdAt: '2025-01-01T00:00:00.000Z' },
+    { id: OTHER_ORG_ID, name: 'Org Two', createdAt: '2025-01-01T00:00:00.000Z' },
+  ])
+  organizations.setOrgMembers(members)
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/organizations', orgApiKeysRouter)
+  app.use('/api/api-keys', apiKeysRouter)
+  app.get(
+    '/api/organizations/:orgId/vaults',
+    requireOrgMemberOrApiKey(['owner', 'admin', 'member'], ['vaults:read']),
+    (req, res) => res.json({ orgId: req.params.orgId, apiKeyId: req.apiKeyAuth?.apiKeyId ?? null }),
+  )
+})
+
+beforeEach(() => {
+  apiKeys.resetApiKeysTable()
+  auditLogs.resetAuditLogs()
+})
+
+const createOrgKey = async (scopes: string[], orgId = ORG_ID, userId = 'alice') =>
+  request(app)
+    .post(`/api/organizations/${orgId}/api-keys`)
+    .set('Authorization', bearer(userId))
+    .send({ label: 'ci', scopes })
+
+describe('organization API key management', () => {
+  it('lets org owners and admins create and list org keys', async () => {
+    const created = await createOrgKey(['vaults:read'])
+    expect(created.status).toBe(201)
+    expect(created.body.apiKeyMeta).toMatchObject({ orgId: ORG_ID, userId: null, scopes: ['vaults:read'] })
+    expect(created.body.apiKeyMeta).not.toHaveProperty('keyHash')
+
+    const listed = await request(app)
+      .get(`/api/organizations/${ORG_ID}/api-keys`)
+      .set('Authorization', bearer('bob'))
+    expect(listed.status).toBe(200)
+    expect(listed.body.apiKeys.map((key: { id: string }) => key.id)).toEqual([created.body.apiKeyMeta.id])
+
+    const logs = await auditLogs.listAuditLogs({ action: 'org_api_key.created' })
+    expect(logs.logs).toHaveLength(1)
+    expect(logs.logs[0].metadata).toMatchObject({ org_id: ORG_ID })
+  })
+
+  it('rejects plain members, outsiders and unknown orgs', async () => {
+    expect((await createOrgKey(['vaults:read'], ORG_ID, 'carol')).status).toBe(403)
+    expect((await createOrgKey(['vaults:read'], ORG_ID, 'dave')).status).toBe(403)
+    expect((await createOrgKey(['vaults:read'], 'missing-org')).status).toBe(404)
+    expect((await request(app).get(`/api/organizations/${ORG_ID}/api-keys`)).status).toBe(401)
+  })
+
+  it('only revokes keys belonging to the organization', async () => {
+    const created = await createOrgKey(['vaults:read'])
+    const keyId = created.body.apiKeyMeta.id
+
+    const foreign = await request(app)
+      .post(`/api/organizations/${OTHER_ORG_ID}/api-keys/${keyId}/revoke`)
+      .set('Authorization', bearer('dave'))
+    expect(foreign.status).toBe(404)
+
+    const revoked = await request(app)
+      .post(`/api/organizations/${ORG_ID}/api-keys/${keyId}/revoke`)
+      .set('Authorization', bearer('bob'))
+    expect(revoked.status).toBe(200)
+    expect(revoked.body.apiKeyMeta.revokedAt).not.toBeNull()
+
+    const read = await request(app).get(`/api/organizations/${ORG_ID}/vaults`).set('x-api-key', created.body.apiKey)
+    expect(read.status).toBe(401)
+  })
+
+  it('does not let org admins revoke personal keys bound to the org', async () => {
+    const { record } = await apiKeys.createApiKey({ userId: 'alice', orgId: ORG_ID, label: 'personal', scopes: [] })
+
+    const response = await request(app)
+      .post(`/api/organizations/${ORG_ID}/api-keys/${record.id}/revoke`)
+      .set('Authorization', bearer('bob'))
+
+    expect(response.status).toBe(404)
+    expect(record.revokedAt).toBeNull()
+  })
+
+  it('does not bind personal keys to an org', async () => {
+    const response = await request(app)
+      .post('/api/api-keys')
+      .set('x-user-id', 'bob')
+      .send({ label: 'mine', scopes: [], orgId: ORG_ID })
+
+    expect(response.status).toBe(400)
+    expect(await apiKeys.listApiKeysForUser('bob')).toEqual([])
+  })
+})
+
+describe('requireOrgMemberOrApiKey', () => {
+  it('accepts an org key with the required scope for its own org', async () => {
+    const created = await createOrgKey(['vaults:read'])
+
+    const response = await request(app)
+      .get(`/api/organizations/${ORG_ID}/vaults`)
+      .set('x-api-key', created.body.apiKey)
+
+    expect(response.status).toBe(200)
+    expect(response.body.apiKeyId).toBe(created.body.apiKeyMeta.id)
+  })
+
+  it('rejects org keys used against another org', async () => {
+    const created = await createOrgKey(['vaults:read'])
+
+    const response = await request(app)
+      .get(`/api/organizations/${OTHER_ORG_ID}/vaults`)
+      .set('x-api-key', created.body.apiKey)
+
+    expect(response.status).toBe(403)
+  })
+
+  it('rejects org keys missing the required scope', async () => {
+    const created = await createOrgKey(['analytics:read'])
+
+    const response = await request(app)
+      .get(`/api/organizations/${ORG_ID}/vaults`)
+      .set('x-api-key', created.body.apiKey)
+
+    expect(response.status).toBe(403)
+  })
+
+  it('rejects a personal key bound to the org once its owner has been removed', async () => {
+    const { apiKey } = await apiKeys.createApiKey({ userId: 'bob', orgId: ORG_ID, label: 'personal', scopes: ['vaults:read'] })
+    organizations.setOrgMembers(members.filter((member) => member.userId !== 'bob'))
+
+    try {
+      const response = await request(app).get(`/api/organizations/${ORG_ID}/vaults`).set('x-api-key', apiKey)
+
+      expect(response.status).toBe(403)
+      expect(response.body.error).toBe('API key is not scoped to this organization')
+    } finally {
+      organizations.setOrgMembers(members)
+    }
+  })
+
+  it('falls back to member JWT auth without an API key', async () => {
+    const member = await request(app).get(`/api/organizations/${ORG_ID}/vaults`).set('Authorization', bearer('carol'))
+    expect(member.status).toBe(200)
+
+    const outsider = await request(app).get(`/api/organizations/${ORG_ID}/vaults`).set('Authorization', bearer('dave'))
+    expect(outsider.status).toBe(403)
+  })
+})
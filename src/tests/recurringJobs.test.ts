@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from '@jest/globals'
+import { nextCronRun, parseCron } from '../jobs/cron.js'
+import { RecurringJobScheduler } from '../jobs/scheduler.js'
+
+const next = (expression: string, from: string): string =>
+  nextCronRun(parseCron(expression), new Date(from)).toISOString()
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 2_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+describe('cron expressions', () => {
+  it('finds the next matching minute after the given time', () => {
+    expect(next('* * * * *', '2026-03-01T10:15:30.000Z')).toBe('2026-03-01T10:16:00.000Z')
+    expect(next('*/15 * * * *', '2026-03-01T10:15:00.000Z')).toBe('2026-03-01T10:30:00.000Z')
+    expect(next('0 9 * * *', '2026-03-01T10:00:00.000Z')).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('supports ranges, lists and day-of-week', () => {
+    // 2026-03-06 is a Friday; next weekday 08:30 is Monday
+    expect(next('30 8 * * 1-5', '2026-03-06T09:00:00.000Z')).toBe('2026-03-09T08:30:00.000Z')
+    expect(next('0 0 1,15 * *', '2026-03-02T00:00:00.000Z')).toBe('2026-03-15T00:00:00.000Z')
+    expect(next('0 12 * * 7', '2026-03-06T00:00:00.000Z')).toBe('2026-03-08T12:00:00.000Z')
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 20th, or any Monday, at midnight
+    expect(next('0 0 20 * 1', '2026-03-06T00:00:00.000Z')).toBe('2026-03-09T00:00:00.000Z')
+  })
+
+  it('rolls over months and years', () => {
+    expect(next('0 0 1 1 *', '2026-06-01T00:00:00.000Z')).toBe('2027-01-01T00:00:00.000Z')
+    expect(next('0 0 29 2 *', '2026-01-01T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z')
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('expected 5 fields')
+    expect(() => parseCron('60 * * * *')).toThrow('out of range')
+    expect(() => parseCron('*/0 * * * *')).toThrow('bad step')
+    expect(() => parseCron('5-1 * * * *')).toThrow('reversed')
+  })
+})
+
+describe('RecurringJobScheduler', () => {
+  const schedulers: RecurringJobScheduler[] = []
+
+  afterEach(() => {
+    for (const scheduler of schedulers) {
+      scheduler.stop()
+    }
+    schedulers.length = 0
+  })
+
+  const createScheduler = (): RecurringJobScheduler => {
+    const scheduler = new RecurringJobScheduler()
+    schedulers.push(scheduler)
+    return scheduler
+  }
+
+  it('runs interval jobs and reports last and next run', async () => {
+    const scheduler = createScheduler()
+    let runs = 0
+    scheduler.register({ name: 'tick', intervalMs: 10, run: async () => { runs += 1 } })
+    scheduler.start()
+
+    await waitFor(() => runs >= 2)
+
+    const [status] = scheduler.getStatus()
+    expect(status.name).toBe('tick')
+    expect(status.schedule).toBe('every 10ms')
+    expect(status.lastRunAt).not.toBeNull()
+    expect(status.nextRunAt).not.toBeNull()
+  })
+
+  it('skips ticks while the previous run is still in progress', async () => {
+    const scheduler = createScheduler()
+    let release: () => void = () => {}
+    let started = 0
+    scheduler.register({
+      name: 'slow',
+      intervalMs: 5,
+      runOnStart: true,
+      run: () => {
+        started += 1
+        return new Promise<void>((resolve) => {
+          release = resolve
+        })
+      },
+    })
+    scheduler.start()
+
+    await waitFor(() => scheduler.getStatus()[0].skippedOverlaps >= 2)
+    expect(started).toBe(1)
+    expect(scheduler.getStatus()[0].running).toBe(true)
+
+    release()
+    await waitFor(() => scheduler.getStatus()[0].runs >= 1)
+  })
+
+  it('records failures without stopping the schedule', async () => {
+    const scheduler = createScheduler()
+    scheduler.register({
+      name: 'flaky',
+      intervalMs: 5,
+      run: async () => {
+        throw new Error('boom')
+      },
+    })
+    scheduler.start()
+
+    await waitFor(() => scheduler.getStatus()[0].failures >= 2)
+    expect(scheduler.getStatus()[0].lastError).toBe('boom')
+  })
+
+  it('computes the next run for cron jobs', () => {
+    const scheduler = createScheduler()
+    scheduler.register({ name: 'nightly', cron: '0 3 * * *', run: async () => {} })
+    scheduler.start()
+
+    const [status] = scheduler.getStatus()
+    expect(status.schedule).toBe('cron 0 3 * * *')
+    expect(new Date(status.nextRunAt as string).getUTCHours()).toBe(3)
+  })
+
+  it('rejects duplicate names and missing schedules', () => {
+    const scheduler = createScheduler()
+    scheduler.register({ name: 'once', intervalMs: 1_000, run: async () => {} })
+
+    expect(() => scheduler.register({ name: 'once', intervalMs: 1_000, run: async () => {} })).toThrow(
+      'already registered',
+    )
+    expect(() => scheduler.register({ name: 'never', run: async () => {} })).toThrow(
+      'needs a cron expression or a positive intervalMs',
+    )
+  })
+})
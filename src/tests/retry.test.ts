@@ -1,4 +1,4 @@
-import { retryWithBackoff, isRetryable, sleep, DEFAULT_RETRY_CONFIG } from '../utils/retry.js'
+import { retryWithBackoff, isRetryable, sleep, getBackoffDelayMs, DEFAULT_RETRY_CONFIG } from '../utils/retry.js'
 
 describe('retry utility', () => {
   describe('sleep', () => {
@@ -47,6 +47,14 @@ describe('retry utility', () => {
     })
   })
 
+  describe('getBackoffDelayMs', () => {
+    it('should grow the delay each attempt up to maxBackoffMs', () => {
+      const config = { initialBackoffMs: 100, maxBackoffMs: 1000, backoffMultiplier: 3 }
+
+      expect([1, 2, 3, 4].map((attempt) => getBackoffDelayMs(attempt, config))).toEqual([100, 300, 900, 1000])
+    })
+  })
+
   describe('retryWithBackoff', () => {
     it('should succeed on first attempt if operation succeeds', async () => {
       let callCount = 0
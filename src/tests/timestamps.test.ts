@@ -3,6 +3,8 @@ import {
   parseAndNormalizeToUTC,
   utcNow,
   formatTimestamp,
+  isValidTimeZone,
+  getLocalMinutesOfDay,
 } from '../utils/timestamps.js'
 
 // ── isValidISO8601 ──────────────────────────────────────────────
@@ -147,3 +149,31 @@ describe('formatTimestamp', () => {
     expect(() => formatTimestamp('garbage')).toThrow('Invalid timestamp for formatting')
   })
 })
+
+// ── isValidTimeZone / getLocalMinutesOfDay ─────────────────────
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA names and UTC', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+  })
+
+  it('rejects unknown zones and non-strings', () => {
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+    expect(isValidTimeZone('')).toBe(false)
+    expect(isValidTimeZone(42)).toBe(false)
+  })
+})
+
+describe('getLocalMinutesOfDay', () => {
+  const date = new Date('2025-06-15T23:30:00Z')
+
+  it('defaults to UTC', () => {
+    expect(getLocalMinutesOfDay(date)).toBe(23 * 60 + 30)
+  })
+
+  it('wraps past midnight in zones ahead of UTC', () => {
+    // 23:30 UTC = 01:30 CEST the next day
+    expect(getLocalMinutesOfDay(date, 'Europe/Berlin')).toBe(90)
+  })
+})
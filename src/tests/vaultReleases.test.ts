@@ -0,0 +1,186 @@
+import { describe, it, beforeAll, beforeEach, afterAll, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { bearer, mockRbac, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+mockRbac()
+
+const DAY = 86_400_000
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let releases: typeof import('../services/vaultReleases.js')
+let transitions: typeof import('../services/vaultTransitions.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+const createVault = (amount = '100', endsInMs = 30 * DAY) =>
+  repository.create({
+    creator: 'alice',
+    amount,
+    endTimestamp: new Date(Date.now() + endsInMs).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+
+const balancesOf = async (id: string) => releases.getVaultBalances((await repository.getById(id))!)
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  releases = await import('../services/vaultReleases.js')
+  transitions = await import('../services/vaultTransitions.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  const { vaultsRouter } = await import('../routes/vaults.js')
+  const { milestonesRouter } = await import('../routes/milestones.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults', vaultsRouter)
+  app.use('/api/vaults/:vaultId/milestones', milestonesRouter)
+})
+
+beforeEach(() => {
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+})
+
+describe('per-milestone release', () => {
+  it('releases a verified milestone\'s amount once', async () => {
+    const vault = await createVault()
+    const first = await milestones.createMilestone(vault.id, 'Draft', null, '40')
+    await milestones.createMilestone(vault.id, 'Publish', null, '60')
+    await milestones.submitMilestone(first.id)
+    await milestones.verifyMilestone(first.id)
+
+    expect(await releases.releaseMilestone(vault, first.id)).toEqual({
+      vaultId: vault.id,
+      milestoneId: first.id,
+      outcome: 'released',
+      amount: '40',
+      destination: 'addr-success',
+    })
+    expect(await releases.releaseMilestone(vault, first.id)).toBeNull()
+    expect(await balancesOf(vault.id)).toEqual({ amount: '100', released: '40', redirected: '0', remaining: '60' })
+  })
+
+  it('redirects milestones that passed their due date unverified', async () => {
+    const vault = await createVault('100.5')
+    const missed = await milestones.createMilestone(vault.id, 'Late', new Date(Date.now() - 1_000).toISOString(), '30.25')
+    await milestones.createMilestone(vault.id, 'Upcoming', new Date(Date.now() + DAY).toISOString(), '70.25')
+
+    const settlements = await releases.redirectMissedMilestones()
+
+    expect(settlements).toEqual([expect.objectContaining({ milestoneId: missed.id, amount: '30.25', destination: 'addr-fail' })])
+    expect((await milestones.getMilestoneById(missed.id))?.releaseStatus).toBe('redirected')
+    expect(await releases.redirectMissedMilestones()).toEqual([])
+    expect(await balancesOf(vault.id)).toEqual({ amount: '100.5', released: '0', redirected: '30.25', remaining: '70.25' })
+  })
+
+  it('releases the rest when the vault completes', async () => {
+    const vault = await createVault()
+    const ids = await Promise.all(
+      ['One', 'Two'].map(async (name) => (await milestones.createMilestone(vault.id, name, null, '50')).id),
+    )
+    await milestones.submitMilestone(ids[0])
+    await milestones.verifyMilestone(ids[0])
+    await releases.releaseMilestone(vault, ids[0])
+    await milestones.submitMilestone(ids[1])
+    await milestones.verifyMilestone(ids[1])
+
+    expect((await transitions.completeVault(vault.id)).success).toBe(true)
+    expect(await balancesOf(vault.id)).toEqual({ amount: '100', released: '100', redirected: '0', remaining: '0' })
+  })
+
+  it('keeps releasing verified milestones but redirects the rest when the vault fails', async () => {
+    const vault = await createVault('100', -1_000)
+    const verified = await milestones.createMilestone(vault.id, 'Done', null, '25')
+    await milestones.createMilestone(vault.id, 'Not done', null, '75')
+    await milestones.submitMilestone(verified.id)
+    await milestones.verifyMilestone(verified.id)
+
+    expect(await transitions.checkExpiredVaults()).toEqual([vault.id])
+    expect(await balancesOf(vault.id)).toEqual({ amount: '100', released: '25', redirected: '75', remaining: '0' })
+  })
+
+  it('settles the whole amount of a vault without milestone amounts', async () => {
+    const vault = await createVault('80', -1_000)
+
+    expect((await transitions.failVault(vault.id)).success).toBe(true)
+    expect(await balancesOf(vault.id)).toMatchObject({ released: '0', redirected: '80', remaining: '0' })
+  })
+})
+
+describe('POST /api/vaults with milestones', () => {
+  const body = (milestoneAmounts: string[]) => ({
+    creator: 'alice',
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 30 * DAY).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+    milestones: milestoneAmounts.map((amount, index) => ({ description: `Step ${index + 1}`, amount })),
+  })
+
+  it('creates the milestones when their amounts add up to the vault amount', async () => {
+    const response = await request(app).post('/api/vaults').set('Authorization', bearer('alice')).send(body(['33.3333333', '66.6666667']))
+
+    expect(response.status).toBe(201)
+    expect(response.body.milestones.map((milestone: { amount: string }) => milestone.amount)).toEqual([
+      '33.3333333',
+      '66.6666667',
+    ])
+
+    const balances = await request(app).get(`/api/vaults/${response.body.id}/balances`).set('Authorization', bearer('alice'))
+    expect(balances.body).toMatchObject({ amount: '100', released: '0', redirected: '0', remaining: '100' })
+    expect(balances.body.milestones).toHaveLength(2)
+  })
+
+  it('rejects milestone amounts that do not add up to the vault amount', async () => {
+    const response = await request(app).post('/api/vaults').set('Authorization', bearer('alice')).send(body(['40', '50']))
+
+    expect(response.status).toBe(400)
+    expect(response.body.error).toBe('Milestone amounts must add up to the vault amount')
+    expect(await repository.list()).toEqual([])
+  })
+})
+
+describe('POST /api/vaults/:vaultId/milestones', () => {
+  const addMilestone = (vaultId: string, userId: string, dueDate: string | null = null) =>
+    request(app)
+      .post(`/api/vaults/${vaultId}/milestones`)
+      .set('Authorization', bearer(userId))
+      .send({ description: 'Extra step', amount: '40', dueDate })
+
+  it('only lets the vault creator add milestones', async () => {
+    const vault = await createVault()
+
+    const byStranger = await addMilestone(vault.id, 'mallory', new Date(Date.now() - 1_000).toISOString())
+    const byCreator = await addMilestone(vault.id, 'alice')
+
+    expect(byStranger.status).toBe(403)
+    expect(byStranger.body.error).toBe('Only the vault creator can add milestones')
+    expect(byCreator.status).toBe(201)
+    expect((await milestones.getMilestonesByVaultId(vault.id)).map((milestone) => milestone.id)).toEqual([byCreator.body.id])
+  })
+
+  it('rejects a due date in the past or after the vault ends', async () => {
+    const vault = await createVault()
+
+    const past = await addMilestone(vault.id, 'alice', new Date(Date.now() - 1_000).toISOString())
+    const afterEnd = await addMilestone(vault.id, 'alice', new Date(Date.now() + 60 * DAY).toISOString())
+
+    expect(past.status).toBe(400)
+    expect(past.body.error).toBe('dueDate must be in the future')
+    expect(afterEnd.status).toBe(400)
+    expect(afterEnd.body.error).toBe('dueDate cannot be after the vault endTimestamp')
+    expect(await releases.redirectMissedMilestones()).toEqual([])
+  })
+})
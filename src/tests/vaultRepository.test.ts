@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import { InMemoryVaultRepository } from '../repositories/vaultRepository.js'
+
+const baseVault = {
+  amount: '100',
+  endTimestamp: '2030-01-01T00:00:00.000Z',
+  successDestination: 'addr-success',
+  failureDestination: 'addr-fail',
+}
+
+let repository: InMemoryVaultRepository
+
+beforeEach(() => {
+  repository = new InMemoryVaultRepository()
+})
+
+describe('InMemoryVaultRepository', () => {
+  it('creates active vaults with generated ids and timestamps', async () => {
+    const vault = await repository.create({ ...baseVault, creator: 'alice' })
+
+    expect(vault.id).toBeTruthy()
+    expect(vault.status).toBe('active')
+    expect(vault.createdAt).toMatch(/Z$/)
+    expect(vault.orgId).toBeNull()
+    expect(await repository.getById(vault.id)).toEqual(vault)
+  })
+
+  it('returns copies so callers cannot mutate stored vaults', async () => {
+    const vault = await repository.create({ ...baseVault, creator: 'alice' })
+    vault.status = 'failed'
+
+    expect((await repository.getById(vault.id))?.status).toBe('active')
+  })
+
+  it('lists newest first and applies filters', async () => {
+    await repository.create({ ...baseVault, id: 'a', creator: 'alice', createdAt: '2025-01-01T00:00:00.000Z' })
+    await repository.create({ ...baseVault, id: 'b', creator: 'bob', createdAt: '2025-02-01T00:00:00.000Z', orgId: 'org-1' })
+    await repository.create({ ...baseVault, id: 'c', creator: 'alice', createdAt: '2025-03-01T00:00:00.000Z', status: 'completed' })
+
+    expect((await repository.list()).map((v) => v.id)).toEqual(['c', 'b', 'a'])
+    expect((await repository.list({ creator: 'alice' })).map((v) => v.id)).toEqual(['c', 'a'])
+    expect((await repository.list({ orgId: 'org-1' })).map((v) => v.id)).toEqual(['b'])
+    expect((await repository.list({ status: 'completed' })).map((v) => v.id)).toEqual(['c'])
+  })
+
+  it('only updates status when the current status matches the guard', async () => {
+    const vault = await repository.create({ ...baseVault, creator: 'alice' })
+
+    expect(await repository.updateStatus(vault.id, 'completed', ['active'])).toMatchObject({ status: 'completed' })
+    expect(await repository.updateStatus(vault.id, 'cancelled', ['active'])).toBeNull()
+    expect((await repository.getById(vault.id))?.status).toBe('completed')
+    expect(await repository.updateStatus('missing', 'failed')).toBeNull()
+  })
+
+  it('fails only active vaults past their end timestamp', async () => {
+    await repository.create({ ...baseVault, id: 'expired', creator: 'alice', endTimestamp: '2020-01-01T00:00:00.000Z' })
+    await repository.create({ ...baseVault, id: 'done', creator: 'alice', endTimestamp: '2020-01-01T00:00:00.000Z', status: 'completed' })
+    await repository.create({ ...baseVault, id: 'future', creator: 'alice' })
+
+    const failed = await repository.failExpired(new Date('2025-01-01T00:00:00.000Z'))
+
+    expect(failed.map((v) => v.id)).toEqual(['expired'])
+    expect((await repository.getById('done'))?.status).toBe('completed')
+    expect((await repository.getById('future'))?.status).toBe('active')
+  })
+
+  it('adds settlements to the released and redirected balances', async () => {
+    const vault = await repository.create({ ...baseVault, creator: 'alice' })
+    expect(vault).toMatchObject({ releasedAmount: '0', redirectedAmount: '0' })
+
+    await repository.recordSettlement(vault.id, { released: '12.5' })
+    const settled = await repository.recordSettlement(vault.id, { released: '0.25', redirected: '40' })
+
+    expect(settled).toMatchObject({ releasedAmount: '12.75', redirectedAmount: '40' })
+    expect(await repository.recordSettlement('missing', { released: '1' })).toBeNull()
+  })
+
+  it('deletes every vault for a creator', async () => {
+    await repository.create({ ...baseVault, creator: 'alice' })
+    await repository.create({ ...baseVault, creator: 'alice' })
+    await repository.create({ ...baseVault, creator: 'bob' })
+
+    expect(await repository.deleteByCreator('alice')).toBe(2)
+    expect(await repository.list()).toHaveLength(1)
+  })
+})
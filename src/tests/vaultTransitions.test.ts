@@ -1,17 +1,19 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals'
+import express from 'express'
 import request from 'supertest'
-import { app } from '../app.js'
-import { describe, it, expect, beforeEach } from '@jest/globals'
-import { UserRole } from '../types/user.js'
-import { vaults, setVaults, type Vault } from '../routes/vaults.js'
-import { resetMilestonesTable, createMilestone, verifyMilestone } from '../services/milestones.js'
-import {
-  getTransitionError,
-  completeVault,
-  failVault,
-  cancelVault,
-  checkExpiredVaults,
-} from '../services/vaultTransitions.js'
-import { signToken } from '../middleware/auth.js'
+import type { Vault } from '../types/vaults.js'
+import { bearer, mockRbac, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+mockRbac()
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let transitions: typeof import('../services/vaultTransitions.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let records: typeof import('../assignments/records.js')
+let pool: typeof import('../assignments/pool.js')
 
 // Helpers
 const pastDate = () => new Date(Date.now() - 86_400_000).toISOString()
@@ -30,120 +32,149 @@ const makeVault = (overrides: Partial<Vault> = {}): Vault => ({
   ...overrides,
 })
 
-const tokenFor = (sub: string, role: UserRole.USER | UserRole.VERIFIER | UserRole.ADMIN) =>
-  `Bearer ${signToken({ sub, role })}`
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+const statusOf = async (id: string) => (await repository.getById(id))?.status
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  transitions = await import('../services/vaultTransitions.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  records = await import('../assignments/records.js')
+  pool = await import('../assignments/pool.js')
+  const { vaultsRouter } = await import('../routes/vaults.js')
+  const { milestonesRouter } = await import('../routes/milestones.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults/:vaultId/milestones', milestonesRouter)
+  app.use('/api/vaults', vaultsRouter)
+})
 
 beforeEach(() => {
-  setVaults([])
-  resetMilestonesTable()
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+  records.setMilestoneAssignmentStore(new records.InMemoryMilestoneAssignmentStore())
+  pool.setVerifierPool(new pool.InMemoryVerifierPool(['verifier-1']))
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+  records.setMilestoneAssignmentStore(null)
+  pool.setVerifierPool(null)
 })
 
 // ─── getTransitionError ─────────────────────────────────────────────
 
 describe('getTransitionError', () => {
-  it('allows active → completed with all milestones verified', () => {
+  it('allows active → completed with all milestones verified', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    const ms = createMilestone(vault.id, 'task 1')
-    verifyMilestone(ms.id)
+    await repository.create(vault)
+    const ms = await milestones.createMilestone(vault.id, 'task 1')
+    await milestones.submitMilestone(ms.id)
+    await milestones.verifyMilestone(ms.id)
 
-    expect(getTransitionError(vault, 'completed')).toBeNull()
+    expect(await transitions.getTransitionError(vault, 'completed')).toBeNull()
   })
 
-  it('rejects active → completed when milestones are not all verified', () => {
+  it('rejects active → completed when milestones are not all verified', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    createMilestone(vault.id, 'task 1')
+    await repository.create(vault)
+    await milestones.createMilestone(vault.id, 'task 1')
 
-    expect(getTransitionError(vault, 'completed')).toMatch(/not all milestones/)
+    expect(await transitions.getTransitionError(vault, 'completed')).toMatch(/not all milestones/)
   })
 
-  it('rejects active → completed when there are zero milestones', () => {
+  it('rejects active → completed when there are zero milestones', async () => {
     const vault = makeVault()
-    vaults.push(vault)
+    await repository.create(vault)
 
-    expect(getTransitionError(vault, 'completed')).toMatch(/not all milestones/)
+    expect(await transitions.getTransitionError(vault, 'completed')).toMatch(/not all milestones/)
   })
 
-  it('allows active → failed when endTimestamp has passed', () => {
+  it('allows active → failed when endTimestamp has passed', async () => {
     const vault = makeVault({ endTimestamp: pastDate() })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    expect(getTransitionError(vault, 'failed')).toBeNull()
+    expect(await transitions.getTransitionError(vault, 'failed')).toBeNull()
   })
 
-  it('rejects active → failed when endTimestamp is in the future', () => {
+  it('rejects active → failed when endTimestamp is in the future', async () => {
     const vault = makeVault({ endTimestamp: futureDate() })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    expect(getTransitionError(vault, 'failed')).toMatch(/endTimestamp has not passed/)
+    expect(await transitions.getTransitionError(vault, 'failed')).toMatch(/endTimestamp has not passed/)
   })
 
-  it('allows active → cancelled by the creator', () => {
+  it('allows active → cancelled by the creator', async () => {
     const vault = makeVault({ creator: 'alice' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    expect(getTransitionError(vault, 'cancelled', 'alice')).toBeNull()
+    expect(await transitions.getTransitionError(vault, 'cancelled', 'alice')).toBeNull()
   })
 
-  it('rejects active → cancelled by a non-creator', () => {
+  it('rejects active → cancelled by a non-creator', async () => {
     const vault = makeVault({ creator: 'alice' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    expect(getTransitionError(vault, 'cancelled', 'bob')).toMatch(/only the creator/)
+    expect(await transitions.getTransitionError(vault, 'cancelled', 'bob')).toMatch(/only the creator/)
   })
 
-  it('rejects transition from completed', () => {
+  it('rejects transition from completed', async () => {
     const vault = makeVault({ status: 'completed' })
-    expect(getTransitionError(vault, 'cancelled', vault.creator)).toMatch(/already 'completed'/)
+    expect(await transitions.getTransitionError(vault, 'cancelled', vault.creator)).toMatch(/already 'completed'/)
   })
 
-  it('rejects transition from failed', () => {
+  it('rejects transition from failed', async () => {
     const vault = makeVault({ status: 'failed' })
-    expect(getTransitionError(vault, 'completed')).toMatch(/already 'failed'/)
+    expect(await transitions.getTransitionError(vault, 'completed')).toMatch(/already 'failed'/)
   })
 
-  it('rejects transition from cancelled', () => {
+  it('rejects transition from cancelled', async () => {
     const vault = makeVault({ status: 'cancelled' })
-    expect(getTransitionError(vault, 'failed')).toMatch(/already 'cancelled'/)
+    expect(await transitions.getTransitionError(vault, 'failed')).toMatch(/already 'cancelled'/)
   })
 })
 
 // ─── completeVault ──────────────────────────────────────────────────
 
 describe('completeVault', () => {
-  it('succeeds when all milestones are verified', () => {
+  it('succeeds when all milestones are verified', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    const ms = createMilestone(vault.id, 'task 1')
-    verifyMilestone(ms.id)
+    await repository.create(vault)
+    const ms = await milestones.createMilestone(vault.id, 'task 1')
+    await milestones.submitMilestone(ms.id)
+    await milestones.verifyMilestone(ms.id)
 
-    const result = completeVault(vault.id)
+    const result = await transitions.completeVault(vault.id)
     expect(result.success).toBe(true)
-    expect(vault.status).toBe('completed')
+    expect(await statusOf(vault.id)).toBe('completed')
   })
 
-  it('fails when milestones are not verified', () => {
+  it('fails when milestones are not verified', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    createMilestone(vault.id, 'task 1')
+    await repository.create(vault)
+    await milestones.createMilestone(vault.id, 'task 1')
 
-    const result = completeVault(vault.id)
+    const result = await transitions.completeVault(vault.id)
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/not all milestones/)
   })
 
-  it('fails when vault is not found', () => {
-    const result = completeVault('nonexistent')
+  it('fails when vault is not found', async () => {
+    const result = await transitions.completeVault('nonexistent')
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/not found/)
   })
 
-  it('fails when vault is already completed', () => {
+  it('fails when vault is already completed', async () => {
     const vault = makeVault({ status: 'completed' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = completeVault(vault.id)
+    const result = await transitions.completeVault(vault.id)
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/already 'completed'/)
   })
@@ -152,20 +183,20 @@ describe('completeVault', () => {
 // ─── failVault ──────────────────────────────────────────────────────
 
 describe('failVault', () => {
-  it('succeeds when endTimestamp has passed', () => {
+  it('succeeds when endTimestamp has passed', async () => {
     const vault = makeVault({ endTimestamp: pastDate() })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = failVault(vault.id)
+    const result = await transitions.failVault(vault.id)
     expect(result.success).toBe(true)
-    expect(vault.status).toBe('failed')
+    expect(await statusOf(vault.id)).toBe('failed')
   })
 
-  it('fails when endTimestamp is in the future', () => {
+  it('fails when endTimestamp is in the future', async () => {
     const vault = makeVault({ endTimestamp: futureDate() })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = failVault(vault.id)
+    const result = await transitions.failVault(vault.id)
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/endTimestamp has not passed/)
   })
@@ -174,29 +205,29 @@ describe('failVault', () => {
 // ─── cancelVault ────────────────────────────────────────────────────
 
 describe('cancelVault', () => {
-  it('succeeds when requester is the creator', () => {
+  it('succeeds when requester is the creator', async () => {
     const vault = makeVault({ creator: 'alice' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = cancelVault(vault.id, 'alice')
+    const result = await transitions.cancelVault(vault.id, 'alice')
     expect(result.success).toBe(true)
-    expect(vault.status).toBe('cancelled')
+    expect(await statusOf(vault.id)).toBe('cancelled')
   })
 
-  it('fails when requester is not the creator', () => {
+  it('fails when requester is not the creator', async () => {
     const vault = makeVault({ creator: 'alice' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = cancelVault(vault.id, 'bob')
+    const result = await transitions.cancelVault(vault.id, 'bob')
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/only the creator/)
   })
 
-  it('fails when vault is in a terminal state', () => {
+  it('fails when vault is in a terminal state', async () => {
     const vault = makeVault({ status: 'failed' })
-    vaults.push(vault)
+    await repository.create(vault)
 
-    const result = cancelVault(vault.id, vault.creator)
+    const result = await transitions.cancelVault(vault.id, vault.creator)
     expect(result.success).toBe(false)
     expect(result.error).toMatch(/already 'failed'/)
   })
@@ -205,31 +236,32 @@ describe('cancelVault', () => {
 // ─── checkExpiredVaults ─────────────────────────────────────────────
 
 describe('checkExpiredVaults', () => {
-  it('fails all expired active vaults', () => {
+  it('fails all expired active vaults', async () => {
     const v1 = makeVault({ endTimestamp: pastDate() })
     const v2 = makeVault({ endTimestamp: pastDate() })
-    vaults.push(v1, v2)
+    await repository.create(v1)
+    await repository.create(v2)
 
-    const expired = checkExpiredVaults()
+    const expired = await transitions.checkExpiredVaults()
     expect(expired).toContain(v1.id)
     expect(expired).toContain(v2.id)
-    expect(v1.status).toBe('failed')
-    expect(v2.status).toBe('failed')
+    expect(await statusOf(v1.id)).toBe('failed')
+    expect(await statusOf(v2.id)).toBe('failed')
   })
 
-  it('ignores vaults already in a terminal state', () => {
+  it('ignores vaults already in a terminal state', async () => {
     const v = makeVault({ endTimestamp: pastDate(), status: 'failed' })
-    vaults.push(v)
+    await repository.create(v)
 
-    const expired = checkExpiredVaults()
+    const expired = await transitions.checkExpiredVaults()
     expect(expired).toHaveLength(0)
   })
 
-  it('returns empty array when nothing is expired', () => {
+  it('returns empty array when nothing is expired', async () => {
     const v = makeVault({ endTimestamp: futureDate() })
-    vaults.push(v)
+    await repository.create(v)
 
-    const expired = checkExpiredVaults()
+    const expired = await transitions.checkExpiredVaults()
     expect(expired).toHaveLength(0)
   })
 })
@@ -239,30 +271,42 @@ describe('checkExpiredVaults', () => {
 describe('POST /api/vaults/:id/cancel', () => {
   it('cancels when authenticated as the creator', async () => {
     const vault = makeVault({ creator: 'user-1' })
-    vaults.push(vault)
+    await repository.create(vault)
 
     const res = await request(app)
       .post(`/api/vaults/${vault.id}/cancel`)
-      .set('Authorization', tokenFor('user-1', UserRole.USER))
+      .set('Authorization', bearer('user-1'))
 
     expect(res.status).toBe(200)
     expect(res.body.vault.status).toBe('cancelled')
   })
 
-  it('returns 409 when requester is not the creator', async () => {
+  it('returns 403 when requester is not the creator', async () => {
     const vault = makeVault({ creator: 'user-1' })
-    vaults.push(vault)
+    await repository.create(vault)
 
     const res = await request(app)
       .post(`/api/vaults/${vault.id}/cancel`)
-      .set('Authorization', tokenFor('user-2', UserRole.USER))
+      .set('Authorization', bearer('user-2'))
+
+    expect(res.status).toBe(403)
+    expect(await statusOf(vault.id)).toBe('active')
+  })
+
+  it('returns 409 when the vault is no longer active', async () => {
+    const vault = makeVault({ creator: 'user-1', status: 'completed' })
+    await repository.create(vault)
+
+    const res = await request(app)
+      .post(`/api/vaults/${vault.id}/cancel`)
+      .set('Authorization', bearer('user-1'))
 
     expect(res.status).toBe(409)
   })
 
   it('returns 401 without auth', async () => {
     const vault = makeVault()
-    vaults.push(vault)
+    await repository.create(vault)
 
     const res = await request(app)
       .post(`/api/vaults/${vault.id}/cancel`)
@@ -272,13 +316,18 @@ describe('POST /api/vaults/:id/cancel', () => {
 })
 
 describe('Milestones routes', () => {
+  const submit = (vault: Vault, milestoneId: string) =>
+    request(app)
+      .post(`/api/vaults/${vault.id}/milestones/${milestoneId}/submit`)
+      .set('Authorization', bearer(vault.creator))
+
   it('POST creates a milestone on an active vault', async () => {
     const vault = makeVault()
-    vaults.push(vault)
+    await repository.create(vault)
 
     const res = await request(app)
       .post(`/api/vaults/${vault.id}/milestones`)
-      .set('Authorization', tokenFor('user-1', UserRole.USER))
+      .set('Authorization', bearer(vault.creator))
       .send({ description: 'First milestone' })
 
     expect(res.status).toBe(201)
@@ -289,9 +338,9 @@ describe('Milestones routes', () => {
 
   it('GET lists milestones for a vault', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    createMilestone(vault.id, 'ms-1')
-    createMilestone(vault.id, 'ms-2')
+    await repository.create(vault)
+    await milestones.createMilestone(vault.id, 'ms-1')
+    await milestones.createMilestone(vault.id, 'ms-2')
 
     const res = await request(app)
       .get(`/api/vaults/${vault.id}/milestones`)
@@ -302,12 +351,13 @@ describe('Milestones routes', () => {
 
   it('PATCH verify works with verifier role', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    const ms = createMilestone(vault.id, 'task 1')
+    await repository.create(vault)
+    const ms = await milestones.createMilestone(vault.id, 'task 1')
+    await submit(vault, ms.id)
 
     const res = await request(app)
       .patch(`/api/vaults/${vault.id}/milestones/${ms.id}/verify`)
-      .set('Authorization', tokenFor('verifier-1', UserRole.VERIFIER))
+      .set('Authorization', bearer('verifier-1', 'VERIFIER'))
 
     expect(res.status).toBe(200)
     expect(res.body.milestone.verified).toBe(true)
@@ -316,36 +366,39 @@ describe('Milestones routes', () => {
 
   it('PATCH verify rejects user role', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    const ms = createMilestone(vault.id, 'task 1')
+    await repository.create(vault)
+    const ms = await milestones.createMilestone(vault.id, 'task 1')
+    await submit(vault, ms.id)
 
     const res = await request(app)
       .patch(`/api/vaults/${vault.id}/milestones/${ms.id}/verify`)
-      .set('Authorization', tokenFor('user-1', UserRole.USER))
+      .set('Authorization', bearer('user-1'))
 
     expect(res.status).toBe(403)
   })
 
   it('auto-completes vault when last milestone is verified', async () => {
     const vault = makeVault()
-    vaults.push(vault)
-    const ms1 = createMilestone(vault.id, 'task 1')
-    const ms2 = createMilestone(vault.id, 'task 2')
+    await repository.create(vault)
+    const ms1 = await milestones.createMilestone(vault.id, 'task 1')
+    const ms2 = await milestones.createMilestone(vault.id, 'task 2')
+    await submit(vault, ms1.id)
+    await submit(vault, ms2.id)
 
     // Verify first milestone
     await request(app)
       .patch(`/api/vaults/${vault.id}/milestones/${ms1.id}/verify`)
-      .set('Authorization', tokenFor('v1', UserRole.VERIFIER))
+      .set('Authorization', bearer('verifier-1', 'VERIFIER'))
 
-    expect(vault.status).toBe('active')
+    expect(await statusOf(vault.id)).toBe('active')
 
     // Verify second (last) milestone
     const res = await request(app)
       .patch(`/api/vaults/${vault.id}/milestones/${ms2.id}/verify`)
-      .set('Authorization', tokenFor('v1', UserRole.VERIFIER))
+      .set('Authorization', bearer('verifier-1', 'VERIFIER'))
 
     expect(res.status).toBe(200)
     expect(res.body.vaultCompleted).toBe(true)
-    expect(vault.status).toBe('completed')
+    expect(await statusOf(vault.id)).toBe('completed')
   })
 })
@@ -1,9 +1,22 @@
+import { describe, it, beforeAll, beforeEach, expect } from '@jest/globals'
+import type express from 'express'
 import request from 'supertest'
-import { app } from '../app.js'
-import { setVaults } from '../routes/vaults.js'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+let app: express.Express
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+
+beforeAll(async () => {
+  ({ app } = await import('../app.js'))
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  const { vaultsRouter } = await import('../routes/vaults.js')
+  app.use('/api/vaults', vaultsRouter)
+})
 
 // Reset in-memory store between tests
-beforeEach(() => setVaults([]))
+beforeEach(() => vaultRepository.setVaultRepository(new vaultRepository.InMemoryVaultRepository()))
 
 // Helper: a future timestamp (1 year from now) in various formats
 const futureUTC = () => {
@@ -31,6 +44,7 @@ describe('POST /api/vaults — timestamp validation', () => {
   it('accepts a valid UTC endTimestamp and returns 201', async () => {
     const res = await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody(futureUTC()))
 
     expect(res.status).toBe(201)
@@ -42,6 +56,7 @@ describe('POST /api/vaults — timestamp validation', () => {
   it('normalizes an offset endTimestamp to UTC (Z)', async () => {
     const res = await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody(futureWithOffset()))
 
     expect(res.status).toBe(201)
@@ -52,6 +67,7 @@ describe('POST /api/vaults — timestamp validation', () => {
   it('rejects endTimestamp without timezone → 400', async () => {
     const res = await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody('2099-06-15T12:00:00'))
 
     expect(res.status).toBe(400)
@@ -61,15 +77,27 @@ describe('POST /api/vaults — timestamp validation', () => {
   it('rejects non-ISO text → 400', async () => {
     const res = await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody('next tuesday'))
 
     expect(res.status).toBe(400)
     expect(res.body.error).toMatch(/ISO 8601/)
   })
 
+  it('rejects a non-positive amount → 400', async () => {
+    const res = await request(app)
+      .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
+      .send({ ...baseBody(futureUTC()), amount: '-1' })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toMatch(/amount must be a positive number/)
+  })
+
   it('rejects a past endTimestamp → 400', async () => {
     const res = await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody('2020-01-01T00:00:00Z'))
 
     expect(res.status).toBe(400)
@@ -82,9 +110,10 @@ describe('GET /api/vaults — response format', () => {
     // Create a vault first
     await request(app)
       .post('/api/vaults')
+      .set('Authorization', bearer('alice'))
       .send(baseBody(futureUTC()))
 
-    const res = await request(app).get('/api/vaults')
+    const res = await request(app).get('/api/vaults').set('Authorization', bearer('alice'))
     expect(res.status).toBe(200)
 
     const vault = res.body.data[0]
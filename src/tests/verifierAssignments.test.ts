@@ -0,0 +1,285 @@
+import { describe, it, beforeAll, beforeEach, afterAll, afterEach, expect } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import type { NotificationJobPayload } from '../jobs/types.js'
+import type { NotifyOptions } from '../notifications/notify.js'
+import { bearer, mockRbac, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+mockRbac()
+
+let app: express.Express
+let milestones: typeof import('../services/milestones.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let milestoneRepository: typeof import('../repositories/milestoneRepository.js')
+let records: typeof import('../assignments/records.js')
+let pool: typeof import('../assignments/pool.js')
+let service: typeof import('../assignments/service.js')
+let notify: typeof import('../notifications/notify.js')
+let repository: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+const setup = async (creator = 'alice') => {
+  const vault = await repository.create({
+    creator,
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+  })
+  const milestone = await milestones.createMilestone(vault.id, 'Ship the thing')
+  return { vault, milestone, base: `/api/vaults/${vault.id}/milestones/${milestone.id}` }
+}
+
+const submit = async (creator = 'alice') => {
+  const context = await setup(creator)
+  const res = await request(app).post(`${context.base}/submit`).set('Authorization', bearer(creator))
+  expect(res.status).toBe(200)
+  return { ...context, assignment: res.body.assignment }
+}
+
+beforeAll(async () => {
+  milestones = await import('../services/milestones.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  milestoneRepository = await import('../repositories/milestoneRepository.js')
+  records = await import('../assignments/records.js')
+  pool = await import('../assignments/pool.js')
+  service = await import('../assignments/service.js')
+  notify = await import('../notifications/notify.js')
+  const { milestonesRouter } = await import('../routes/milestones.js')
+  const { assignmentsRouter, milestoneAssignmentRouter } = await import('../routes/assignments.js')
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/vaults/:vaultId/milestones', milestonesRouter)
+  app.use('/api/vaults/:vaultId/milestones/:milestoneId/assignment', milestoneAssignmentRouter)
+  app.use('/api/assignments', assignmentsRouter)
+})
+
+beforeEach(() => {
+  repository = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(repository)
+  milestoneRepository.setMilestoneRepository(new milestoneRepository.InMemoryMilestoneRepository())
+  records.setMilestoneAssignmentStore(new records.InMemoryMilestoneAssignmentStore())
+  pool.setVerifierPool(new pool.InMemoryVerifierPool(['val-a', 'val-b', 'val-c']))
+})
+
+afterEach(() => {
+  notify.setNotificationEnqueuer(null)
+  delete process.env.VERIFIER_ASSIGNMENT_STRATEGY
+  delete process.env.VERIFIER_SLA_HOURS
+})
+
+afterAll(() => {
+  vaultRepository.setVaultRepository(null)
+  milestoneRepository.setMilestoneRepository(null)
+  records.setMilestoneAssignmentStore(null)
+  pool.setVerifierPool(null)
+})
+
+describe('assignment strategies', () => {
+  it('rotates through approved verifiers with round robin', async () => {
+    process.env.VERIFIER_ASSIGNMENT_STRATEGY = 'round_robin'
+
+    const assignees = []
+    for (let i = 0; i < 4; i++) assignees.push((await submit()).assignment.verifierId)
+
+    expect(assignees).toEqual(['val-a', 'val-b', 'val-c', 'val-a'])
+  })
+
+  it('picks the verifier with the fewest active assignments', async () => {
+    const first = await submit()
+    const second = await submit()
+    expect(first.assignment).toMatchObject({ verifierId: 'val-a', strategy: 'least_loaded', status: 'active' })
+    expect(second.assignment.verifierId).toBe('val-b')
+
+    // val-a frees up, so it is less loaded than val-b
+    await request(app).patch(`${first.base}/verify`).set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect((await submit()).assignment.verifierId).toBe('val-c')
+    expect((await submit()).assignment.verifierId).toBe('val-a')
+  })
+
+  it('never assigns the vault creator and leaves milestones unassigned without verifiers', async () => {
+    pool.setVerifierPool(new pool.InMemoryVerifierPool(['val-a']))
+    const { assignment } = await submit('val-a')
+    expect(assignment).toBeNull()
+  })
+
+  it('sets the SLA deadline from VERIFIER_SLA_HOURS', async () => {
+    process.env.VERIFIER_SLA_HOURS = '24'
+    const before = Date.now()
+    const { assignment } = await submit()
+
+    const dueIn = Date.parse(assignment.dueAt) - before
+    expect(dueIn).toBeGreaterThanOrEqual(24 * 3_600_000)
+    expect(dueIn).toBeLessThan(24 * 3_600_000 + 60_000)
+  })
+})
+
+describe('manual assignment', () => {
+  it('lets admins reassign a milestone to an approved verifier', async () => {
+    const { base, assignment } = await submit()
+
+    const res = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('root', 'ADMIN'))
+      .send({ verifierId: 'val-c' })
+
+    expect(res.status).toBe(200)
+    expect(res.body.assignment).toMatchObject({ verifierId: 'val-c', strategy: 'manual', assignedBy: 'root' })
+    expect((await records.getMilestoneAssignmentStore().get(assignment.id))?.status).toBe('reassigned')
+
+    const current = await request(app).get(`${base}/assignment`).set('Authorization', bearer('alice'))
+    expect(current.body.assignment).toMatchObject({ verifierId: 'val-c', overdue: false })
+  })
+
+  it('rejects non-admins, unapproved verifiers and unknown strategies', async () => {
+    const { base } = await submit()
+
+    const asVerifier = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('val-a', 'VERIFIER'))
+      .send({ verifierId: 'val-b' })
+    expect(asVerifier.status).toBe(403)
+
+    const unapproved = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('root', 'ADMIN'))
+      .send({ verifierId: 'mallory' })
+    expect(unapproved.status).toBe(400)
+
+    const creator = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('root', 'ADMIN'))
+      .send({ verifierId: 'alice' })
+    expect(creator.status).toBe(400)
+
+    const strategy = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('root', 'ADMIN'))
+      .send({ strategy: 'random' })
+    expect(strategy.status).toBe(400)
+  })
+
+  it('refuses to assign approved milestones', async () => {
+    const { base } = await submit()
+    await request(app).patch(`${base}/verify`).set('Authorization', bearer('val-a', 'VERIFIER'))
+
+    const res = await request(app)
+      .put(`${base}/assignment`)
+      .set('Authorization', bearer('root', 'ADMIN'))
+      .send({ strategy: 'round_robin' })
+    expect(res.status).toBe(409)
+  })
+})
+
+describe('decision access', () => {
+  it('only lets the assigned verifier decide and completes the assignment', async () => {
+    const { base, milestone, assignment } = await submit()
+    expect(assignment.verifierId).toBe('val-a')
+
+    const other = await request(app)
+      .post(`${base}/reject`)
+      .set('Authorization', bearer('val-b', 'VERIFIER'))
+      .send({ reason: 'No proof' })
+    expect(other.status).toBe(403)
+    expect(other.body.error).toBe('Milestone is assigned to another verifier')
+
+    const assigned = await request(app)
+      .post(`${base}/reject`)
+      .set('Authorization', bearer('val-a', 'VERIFIER'))
+      .send({ reason: 'No proof' })
+    expect(assigned.status).toBe(200)
+    expect((await records.getMilestoneAssignmentStore().get(assignment.id))?.status).toBe('completed')
+
+    // Resubmitting assigns the next review afresh
+    const resubmitted = await request(app).post(`${base}/submit`).set('Authorization', bearer('alice'))
+    expect(resubmitted.body.assignment).toMatchObject({ milestoneId: milestone.id, status: 'active' })
+  })
+
+  it('leaves unassigned milestones to approved verifiers other than the creator', async () => {
+    pool.setVerifierPool(new pool.InMemoryVerifierPool(['val-a']))
+    const { base, assignment } = await submit('val-a')
+    expect(assignment).toBeNull()
+
+    const unapproved = await request(app).patch(`${base}/verify`).set('Authorization', bearer('mallory', 'VERIFIER'))
+    expect(unapproved.status).toBe(403)
+    expect(unapproved.body.error).toBe('Only approved verifiers can review milestones')
+
+    const creator = await request(app).patch(`${base}/verify`).set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect(creator.status).toBe(403)
+    expect(creator.body.error).toBe('Vault creators cannot review their own milestones')
+
+    const admin = await request(app).patch(`${base}/verify`).set('Authorization', bearer('root', 'ADMIN'))
+    expect(admin.status).toBe(200)
+  })
+})
+
+describe('SLA escalation and queues', () => {
+  it('escalates overdue reviews to admins', async () => {
+    const { base, assignment } = await submit()
+    await submit()
+
+    const queue = await request(app).get('/api/assignments/queue').set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect(queue.status).toBe(200)
+    expect(queue.body.queue).toHaveLength(1)
+    expect(queue.body.queue[0]).toMatchObject({ id: assignment.id, overdue: false, milestone: { status: 'submitted' } })
+
+    const later = new Date(Date.now() + 73 * 3_600_000)
+    const workload = await service.getVerifierWorkloads(later)
+    expect(workload).toEqual([
+      { verifierId: 'val-a', active: 1, overdue: 1 },
+      { verifierId: 'val-b', active: 1, overdue: 1 },
+      { verifierId: 'val-c', active: 0, overdue: 0 },
+    ])
+
+    const notified: { payload: NotificationJobPayload; options: NotifyOptions }[] = []
+    notify.setNotificationEnqueuer(async (payload, options) => notified.push({ payload, options }))
+    pool.setVerifierPool(new pool.InMemoryVerifierPool(['val-a', 'val-b', 'val-c'], ['root', 'ops']))
+
+    const escalated = await service.escalateOverdueAssignments(later)
+    expect(escalated.map((item) => item.status)).toEqual(['escalated', 'escalated'])
+    expect(await service.escalateOverdueAssignments(later)).toEqual([])
+
+    expect(notified).toHaveLength(4)
+    expect(notified.map(({ payload }) => payload.userId)).toEqual(['ops', 'root', 'ops', 'root'])
+    expect(notified[0]).toEqual({
+      payload: expect.objectContaining({
+        type: 'milestone_review_escalated',
+        data: expect.objectContaining({ assignmentId: assignment.id, verifierId: 'val-a' }),
+      }),
+      options: { dedupeKey: `milestone-escalated:${assignment.id}:ops` },
+    })
+
+    const emptied = await request(app).get('/api/assignments/queue').set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect(emptied.body.queue).toEqual([])
+
+    const adminQueue = await request(app).get('/api/assignments/queue').set('Authorization', bearer('root', 'ADMIN'))
+    expect(adminQueue.body.queue).toHaveLength(2)
+
+    const verifier = await request(app).patch(`${base}/verify`).set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect(verifier.status).toBe(403)
+    expect(verifier.body.error).toBe('Milestone review was escalated to an admin')
+
+    const admin = await request(app).patch(`${base}/verify`).set('Authorization', bearer('root', 'ADMIN'))
+    expect(admin.status).toBe(200)
+    expect((await records.getMilestoneAssignmentStore().get(assignment.id))?.status).toBe('completed')
+  })
+
+  it('lists assignments and workloads for admins only', async () => {
+    await submit()
+
+    const forbidden = await request(app).get('/api/assignments').set('Authorization', bearer('val-a', 'VERIFIER'))
+    expect(forbidden.status).toBe(403)
+
+    const list = await request(app)
+      .get('/api/assignments?verifierId=val-a&status=active')
+      .set('Authorization', bearer('root', 'ADMIN'))
+    expect(list.body.assignments).toHaveLength(1)
+
+    const badStatus = await request(app).get('/api/assignments?status=lost').set('Authorization', bearer('root', 'ADMIN'))
+    expect(badStatus.status).toBe(400)
+
+    const workload = await request(app).get('/api/assignments/workload').set('Authorization', bearer('root', 'ADMIN'))
+    expect(workload.body.verifiers[0]).toEqual({ verifierId: 'val-a', active: 1, overdue: 0 })
+  })
+})
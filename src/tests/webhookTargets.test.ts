@@ -0,0 +1,86 @@
+import { describe, it, beforeAll, afterEach, expect, jest } from '@jest/globals'
+
+const lookup = jest.fn<(hostname: string, options: object) => Promise<{ address: string; family: number }[]>>()
+
+jest.unstable_mockModule('node:dns/promises', () => ({ lookup }))
+
+let targets: typeof import('../utils/webhookTargets.js')
+
+const originalNodeEnv = process.env.NODE_ENV
+
+beforeAll(async () => {
+  targets = await import('../utils/webhookTargets.js')
+})
+
+afterEach(() => {
+  process.env.NODE_ENV = originalNodeEnv
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+  lookup.mockReset()
+})
+
+describe('isWebhookUrl', () => {
+  it('accepts public https URLs', () => {
+    expect(targets.isWebhookUrl('https://hooks.example.com/disciplr')).toBe(true)
+    expect(targets.isWebhookUrl('https://93.184.216.34/hooks')).toBe(true)
+  })
+
+  it('only accepts plain http in development', () => {
+    process.env.NODE_ENV = 'production'
+    expect(targets.isWebhookUrl('http://hooks.example.com')).toBe(false)
+
+    process.env.NODE_ENV = 'development'
+    expect(targets.isWebhookUrl('http://hooks.example.com')).toBe(true)
+    expect(targets.isWebhookUrl('ftp://hooks.example.com')).toBe(false)
+  })
+
+  it.each([
+    'https://localhost/hooks',
+    'https://api.localhost/hooks',
+    'https://127.0.0.1/hooks',
+    'https://10.1.2.3/hooks',
+    'https://172.20.0.1/hooks',
+    'https://192.168.1.1/hooks',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hooks',
+    'https://[fe80::1]/hooks',
+    'https://[fd00::1]/hooks',
+    'https://[::ffff:10.0.0.1]/hooks',
+  ])('rejects the private target %s', (url) => {
+    expect(targets.isWebhookUrl(url)).toBe(false)
+  })
+
+  it('accepts private targets when WEBHOOK_ALLOW_PRIVATE_TARGETS is set', () => {
+    process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true'
+    expect(targets.isWebhookUrl('https://127.0.0.1/hooks')).toBe(true)
+  })
+})
+
+describe('assertPublicWebhookTarget', () => {
+  it('passes when every resolved address is public', async () => {
+    lookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '2606:2800:220:1::1', family: 6 },
+    ])
+
+    await expect(targets.assertPublicWebhookTarget('https://hooks.example.com/disciplr')).resolves.toBeUndefined()
+    expect(lookup).toHaveBeenCalledWith('hooks.example.com', { all: true, verbatim: true })
+  })
+
+  it('rejects a name that resolves to a private address', async () => {
+    lookup.mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.8', family: 4 },
+    ])
+
+    await expect(targets.assertPublicWebhookTarget('https://hooks.example.com/disciplr')).rejects.toThrow(
+      targets.WebhookTargetError,
+    )
+  })
+
+  it('rejects a URL that is no longer allowed without resolving it', async () => {
+    await expect(targets.assertPublicWebhookTarget('https://169.254.169.254/')).rejects.toThrow(
+      'Webhook URL is not an allowed target',
+    )
+    expect(lookup).not.toHaveBeenCalled()
+  })
+})
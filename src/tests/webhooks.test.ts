@@ -0,0 +1,337 @@
+import { describe, it, beforeAll, beforeEach, afterAll, afterEach, expect, jest } from '@jest/globals'
+import express from 'express'
+import request from 'supertest'
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { bearer, mockSessions } from './helpers/auth.js'
+
+mockSessions()
+
+const ORG_ID = 'org-1'
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+/** Local endpoint standing in for a subscriber */
+const received: ReceivedRequest[] = []
+const responseStatuses: number[] = []
+let receiver: Server
+let receiverUrl: string
+
+let app: express.Express
+let dispatcher: typeof import('../webhooks/dispatcher.js')
+let signing: typeof import('../webhooks/signing.js')
+let subscriptions: typeof import('../webhooks/subscriptions.js')
+let deliveries: typeof import('../webhooks/deliveries.js')
+let vaultRepository: typeof import('../repositories/vaultRepository.js')
+let vaults: InstanceType<typeof import('../repositories/vaultRepository.js').InMemoryVaultRepository>
+
+const waitFor = async (predicate: () => boolean | Promise<boolean>, timeoutMs = 2_000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10))
+  }
+}
+
+const createVault = (creator = 'alice', orgId: string | null = null) =>
+  vaults.create({
+    creator,
+    amount: '100',
+    endTimestamp: new Date(Date.now() + 86_400_000).toISOString(),
+    successDestination: 'addr-success',
+    failureDestination: 'addr-fail',
+    orgId,
+  })
+
+const subscribe = async (body: Record<string, unknown>, userId = 'alice', basePath = '/api/webhooks') => {
+  const response = await request(app)
+    .post(basePath)
+    .set('Authorization', bearer(userId))
+    .send({ url: receiverUrl, ...body })
+  expect(response.status).toBe(201)
+  return response.body as { subscription: { id: string }; secret: string }
+}
+
+const originalNodeEnv = process.env.NODE_ENV
+
+beforeAll(async () => {
+  delete process.env.DATABASE_URL
+  // The receiver is a plain http server on loopback
+  process.env.NODE_ENV = 'development'
+  process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true'
+
+  receiver = createServer((req, res) => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', (chunk: string) => {
+      body += chunk
+    })
+    req.on('end', () => {
+      received.push({ headers: req.headers, body })
+      res.statusCode = responseStatuses.shift() ?? 200
+      if (res.statusCode >= 300 && res.statusCode < 400) res.setHeader('Location', req.url ?? '/')
+      res.end()
+    })
+  })
+  receiver.listen(0, '127.0.0.1')
+  await new Promise((resolve) => receiver.once('listening', resolve))
+  receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`
+
+  dispatcher = await import('../webhooks/dispatcher.js')
+  signing = await import('../webhooks/signing.js')
+  subscriptions = await import('../webhooks/subscriptions.js')
+  deliveries = await import('../webhooks/deliveries.js')
+  vaultRepository = await import('../repositories/vaultRepository.js')
+  const { webhooksRouter } = await import('../routes/webhooks.js')
+  const { orgWebhooksRouter } = await import('../routes/orgWebhooks.js')
+  const organizations = await import('../models/organizations.js')
+
+  organizations.setOrganizations([{ id: ORG_ID, name: 'Org One', createdAt: '2025-01-01T00:00:00.000Z' }])
+  organizations.setOrgMembers([
+    { orgId: ORG_ID, userId: 'alice', role: 'owner' },
+    { orgId: ORG_ID, userId: 'carol', role: 'member' },
+  ])
+
+  app = express()
+  app.use(express.json())
+  app.use('/api/webhooks', webhooksRouter)
+  app.use('/api/organizations', orgWebhooksRouter)
+})
+
+beforeEach(() => {
+  subscriptions.setWebhookSubscriptionStore(new subscriptions.InMemoryWebhookSubscriptionStore())
+  deliveries.setWebhookDeliveryLog(new deliveries.InMemoryWebhookDeliveryLog())
+  vaults = new vaultRepository.InMemoryVaultRepository()
+  vaultRepository.setVaultRepository(vaults)
+  received.length = 0
+  responseStatuses.length = 0
+})
+
+afterEach(() => {
+  dispatcher.setWebhookEnqueuer(null)
+})
+
+afterAll(async () => {
+  process.env.NODE_ENV = originalNodeEnv
+  delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+  subscriptions.setWebhookSubscriptionStore(null)
+  deliveries.setWebhookDeliveryLog(null)
+  vaultRepository.setVaultRepository(null)
+  await new Promise((resolve) => receiver.close(resolve))
+})
+
+describe('webhook signatures', () => {
+  it('verifies the body and timestamp it was computed for', () => {
+    const header = signing.signWebhookPayload('whsec_test', '{"a":1}', 1_700_000_000)
+
+    expect(signing.verifyWebhookSignature('whsec_test', '{"a":1}', header, 300, 1_700_000_100)).toBe(true)
+    expect(signing.verifyWebhookSignature('whsec_test', '{"a":2}', header, 300, 1_700_000_100)).toBe(false)
+    expect(signing.verifyWebhookSignature('whsec_other', '{"a":1}', header, 300, 1_700_000_100)).toBe(false)
+    expect(signing.verifyWebhookSignature('whsec_test', '{"a":1}', header, 300, 1_700_001_000)).toBe(false)
+  })
+})
+
+describe('/api/webhooks', () => {
+  it('returns the secret only on creation', async () => {
+    const { subscription, secret } = await subscribe({ description: 'CI' })
+    expect(secret).toMatch(/^whsec_/)
+
+    const list = await request(app).get('/api/webhooks').set('Authorization', bearer('alice'))
+    expect(list.body.subscriptions).toEqual([
+      expect.objectContaining({ id: subscription.id, eventTypes: subscriptions.WEBHOOK_EVENT_TYPES, description: 'CI' }),
+    ])
+    expect(list.body.subscriptions[0]).not.toHaveProperty('secret')
+  })
+
+  it('rejects invalid URLs and unknown event types', async () => {
+    const badUrl = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', bearer('alice'))
+      .send({ url: 'ftp://example.com' })
+    const badType = await request(app)
+      .post('/api/webhooks')
+      .set('Authorization', bearer('alice'))
+      .send({ url: receiverUrl, eventTypes: ['vault.exploded'] })
+
+    expect(badUrl.status).toBe(400)
+    expect(badType.status).toBe(400)
+    expect(badType.body.error).toContain('vault.exploded')
+  })
+
+  it('rejects private targets unless they are explicitly allowed', async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+    try {
+      for (const url of [receiverUrl, 'https://169.254.169.254/latest/meta-data', 'https://localhost/hooks']) {
+        const response = await request(app).post('/api/webhooks').set('Authorization', bearer('alice')).send({ url })
+        expect(response.status).toBe(400)
+        expect(response.body.error).toBe('url must be a public https URL')
+      }
+    } finally {
+      process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true'
+    }
+  })
+
+  it('hides subscriptions from other users', async () => {
+    const { subscription } = await subscribe({})
+
+    const response = await request(app)
+      .patch(`/api/webhooks/${subscription.id}`)
+      .set('Authorization', bearer('bob'))
+      .send({ active: false })
+
+    expect(response.status).toBe(404)
+    expect((await subscriptions.getWebhookSubscriptionStore().get(subscription.id))?.active).toBe(true)
+  })
+})
+
+describe('webhook delivery', () => {
+  it('posts signed events the subscription asked for', async () => {
+    const { subscription, secret } = await subscribe({ eventTypes: ['vault.cancelled'] })
+    const { publishVaultEvent } = await import('../services/vaultEvents.js')
+    const { cancelVault } = await import('../services/vaultTransitions.js')
+
+    const vault = await createVault()
+    await publishVaultEvent({ type: 'vault.created', vault })
+    expect((await cancelVault(vault.id, 'alice')).success).toBe(true)
+
+    expect(received).toHaveLength(1)
+    const [{ headers, body }] = received
+    expect(headers['x-disciplr-event']).toBe('vault.cancelled')
+    expect(signing.verifyWebhookSignature(secret, body, headers['x-disciplr-signature'] as string)).toBe(true)
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'vault.cancelled',
+      data: { vaultId: vault.id, status: 'cancelled', previousStatus: 'active' },
+    })
+
+    const [delivery] = await deliveries.getWebhookDeliveryLog().listBySubscription(subscription.id, 10)
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 })
+    expect(headers['x-disciplr-delivery']).toBe(delivery.id)
+  })
+
+  it('sends organization vault events to the organization\'s subscriptions', async () => {
+    await subscribe({ eventTypes: ['vault.created'] }, 'alice', `/api/organizations/${ORG_ID}/webhooks`)
+    const { publishVaultEvent } = await import('../services/vaultEvents.js')
+
+    await publishVaultEvent({ type: 'vault.created', vault: await createVault('someone-else', ORG_ID) })
+    await publishVaultEvent({ type: 'vault.created', vault: await createVault('someone-else') })
+
+    expect(received.map(({ body }) => JSON.parse(body).data.vault.orgId)).toEqual([ORG_ID])
+  })
+
+  it('only lets organization owners and admins manage its webhooks', async () => {
+    const response = await request(app)
+      .get(`/api/organizations/${ORG_ID}/webhooks`)
+      .set('Authorization', bearer('carol'))
+
+    expect(response.status).toBe(403)
+  })
+
+  it('retries failed attempts through the job queue with backoff', async () => {
+    const { JobQueue } = await import('../jobs/queue.js')
+    const { InMemoryJobStore } = await import('../jobs/store.js')
+    const queue = new JobQueue({ store: new InMemoryJobStore(), pollIntervalMs: 10 })
+    queue.registerHandler('webhook.deliver', (payload, context) => dispatcher.deliverWebhook(payload.deliveryId, context), {
+      initialBackoffMs: 20,
+      backoffMultiplier: 2,
+      maxBackoffMs: 100,
+    })
+    dispatcher.setWebhookEnqueuer((deliveryId) => queue.enqueue('webhook.deliver', { deliveryId }, { maxAttempts: 3 }))
+    queue.start()
+
+    try {
+      const { subscription } = await subscribe({ eventTypes: ['milestone.validated'] })
+      responseStatuses.push(500, 503)
+      const [delivery] = await dispatcher.emitWebhookEvent(
+        'milestone.validated',
+        { userId: 'alice', orgId: null },
+        { vaultId: 'vault-1', milestoneId: 'milestone-1' },
+      )
+      const log = deliveries.getWebhookDeliveryLog()
+
+      await waitFor(async () => (await log.get(delivery.id))?.status === 'delivered')
+      expect(received).toHaveLength(3)
+      expect(await log.get(delivery.id)).toMatchObject({ attempts: 3, responseStatus: 200, error: null })
+
+      // A receiver that never recovers fails the delivery on the last attempt
+      responseStatuses.push(500, 500, 500)
+      const [failing] = await dispatcher.emitWebhookEvent('milestone.validated', { userId: 'alice', orgId: null }, {})
+      await waitFor(async () => (await log.get(failing.id))?.status === 'failed')
+      expect(await log.get(failing.id)).toMatchObject({
+        attempts: 3,
+        responseStatus: 500,
+        error: 'Receiver responded with HTTP 500',
+      })
+      expect((await log.listBySubscription(subscription.id, 10)).map(({ id }) => id)).toEqual([failing.id, delivery.id])
+    } finally {
+      await queue.stop()
+    }
+  })
+
+  it('replays a delivery from the log with the original event id', async () => {
+    const { subscription } = await subscribe({ eventTypes: ['vault.failed'] })
+    responseStatuses.push(500)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    await dispatcher.emitWebhookEvent('vault.failed', { userId: 'alice', orgId: null }, { vaultId: 'vault-1' })
+    error.mockRestore()
+
+    const log = await request(app)
+      .get(`/api/webhooks/${subscription.id}/deliveries`)
+      .set('Authorization', bearer('alice'))
+    expect(log.body.deliveries).toEqual([expect.objectContaining({ status: 'failed', responseStatus: 500 })])
+    const [original] = log.body.deliveries
+
+    const replay = await request(app)
+      .post(`/api/webhooks/${subscription.id}/deliveries/${original.id}/replay`)
+      .set('Authorization', bearer('alice'))
+
+    expect(replay.status).toBe(202)
+    expect(replay.body.delivery).toMatchObject({ replayOf: original.id, eventId: original.eventId })
+    expect(await deliveries.getWebhookDeliveryLog().get(replay.body.delivery.id)).toMatchObject({ status: 'delivered' })
+    expect(received.map(({ body }) => JSON.parse(body).id)).toEqual([original.eventId, original.eventId])
+  })
+
+  it('does not follow redirects', async () => {
+    const { subscription } = await subscribe({ eventTypes: ['vault.completed'] })
+    responseStatuses.push(302)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    await dispatcher.emitWebhookEvent('vault.completed', { userId: 'alice', orgId: null }, {})
+    error.mockRestore()
+
+    expect(received).toHaveLength(1)
+    const [delivery] = await deliveries.getWebhookDeliveryLog().listBySubscription(subscription.id, 10)
+    expect(delivery).toMatchObject({ status: 'failed', responseStatus: 302, error: 'Receiver responded with HTTP 302' })
+  })
+
+  it('checks the target again before every delivery', async () => {
+    const { subscription } = await subscribe({ eventTypes: ['vault.completed'] })
+    delete process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {})
+    try {
+      await dispatcher.emitWebhookEvent('vault.completed', { userId: 'alice', orgId: null }, {})
+    } finally {
+      error.mockRestore()
+      process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS = 'true'
+    }
+
+    expect(received).toHaveLength(0)
+    const [delivery] = await deliveries.getWebhookDeliveryLog().listBySubscription(subscription.id, 10)
+    expect(delivery).toMatchObject({ status: 'failed', responseStatus: null, error: 'Webhook URL is not an allowed target' })
+  })
+
+  it('does not deliver to disabled subscriptions', async () => {
+    const { subscription } = await subscribe({ eventTypes: ['vault.completed'] })
+    await request(app)
+      .patch(`/api/webhooks/${subscription.id}`)
+      .set('Authorization', bearer('alice'))
+      .send({ active: false })
+      .expect(200)
+
+    expect(await dispatcher.emitWebhookEvent('vault.completed', { userId: 'alice', orgId: null }, {})).toEqual([])
+    expect(received).toHaveLength(0)
+  })
+})
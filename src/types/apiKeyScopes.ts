@@ -0,0 +1,22 @@
+/**
+ * Every scope an API key can be granted, with the access it unlocks.
+ * Keys requesting scopes outside this catalog are rejected at creation.
+ */
+export const API_KEY_SCOPES = {
+  'vaults:read': 'List and read vaults',
+  'vaults:write': 'Create and cancel vaults',
+  'transactions:read': 'List and read transactions',
+  'exports:create': 'Request data exports and poll their status',
+  'analytics:read': 'Read analytics',
+} as const
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES
+
+/**
+ * Names scopes had before they followed `<resource>:<action>`. Stored keys
+ * granted an old name keep their access, and new keys may still ask for one.
+ */
+export const LEGACY_API_KEY_SCOPE_ALIASES: Readonly<Record<string, ApiKeyScope>> = {
+  'read:vaults': 'vaults:read',
+  'read:analytics': 'analytics:read',
+}
@@ -1,4 +1,7 @@
 import { UserRole } from '@prisma/client'
+import type { ApiKeyScope } from './apiKeyScopes.js'
+
+export type { ApiKeyScope } from './apiKeyScopes.js'
 
 export interface AuthenticatedUser {
   userId: string
@@ -8,7 +11,7 @@ export interface ApiKeyAuthContext {
   apiKeyId: string
   userId: string | null
   orgId: string | null
-  scopes: string[]
+  scopes: ApiKeyScope[]
   label: string
 }
 
@@ -18,11 +21,20 @@ export interface ApiKeyRecord {
   orgId: string | null
   keyHash: string
   label: string
-  scopes: string[]
+  scopes: ApiKeyScope[]
   createdAt: string
+  expiresAt: string | null
   revokedAt: string | null
+  // Hash of the secret replaced by the last rotation, accepted until previousKeyExpiresAt
+  previousKeyHash: string | null
+  previousKeyExpiresAt: string | null
+  rotatedAt: string | null
+  lastUsedAt: string | null
+  lastUsedIp: string | null
 }
 
+export type ApiKeyPublicRecord = Omit<ApiKeyRecord, 'keyHash' | 'previousKeyHash'>
+
 export interface JWTPayload {
   userId: string
   role: UserRole
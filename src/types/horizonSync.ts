@@ -85,6 +85,8 @@ export interface ProcessedEvent {
 export interface FailedEvent {
   id: number
   eventId: string
+  eventType: EventType | null
+  ledgerNumber: number | null
   eventPayload: ParsedEvent
   errorMessage: string
   retryCount: number
@@ -109,6 +111,11 @@ export interface HorizonListenerConfig {
   retryMaxAttempts: number
   retryBackoffMs: number
   shutdownTimeoutMs: number
+  eventSource?: 'rpc' | 'replay'
+  rpcUrl?: string
+  replayFile?: string
+  pollIntervalMs?: number
+  reconnectBackoffMs?: number
 }
 
 export interface ProcessorConfig {
@@ -1,16 +1,49 @@
-export type MilestoneStatus = 'pending' | 'submitted' | 'approved' | 'rejected';
+/**
+ * What happened to a milestone's amount: released to the vault's success
+ * destination once verified, or redirected to its failure destination when
+ * the milestone was missed.
+ */
+export type MilestoneReleaseStatus = 'pending' | 'released' | 'redirected'
+
+/**
+ * Where a milestone is in review. The creator submits it, a verifier approves
+ * or rejects it, and a rejected milestone can be resubmitted up to
+ * MILESTONE_MAX_RESUBMISSIONS times.
+ */
+export type MilestoneReviewStatus = 'pending' | 'submitted' | 'approved' | 'rejected' | 'resubmitted'
+
+/** One step of a milestone's review, in the order they happened */
+export interface MilestoneDecision {
+  id: string
+  status: Exclude<MilestoneReviewStatus, 'pending'>
+  /** The creator for submissions, the verifier for approvals and rejections */
+  actorId: string | null
+  /** Required for rejections */
+  reason: string | null
+  /** Hash of the evidence at the time of the decision */
+  evidenceHash: string | null
+  /** Set when the decision was made by resolving a dispute */
+  disputeId: string | null
+  decidedAt: string
+}
 
 export interface Milestone {
-  id: string;
-  vault_id: string;
-  title: string;
-  description?: string | null;
-  type: string;
-  // JSONB criteria (hash/document/oracle/verifier configuration)
-  criteria: Record<string, any>;
-  weight: number;
-  due_date?: Date | string | null;
-  status?: MilestoneStatus;
-  created_at?: Date | string;
-  updated_at?: Date | string;
-}
\ No newline at end of file
+  id: string
+  vaultId: string
+  description: string
+  /** True once approved */
+  verified: boolean
+  verifiedAt: string | null
+  status: MilestoneReviewStatus
+  resubmissions: number
+  history: MilestoneDecision[]
+  /** Hash of the evidence the milestone was verified against, as submitted on-chain */
+  evidenceHash: string | null
+  /** Optional deadline used for reminders; with an amount, missing it redirects the amount */
+  dueDate: string | null
+  /** Share of the vault amount tied to this milestone; null releases nothing on its own */
+  amount: string | null
+  releaseStatus: MilestoneReleaseStatus
+  settledAt: string | null
+  createdAt: string
+}
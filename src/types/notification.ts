@@ -6,6 +6,7 @@ export interface Notification {
   message: string
   data?: any
   read_at: string | null
+  archived_at: string | null
   created_at: string
 }
 
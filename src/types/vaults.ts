@@ -1,3 +1,25 @@
+export type VaultStatus = 'active' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * A vault as stored by the vault repository (mirrors the `vaults` table).
+ */
+export interface Vault {
+  id: string
+  creator: string
+  amount: string
+  startTimestamp: string
+  endTimestamp: string
+  successDestination: string
+  failureDestination: string
+  status: VaultStatus
+  createdAt: string
+  orgId?: string | null
+  /** Paid out to successDestination so far, by verified milestones or completion */
+  releasedAmount?: string
+  /** Sent to failureDestination so far, by missed milestones or failure */
+  redirectedAmount?: string
+}
+
 export interface MilestoneInput {
   title: string
   description?: string
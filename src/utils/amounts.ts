@@ -0,0 +1,39 @@
+/**
+ * Vault amounts are decimal strings with up to 7 fractional digits (the
+ * precision of Stellar amounts and of the `vaults.amount` column). Arithmetic
+ * is done in integer units of 10^-7 so balances never drift.
+ */
+export const AMOUNT_DECIMALS = 7
+
+const SCALE = 10n ** BigInt(AMOUNT_DECIMALS)
+const AMOUNT_REGEX = new RegExp(`^\\d+(\\.\\d{1,${AMOUNT_DECIMALS}})?$`)
+
+/**
+ * @returns The amount in units of 10^-7, or null when it is not a non-negative decimal
+ */
+export const parseAmount = (value: string): bigint | null => {
+  const trimmed = value.trim()
+  if (!AMOUNT_REGEX.test(trimmed)) return null
+
+  const [whole, fraction = ''] = trimmed.split('.')
+  return BigInt(whole) * SCALE + BigInt(fraction.padEnd(AMOUNT_DECIMALS, '0'))
+}
+
+export const isPositiveAmount = (value: string): boolean => (parseAmount(value) ?? 0n) > 0n
+
+/**
+ * Format units of 10^-7 without trailing zeros, e.g. `12.5`
+ */
+export const formatAmount = (units: bigint): string => {
+  const sign = units < 0n ? '-' : ''
+  const absolute = units < 0n ? -units : units
+  const whole = absolute / SCALE
+  const fraction = (absolute % SCALE).toString().padStart(AMOUNT_DECIMALS, '0').replace(/0+$/, '')
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`
+}
+
+/**
+ * Sum decimal strings. Values that do not parse count as zero.
+ */
+export const sumAmounts = (values: string[]): bigint =>
+  values.reduce((total, value) => total + (parseAmount(value) ?? 0n), 0n)
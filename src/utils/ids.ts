@@ -0,0 +1,7 @@
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Postgres rejects anything but a UUID in a `uuid` column, so ids taken from
+ * requests are checked first and an unknown id is simply not found.
+ */
+export const isUuid = (value: string): boolean => UUID_REGEX.test(value)
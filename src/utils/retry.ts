@@ -16,6 +16,19 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   backoffMultiplier: 2,
 }
 
+export type BackoffConfig = Omit<RetryConfig, 'maxAttempts'>
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt:
+ * initialBackoffMs, growing by backoffMultiplier each attempt up to maxBackoffMs
+ */
+export function getBackoffDelayMs(attempt: number, config: BackoffConfig = DEFAULT_RETRY_CONFIG): number {
+  return Math.min(
+    config.initialBackoffMs * config.backoffMultiplier ** Math.max(0, attempt - 1),
+    config.maxBackoffMs
+  )
+}
+
 /**
  * Sleep utility for backoff delays
  */
@@ -75,7 +88,6 @@ export async function retryWithBackoff<T>(
   isRetryableFn: (error: Error) => boolean = isRetryable
 ): Promise<T> {
   let lastError: Error
-  let backoffMs = config.initialBackoffMs
   
   for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
     try {
@@ -89,13 +101,7 @@ export async function retryWithBackoff<T>(
       }
       
       // Wait before retrying with exponential backoff
-      await sleep(backoffMs)
-      
-      // Calculate next backoff with cap
-      backoffMs = Math.min(
-        backoffMs * config.backoffMultiplier,
-        config.maxBackoffMs
-      )
+      await sleep(getBackoffDelayMs(attempt, config))
     }
   }
   
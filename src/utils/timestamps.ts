@@ -95,3 +95,37 @@ export function formatTimestamp(iso: string, options?: FormatTimestampOptions):
 
   return new Intl.DateTimeFormat(locale, { dateStyle, timeStyle, timeZone }).format(date)
 }
+
+/**
+ * Returns true when the value is an IANA timezone name Intl understands
+ * (e.g. 'Europe/Berlin', 'UTC').
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Minutes since local midnight (0-1439) of an instant in the given IANA timezone.
+ *
+ * @param date     - The instant to convert
+ * @param timeZone - IANA timezone (default: 'UTC')
+ */
+export function getLocalMinutesOfDay(date: Date, timeZone = 'UTC'): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0)
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0)
+  return hour * 60 + minute
+}
@@ -0,0 +1,97 @@
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+
+/**
+ * Loopback, private, link-local, shared and reserved ranges. Webhooks are
+ * sent from inside our network, so a subscriber must not be able to point
+ * one at the metadata service or an internal host.
+ */
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+const IPV4_MAPPED_PREFIX = '::ffff:'
+
+export class WebhookTargetError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookTargetError'
+  }
+}
+
+// Plain http and private targets are only for local receivers during development
+const allowsPlainHttp = (): boolean => (process.env.NODE_ENV ?? 'development') === 'development'
+
+const allowsPrivateTargets = (): boolean => process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true'
+
+const isBlockedAddress = (address: string): boolean => {
+  const lowered = address.toLowerCase()
+  if (lowered.startsWith(IPV4_MAPPED_PREFIX) && isIP(lowered.slice(IPV4_MAPPED_PREFIX.length)) === 4) {
+    return BLOCKED_ADDRESSES.check(lowered.slice(IPV4_MAPPED_PREFIX.length), 'ipv4')
+  }
+  const family = isIP(lowered)
+  return family === 0 || BLOCKED_ADDRESSES.check(lowered, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+// URL keeps IPv6 hosts in brackets
+const hostnameOf = (url: URL): string => url.hostname.replace(/^\[|\]$/g, '')
+
+/**
+ * Check a webhook URL before it is stored: https (http only in development),
+ * and not a literal private address or localhost. Names are resolved again
+ * on every delivery by `assertPublicWebhookTarget`.
+ */
+export const isWebhookUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && allowsPlainHttp())) return false
+  if (allowsPrivateTargets()) return true
+
+  const hostname = hostnameOf(url).toLowerCase()
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return false
+  return isIP(hostname) === 0 || !isBlockedAddress(hostname)
+}
+
+/**
+ * Resolve the host of a webhook URL right before sending to it and throw a
+ * `WebhookTargetError` when any address it resolves to is not public, so a
+ * DNS record changed after subscribing cannot reach internal hosts.
+ */
+export const assertPublicWebhookTarget = async (value: string): Promise<void> => {
+  if (!isWebhookUrl(value)) {
+    throw new WebhookTargetError('Webhook URL is not an allowed target')
+  }
+  if (allowsPrivateTargets()) return
+
+  const addresses = await lookup(hostnameOf(new URL(value)), { all: true, verbatim: true })
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new WebhookTargetError('Webhook URL resolves to a private or reserved address')
+  }
+}
@@ -0,0 +1,204 @@
+import { randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import type { WebhookEventType } from './subscriptions.js'
+import { isUuid } from '../utils/ids.js'
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed'
+
+/** The JSON body posted to the subscriber */
+export interface WebhookPayload {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookDelivery {
+  id: string
+  subscriptionId: string
+  /** Shared by every delivery of the same event, replays included, so receivers can dedupe */
+  eventId: string
+  eventType: WebhookEventType
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  /** The delivery this one replays */
+  replayOf: string | null
+  createdAt: string
+  lastAttemptAt: string | null
+  deliveredAt: string | null
+}
+
+export interface NewWebhookDelivery {
+  subscriptionId: string
+  payload: WebhookPayload
+  replayOf?: string | null
+}
+
+export interface WebhookDeliveryAttempt {
+  status: WebhookDeliveryStatus
+  responseStatus: number | null
+  error: string | null
+}
+
+export interface WebhookDeliveryLog {
+  create(input: NewWebhookDelivery): Promise<WebhookDelivery>
+  get(id: string): Promise<WebhookDelivery | null>
+  /** Newest first */
+  listBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]>
+  recordAttempt(id: string, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | null>
+}
+
+const buildDelivery = (input: NewWebhookDelivery): WebhookDelivery => ({
+  id: randomUUID(),
+  subscriptionId: input.subscriptionId,
+  eventId: input.payload.id,
+  eventType: input.payload.type,
+  payload: input.payload,
+  status: 'pending',
+  attempts: 0,
+  responseStatus: null,
+  error: null,
+  replayOf: input.replayOf ?? null,
+  createdAt: new Date().toISOString(),
+  lastAttemptAt: null,
+  deliveredAt: null,
+})
+
+export class InMemoryWebhookDeliveryLog implements WebhookDeliveryLog {
+  private readonly deliveries = new Map<string, WebhookDelivery>()
+
+  async create(input: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery = buildDelivery(input)
+    this.deliveries.set(delivery.id, delivery)
+    return { ...delivery }
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(id)
+    return delivery ? { ...delivery } : null
+  }
+
+  async listBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter((delivery) => delivery.subscriptionId === subscriptionId)
+      .reverse()
+      .slice(0, limit)
+      .map((delivery) => ({ ...delivery }))
+  }
+
+  async recordAttempt(id: string, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | null> {
+    const delivery = this.deliveries.get(id)
+    if (!delivery) return null
+
+    const now = new Date().toISOString()
+    Object.assign(delivery, attempt, {
+      attempts: delivery.attempts + 1,
+      lastAttemptAt: now,
+      deliveredAt: attempt.status === 'delivered' ? now : delivery.deliveredAt,
+    })
+    return { ...delivery }
+  }
+}
+
+interface WebhookDeliveryRow {
+  id: string
+  subscription_id: string
+  event_id: string
+  event_type: WebhookEventType
+  payload: WebhookPayload | string
+  status: WebhookDeliveryStatus
+  attempts: number
+  response_status: number | null
+  error: string | null
+  replay_of: string | null
+  created_at: Date | string
+  last_attempt_at: Date | string | null
+  delivered_at: Date | string | null
+}
+
+const toIso = (value: Date | string | null): string | null => (value ? new Date(value).toISOString() : null)
+
+const mapDeliveryRow = (row: WebhookDeliveryRow): WebhookDelivery => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  eventId: row.event_id,
+  eventType: row.event_type,
+  payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+  status: row.status,
+  attempts: row.attempts,
+  responseStatus: row.response_status,
+  error: row.error,
+  replayOf: row.replay_of,
+  createdAt: new Date(row.created_at).toISOString(),
+  lastAttemptAt: toIso(row.last_attempt_at),
+  deliveredAt: toIso(row.delivered_at),
+})
+
+export class PostgresWebhookDeliveryLog implements WebhookDeliveryLog {
+  constructor(private readonly db: Knex) {}
+
+  async create(input: NewWebhookDelivery): Promise<WebhookDelivery> {
+    const delivery = buildDelivery(input)
+    const [row] = await this.db('webhook_deliveries')
+      .insert({
+        id: delivery.id,
+        subscription_id: delivery.subscriptionId,
+        event_id: delivery.eventId,
+        event_type: delivery.eventType,
+        payload: JSON.stringify(delivery.payload),
+        status: delivery.status,
+        attempts: delivery.attempts,
+        replay_of: delivery.replayOf,
+        created_at: delivery.createdAt,
+      })
+      .returning('*')
+    return mapDeliveryRow(row)
+  }
+
+  async get(id: string): Promise<WebhookDelivery | null> {
+    if (!isUuid(id)) return null
+    const row = await this.db('webhook_deliveries').where({ id }).first()
+    return row ? mapDeliveryRow(row) : null
+  }
+
+  async listBySubscription(subscriptionId: string, limit: number): Promise<WebhookDelivery[]> {
+    const rows: WebhookDeliveryRow[] = await this.db('webhook_deliveries')
+      .where({ subscription_id: subscriptionId })
+      .orderBy('created_at', 'desc')
+      .limit(limit)
+    return rows.map(mapDeliveryRow)
+  }
+
+  async recordAttempt(id: string, attempt: WebhookDeliveryAttempt): Promise<WebhookDelivery | null> {
+    const now = new Date()
+    const [row] = await this.db('webhook_deliveries')
+      .where({ id })
+      .update({
+        status: attempt.status,
+        response_status: attempt.responseStatus,
+        error: attempt.error,
+        attempts: this.db.raw('attempts + 1'),
+        last_attempt_at: now,
+        ...(attempt.status === 'delivered' ? { delivered_at: now } : {}),
+      })
+      .returning('*')
+    return row ? mapDeliveryRow(row) : null
+  }
+}
+
+let deliveryLog: WebhookDeliveryLog | null = null
+
+export const getWebhookDeliveryLog = (): WebhookDeliveryLog => {
+  if (!deliveryLog) {
+    deliveryLog = process.env.DATABASE_URL ? new PostgresWebhookDeliveryLog(db) : new InMemoryWebhookDeliveryLog()
+  }
+  return deliveryLog
+}
+
+export const setWebhookDeliveryLog = (next: WebhookDeliveryLog | null): void => {
+  deliveryLog = next
+}
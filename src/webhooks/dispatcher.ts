@@ -0,0 +1,164 @@
+import { randomUUID } from 'node:crypto'
+import type { JobContext } from '../jobs/types.js'
+import type { RetryConfig } from '../utils/retry.js'
+import { assertPublicWebhookTarget } from '../utils/webhookTargets.js'
+import { getWebhookDeliveryLog, type WebhookDelivery, type WebhookPayload } from './deliveries.js'
+import { SIGNATURE_HEADER, signWebhookPayload } from './signing.js'
+import { getWebhookSubscriptionStore, type WebhookEventType } from './subscriptions.js'
+
+/**
+ * Backoff between delivery attempts of the `webhook.deliver` job. Eight
+ * attempts spread a delivery over roughly 20 minutes before it is failed.
+ */
+export const WEBHOOK_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 8,
+  initialBackoffMs: 10_000,
+  maxBackoffMs: 3_600_000,
+  backoffMultiplier: 2,
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+
+const deliveryTimeoutMs = (): number => {
+  const parsed = Number(process.env.WEBHOOK_TIMEOUT_MS)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS
+}
+
+export type WebhookEnqueuer = (deliveryId: string) => Promise<unknown>
+
+let enqueuer: WebhookEnqueuer | null = null
+
+/**
+ * Route deliveries through the job queue so failed attempts are retried
+ * with backoff. Set once at startup.
+ */
+export const setWebhookEnqueuer = (next: WebhookEnqueuer | null): void => {
+  enqueuer = next
+}
+
+/**
+ * Without an enqueuer a delivery gets a single inline attempt.
+ */
+const scheduleDelivery = async (deliveryId: string): Promise<void> => {
+  if (enqueuer) {
+    await enqueuer(deliveryId)
+    return
+  }
+
+  try {
+    await deliverWebhook(deliveryId, { jobId: randomUUID(), attempt: 1, maxAttempts: 1 })
+  } catch (error) {
+    console.error(`[webhooks] Delivery ${deliveryId} failed:`, error)
+  }
+}
+
+export interface WebhookEventOwner {
+  userId: string
+  orgId: string | null
+}
+
+/**
+ * Record a delivery for every active subscription of the user or their
+ * organization that wants `type`, and schedule it.
+ *
+ * @returns The deliveries created
+ */
+export const emitWebhookEvent = async (
+  type: WebhookEventType,
+  owner: WebhookEventOwner,
+  data: Record<string, unknown>,
+): Promise<WebhookDelivery[]> => {
+  const subscriptions = await getWebhookSubscriptionStore().listForEvent(type, owner.userId, owner.orgId)
+  if (subscriptions.length === 0) return []
+
+  const payload: WebhookPayload = {
+    id: `evt_${randomUUID()}`,
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  }
+
+  const log = getWebhookDeliveryLog()
+  const deliveries: WebhookDelivery[] = []
+  for (const subscription of subscriptions) {
+    try {
+      const delivery = await log.create({ subscriptionId: subscription.id, payload })
+      await scheduleDelivery(delivery.id)
+      deliveries.push(delivery)
+    } catch (error) {
+      console.error(`[webhooks] Failed to schedule ${type} for subscription ${subscription.id}:`, error)
+    }
+  }
+  return deliveries
+}
+
+/**
+ * Send a copy of a past delivery. The copy keeps the original event id.
+ */
+export const replayWebhookDelivery = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const replay = await getWebhookDeliveryLog().create({
+    subscriptionId: delivery.subscriptionId,
+    payload: delivery.payload,
+    replayOf: delivery.id,
+  })
+  await scheduleDelivery(replay.id)
+  return replay
+}
+
+/**
+ * Make one attempt at a delivery. Throws when the receiver does not answer
+ * with a 2xx so the job queue retries; the delivery stays `pending` until
+ * the last attempt fails.
+ */
+export const deliverWebhook = async (deliveryId: string, context: JobContext): Promise<void> => {
+  const log = getWebhookDeliveryLog()
+  const delivery = await log.get(deliveryId)
+  if (!delivery || delivery.status === 'delivered') return
+
+  const subscription = await getWebhookSubscriptionStore().get(delivery.subscriptionId)
+  if (!subscription?.active) {
+    await log.recordAttempt(deliveryId, {
+      status: 'failed',
+      responseStatus: null,
+      error: 'Subscription is disabled or deleted',
+    })
+    return
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  let responseStatus: number | null = null
+  let error: string | null = null
+
+  try {
+    await assertPublicWebhookTarget(subscription.url)
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Disciplr-Webhooks/1.0',
+        'X-Disciplr-Event': delivery.eventType,
+        'X-Disciplr-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body),
+      },
+      body,
+      // A redirect could point at an internal host, so it fails the attempt
+      redirect: 'manual',
+      signal: AbortSignal.timeout(deliveryTimeoutMs()),
+    })
+    responseStatus = response.status
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined)
+    if (!response.ok) error = `Receiver responded with HTTP ${response.status}`
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError)
+  }
+
+  if (!error) {
+    await log.recordAttempt(deliveryId, { status: 'delivered', responseStatus, error: null })
+    return
+  }
+
+  const lastAttempt = context.attempt >= (context.maxAttempts ?? 1)
+  await log.recordAttempt(deliveryId, { status: lastAttempt ? 'failed' : 'pending', responseStatus, error })
+  throw new Error(`Webhook delivery ${deliveryId} failed: ${error}`)
+}
@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+export const SIGNATURE_HEADER = 'X-Disciplr-Signature'
+
+/** Signatures older than this are rejected by verifyWebhookSignature */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300
+
+const computeSignature = (secret: string, timestamp: number, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+/**
+ * Value of the signature header: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Signing the timestamp with the body lets receivers reject replayed requests.
+ */
+export const signWebhookPayload = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string =>
+  `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`
+
+/**
+ * Check a signature header against the raw request body, as a receiver would.
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  now = Math.floor(Date.now() / 1000),
+): boolean => {
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const index = part.indexOf('=')
+      return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as const
+    }),
+  )
+
+  const timestamp = Number(parts.get('t'))
+  const signature = parts.get('v1')
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false
+  }
+
+  const expected = computeSignature(secret, timestamp, body)
+  return signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+}
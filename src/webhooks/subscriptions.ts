@@ -0,0 +1,247 @@
+import { randomBytes, randomUUID } from 'node:crypto'
+import { Knex } from 'knex'
+import { db } from '../db/index.js'
+import { isUuid } from '../utils/ids.js'
+
+export const WEBHOOK_EVENT_TYPES = [
+  'vault.created',
+  'vault.completed',
+  'vault.failed',
+  'vault.cancelled',
+  'milestone.validated',
+] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+export const isWebhookEventType = (value: unknown): value is WebhookEventType =>
+  typeof value === 'string' && WEBHOOK_EVENT_TYPES.includes(value as WebhookEventType)
+
+/** Exactly one of userId and orgId is set */
+export interface WebhookOwner {
+  userId?: string
+  orgId?: string
+}
+
+export interface WebhookSubscription {
+  id: string
+  userId: string | null
+  orgId: string | null
+  url: string
+  /** HMAC-SHA256 key for the signature header; only returned when created or rotated */
+  secret: string
+  eventTypes: WebhookEventType[]
+  description: string | null
+  active: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'>
+
+export interface NewWebhookSubscription {
+  owner: WebhookOwner
+  url: string
+  eventTypes: WebhookEventType[]
+  description: string | null
+}
+
+export type WebhookSubscriptionChanges = Partial<
+  Pick<WebhookSubscription, 'url' | 'eventTypes' | 'description' | 'active' | 'secret'>
+>
+
+export const toPublicWebhookSubscription = (subscription: WebhookSubscription): PublicWebhookSubscription => ({
+  id: subscription.id,
+  userId: subscription.userId,
+  orgId: subscription.orgId,
+  url: subscription.url,
+  eventTypes: subscription.eventTypes,
+  description: subscription.description,
+  active: subscription.active,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt,
+})
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(24).toString('hex')}`
+
+export const isOwnedBy = (subscription: WebhookSubscription, owner: WebhookOwner): boolean =>
+  owner.orgId ? subscription.orgId === owner.orgId : subscription.userId === (owner.userId ?? null)
+
+export interface WebhookSubscriptionStore {
+  create(input: NewWebhookSubscription): Promise<WebhookSubscription>
+  get(id: string): Promise<WebhookSubscription | null>
+  /** Oldest first */
+  listByOwner(owner: WebhookOwner): Promise<WebhookSubscription[]>
+  /** Active subscriptions of the user or the organization that want `type` */
+  listForEvent(type: WebhookEventType, userId: string, orgId: string | null): Promise<WebhookSubscription[]>
+  update(id: string, changes: WebhookSubscriptionChanges): Promise<WebhookSubscription | null>
+  delete(id: string): Promise<boolean>
+}
+
+const buildSubscription = (input: NewWebhookSubscription): WebhookSubscription => {
+  const now = new Date().toISOString()
+  return {
+    id: randomUUID(),
+    userId: input.owner.orgId ? null : input.owner.userId ?? null,
+    orgId: input.owner.orgId ?? null,
+    url: input.url,
+    secret: generateWebhookSecret(),
+    eventTypes: [...input.eventTypes],
+    description: input.description,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+export class InMemoryWebhookSubscriptionStore implements WebhookSubscriptionStore {
+  private readonly subscriptions = new Map<string, WebhookSubscription>()
+
+  async create(input: NewWebhookSubscription): Promise<WebhookSubscription> {
+    const subscription = buildSubscription(input)
+    this.subscriptions.set(subscription.id, subscription)
+    return { ...subscription }
+  }
+
+  async get(id: string): Promise<WebhookSubscription | null> {
+    const subscription = this.subscriptions.get(id)
+    return subscription ? { ...subscription } : null
+  }
+
+  async listByOwner(owner: WebhookOwner): Promise<WebhookSubscription[]> {
+    return [...this.subscriptions.values()]
+      .filter((subscription) => isOwnedBy(subscription, owner))
+      .map((subscription) => ({ ...subscription }))
+  }
+
+  async listForEvent(type: WebhookEventType, userId: string, orgId: string | null): Promise<WebhookSubscription[]> {
+    return [...this.subscriptions.values()]
+      .filter(
+        (subscription) =>
+          subscription.active &&
+          subscription.eventTypes.includes(type) &&
+          (subscription.userId === userId || (orgId !== null && subscription.orgId === orgId)),
+      )
+      .map((subscription) => ({ ...subscription }))
+  }
+
+  async update(id: string, changes: WebhookSubscriptionChanges): Promise<WebhookSubscription | null> {
+    const subscription = this.subscriptions.get(id)
+    if (!subscription) return null
+
+    Object.assign(subscription, changes, { updatedAt: new Date().toISOString() })
+    return { ...subscription }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.subscriptions.delete(id)
+  }
+}
+
+interface WebhookSubscriptionRow {
+  id: string
+  user_id: string | null
+  org_id: string | null
+  url: string
+  secret: string
+  event_types: WebhookEventType[] | string
+  description: string | null
+  active: boolean
+  created_at: Date | string
+  updated_at: Date | string
+}
+
+const mapSubscriptionRow = (row: WebhookSubscriptionRow): WebhookSubscription => ({
+  id: row.id,
+  userId: row.user_id,
+  orgId: row.org_id,
+  url: row.url,
+  secret: row.secret,
+  eventTypes: typeof row.event_types === 'string' ? JSON.parse(row.event_types) : row.event_types,
+  description: row.description,
+  active: row.active,
+  createdAt: new Date(row.created_at).toISOString(),
+  updatedAt: new Date(row.updated_at).toISOString(),
+})
+
+export class PostgresWebhookSubscriptionStore implements WebhookSubscriptionStore {
+  constructor(private readonly db: Knex) {}
+
+  async create(input: NewWebhookSubscription): Promise<WebhookSubscription> {
+    const subscription = buildSubscription(input)
+    const [row] = await this.db('webhook_subscriptions')
+      .insert({
+        id: subscription.id,
+        user_id: subscription.userId,
+        org_id: subscription.orgId,
+        url: subscription.url,
+        secret: subscription.secret,
+        event_types: JSON.stringify(subscription.eventTypes),
+        description: subscription.description,
+        active: subscription.active,
+        created_at: subscription.createdAt,
+        updated_at: subscription.updatedAt,
+      })
+      .returning('*')
+    return mapSubscriptionRow(row)
+  }
+
+  async get(id: string): Promise<WebhookSubscription | null> {
+    if (!isUuid(id)) return null
+    const row = await this.db('webhook_subscriptions').where({ id }).first()
+    return row ? mapSubscriptionRow(row) : null
+  }
+
+  async listByOwner(owner: WebhookOwner): Promise<WebhookSubscription[]> {
+    const rows: WebhookSubscriptionRow[] = await this.db('webhook_subscriptions')
+      .where(owner.orgId ? { org_id: owner.orgId } : { user_id: owner.userId ?? null, org_id: null })
+      .orderBy('created_at', 'asc')
+    return rows.map(mapSubscriptionRow)
+  }
+
+  async listForEvent(type: WebhookEventType, userId: string, orgId: string | null): Promise<WebhookSubscription[]> {
+    const rows: WebhookSubscriptionRow[] = await this.db('webhook_subscriptions')
+      .where({ active: true })
+      .whereRaw('event_types \\? ?', [type])
+      .andWhere((query) => {
+        query.where({ user_id: userId })
+        if (orgId !== null) query.orWhere({ org_id: orgId })
+      })
+    return rows.map(mapSubscriptionRow)
+  }
+
+  async update(id: string, changes: WebhookSubscriptionChanges): Promise<WebhookSubscription | null> {
+    if (!isUuid(id)) return null
+    const [row] = await this.db('webhook_subscriptions')
+      .where({ id })
+      .update({
+        ...(changes.url !== undefined ? { url: changes.url } : {}),
+        ...(changes.eventTypes !== undefined ? { event_types: JSON.stringify(changes.eventTypes) } : {}),
+        ...(changes.description !== undefined ? { description: changes.description } : {}),
+        ...(changes.active !== undefined ? { active: changes.active } : {}),
+        ...(changes.secret !== undefined ? { secret: changes.secret } : {}),
+        updated_at: new Date(),
+      })
+      .returning('*')
+    return row ? mapSubscriptionRow(row) : null
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false
+    return (await this.db('webhook_subscriptions').where({ id }).delete()) > 0
+  }
+}
+
+let store: WebhookSubscriptionStore | null = null
+
+export const getWebhookSubscriptionStore = (): WebhookSubscriptionStore => {
+  if (!store) {
+    store = process.env.DATABASE_URL
+      ? new PostgresWebhookSubscriptionStore(db)
+      : new InMemoryWebhookSubscriptionStore()
+  }
+  return store
+}
+
+export const setWebhookSubscriptionStore = (next: WebhookSubscriptionStore | null): void => {
+  store = next
+}
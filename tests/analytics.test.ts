@@ -1,29 +1,37 @@
-import { db, initializeDatabase, getTimeRangeFilter, updateAnalyticsSummary } from '../src/db/database.js'
+import { InMemoryVaultRepository, setVaultRepository } from '../src/repositories/vaultRepository.js'
+import type { VaultStatus } from '../src/types/vaults.js'
 import {
+    getTimeRangeFilter,
     getOverallAnalytics,
     getAnalyticsByPeriod,
     getVaultStatusBreakdown,
     getCapitalAnalytics,
 } from '../src/services/analytics.service.js'
 
-describe('Analytics Service', () => {
-    beforeAll(() => {
-        // Use test database
-        initializeDatabase()
+let repository: InMemoryVaultRepository
+
+const insertVault = (id: string, creator: string, amount: string, status: VaultStatus, createdAt: string) =>
+    repository.create({
+        id,
+        creator,
+        amount,
+        status,
+        startTimestamp: createdAt,
+        endTimestamp: '2026-12-31T00:00:00.000Z',
+        successDestination: '0xA',
+        failureDestination: '0xB',
+        createdAt,
     })
 
+describe('Analytics Service', () => {
     beforeEach(() => {
-        // Clear vaults table before each test
-        db.prepare('DELETE FROM vaults').run()
-        db.prepare('DELETE FROM vault_analytics_summary').run()
-        db.prepare(`
-      INSERT INTO vault_analytics_summary (id, total_vaults, active_vaults, completed_vaults, failed_vaults, total_locked_capital, active_capital, success_rate, last_updated)
-      VALUES (1, 0, 0, 0, 0, '0', '0', 0, datetime('now'))
-    `).run()
+        // Fresh in-memory vaults for each test
+        repository = new InMemoryVaultRepository()
+        setVaultRepository(repository)
     })
 
     afterAll(() => {
-        db.close()
+        setVaultRepository(null)
     })
 
     describe('getTimeRangeFilter', () => {
@@ -66,8 +74,8 @@ describe('Analytics Service', () => {
     })
 
     describe('getOverallAnalytics', () => {
-        it('should return zero analytics when no vaults exist', () => {
-            const analytics = getOverallAnalytics()
+        it('should return zero analytics when no vaults exist', async () => {
+            const analytics = await getOverallAnalytics()
             expect(analytics.totalVaults).toBe(0)
             expect(analytics.activeVaults).toBe(0)
             expect(analytics.completedVaults).toBe(0)
@@ -77,26 +85,13 @@ describe('Analytics Service', () => {
             expect(analytics.successRate).toBe(0)
         })
 
-        it('should return correct analytics with vaults', () => {
+        it('should return correct analytics with vaults', async () => {
             // Insert test vaults
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-1', 'user1', '1000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'active', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-2', 'user2', '2000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'completed', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-3', 'user3', '3000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'failed', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
+            await insertVault('vault-1', 'user1', '1000', 'active', '2026-01-01T00:00:00.000Z')
+            await insertVault('vault-2', 'user2', '2000', 'completed', '2026-01-01T00:00:00.000Z')
+            await insertVault('vault-3', 'user3', '3000', 'failed', '2026-01-01T00:00:00.000Z')
 
-            updateAnalyticsSummary()
-
-            const analytics = getOverallAnalytics()
+            const analytics = await getOverallAnalytics()
             expect(analytics.totalVaults).toBe(3)
             expect(analytics.activeVaults).toBe(1)
             expect(analytics.completedVaults).toBe(1)
@@ -108,62 +103,42 @@ describe('Analytics Service', () => {
     })
 
     describe('getAnalyticsByPeriod', () => {
-        it('should filter vaults by time period', () => {
+        it('should filter vaults by time period', async () => {
             // Insert vault from 15 days ago
             const fifteenDaysAgo = new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString()
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-old', 'user1', '1000', fifteenDaysAgo, '2026-12-31T00:00:00Z', '0xA', '0xB', 'completed', fifteenDaysAgo, fifteenDaysAgo)
+            await insertVault('vault-old', 'user1', '1000', 'completed', fifteenDaysAgo)
 
             // Insert vault from today
             const today = new Date().toISOString()
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-new', 'user2', '2000', today, '2026-12-31T00:00:00Z', '0xA', '0xB', 'active', today, today)
+            await insertVault('vault-new', 'user2', '2000', 'active', today)
 
             // 30d should include both
-            const analytics30d = getAnalyticsByPeriod('30d')
+            const analytics30d = await getAnalyticsByPeriod('30d')
             expect(analytics30d.totalVaults).toBe(2)
 
             // 7d should only include the new vault
-            const analytics7d = getAnalyticsByPeriod('7d')
+            const analytics7d = await getAnalyticsByPeriod('7d')
             expect(analytics7d.totalVaults).toBe(1)
         })
     })
 
     describe('getVaultStatusBreakdown', () => {
-        it('should return correct status breakdown', () => {
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-1', 'user1', '1000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'active', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-2', 'user2', '2000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'completed', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            const breakdown = getVaultStatusBreakdown()
+        it('should return correct status breakdown', async () => {
+            await insertVault('vault-1', 'user1', '1000', 'active', '2026-01-01T00:00:00.000Z')
+            await insertVault('vault-2', 'user2', '2000', 'completed', '2026-01-01T00:00:00.000Z')
+
+            const breakdown = await getVaultStatusBreakdown()
             expect(breakdown.byStatus.active).toBe(1)
             expect(breakdown.byStatus.completed).toBe(1)
         })
     })
 
     describe('getCapitalAnalytics', () => {
-        it('should return correct capital analytics', () => {
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-1', 'user1', '1000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'active', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            db.prepare(`
-        INSERT INTO vaults (id, creator, amount, start_timestamp, end_timestamp, success_destination, failure_destination, status, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run('vault-2', 'user2', '2000', '2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', '0xA', '0xB', 'completed', '2026-01-01T00:00:00Z', '2026-01-01T00:00:00Z')
-
-            const capital = getCapitalAnalytics('all')
+        it('should return correct capital analytics', async () => {
+            await insertVault('vault-1', 'user1', '1000', 'active', '2026-01-01T00:00:00.000Z')
+            await insertVault('vault-2', 'user2', '2000', 'completed', '2026-01-01T00:00:00.000Z')
+
+            const capital = await getCapitalAnalytics('all')
             expect(capital.totalLockedCapital).toBe('3000')
             expect(capital.activeCapital).toBe('1000')
             expect(capital.averageVaultSize).toBe('1500.00')